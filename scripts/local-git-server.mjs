@@ -0,0 +1,350 @@
+#!/usr/bin/env node
+/**
+ * Local git server for Repo Timeline
+ *
+ * Serves the history of repositories on disk as RawCommitData JSON so the
+ * visualizer can run against private repos without GitHub or tokens.
+ *
+ * Usage:
+ *   node scripts/local-git-server.mjs [root-dir] [--port 4174] [--host 127.0.0.1] [--max-commits 500]
+ *
+ * Endpoints:
+ *   GET /health
+ *   GET /api/commits?path=<dir relative to root>[&ref=<branch, tag or sha>]
+ *
+ * Each commit carries the complete file list with real blob sizes in bytes.
+ * History follows the first parent of the ref (HEAD by default), so merges
+ * appear as one commit.
+ */
+
+import { execFile, spawn } from "node:child_process";
+import { createServer } from "node:http";
+import { isAbsolute, relative, resolve } from "node:path";
+
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+const ZERO_SHA = /^0+$/;
+
+// CORS headers so the visualizer can run on a different origin
+const CORS_HEADERS = {
+	"Access-Control-Allow-Origin": "*",
+	"Access-Control-Allow-Methods": "GET, OPTIONS",
+	"Access-Control-Allow-Headers": "Content-Type",
+};
+
+function parseArgs(argv) {
+	const options = {
+		root: process.cwd(),
+		port: 4174,
+		host: "127.0.0.1",
+		maxCommits: 500,
+	};
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (arg === "--port") {
+			options.port = Number.parseInt(argv[++i], 10);
+		} else if (arg === "--host") {
+			options.host = argv[++i];
+		} else if (arg === "--max-commits") {
+			options.maxCommits = Number.parseInt(argv[++i], 10);
+		} else if (!arg.startsWith("--")) {
+			options.root = resolve(arg);
+		} else {
+			throw new Error(`Unknown option: ${arg}`);
+		}
+	}
+
+	return options;
+}
+
+/**
+ * Run a git command and resolve with its stdout
+ */
+function git(cwd, args, input) {
+	return new Promise((resolvePromise, reject) => {
+		if (input === undefined) {
+			execFile(
+				"git",
+				["-c", "core.quotePath=false", ...args],
+				{ cwd, maxBuffer: 1024 * 1024 * 1024 },
+				(error, stdout, stderr) => {
+					if (error) {
+						reject(new Error(stderr.trim() || error.message));
+					} else {
+						resolvePromise(stdout);
+					}
+				},
+			);
+			return;
+		}
+
+		// Commands that read from stdin (cat-file --batch-check)
+		const child = spawn("git", args, { cwd });
+		const chunks = [];
+		const errors = [];
+		child.stdout.on("data", (chunk) => chunks.push(chunk));
+		child.stderr.on("data", (chunk) => errors.push(chunk));
+		child.on("error", reject);
+		child.on("close", (code) => {
+			if (code === 0) {
+				resolvePromise(Buffer.concat(chunks).toString());
+			} else {
+				reject(new Error(Buffer.concat(errors).toString().trim()));
+			}
+		});
+		child.stdin.end(input);
+	});
+}
+
+/**
+ * Parse `git log --raw -z` output into commits with their file changes
+ * Paths are NUL-terminated and unquoted, so tabs, quotes and newlines in file
+ * names come through as they are
+ */
+function parseLog(output) {
+	const commits = [];
+
+	for (const record of output.split(RECORD_SEPARATOR)) {
+		if (!record.trim()) continue;
+
+		const [header, ...tokens] = record.split("\0");
+		const [hash, parents, author, date, message] =
+			header.split(FIELD_SEPARATOR);
+		const changes = [];
+
+		for (let i = 0; i < tokens.length; i++) {
+			// The first change follows the header's newline
+			const meta = tokens[i].replace(/^\n/, "");
+			if (!meta.startsWith(":")) continue;
+
+			// :100644 100644 <old-sha> <new-sha> <status>, then one path, or the
+			// old and new paths for renames and copies
+			const [, newMode, , newSha, status] = meta.split(" ");
+			const twoPaths = status[0] === "R" || status[0] === "C";
+			const previousPath = twoPaths ? tokens[++i] : undefined;
+			const path = tokens[++i];
+			changes.push({
+				status: status[0],
+				newMode,
+				newSha,
+				path,
+				previousPath,
+			});
+		}
+
+		commits.push({
+			hash,
+			parents: parents ? parents.split(" ") : [],
+			author,
+			date,
+			message,
+			changes,
+		});
+	}
+
+	return commits;
+}
+
+/**
+ * Look up blob sizes for a set of object ids in a single git process
+ */
+async function fetchBlobSizes(cwd, shas) {
+	const sizes = new Map();
+	if (shas.size === 0) return sizes;
+
+	const output = await git(
+		cwd,
+		["cat-file", "--batch-check"],
+		`${Array.from(shas).join("\n")}\n`,
+	);
+
+	for (const line of output.split("\n")) {
+		const [sha, type, size] = line.split(" ");
+		if (type === "blob") {
+			sizes.set(sha, Number.parseInt(size, 10));
+		}
+	}
+
+	return sizes;
+}
+
+/**
+ * Load the file state of the commit just before the first commit in range
+ */
+async function fetchInitialState(cwd, firstCommit) {
+	const state = new Map();
+
+	let parent;
+	try {
+		parent = (
+			await git(cwd, ["rev-parse", "--verify", "--quiet", `${firstCommit}^`])
+		).trim();
+	} catch (_error) {
+		// Root commit - nothing before it
+		return state;
+	}
+
+	const output = await git(cwd, ["ls-tree", "-r", "-l", "-z", parent]);
+	for (const line of output.split("\0")) {
+		if (!line) continue;
+		// <mode> <type> <sha> <size>\t<path> - the path may hold tabs itself
+		const tab = line.indexOf("\t");
+		const path = line.slice(tab + 1);
+		const [, type, , size] = line.slice(0, tab).split(/\s+/);
+		if (type === "blob") {
+			state.set(path, Number.parseInt(size, 10));
+		}
+	}
+
+	return state;
+}
+
+/**
+ * Build RawCommitData snapshots for the repository in `cwd`
+ */
+async function buildCommitSnapshots(cwd, maxCommits, ref = "HEAD") {
+	const log = await git(cwd, [
+		"log",
+		"--reverse",
+		"--first-parent",
+		"-m",
+		"-M",
+		"--raw",
+		"-z",
+		"--no-abbrev",
+		`--max-count=${maxCommits}`,
+		`--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%P${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`,
+		ref,
+		"--",
+	]);
+
+	const commits = parseLog(log);
+	if (commits.length === 0) return [];
+
+	const blobShas = new Set();
+	for (const commit of commits) {
+		for (const change of commit.changes) {
+			// Skip deletions and submodules (mode 160000)
+			if (!ZERO_SHA.test(change.newSha) && change.newMode !== "160000") {
+				blobShas.add(change.newSha);
+			}
+		}
+	}
+
+	const [sizes, fileState] = await Promise.all([
+		fetchBlobSizes(cwd, blobShas),
+		fetchInitialState(cwd, commits[0].hash),
+	]);
+
+	return commits.map((commit) => {
+		const renames = [];
+		for (const change of commit.changes) {
+			if (change.status === "D") {
+				fileState.delete(change.path);
+				continue;
+			}
+			if (change.status === "R" && change.previousPath) {
+				fileState.delete(change.previousPath);
+				renames.push({ path: change.path, previousPath: change.previousPath });
+			}
+			const size = sizes.get(change.newSha);
+			if (size !== undefined) {
+				fileState.set(change.path, size);
+			}
+		}
+
+		return {
+			hash: commit.hash.substring(0, 7),
+			// --first-parent keeps merged branches off the timeline, but merges still list every parent
+			parents: commit.parents.map((parent) => parent.substring(0, 7)),
+			message: commit.message,
+			author: commit.author,
+			date: commit.date,
+			files: Array.from(fileState, ([path, size]) => ({ path, size })),
+			renames,
+		};
+	});
+}
+
+/**
+ * Resolve a requested repo path inside the server root, rejecting escapes
+ */
+function resolveRepoDir(root, requestedPath) {
+	const repoDir = resolve(root, requestedPath || ".");
+	const rel = relative(root, repoDir);
+	if (rel.startsWith("..") || isAbsolute(rel)) {
+		return null;
+	}
+	return repoDir;
+}
+
+function sendJson(response, status, body) {
+	response.writeHead(status, {
+		...CORS_HEADERS,
+		"Content-Type": "application/json",
+	});
+	response.end(JSON.stringify(body));
+}
+
+function startServer(options) {
+	const server = createServer(async (request, response) => {
+		if (request.method === "OPTIONS") {
+			response.writeHead(204, CORS_HEADERS);
+			response.end();
+			return;
+		}
+
+		const url = new URL(request.url || "/", `http://${request.headers.host}`);
+
+		if (url.pathname === "/health") {
+			sendJson(response, 200, { status: "ok", root: options.root });
+			return;
+		}
+
+		if (url.pathname !== "/api/commits") {
+			sendJson(response, 404, { error: "Invalid endpoint" });
+			return;
+		}
+
+		const repoDir = resolveRepoDir(options.root, url.searchParams.get("path"));
+		if (!repoDir) {
+			sendJson(response, 400, { error: "Path must be inside the server root" });
+			return;
+		}
+
+		// Refs starting with "-" would be parsed as git options
+		const ref = url.searchParams.get("ref") || "HEAD";
+		if (ref.startsWith("-")) {
+			sendJson(response, 400, { error: `Invalid ref: ${ref}` });
+			return;
+		}
+
+		try {
+			const started = Date.now();
+			const commits = await buildCommitSnapshots(
+				repoDir,
+				options.maxCommits,
+				ref,
+			);
+			console.log(
+				`Served ${commits.length} commits from ${repoDir}@${ref} in ${Date.now() - started}ms`,
+			);
+			sendJson(response, 200, commits);
+		} catch (error) {
+			console.error(`Error reading ${repoDir}:`, error);
+			sendJson(response, 500, {
+				error:
+					error instanceof Error ? error.message : "Failed to read git history",
+			});
+		}
+	});
+
+	server.listen(options.port, options.host, () => {
+		console.log(
+			`Local git server for ${options.root} listening on http://${options.host}:${options.port}`,
+		);
+	});
+}
+
+startServer(parseArgs(process.argv.slice(2)));
@@ -0,0 +1,83 @@
+import { Sphere, Text } from "@react-three/drei";
+import { useFrame } from "@react-three/fiber";
+import { useState } from "react";
+import * as THREE from "three";
+import { FileNode } from "../types";
+import {
+	getAggregateRadius,
+	getFocalLength,
+	getScreenRadius,
+	LABEL_MIN_PIXELS,
+} from "../utils/levelOfDetail";
+
+interface AggregateNode3DProps {
+	node: FileNode; // The collapsed directory
+	totalSize: number;
+	fileCount: number;
+	onClick?: (node: FileNode) => void;
+	onDoubleClick?: (node: FileNode) => void;
+}
+
+/**
+ * A distant directory drawn as one bubble sized by the bytes below it
+ * Double-clicking it focuses the directory, which expands it again
+ */
+export function AggregateNode3D({
+	node,
+	totalSize,
+	fileCount,
+	onClick,
+	onDoubleClick,
+}: AggregateNode3DProps) {
+	const [labelVisible, setLabelVisible] = useState(false);
+	const radius = getAggregateRadius(totalSize);
+	const x = node.x || 0;
+	const y = node.y || 0;
+	const z = node.z || 0;
+
+	useFrame(({ camera, size }) => {
+		const distance = Math.hypot(
+			camera.position.x - x,
+			camera.position.y - y,
+			camera.position.z - z,
+		);
+		const focalLength = getFocalLength(
+			(camera as THREE.PerspectiveCamera).fov,
+			size.height,
+		);
+		const visible =
+			getScreenRadius(radius, distance, focalLength) >= LABEL_MIN_PIXELS;
+		if (visible !== labelVisible) setLabelVisible(visible);
+	});
+
+	return (
+		<group position={[x, y, z]}>
+			<Sphere
+				args={[radius, 24, 24]}
+				onClick={() => onClick?.(node)}
+				onDoubleClick={() => onDoubleClick?.(node)}
+			>
+				<meshStandardMaterial
+					color="#60a5fa"
+					emissive="#60a5fa"
+					emissiveIntensity={0.3}
+					roughness={0.4}
+					metalness={0.3}
+					transparent
+					opacity={0.55}
+				/>
+			</Sphere>
+			{labelVisible && (
+				<Text
+					position={[0, radius + 1.5, 0]}
+					fontSize={1.6}
+					color="white"
+					anchorX="center"
+					anchorY="middle"
+				>
+					{`${node.name} (${fileCount} ${fileCount === 1 ? "file" : "files"})`}
+				</Text>
+			)}
+		</group>
+	);
+}
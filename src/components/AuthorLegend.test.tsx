@@ -0,0 +1,72 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { AuthorLegendEntry } from "../utils/colorModes";
+import { AuthorLegend } from "./AuthorLegend";
+
+const entries: AuthorLegendEntry[] = [
+	{ author: "alice", commits: 5, color: "#f472b6" },
+	{ author: "bob", commits: 2, color: "#38bdf8" },
+];
+
+describe("AuthorLegend", () => {
+	it("should list authors with their commit counts", () => {
+		render(
+			<AuthorLegend
+				entries={entries}
+				highlightedAuthor={null}
+				onSelect={vi.fn()}
+			/>,
+		);
+
+		expect(screen.getByText("alice")).toBeInTheDocument();
+		expect(screen.getByText("5")).toBeInTheDocument();
+		expect(screen.getByText("bob")).toBeInTheDocument();
+	});
+
+	it("should highlight an author on click and clear on a second click", () => {
+		const onSelect = vi.fn();
+		const { rerender } = render(
+			<AuthorLegend
+				entries={entries}
+				highlightedAuthor={null}
+				onSelect={onSelect}
+			/>,
+		);
+
+		fireEvent.click(screen.getByText("alice"));
+		expect(onSelect).toHaveBeenLastCalledWith("alice");
+
+		rerender(
+			<AuthorLegend
+				entries={entries}
+				highlightedAuthor="alice"
+				onSelect={onSelect}
+			/>,
+		);
+		expect(screen.getByText("alice").closest("button")).toHaveAttribute(
+			"aria-pressed",
+			"true",
+		);
+
+		fireEvent.click(screen.getByText("alice"));
+		expect(onSelect).toHaveBeenLastCalledWith(null);
+	});
+
+	it("should sum up authors beyond the list", () => {
+		const many = Array.from({ length: 14 }, (_, i) => ({
+			author: `author${i}`,
+			commits: 1,
+			color: "#ffffff",
+		}));
+		render(
+			<AuthorLegend
+				entries={many}
+				highlightedAuthor={null}
+				onSelect={vi.fn()}
+			/>,
+		);
+
+		expect(screen.getByText("2 more authors")).toBeInTheDocument();
+		expect(screen.queryByText("author12")).not.toBeInTheDocument();
+	});
+});
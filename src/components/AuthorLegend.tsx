@@ -0,0 +1,66 @@
+import {
+	type AuthorLegendEntry,
+	OTHER_AUTHORS_COLOR,
+} from "../utils/colorModes";
+
+// Authors listed individually; the rest are summed up in one row
+const MAX_ENTRIES = 12;
+
+interface AuthorLegendProps {
+	entries: AuthorLegendEntry[];
+	highlightedAuthor: string | null;
+	onSelect: (author: string | null) => void; // null clears the highlight
+}
+
+/**
+ * Legend for the author colour mode - click an author to highlight their files
+ */
+export function AuthorLegend({
+	entries,
+	highlightedAuthor,
+	onSelect,
+}: AuthorLegendProps) {
+	const shown = entries.slice(0, MAX_ENTRIES);
+	const others = entries.slice(MAX_ENTRIES);
+	const otherCommits = others.reduce((sum, { commits }) => sum + commits, 0);
+
+	return (
+		<div className="bg-gray-900 bg-opacity-90 text-white p-3 rounded-lg border border-gray-700 text-xs w-56">
+			<div className="text-sm font-semibold mb-2">Authors</div>
+			<ul className="space-y-1">
+				{shown.map(({ author, commits, color }) => (
+					<li key={author}>
+						<button
+							onClick={() =>
+								onSelect(highlightedAuthor === author ? null : author)
+							}
+							className={`w-full flex items-center gap-2 px-1 rounded hover:bg-gray-800 ${
+								highlightedAuthor === author ? "bg-gray-800" : ""
+							}`}
+							aria-pressed={highlightedAuthor === author}
+						>
+							<span
+								className="w-3 h-3 rounded-full shrink-0"
+								style={{ backgroundColor: color }}
+							/>
+							<span className="truncate flex-1 text-left">{author}</span>
+							<span className="text-gray-400">{commits}</span>
+						</button>
+					</li>
+				))}
+				{others.length > 0 && (
+					<li className="flex items-center gap-2 px-1 text-gray-400">
+						<span
+							className="w-3 h-3 rounded-full shrink-0"
+							style={{ backgroundColor: OTHER_AUTHORS_COLOR }}
+						/>
+						<span className="flex-1">
+							{others.length} more {others.length === 1 ? "author" : "authors"}
+						</span>
+						<span>{otherCommits}</span>
+					</li>
+				)}
+			</ul>
+		</div>
+	);
+}
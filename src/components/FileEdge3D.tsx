@@ -54,8 +54,16 @@ export function FileEdge3D({ edge, nodes }: FileEdge3DProps) {
 		.sub(direction.clone().multiplyScalar(targetRadius));
 
 	// Create a tube geometry for the edge with visible thickness
+	// Dependency edges are thinner so the directory structure stays readable
+	const isDependency = edge.type === "dependency";
 	const path = new THREE.LineCurve3(start, end);
-	const geometry = new THREE.TubeGeometry(path, 1, 0.3, 8, false);
+	const geometry = new THREE.TubeGeometry(
+		path,
+		1,
+		isDependency ? 0.15 : 0.3,
+		8,
+		false,
+	);
 
 	// Bright colors for visibility against dark background
 	// Parent relationships (directory structure) in white
@@ -64,9 +72,32 @@ export function FileEdge3D({ edge, nodes }: FileEdge3DProps) {
 
 	if (!geometry) return null;
 
-	return (
+	const edgeMesh = (
 		<mesh geometry={geometry}>
-			<meshBasicMaterial color={color} opacity={0.8} transparent />
+			<meshBasicMaterial
+				color={color}
+				opacity={isDependency ? 0.45 : 0.8}
+				transparent
+				depthWrite={!isDependency}
+			/>
 		</mesh>
 	);
+
+	if (!isDependency) return edgeMesh;
+
+	// Arrowhead at the imported file shows the import direction
+	const arrowRotation = new THREE.Quaternion().setFromUnitVectors(
+		new THREE.Vector3(0, 1, 0),
+		direction,
+	);
+
+	return (
+		<group>
+			{edgeMesh}
+			<mesh position={end} quaternion={arrowRotation}>
+				<coneGeometry args={[0.6, 1.5, 8]} />
+				<meshBasicMaterial color={color} opacity={0.6} transparent />
+			</mesh>
+		</group>
+	);
 }
@@ -0,0 +1,104 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { FileHistoryEntry } from "../utils/fileHistory";
+import { FileHistoryPanel } from "./FileHistoryPanel";
+
+const entries: FileHistoryEntry[] = [
+	{
+		index: 0,
+		commit: {
+			hash: "c0",
+			message: "Add the parser\n\nWith tests",
+			author: "alice",
+			date: new Date(2024, 0, 1),
+		},
+		change: {
+			path: "src/old.ts",
+			insertions: 40,
+			deletions: 0,
+			status: "added",
+			size: 1600,
+		},
+	},
+	{
+		index: 3,
+		commit: {
+			hash: "c3",
+			message: "Move the parser",
+			author: "bob",
+			date: new Date(2024, 0, 5),
+		},
+		change: {
+			path: "src/parser.ts",
+			oldPath: "src/old.ts",
+			insertions: 2,
+			deletions: 5,
+			status: "renamed",
+			size: 1480,
+		},
+	},
+];
+
+const timeRange = {
+	start: new Date(2024, 0, 1).getTime(),
+	end: new Date(2024, 0, 10).getTime(),
+};
+
+describe("FileHistoryPanel", () => {
+	it("should list commits newest first with line counts and renames", () => {
+		render(
+			<FileHistoryPanel
+				entries={entries}
+				currentIndex={5}
+				timeRange={timeRange}
+				onSelect={vi.fn()}
+			/>,
+		);
+
+		const items = screen.getAllByRole("listitem");
+		expect(items[0]).toHaveTextContent("Move the parser");
+		expect(items[0]).toHaveTextContent("+2");
+		expect(items[0]).toHaveTextContent("−5");
+		expect(items[0]).toHaveTextContent("Renamed from src/old.ts");
+		expect(items[1]).toHaveTextContent("Add the parser");
+		expect(items[1]).not.toHaveTextContent("With tests");
+		expect(screen.getByText("History (2 commits)")).toBeInTheDocument();
+		expect(
+			screen.getByRole("img", { name: "File size over time" }),
+		).toBeInTheDocument();
+	});
+
+	it("should mark the version shown at the current commit", () => {
+		render(
+			<FileHistoryPanel
+				entries={entries}
+				currentIndex={2}
+				timeRange={timeRange}
+				onSelect={vi.fn()}
+			/>,
+		);
+
+		expect(
+			screen.getByText("Add the parser").closest("button"),
+		).toHaveAttribute("aria-current", "true");
+		expect(
+			screen.getByText("Move the parser").closest("button"),
+		).toHaveAttribute("aria-current", "false");
+	});
+
+	it("should seek to a commit when clicked", () => {
+		const onSelect = vi.fn();
+		render(
+			<FileHistoryPanel
+				entries={entries}
+				currentIndex={5}
+				timeRange={timeRange}
+				onSelect={onSelect}
+			/>,
+		);
+
+		fireEvent.click(screen.getByText("Move the parser"));
+
+		expect(onSelect).toHaveBeenCalledWith(3);
+	});
+});
@@ -0,0 +1,145 @@
+import type { FileHistoryEntry } from "../utils/fileHistory";
+
+interface FileHistoryPanelProps {
+	entries: FileHistoryEntry[]; // Oldest first
+	currentIndex: number; // Timeline index of the commit being shown
+	timeRange: { start: number; end: number };
+	onSelect: (index: number) => void; // Seek the timeline to a commit
+}
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 36;
+
+/**
+ * The entry for the version of the file shown at a timeline index
+ */
+function findShownEntry(
+	entries: FileHistoryEntry[],
+	currentIndex: number,
+): FileHistoryEntry | undefined {
+	for (let i = entries.length - 1; i >= 0; i--) {
+		if (entries[i].index <= currentIndex) return entries[i];
+	}
+	return undefined;
+}
+
+/**
+ * Step line of the file's size after each commit that changed it, across the
+ * loaded time range, with a marker at the version being shown
+ */
+function SizeSparkline({
+	entries,
+	shown,
+	timeRange,
+}: {
+	entries: FileHistoryEntry[];
+	shown?: FileHistoryEntry;
+	timeRange: { start: number; end: number };
+}) {
+	const points = entries.flatMap(({ commit, change }) =>
+		change?.size === undefined
+			? []
+			: [{ time: commit.date.getTime(), size: change.size }],
+	);
+	if (points.length === 0) return null;
+
+	const span = Math.max(1, timeRange.end - timeRange.start);
+	const maxSize = Math.max(1, ...points.map(({ size }) => size));
+	const x = (time: number) =>
+		((time - timeRange.start) / span) * SPARKLINE_WIDTH;
+	const y = (size: number) =>
+		SPARKLINE_HEIGHT - 2 - (size / maxSize) * (SPARKLINE_HEIGHT - 4);
+
+	let path = `M ${x(points[0].time)} ${y(points[0].size)}`;
+	for (let i = 1; i < points.length; i++) {
+		path += ` H ${x(points[i].time)} V ${y(points[i].size)}`;
+	}
+	path += ` H ${SPARKLINE_WIDTH}`;
+
+	const marker = shown ? x(shown.commit.date.getTime()) : null;
+
+	return (
+		<svg
+			width={SPARKLINE_WIDTH}
+			height={SPARKLINE_HEIGHT}
+			className="mb-2"
+			role="img"
+			aria-label="File size over time"
+		>
+			<path d={path} fill="none" stroke="#22d3ee" strokeWidth={1.5} />
+			{marker !== null && (
+				<line
+					x1={marker}
+					x2={marker}
+					y1={0}
+					y2={SPARKLINE_HEIGHT}
+					stroke="#ffffff"
+					strokeOpacity={0.5}
+				/>
+			)}
+		</svg>
+	);
+}
+
+/**
+ * Commits in the loaded range that touched the selected file, newest first
+ */
+export function FileHistoryPanel({
+	entries,
+	currentIndex,
+	timeRange,
+	onSelect,
+}: FileHistoryPanelProps) {
+	const shown = findShownEntry(entries, currentIndex);
+
+	return (
+		<div className="mt-3 border-t border-gray-700 pt-3">
+			<div className="text-sm font-semibold mb-2">
+				History ({entries.length} {entries.length === 1 ? "commit" : "commits"})
+			</div>
+			<SizeSparkline entries={entries} shown={shown} timeRange={timeRange} />
+			<ul className="space-y-1 max-h-64 overflow-y-auto text-xs">
+				{[...entries].reverse().map((entry) => {
+					const { index, commit, change } = entry;
+					return (
+						<li key={commit.hash}>
+							<button
+								onClick={() => onSelect(index)}
+								className={`w-full text-left px-2 py-1 rounded hover:bg-gray-800 ${
+									entry === shown ? "bg-gray-800" : ""
+								}`}
+								aria-current={entry === shown}
+							>
+								<div className="truncate">{commit.message.split("\n")[0]}</div>
+								<div className="flex gap-2 text-gray-400">
+									<span className="truncate flex-1">
+										{commit.author} · {commit.date.toLocaleDateString()}
+									</span>
+									{change && (
+										<>
+											<span className="text-green-400">
+												+{change.insertions}
+											</span>
+											<span className="text-red-400">−{change.deletions}</span>
+										</>
+									)}
+								</div>
+								{change?.status === "renamed" && change.oldPath && (
+									<div className="truncate text-gray-500">
+										Renamed from {change.oldPath}
+									</div>
+								)}
+								{change?.status === "added" && (
+									<div className="text-gray-500">Added</div>
+								)}
+								{change?.status === "deleted" && (
+									<div className="text-gray-500">Deleted</div>
+								)}
+							</button>
+						</li>
+					);
+				})}
+			</ul>
+		</div>
+	);
+}
@@ -3,28 +3,51 @@ import { useFrame } from "@react-three/fiber";
 import { useEffect, useRef, useState } from "react";
 import * as THREE from "three";
 import { FileNode } from "../types";
+import {
+	getFocalLength,
+	getScreenRadius,
+	LABEL_MIN_PIXELS,
+} from "../utils/levelOfDetail";
+import {
+	ADD_GROW_MS,
+	DELETE_SHRINK_MS,
+	getDeletedRadius,
+	getFileRadius,
+	getNodeBaseColor,
+	getNodeRadius,
+	getNodeTransitionColor,
+	isRootNode,
+	TRANSITION_FADE_MS,
+} from "../utils/nodeAppearance";
+import type { Building } from "../utils/treeLayouts";
 
 interface FileNode3DProps {
 	node: FileNode;
+	highlighted?: boolean;
+	building?: Building; // Draw as a box (treemap layout) instead of a sphere/octahedron
+	color?: string; // Replaces the type colour (e.g. the author colour mode)
 	onClick?: (node: FileNode) => void;
 	onDoubleClick?: (node: FileNode) => void;
 }
 
-export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
+export function FileNode3D({
+	node,
+	highlighted = false,
+	building,
+	color,
+	onClick,
+	onDoubleClick,
+}: FileNode3DProps) {
 	const meshRef = useRef<THREE.Mesh>(null);
 	const [transitionOpacity, setTransitionOpacity] = useState(1);
 	const [animatedRadius, setAnimatedRadius] = useState(0);
+	const [labelVisible, setLabelVisible] = useState(false);
 	const transitionStartTime = useRef<number | null>(null);
 	const deletionStartTime = useRef<number | null>(null);
 
 	// Calculate target radius based on LOG of file size
 	// Root node is larger, directories get a fixed size, files scale with their size
-	const isRootNode = node.id === "/" || node.path === "/";
-	const targetRadius = isRootNode
-		? 5.0 // Root node is larger
-		: node.type === "directory"
-			? 3.0 // Fixed size for directories
-			: Math.max(2.0, Math.min(15, Math.log10(node.size + 1) * 4));
+	const targetRadius = getNodeRadius(node);
 
 	// Initialize animated radius
 	useEffect(() => {
@@ -33,11 +56,7 @@ export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
 			setAnimatedRadius(0);
 		} else if (node.fileStatus === "deleted") {
 			// Deleted files start at previous size
-			const prevRadius = Math.max(
-				2.0,
-				Math.min(15, Math.log10((node.previousSize || 100) + 1) * 4),
-			);
-			setAnimatedRadius(prevRadius);
+			setAnimatedRadius(getFileRadius(node.previousSize || 100));
 			deletionStartTime.current = Date.now();
 		} else {
 			// Normal files use target size
@@ -45,24 +64,10 @@ export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
 		}
 	}, [node.fileStatus, node.previousSize, targetRadius]);
 
-	// Base color based on file type
-	// Root node is white, directories bright blue, files green
-	const isRoot = node.id === "/" || node.path === "/";
-	const baseColor = isRoot
-		? "#ffffff"
-		: node.type === "directory"
-			? "#60a5fa"
-			: "#10b981";
-
-	// Determine transition color based on file status and size change
-	let transitionColor: string | null = null;
-	if (node.fileStatus === "moved") {
-		transitionColor = "#eab308"; // Yellow for moved files
-	} else if (node.sizeChange === "increase") {
-		transitionColor = "#ef4444"; // Red for size increase
-	} else if (node.sizeChange === "decrease") {
-		transitionColor = "#22c55e"; // Green for size decrease
-	}
+	// Base color based on file type, flashing a transition color on changes
+	const isRoot = isRootNode(node);
+	const baseColor = color ?? getNodeBaseColor(node);
+	const transitionColor = getNodeTransitionColor(node);
 
 	// Reset transition timer when node changes
 	useEffect(() => {
@@ -76,8 +81,25 @@ export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
 	}, [node.sizeChange, node.fileStatus]);
 
 	// Animate transitions and deletions
-	useFrame(() => {
-		const fadeDuration = 3000; // 3 seconds
+	useFrame(({ camera, size }) => {
+		// Only label nodes that are big enough on screen to read
+		const labelRadius = building
+			? Math.max(building.width, building.depth) / 2
+			: animatedRadius;
+		const distance = Math.hypot(
+			camera.position.x - (node.x || 0),
+			camera.position.y - (node.y || 0),
+			camera.position.z - (node.z || 0),
+		);
+		const focalLength = getFocalLength(
+			(camera as THREE.PerspectiveCamera).fov,
+			size.height,
+		);
+		const showLabel =
+			getScreenRadius(labelRadius, distance, focalLength) >= LABEL_MIN_PIXELS;
+		if (showLabel !== labelVisible) setLabelVisible(showLabel);
+
+		const fadeDuration = TRANSITION_FADE_MS;
 
 		// Handle color transition fade-out
 		if (transitionStartTime.current) {
@@ -94,13 +116,10 @@ export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
 		// Handle deletion animation (shrink to zero)
 		if (deletionStartTime.current) {
 			const elapsed = Date.now() - deletionStartTime.current;
-			const shrinkDuration = 2000; // 2 seconds to shrink
+			const shrinkDuration = DELETE_SHRINK_MS;
 
 			if (elapsed < shrinkDuration) {
-				const prevRadius = Math.max(
-					2.0,
-					Math.min(15, Math.log10((node.previousSize || 100) + 1) * 4),
-				);
+				const prevRadius = getDeletedRadius(node);
 				setAnimatedRadius(prevRadius * (1 - elapsed / shrinkDuration));
 			} else {
 				setAnimatedRadius(0);
@@ -108,7 +127,7 @@ export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
 			}
 		} else if (node.fileStatus === "added") {
 			// Handle addition animation (grow from zero)
-			const growDuration = 1000; // 1 second to grow
+			const growDuration = ADD_GROW_MS;
 			if (animatedRadius < targetRadius) {
 				setAnimatedRadius((prev) => {
 					const newRadius = prev + (targetRadius / growDuration) * 16; // ~60fps
@@ -150,6 +169,60 @@ export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
 	// Use different shapes for directories vs files
 	const isDirectory = node.type === "directory";
 
+	if (building) {
+		// Buildings grow and shrink in height with the added/deleted animations
+		const growth = Math.min(1, displayRadius / targetRadius);
+		const height = building.height * growth;
+
+		return (
+			<group position={[node.x || 0, node.y || 0, node.z || 0]}>
+				<mesh
+					ref={meshRef}
+					position={[0, 0, (height - building.height) / 2]}
+					onClick={handleClick}
+					onDoubleClick={handleDoubleClick}
+				>
+					<boxGeometry args={[building.width, building.depth, height]} />
+					<meshStandardMaterial
+						color={finalColor}
+						emissive={finalColor}
+						emissiveIntensity={transitionOpacity > 0 ? 0.5 : 0.2}
+						roughness={0.6}
+						metalness={0.3}
+						transparent={isDirectory || node.fileStatus === "deleted"}
+						opacity={
+							node.fileStatus === "deleted" ? 0.5 : isDirectory ? 0.35 : 1.0
+						}
+					/>
+				</mesh>
+				{highlighted && (
+					<mesh position={[0, 0, (height - building.height) / 2]}>
+						<boxGeometry
+							args={[building.width * 1.2, building.depth * 1.2, height * 1.1]}
+						/>
+						<meshBasicMaterial
+							color="#a855f7"
+							transparent
+							opacity={0.25}
+							depthWrite={false}
+						/>
+					</mesh>
+				)}
+				{!isDirectory && labelVisible && (
+					<Text
+						position={[0, 0, height - building.height / 2 + 0.5]}
+						fontSize={0.8}
+						color="white"
+						anchorX="center"
+						anchorY="middle"
+					>
+						{node.name}
+					</Text>
+				)}
+			</group>
+		);
+	}
+
 	return (
 		<group position={[node.x || 0, node.y || 0, node.z || 0]}>
 			{isDirectory ? (
@@ -189,7 +262,18 @@ export function FileNode3D({ node, onClick, onDoubleClick }: FileNode3DProps) {
 					/>
 				</Sphere>
 			)}
-			{displayRadius > 0.3 && (
+			{/* Halo for files brought in by a merge */}
+			{highlighted && (
+				<Sphere args={[displayRadius * 1.5, 16, 16]}>
+					<meshBasicMaterial
+						color="#a855f7"
+						transparent
+						opacity={0.25}
+						depthWrite={false}
+					/>
+				</Sphere>
+			)}
+			{displayRadius > 0.3 && labelVisible && (
 				<Text
 					position={[0, displayRadius + 1, 0]}
 					fontSize={0.8}
@@ -0,0 +1,86 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import type { TimelineFilePatch } from "../types/provider";
+import { FilePatchViewer } from "./FilePatchViewer";
+
+const patch: TimelineFilePatch = {
+	sha: "abc1234",
+	path: "src/parser.ts",
+	status: "modified",
+	additions: 1,
+	deletions: 1,
+	patch: [
+		"@@ -1,2 +1,2 @@",
+		" import { a } from './a';",
+		"-const limit = 10;",
+		"+const limit = 20;",
+		"\\ No newline at end of file",
+		"",
+	].join("\n"),
+	truncated: false,
+};
+
+describe("FilePatchViewer", () => {
+	it("shows the line counts and every diff line", () => {
+		const { container } = render(
+			<FilePatchViewer patch={patch} loading={false} error={null} />,
+		);
+
+		expect(screen.getByText("+1")).toBeTruthy();
+		expect(screen.getByText("−1")).toBeTruthy();
+		expect(screen.getByText("@@ -1,2 +1,2 @@")).toBeTruthy();
+		expect(screen.getByText("\\ No newline at end of file")).toBeTruthy();
+		expect(container.querySelector("pre")?.children).toHaveLength(5);
+	});
+
+	it("colours added and removed lines and highlights their code", () => {
+		const { container } = render(
+			<FilePatchViewer patch={patch} loading={false} error={null} />,
+		);
+		const lines = container.querySelector("pre")?.children;
+
+		expect(lines?.[2].className).toContain("bg-red");
+		expect(lines?.[3].className).toContain("bg-green");
+		expect(lines?.[3].textContent).toBe("+const limit = 20;");
+		const keyword = [...(lines?.[3].querySelectorAll("span") ?? [])].find(
+			(span) => span.textContent === "const",
+		);
+		expect(keyword?.className).toContain("text-purple");
+	});
+
+	it("notes a truncated diff", () => {
+		render(
+			<FilePatchViewer
+				patch={{ ...patch, truncated: true }}
+				loading={false}
+				error={null}
+			/>,
+		);
+
+		expect(screen.getByText(/Diff truncated/)).toBeTruthy();
+	});
+
+	it("says when there is no diff to show", () => {
+		render(
+			<FilePatchViewer
+				patch={{ ...patch, patch: null }}
+				loading={false}
+				error={null}
+			/>,
+		);
+
+		expect(screen.getByText("No diff available")).toBeTruthy();
+	});
+
+	it("shows loading and error states", () => {
+		const { rerender } = render(
+			<FilePatchViewer patch={null} loading={true} error={null} />,
+		);
+		expect(screen.getByText("Loading diff...")).toBeTruthy();
+
+		rerender(
+			<FilePatchViewer patch={null} loading={false} error="Server error" />,
+		);
+		expect(screen.getByText("Server error")).toBeTruthy();
+	});
+});
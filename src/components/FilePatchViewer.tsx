@@ -0,0 +1,113 @@
+import type { TimelineFilePatch } from "../types/provider";
+import {
+	getLanguage,
+	highlightLine,
+	type Language,
+	type TokenKind,
+} from "../utils/syntaxHighlight";
+
+interface FilePatchViewerProps {
+	patch: TimelineFilePatch | null; // null while loading or when the source has no diff
+	loading: boolean;
+	error: string | null;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+	plain: "",
+	keyword: "text-purple-400",
+	string: "text-amber-300",
+	comment: "text-gray-500",
+	number: "text-orange-300",
+};
+
+/**
+ * One line of a unified diff - hunk headers and "\ No newline" markers are
+ * shown as they are, added and removed lines get their code highlighted
+ */
+function PatchLine({
+	line,
+	language,
+}: {
+	line: string;
+	language: Language | null;
+}) {
+	if (line.startsWith("@@")) {
+		return <div className="text-cyan-400 bg-cyan-950/40 px-2">{line}</div>;
+	}
+	if (line.startsWith("\\")) {
+		return <div className="text-gray-500 px-2">{line}</div>;
+	}
+
+	const prefix = line.charAt(0);
+	const background =
+		prefix === "+" ? "bg-green-950/60" : prefix === "-" ? "bg-red-950/60" : "";
+	const marker =
+		prefix === "+" ? "text-green-400" : prefix === "-" ? "text-red-400" : "";
+
+	return (
+		<div className={`px-2 ${background}`}>
+			<span className={`select-none ${marker}`}>{prefix || " "}</span>
+			{highlightLine(line.slice(1), language).map((token, i) => (
+				<span key={i} className={TOKEN_CLASSES[token.kind]}>
+					{token.text}
+				</span>
+			))}
+		</div>
+	);
+}
+
+/**
+ * Unified diff of the selected file in the current commit
+ */
+export function FilePatchViewer({
+	patch,
+	loading,
+	error,
+}: FilePatchViewerProps) {
+	let body: JSX.Element;
+	if (loading) {
+		body = <div className="text-gray-400">Loading diff...</div>;
+	} else if (error) {
+		body = <div className="text-red-400">{error}</div>;
+	} else if (!patch?.patch) {
+		body = <div className="text-gray-400">No diff available</div>;
+	} else {
+		const language = getLanguage(patch.path);
+		const lines = patch.patch.split("\n");
+		if (lines[lines.length - 1] === "") lines.pop();
+		body = (
+			<>
+				<pre className="font-mono text-xs max-h-80 overflow-auto bg-gray-950 rounded py-1">
+					{lines.map((line, i) => (
+						<PatchLine key={i} line={line} language={language} />
+					))}
+				</pre>
+				{patch.truncated && (
+					<div className="text-gray-500 text-xs mt-1">
+						Diff truncated - the rest of the change isn't stored
+					</div>
+				)}
+			</>
+		);
+	}
+
+	return (
+		<div className="mt-3 border-t border-gray-700 pt-3">
+			<div className="flex items-center gap-2 text-sm font-semibold mb-2">
+				<span className="flex-1">Changes in this commit</span>
+				{patch && !loading && !error && (
+					<span className="text-xs font-normal">
+						<span className="text-green-400">+{patch.additions}</span>{" "}
+						<span className="text-red-400">−{patch.deletions}</span>
+					</span>
+				)}
+			</div>
+			{patch?.previousPath && !loading && (
+				<div className="truncate text-xs text-gray-500 mb-1">
+					Renamed from {patch.previousPath}
+				</div>
+			)}
+			{body}
+		</div>
+	);
+}
@@ -0,0 +1,49 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { FileTypeLegendEntry } from "../utils/fileTypes";
+import { FileTypeLegend } from "./FileTypeLegend";
+
+const entries: FileTypeLegendEntry[] = [
+	{ extension: "ts", files: 12, size: 2048, color: "#3b82f6" },
+	{ extension: "", files: 1, size: 100, color: "#10b981" },
+];
+
+describe("FileTypeLegend", () => {
+	it("should list file counts and sizes per extension", () => {
+		render(
+			<FileTypeLegend
+				entries={entries}
+				hiddenTypes={new Set()}
+				onToggle={vi.fn()}
+			/>,
+		);
+
+		expect(screen.getByText(".ts")).toBeInTheDocument();
+		expect(screen.getByText("12")).toBeInTheDocument();
+		expect(screen.getByText("2.0 KB")).toBeInTheDocument();
+		expect(screen.getByText("(no extension)")).toBeInTheDocument();
+		expect(screen.getByText("100 B")).toBeInTheDocument();
+	});
+
+	it("should toggle a file type on click", () => {
+		const onToggle = vi.fn();
+		render(
+			<FileTypeLegend
+				entries={entries}
+				hiddenTypes={new Set(["ts"])}
+				onToggle={onToggle}
+			/>,
+		);
+
+		const hidden = screen.getByTitle("Show .ts files");
+		expect(hidden).toHaveAttribute("aria-pressed", "true");
+		expect(screen.getByTitle("Hide (no extension) files")).toHaveAttribute(
+			"aria-pressed",
+			"false",
+		);
+
+		fireEvent.click(hidden);
+
+		expect(onToggle).toHaveBeenCalledWith("ts");
+	});
+});
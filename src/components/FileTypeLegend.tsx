@@ -0,0 +1,66 @@
+import { Eye, EyeOff } from "lucide-react";
+import type { FileTypeLegendEntry } from "../utils/fileTypes";
+
+interface FileTypeLegendProps {
+	entries: FileTypeLegendEntry[];
+	hiddenTypes: ReadonlySet<string>;
+	onToggle: (extension: string) => void;
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const label = (extension: string) =>
+	extension ? `.${extension}` : "(no extension)";
+
+/**
+ * Legend for the file type colour mode - files and bytes per extension at the
+ * current commit. Clicking a type hides its files from the graph
+ */
+export function FileTypeLegend({
+	entries,
+	hiddenTypes,
+	onToggle,
+}: FileTypeLegendProps) {
+	return (
+		<div className="bg-gray-900 bg-opacity-90 text-white p-3 rounded-lg border border-gray-700 text-xs w-64">
+			<div className="text-sm font-semibold mb-2">File types</div>
+			<ul className="space-y-1 max-h-64 overflow-y-auto">
+				{entries.map(({ extension, files, size, color }) => {
+					const hidden = hiddenTypes.has(extension);
+					return (
+						<li key={extension}>
+							<button
+								onClick={() => onToggle(extension)}
+								className={`w-full flex items-center gap-2 px-1 rounded hover:bg-gray-800 ${
+									hidden ? "text-gray-500" : ""
+								}`}
+								title={`${hidden ? "Show" : "Hide"} ${label(extension)} files`}
+								aria-pressed={hidden}
+							>
+								<span
+									className="w-3 h-3 rounded-full shrink-0"
+									style={{
+										backgroundColor: hidden ? "transparent" : color,
+										border: `1px solid ${color}`,
+									}}
+								/>
+								<span className="truncate flex-1 text-left">
+									{label(extension)}
+								</span>
+								<span className="text-gray-400">{files}</span>
+								<span className="text-gray-400 w-16 text-right">
+									{formatSize(size)}
+								</span>
+								{hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+							</button>
+						</li>
+					);
+				})}
+			</ul>
+		</div>
+	);
+}
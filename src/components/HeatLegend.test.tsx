@@ -0,0 +1,24 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { HeatLegend } from "./HeatLegend";
+
+describe("HeatLegend", () => {
+	it("should change the window length", () => {
+		const onWindowChange = vi.fn();
+		render(<HeatLegend windowDays={30} onWindowChange={onWindowChange} />);
+
+		const select = screen.getByLabelText(/Commits in the last/);
+		expect(select).toHaveValue("30");
+
+		fireEvent.change(select, { target: { value: "365" } });
+
+		expect(onWindowChange).toHaveBeenCalledWith(365);
+	});
+
+	it("should offer a window length that isn't one of the presets", () => {
+		render(<HeatLegend windowDays={14} onWindowChange={vi.fn()} />);
+
+		expect(screen.getByRole("option", { name: "14 days" })).toBeInTheDocument();
+		expect(screen.getByRole("option", { name: "1 year" })).toBeInTheDocument();
+	});
+});
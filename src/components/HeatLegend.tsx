@@ -0,0 +1,58 @@
+import { HEAT_WINDOW_DAYS } from "../utils/changeFrequency";
+import { getHeatColor, HEAT_COLD_COLOR } from "../utils/colorModes";
+
+interface HeatLegendProps {
+	windowDays: number;
+	onWindowChange: (days: number) => void;
+}
+
+const GRADIENT = `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+	.map(getHeatColor)
+	.join(", ")})`;
+
+function formatWindow(days: number): string {
+	if (days === 1) return "1 day";
+	if (days % 365 === 0) return days === 365 ? "1 year" : `${days / 365} years`;
+	return `${days} days`;
+}
+
+/**
+ * Legend for the heat map colour mode, with the length of the window counted
+ */
+export function HeatLegend({ windowDays, onWindowChange }: HeatLegendProps) {
+	const options = [...new Set([...HEAT_WINDOW_DAYS, windowDays])].sort(
+		(a, b) => a - b,
+	);
+
+	return (
+		<div className="bg-gray-900 bg-opacity-90 text-white p-3 rounded-lg border border-gray-700 text-xs w-56">
+			<div className="text-sm font-semibold mb-2">Change frequency</div>
+			<div className="h-2 rounded" style={{ background: GRADIENT }} />
+			<div className="flex justify-between text-gray-400 mt-1">
+				<span>Rarely</span>
+				<span>Most often</span>
+			</div>
+			<div className="flex items-center gap-2 mt-2 text-gray-400">
+				<span
+					className="w-3 h-3 rounded-full shrink-0"
+					style={{ backgroundColor: HEAT_COLD_COLOR }}
+				/>
+				<span>Not changed</span>
+			</div>
+			<label className="flex items-center justify-between mt-2 text-gray-400">
+				<span>Commits in the last</span>
+				<select
+					value={windowDays}
+					onChange={(event) => onWindowChange(Number(event.target.value))}
+					className="bg-gray-800 text-gray-300 rounded px-1"
+				>
+					{options.map((days) => (
+						<option key={days} value={days}>
+							{formatWindow(days)}
+						</option>
+					))}
+				</select>
+			</label>
+		</div>
+	);
+}
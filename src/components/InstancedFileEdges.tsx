@@ -0,0 +1,123 @@
+import { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { FileEdge, FileNode } from "../types";
+import { getNodeRadius } from "../utils/nodeAppearance";
+import { getCapacity } from "./InstancedFileNodes";
+
+interface InstancedFileEdgesProps {
+	edges: FileEdge[];
+	nodes: Map<string, FileNode>;
+}
+
+/**
+ * Write one segment per edge into the buffer, shortened to stop at node surfaces
+ * Returns the number of segments written
+ */
+function fillSegments(
+	positions: Float32Array,
+	edges: FileEdge[],
+	nodes: Map<string, FileNode>,
+): number {
+	let count = 0;
+	for (const edge of edges) {
+		const source = nodes.get(edge.source);
+		const target = nodes.get(edge.target);
+		if (!source || !target) continue;
+
+		const dx = (target.x ?? 0) - (source.x ?? 0);
+		const dy = (target.y ?? 0) - (source.y ?? 0);
+		const dz = (target.z ?? 0) - (source.z ?? 0);
+		const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+		const sourceRadius = getNodeRadius(source);
+		const targetRadius = getNodeRadius(target);
+		if (distance <= sourceRadius + targetRadius) continue; // Nodes overlap
+
+		const offset = count * 6;
+		const start = sourceRadius / distance;
+		const end = 1 - targetRadius / distance;
+		positions[offset] = (source.x ?? 0) + dx * start;
+		positions[offset + 1] = (source.y ?? 0) + dy * start;
+		positions[offset + 2] = (source.z ?? 0) + dz * start;
+		positions[offset + 3] = (source.x ?? 0) + dx * end;
+		positions[offset + 4] = (source.y ?? 0) + dy * end;
+		positions[offset + 5] = (source.z ?? 0) + dz * end;
+		count++;
+	}
+	return count;
+}
+
+interface SegmentsProps {
+	edges: FileEdge[];
+	nodes: Map<string, FileNode>;
+	color: string;
+	opacity: number;
+}
+
+function Segments({ edges, nodes, color, opacity }: SegmentsProps) {
+	const capacity = getCapacity(edges.length); // Reallocated only when it doubles
+	const geometry = useMemo(() => {
+		const result = new THREE.BufferGeometry();
+		result.setAttribute(
+			"position",
+			new THREE.BufferAttribute(new Float32Array(capacity * 6), 3),
+		);
+		return result;
+	}, [capacity]);
+
+	useEffect(() => () => geometry.dispose(), [geometry]);
+
+	// Positions change on every simulation frame, so refill the buffer in place
+	useEffect(() => {
+		const attribute = geometry.getAttribute(
+			"position",
+		) as THREE.BufferAttribute;
+		const count = fillSegments(attribute.array as Float32Array, edges, nodes);
+		geometry.setDrawRange(0, count * 2);
+		attribute.needsUpdate = true;
+		geometry.computeBoundingSphere();
+	}, [geometry, edges, nodes]);
+
+	return (
+		<lineSegments geometry={geometry}>
+			<lineBasicMaterial
+				color={color}
+				opacity={opacity}
+				transparent
+				depthWrite={false}
+			/>
+		</lineSegments>
+	);
+}
+
+/**
+ * All edges drawn as two LineSegments buffers (parent and dependency edges)
+ * instead of a tube mesh per edge; used alongside InstancedFileNodes
+ */
+export function InstancedFileEdges({ edges, nodes }: InstancedFileEdgesProps) {
+	const parentEdges = useMemo(
+		() => edges.filter((edge) => edge.type === "parent"),
+		[edges],
+	);
+	const otherEdges = useMemo(
+		() => edges.filter((edge) => edge.type !== "parent"),
+		[edges],
+	);
+
+	// Same colours as FileEdge3D: white for the directory structure, cyan otherwise
+	return (
+		<group>
+			<Segments
+				edges={parentEdges}
+				nodes={nodes}
+				color="#ffffff"
+				opacity={0.8}
+			/>
+			<Segments
+				edges={otherEdges}
+				nodes={nodes}
+				color="#22d3ee"
+				opacity={0.45}
+			/>
+		</group>
+	);
+}
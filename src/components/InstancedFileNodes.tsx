@@ -0,0 +1,292 @@
+import { type ThreeEvent, useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { FileNode } from "../types";
+import {
+	ADD_GROW_MS,
+	DELETE_SHRINK_MS,
+	getDeletedRadius,
+	getNodeBaseColor,
+	getNodeRadius,
+	getNodeTransitionColor,
+	hasTransition,
+	TRANSITION_FADE_MS,
+} from "../utils/nodeAppearance";
+import type { Building } from "../utils/treeLayouts";
+
+interface InstancedFileNodesProps {
+	nodes: FileNode[];
+	buildings?: Map<string, Building> | null;
+	highlightedPaths?: Set<string>;
+	nodeColors?: Map<string, string>; // Replaces the type colour per node id
+	onClick?: (node: FileNode) => void;
+	onDoubleClick?: (node: FileNode) => void;
+}
+
+// Animation state per node id, replacing FileNode3D's per-node effects
+interface NodeAnimation {
+	sizeChange?: FileNode["sizeChange"];
+	fileStatus?: FileNode["fileStatus"];
+	transitionStart: number | null;
+	addedStart: number | null;
+	deletedStart: number | null;
+}
+
+type InstanceKind = "file" | "directory" | "building" | "deleted";
+
+const INSTANCE_KINDS: InstanceKind[] = [
+	"file",
+	"directory",
+	"building",
+	"deleted",
+];
+
+/**
+ * Round up to a power of two so meshes and buffers are only rebuilt when the count doubles
+ */
+export function getCapacity(count: number): number {
+	return 2 ** Math.ceil(Math.log2(Math.max(count, 64)));
+}
+
+/**
+ * All file nodes drawn with a few InstancedMeshes instead of one mesh per node
+ *
+ * Keeps the colour transitions and added/deleted animations of FileNode3D,
+ * driven from a single useFrame. Labels are left out - at the node counts
+ * this is used for they'd cost more than the meshes.
+ */
+export function InstancedFileNodes({
+	nodes,
+	buildings,
+	highlightedPaths,
+	nodeColors,
+	onClick,
+	onDoubleClick,
+}: InstancedFileNodesProps) {
+	const meshRefs = useRef<Record<InstanceKind, THREE.InstancedMesh | null>>({
+		file: null,
+		directory: null,
+		building: null,
+		deleted: null,
+	});
+	const haloRef = useRef<THREE.InstancedMesh | null>(null);
+	const animationsRef = useRef(new Map<string, NodeAnimation>());
+
+	// Split nodes by the mesh they're drawn with
+	const groups = useMemo(() => {
+		const result: Record<InstanceKind, FileNode[]> = {
+			file: [],
+			directory: [],
+			building: [],
+			deleted: [],
+		};
+		for (const node of nodes) {
+			if (node.fileStatus === "deleted") {
+				result.deleted.push(node);
+			} else if (buildings?.has(node.id)) {
+				result.building.push(node);
+			} else {
+				result[node.type === "directory" ? "directory" : "file"].push(node);
+			}
+		}
+		return result;
+	}, [nodes, buildings]);
+
+	const highlighted = useMemo(
+		() =>
+			highlightedPaths
+				? nodes.filter((node) => highlightedPaths.has(node.path))
+				: [],
+		[nodes, highlightedPaths],
+	);
+
+	// Start animations when a node's status changes, like FileNode3D's effects
+	useEffect(() => {
+		const now = Date.now();
+		const previous = animationsRef.current;
+		const next = new Map<string, NodeAnimation>();
+
+		for (const node of nodes) {
+			const animation = previous.get(node.id) ?? {
+				transitionStart: null,
+				addedStart: null,
+				deletedStart: null,
+			};
+			const isNew = !previous.has(node.id);
+			if (
+				isNew ||
+				animation.sizeChange !== node.sizeChange ||
+				animation.fileStatus !== node.fileStatus
+			) {
+				if (hasTransition(node)) animation.transitionStart = now;
+				if (node.fileStatus === "added") animation.addedStart = now;
+				if (node.fileStatus === "deleted") animation.deletedStart = now;
+				animation.sizeChange = node.sizeChange;
+				animation.fileStatus = node.fileStatus;
+			}
+			next.set(node.id, animation);
+		}
+
+		animationsRef.current = next;
+	}, [nodes]);
+
+	const dummy = useMemo(() => new THREE.Object3D(), []);
+	const color = useMemo(() => new THREE.Color(), []);
+	const transitionColor = useMemo(() => new THREE.Color(), []);
+
+	useFrame(() => {
+		const now = Date.now();
+		const animations = animationsRef.current;
+		const radii = new Map<string, number>();
+
+		for (const kind of INSTANCE_KINDS) {
+			const mesh = meshRefs.current[kind];
+			if (!mesh) continue;
+			const list = groups[kind];
+
+			list.forEach((node, i) => {
+				const animation = animations.get(node.id);
+
+				// Size: grow added files, shrink deleted ones
+				let scale = 1;
+				let radius = getNodeRadius(node);
+				if (kind === "deleted") {
+					const elapsed = now - (animation?.deletedStart ?? now);
+					radius = getDeletedRadius(node);
+					scale = Math.max(0, 1 - elapsed / DELETE_SHRINK_MS);
+				} else if (animation?.addedStart) {
+					const elapsed = now - animation.addedStart;
+					scale = Math.min(1, elapsed / ADD_GROW_MS);
+				}
+
+				// Colour: base colour blended towards the fading transition colour
+				color.set(nodeColors?.get(node.id) ?? getNodeBaseColor(node));
+				const flash = getNodeTransitionColor(node);
+				if (flash && animation?.transitionStart) {
+					const opacity =
+						1 - (now - animation.transitionStart) / TRANSITION_FADE_MS;
+					if (opacity > 0) {
+						color.lerp(transitionColor.set(flash), opacity);
+					} else {
+						animation.transitionStart = null;
+					}
+				}
+
+				const building = buildings?.get(node.id);
+				if (kind === "building" && building) {
+					// Boxes grow in height from the ground, like FileNode3D
+					const height = building.height * scale;
+					dummy.position.set(
+						node.x || 0,
+						node.y || 0,
+						(node.z || 0) + (height - building.height) / 2,
+					);
+					dummy.scale.set(building.width, building.depth, height || 1e-6);
+					radii.set(node.id, Math.max(building.width, building.depth) / 2);
+				} else {
+					dummy.position.set(node.x || 0, node.y || 0, node.z || 0);
+					dummy.scale.setScalar(radius * scale || 1e-6);
+					radii.set(node.id, radius * scale);
+				}
+				dummy.updateMatrix();
+				mesh.setMatrixAt(i, dummy.matrix);
+				mesh.setColorAt(i, color);
+			});
+
+			mesh.count = list.length;
+			mesh.instanceMatrix.needsUpdate = true;
+			if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+			mesh.boundingSphere = null; // Recomputed on the next raycast, so clicks follow the instances
+		}
+
+		// Halos for files brought in by a merge
+		const halo = haloRef.current;
+		if (halo) {
+			highlighted.forEach((node, i) => {
+				dummy.position.set(node.x || 0, node.y || 0, node.z || 0);
+				dummy.scale.setScalar((radii.get(node.id) ?? 0) * 1.5 || 1e-6);
+				dummy.updateMatrix();
+				halo.setMatrixAt(i, dummy.matrix);
+			});
+			halo.count = highlighted.length;
+			halo.instanceMatrix.needsUpdate = true;
+		}
+	});
+
+	// Map an instance back to its node for pointer events
+	const handlerFor =
+		(kind: InstanceKind, handler?: (node: FileNode) => void) =>
+		(event: ThreeEvent<MouseEvent>) => {
+			if (!handler || event.instanceId === undefined) return;
+			const node = groups[kind][event.instanceId];
+			if (node) {
+				event.stopPropagation();
+				handler(node);
+			}
+		};
+
+	// Meshes are rebuilt (new key) when their group outgrows the capacity
+	const meshKey = (kind: InstanceKind) =>
+		`${kind}-${getCapacity(groups[kind].length)}`;
+	const meshProps = (kind: InstanceKind) => ({
+		ref: (mesh: THREE.InstancedMesh | null) => {
+			meshRefs.current[kind] = mesh;
+		},
+		args: [undefined, undefined, getCapacity(groups[kind].length)] as [
+			undefined,
+			undefined,
+			number,
+		],
+		frustumCulled: false, // Instances spread beyond the geometry's bounds
+		onClick: handlerFor(kind, onClick),
+		onDoubleClick: handlerFor(kind, onDoubleClick),
+	});
+
+	return (
+		<group>
+			{/* Files as spheres */}
+			<instancedMesh key={meshKey("file")} {...meshProps("file")}>
+				<sphereGeometry args={[1, 16, 16]} />
+				<meshStandardMaterial roughness={0.5} metalness={0.3} />
+			</instancedMesh>
+
+			{/* Directories as octahedrons (8-sided diamond shape) */}
+			<instancedMesh key={meshKey("directory")} {...meshProps("directory")}>
+				<octahedronGeometry args={[1, 0]} />
+				<meshStandardMaterial roughness={0.4} metalness={0.3} />
+			</instancedMesh>
+
+			{/* Treemap buildings and districts */}
+			<instancedMesh key={meshKey("building")} {...meshProps("building")}>
+				<boxGeometry args={[1, 1, 1]} />
+				<meshStandardMaterial roughness={0.6} metalness={0.3} />
+			</instancedMesh>
+
+			{/* Deleted files, translucent while they shrink away */}
+			<instancedMesh key={meshKey("deleted")} {...meshProps("deleted")}>
+				<sphereGeometry args={[1, 16, 16]} />
+				<meshStandardMaterial
+					roughness={0.5}
+					metalness={0.3}
+					transparent
+					opacity={0.5}
+				/>
+			</instancedMesh>
+
+			<instancedMesh
+				key={`halo-${getCapacity(highlighted.length)}`}
+				ref={haloRef}
+				args={[undefined, undefined, getCapacity(highlighted.length)]}
+				frustumCulled={false}
+			>
+				<sphereGeometry args={[1, 16, 16]} />
+				<meshBasicMaterial
+					color="#a855f7"
+					transparent
+					opacity={0.25}
+					depthWrite={false}
+				/>
+			</instancedMesh>
+		</group>
+	);
+}
@@ -0,0 +1,56 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_FORCE_CONFIG } from "../utils/forceSimulation";
+import { LayoutTuningPanel } from "./LayoutTuningPanel";
+
+describe("LayoutTuningPanel", () => {
+	it("should show the layout prop values over the defaults", () => {
+		render(
+			<LayoutTuningPanel
+				layout={{ distance: 60 }}
+				overrides={{}}
+				onChange={vi.fn()}
+				onClose={vi.fn()}
+			/>,
+		);
+
+		expect(screen.getByLabelText(/Link distance/)).toHaveValue("60");
+		expect(screen.getByLabelText(/Repulsion/)).toHaveValue(
+			String(DEFAULT_FORCE_CONFIG.repulsion),
+		);
+	});
+
+	it("should report slider changes as overrides", () => {
+		const onChange = vi.fn();
+		render(
+			<LayoutTuningPanel
+				layout={{}}
+				overrides={{ damping: 0.7 }}
+				onChange={onChange}
+				onClose={vi.fn()}
+			/>,
+		);
+
+		fireEvent.change(screen.getByLabelText(/Repulsion/), {
+			target: { value: "2000" },
+		});
+
+		expect(onChange).toHaveBeenCalledWith({ damping: 0.7, repulsion: 2000 });
+	});
+
+	it("should clear overrides on reset", () => {
+		const onChange = vi.fn();
+		render(
+			<LayoutTuningPanel
+				layout={{}}
+				overrides={{ damping: 0.7 }}
+				onChange={onChange}
+				onClose={vi.fn()}
+			/>,
+		);
+
+		fireEvent.click(screen.getByText("Reset"));
+
+		expect(onChange).toHaveBeenCalledWith({});
+	});
+});
@@ -0,0 +1,117 @@
+import { X } from "lucide-react";
+import { useState } from "react";
+import {
+	DEFAULT_FORCE_CONFIG,
+	type ForceSimulationConfig,
+	resolveForceConfig,
+} from "../utils/forceSimulation";
+
+interface LayoutTuningPanelProps {
+	layout: Partial<ForceSimulationConfig>; // Layout the panel starts from (e.g. the layout prop)
+	overrides: Partial<ForceSimulationConfig>;
+	onChange: (overrides: Partial<ForceSimulationConfig>) => void;
+	onClose: () => void;
+}
+
+interface Control {
+	key: keyof ForceSimulationConfig;
+	label: string;
+	min: number;
+	max: number;
+	step: number;
+}
+
+const CONTROLS: Control[] = [
+	{ key: "strength", label: "Spring strength", min: 0, max: 1, step: 0.01 },
+	{ key: "distance", label: "Link distance", min: 0, max: 150, step: 1 },
+	{ key: "repulsion", label: "Repulsion", min: 0, max: 20000, step: 100 },
+	{ key: "damping", label: "Damping", min: 0.5, max: 0.99, step: 0.01 },
+	{ key: "centering", label: "Centering", min: 0, max: 0.1, step: 0.001 },
+	{ key: "maxVelocity", label: "Max velocity", min: 1, max: 50, step: 1 },
+	{ key: "theta", label: "Barnes–Hut theta", min: 0, max: 1.5, step: 0.05 },
+	{ key: "iterations", label: "Iterations", min: 50, max: 1500, step: 50 },
+];
+
+/**
+ * Dev-only panel for adjusting force constants on the live graph
+ * Changes are kept as overrides on top of the layout prop; "Copy" puts the
+ * resulting layout on the clipboard to paste into the `layout` prop
+ */
+export function LayoutTuningPanel({
+	layout,
+	overrides,
+	onChange,
+	onClose,
+}: LayoutTuningPanelProps) {
+	const [copied, setCopied] = useState(false);
+	const config = resolveForceConfig({ ...layout, ...overrides });
+
+	const handleCopy = () => {
+		// Only the values that differ from the defaults need to go in the prop
+		const changed = Object.fromEntries(
+			CONTROLS.filter(
+				({ key }) => config[key] !== DEFAULT_FORCE_CONFIG[key],
+			).map(({ key }) => [key, config[key]]),
+		);
+		navigator.clipboard
+			?.writeText(JSON.stringify(changed, null, 2))
+			.then(() => setCopied(true))
+			.catch((error) => console.warn("Failed to copy layout:", error));
+	};
+
+	return (
+		<div className="bg-gray-900 bg-opacity-90 text-white p-4 rounded-lg border border-gray-700 w-72">
+			<div className="flex items-center justify-between mb-3">
+				<div className="text-sm font-semibold">Layout tuning</div>
+				<button
+					onClick={onClose}
+					className="p-1 text-gray-400 hover:text-white"
+					title="Close layout tuning"
+				>
+					<X size={16} />
+				</button>
+			</div>
+
+			<div className="space-y-2">
+				{CONTROLS.map(({ key, label, min, max, step }) => (
+					<label key={key} className="block text-xs">
+						<div className="flex justify-between text-gray-400">
+							<span>{label}</span>
+							<span className="text-white">{config[key]}</span>
+						</div>
+						<input
+							type="range"
+							min={min}
+							max={max}
+							step={step}
+							value={config[key]}
+							onChange={(event) => {
+								setCopied(false);
+								onChange({ ...overrides, [key]: Number(event.target.value) });
+							}}
+							className="w-full"
+						/>
+					</label>
+				))}
+			</div>
+
+			<div className="flex gap-2 mt-3 text-xs">
+				<button
+					onClick={() => {
+						setCopied(false);
+						onChange({});
+					}}
+					className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded"
+				>
+					Reset
+				</button>
+				<button
+					onClick={handleCopy}
+					className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded"
+				>
+					{copied ? "Copied" : "Copy"}
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,52 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { PathFilterPanel } from "./PathFilterPanel";
+
+describe("PathFilterPanel", () => {
+	it("should show the current patterns one per line", () => {
+		render(
+			<PathFilterPanel
+				filter={{ include: ["src/**", "lib/**"], exclude: ["**/*.lock"] }}
+				onApply={vi.fn()}
+				onClose={vi.fn()}
+			/>,
+		);
+
+		expect(screen.getByLabelText(/Include/)).toHaveValue("src/**\nlib/**");
+		expect(screen.getByLabelText(/Exclude/)).toHaveValue("**/*.lock");
+	});
+
+	it("should only apply edited patterns when Apply is clicked", () => {
+		const onApply = vi.fn();
+		render(<PathFilterPanel filter={{}} onApply={onApply} onClose={vi.fn()} />);
+
+		expect(screen.getByText("Apply")).toBeDisabled();
+		fireEvent.change(screen.getByLabelText(/Exclude/), {
+			target: { value: "dist/**\n\n**/*.lock\n" },
+		});
+		expect(onApply).not.toHaveBeenCalled();
+
+		fireEvent.click(screen.getByText("Apply"));
+
+		expect(onApply).toHaveBeenCalledWith({
+			include: [],
+			exclude: ["dist/**", "**/*.lock"],
+		});
+	});
+
+	it("should clear both lists", () => {
+		const onApply = vi.fn();
+		render(
+			<PathFilterPanel
+				filter={{ include: ["src/**"] }}
+				onApply={onApply}
+				onClose={vi.fn()}
+			/>,
+		);
+
+		fireEvent.click(screen.getByText("Clear"));
+
+		expect(onApply).toHaveBeenCalledWith({ include: [], exclude: [] });
+		expect(screen.getByLabelText(/Include/)).toHaveValue("");
+	});
+});
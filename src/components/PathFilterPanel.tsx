@@ -0,0 +1,97 @@
+import { X } from "lucide-react";
+import { useState } from "react";
+import { normalizePatterns, type PathFilter } from "../utils/pathFilter";
+
+interface PathFilterPanelProps {
+	filter: PathFilter;
+	onApply: (filter: PathFilter) => void;
+	onClose: () => void;
+}
+
+const toText = (patterns?: string[]) => (patterns ?? []).join("\n");
+
+const toPatterns = (text: string) => normalizePatterns(text.split("\n"));
+
+/**
+ * Editor for the include/exclude globs, one pattern per line
+ * Edits are kept as a draft until applied, since applying reloads the timeline
+ */
+export function PathFilterPanel({
+	filter,
+	onApply,
+	onClose,
+}: PathFilterPanelProps) {
+	const [include, setInclude] = useState(toText(filter.include));
+	const [exclude, setExclude] = useState(toText(filter.exclude));
+
+	const draft: PathFilter = {
+		include: toPatterns(include),
+		exclude: toPatterns(exclude),
+	};
+	const changed =
+		JSON.stringify(draft.include) !==
+			JSON.stringify(normalizePatterns(filter.include)) ||
+		JSON.stringify(draft.exclude) !==
+			JSON.stringify(normalizePatterns(filter.exclude));
+
+	return (
+		<div className="bg-gray-900 bg-opacity-90 text-white p-4 rounded-lg border border-gray-700 w-72">
+			<div className="flex items-center justify-between mb-3">
+				<div className="text-sm font-semibold">Path filters</div>
+				<button
+					onClick={onClose}
+					className="p-1 text-gray-400 hover:text-white"
+					title="Close path filters"
+				>
+					<X size={16} />
+				</button>
+			</div>
+
+			<div className="space-y-2 text-xs">
+				<label className="block">
+					<div className="text-gray-400 mb-1">Include (e.g. src/**)</div>
+					<textarea
+						value={include}
+						onChange={(event) => setInclude(event.target.value)}
+						rows={3}
+						spellCheck={false}
+						className="w-full bg-gray-800 rounded px-2 py-1 font-mono"
+					/>
+				</label>
+				<label className="block">
+					<div className="text-gray-400 mb-1">Exclude (e.g. **/*.lock)</div>
+					<textarea
+						value={exclude}
+						onChange={(event) => setExclude(event.target.value)}
+						rows={3}
+						spellCheck={false}
+						className="w-full bg-gray-800 rounded px-2 py-1 font-mono"
+					/>
+				</label>
+				<div className="text-gray-500">
+					One glob per line, matched against full paths
+				</div>
+			</div>
+
+			<div className="flex gap-2 mt-3 text-xs">
+				<button
+					onClick={() => onApply(draft)}
+					disabled={!changed}
+					className="px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-500 rounded"
+				>
+					Apply
+				</button>
+				<button
+					onClick={() => {
+						setInclude("");
+						setExclude("");
+						onApply({ include: [], exclude: [] });
+					}}
+					className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded"
+				>
+					Clear
+				</button>
+			</div>
+		</div>
+	);
+}
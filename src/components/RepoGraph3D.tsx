@@ -1,24 +1,59 @@
 import { OrbitControls } from "@react-three/drei";
-import { Canvas, useThree } from "@react-three/fiber";
+import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import {
 	forwardRef,
 	useEffect,
 	useImperativeHandle,
+	useMemo,
 	useRef,
 	useState,
 } from "react";
 import * as THREE from "three";
 import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
+import type { SavedLayout } from "../services/storageService";
 import { FileEdge, FileNode } from "../types";
-import { ForceSimulation } from "../utils/forceSimulation";
+import {
+	type ForceSimulationConfig,
+	resolveForceConfig,
+	unpackPositions,
+} from "../utils/forceSimulation";
+import {
+	type Aggregate,
+	findAggregates,
+	getFocalLength,
+} from "../utils/levelOfDetail";
+import { SimulationRunner } from "../utils/simulationRunner";
+import {
+	type Building,
+	type LayoutMode,
+	TREE_LAYOUTS,
+} from "../utils/treeLayouts";
+import { AggregateNode3D } from "./AggregateNode3D";
 import { FileEdge3D } from "./FileEdge3D";
 import { FileNode3D } from "./FileNode3D";
+import { InstancedFileEdges } from "./InstancedFileEdges";
+import { InstancedFileNodes } from "./InstancedFileNodes";
+
+// Above this many nodes, draw with instanced meshes instead of a mesh per node
+const INSTANCING_THRESHOLD = 1500;
+
+// How often distant subtrees are re-checked for collapsing
+const LOD_INTERVAL_MS = 250;
 
 interface RepoGraph3DProps {
 	nodes: FileNode[];
 	edges: FileEdge[];
 	onNodeClick?: (node: FileNode) => void;
 	onNodeDoubleClick?: (node: FileNode) => void;
+	highlightedPaths?: Set<string>; // e.g. files brought in by a merge commit
+	nodeColors?: Map<string, string>; // Colours replacing the type colour, by node id
+	showDependencies?: boolean; // Draw import/dependency edges between files
+	layout?: Partial<ForceSimulationConfig>; // Force constants, defaults for anything unset
+	layoutMode?: LayoutMode; // Force simulation (default) or a deterministic tree layout
+	seed?: string; // Seeds starting positions of new nodes (e.g. the repo path)
+	savedPositions?: SavedLayout; // Positions from an earlier visit, for nodes not yet on screen
+	onLayoutSettled?: (nodes: FileNode[]) => void; // Force simulation finished for a commit
+	instancingThreshold?: number; // Node count above which instanced rendering is used
 }
 
 export interface RepoGraph3DHandle {
@@ -62,7 +97,7 @@ function CameraController({
 		if (node.type === "directory") {
 			// Find all children of this directory
 			const childIds = edges
-				.filter((edge) => edge.source === node.id)
+				.filter((edge) => edge.type === "parent" && edge.source === node.id)
 				.map((edge) => edge.target);
 
 			const children = nodes.filter((n) => childIds.includes(n.id));
@@ -149,29 +184,122 @@ function CameraController({
 	return null;
 }
 
+// Collapses subtrees that are small on screen into aggregate bubbles
+interface LevelOfDetailControllerProps {
+	nodes: FileNode[];
+	edges: FileEdge[];
+	expanded: ReadonlySet<string>; // Directories the user opened, never collapsed
+	enabled: boolean;
+	onChange: (aggregates: Map<string, Aggregate>) => void;
+}
+
+function LevelOfDetailController({
+	nodes,
+	edges,
+	expanded,
+	enabled,
+	onChange,
+}: LevelOfDetailControllerProps) {
+	const lastCheckRef = useRef(0);
+	const lastKeyRef = useRef("");
+
+	useFrame(({ camera, size }) => {
+		const now = Date.now();
+		if (now - lastCheckRef.current < LOD_INTERVAL_MS) return;
+		lastCheckRef.current = now;
+
+		const aggregates = enabled
+			? findAggregates(
+					nodes,
+					edges,
+					camera.position,
+					getFocalLength((camera as THREE.PerspectiveCamera).fov, size.height),
+					expanded,
+				)
+			: new Map<string, Aggregate>();
+
+		// Only re-render the graph when the collapsed set actually changes
+		const key = [...aggregates.values()]
+			.map(({ node, hidden, totalSize }) =>
+				[node.id, hidden.length, totalSize].join(":"),
+			)
+			.sort()
+			.join("\n");
+		if (key !== lastKeyRef.current) {
+			lastKeyRef.current = key;
+			onChange(aggregates);
+		}
+	});
+
+	return null;
+}
+
 export const RepoGraph3D = forwardRef<RepoGraph3DHandle, RepoGraph3DProps>(
-	function RepoGraph3D({ nodes, edges, onNodeClick, onNodeDoubleClick }, ref) {
+	function RepoGraph3D(
+		{
+			nodes,
+			edges,
+			onNodeClick,
+			onNodeDoubleClick,
+			highlightedPaths,
+			nodeColors,
+			showDependencies = true,
+			layout,
+			layoutMode = "force",
+			seed,
+			savedPositions,
+			onLayoutSettled,
+			instancingThreshold = INSTANCING_THRESHOLD,
+		},
+		ref,
+	) {
+		// Compare layouts by value so an inline object doesn't restart the simulation
+		const layoutKey = JSON.stringify(resolveForceConfig(layout));
+		const layoutConfig = useMemo<ForceSimulationConfig>(
+			() => JSON.parse(layoutKey),
+			[layoutKey],
+		);
+
 		const [simulationNodes, setSimulationNodes] = useState<FileNode[]>(nodes);
 		const [contextLost, setContextLost] = useState(false);
+		const [buildings, setBuildings] = useState<Map<string, Building> | null>(
+			null,
+		);
+		const [aggregates, setAggregates] = useState<Map<string, Aggregate>>(
+			() => new Map(),
+		);
+		const [expandedIds, setExpandedIds] = useState<ReadonlySet<string>>(
+			() => new Set(),
+		);
 		const [focusTarget, setFocusTarget] = useState<{
 			node: FileNode;
 			nodes: FileNode[];
 			edges: FileEdge[];
 		} | null>(null);
-		const simulationRef = useRef<ForceSimulation | null>(null);
-		const animationFrameRef = useRef<number>();
+		const runnerRef = useRef<SimulationRunner | null>(null);
 		const canvasRef = useRef<HTMLCanvasElement | null>(null);
 		const previousNodesRef = useRef<Map<string, FileNode>>(new Map());
 		const orbitControlsRef = useRef<OrbitControlsImpl>(null);
 
+		// Read through refs so new values don't restart the simulation
+		const savedPositionsRef = useRef(savedPositions);
+		savedPositionsRef.current = savedPositions;
+		const onLayoutSettledRef = useRef(onLayoutSettled);
+		onLayoutSettledRef.current = onLayoutSettled;
+
 		// Expose reset function and focus function to parent
 		useImperativeHandle(ref, () => ({
 			resetCamera: () => {
 				if (orbitControlsRef.current) {
 					orbitControlsRef.current.reset();
 				}
+				setExpandedIds(new Set());
 			},
 			focusOnNode: (node: FileNode) => {
+				// Focusing an aggregate opens it up
+				if (aggregates.has(node.id)) {
+					setExpandedIds((previous) => new Set(previous).add(node.id));
+				}
 				setFocusTarget({ node, nodes: simulationNodes, edges });
 			},
 		}));
@@ -198,7 +326,29 @@ export const RepoGraph3D = forwardRef<RepoGraph3DHandle, RepoGraph3DProps>(
 					node.vy = prevNode.vy;
 					node.vz = prevNode.vz;
 				} else {
-					hasNewNodes = true;
+					// Moved files start where their old path was and travel to the new parent
+					const movedFrom =
+						node.fileStatus === "moved" && node.previousPath
+							? previousNodes.get(node.previousPath)
+							: undefined;
+					// Otherwise restore where the node settled on an earlier visit
+					const saved = savedPositionsRef.current?.get(node.id);
+					if (movedFrom) {
+						node.x = movedFrom.x;
+						node.y = movedFrom.y;
+						node.z = movedFrom.z;
+						node.vx = 0;
+						node.vy = 0;
+						node.vz = 0;
+						hasNewNodes = true;
+					} else if (saved) {
+						[node.x, node.y, node.z] = saved;
+						node.vx = 0;
+						node.vy = 0;
+						node.vz = 0;
+					} else {
+						hasNewNodes = true;
+					}
 				}
 
 				// Separate deleted nodes - they keep their positions and don't participate in simulation
@@ -209,75 +359,81 @@ export const RepoGraph3D = forwardRef<RepoGraph3DHandle, RepoGraph3DProps>(
 				}
 			});
 
-			// Initialize or update simulation with only active nodes (not deleted)
-			simulationRef.current = new ForceSimulation(activeNodes, edges, {
-				strength: 1.0, // Spring stiffness (10x stronger to pull nodes closer)
-				distance: 15, // Ideal spring distance (reduced for tighter layout)
-				iterations: 500, // More iterations for better convergence
-			});
-
-			// Run simulation - fewer iterations if we're just adjusting existing nodes
-			let iterations = 0;
-			const maxIterations = hasNewNodes || previousNodes.size === 0 ? 500 : 200;
+			// Remember positions of both active and deleted nodes for the next commit
+			const savePositions = () => {
+				const allNodes = [...activeNodes, ...deletedNodes];
+				previousNodesRef.current = new Map(
+					allNodes.map((n) => [n.id, { ...n }]),
+				);
+			};
 
-			const simulate = () => {
-				if (!simulationRef.current || iterations >= maxIterations) {
-					if (animationFrameRef.current) {
-						cancelAnimationFrame(animationFrameRef.current);
-					}
-					// Update previous nodes reference when simulation completes
-					// Include both active and deleted nodes
-					if (simulationRef.current) {
-						const finalNodes = simulationRef.current.getNodes();
-						const allNodes = [...finalNodes, ...deletedNodes];
-						previousNodesRef.current = new Map(
-							allNodes.map((n) => [n.id, { ...n }]),
-						);
+			// Deterministic layouts are computed in one go from the directory hierarchy
+			if (layoutMode !== "force") {
+				const positions = TREE_LAYOUTS[layoutMode](activeNodes, edges);
+				const nodeBuildings = new Map<string, Building>();
+				for (const node of activeNodes) {
+					const position = positions.get(node.id);
+					if (!position) continue;
+					node.x = position.x;
+					node.y = position.y;
+					node.z = position.z;
+					node.vx = 0;
+					node.vy = 0;
+					node.vz = 0;
+					if (position.building) {
+						nodeBuildings.set(node.id, position.building);
 					}
-					return;
 				}
+				setBuildings(nodeBuildings.size > 0 ? nodeBuildings : null);
+				setSimulationNodes([...activeNodes, ...deletedNodes]);
+				savePositions();
+				return;
+			}
+			setBuildings(null);
 
-				simulationRef.current.tick();
-				const currentNodes = simulationRef.current.getNodes();
-				// Combine simulated nodes with deleted nodes (which stay in place)
-				const allNodes = [...currentNodes, ...deletedNodes];
-				setSimulationNodes(allNodes);
-				iterations++;
-
-				// Slow down the simulation over time for smooth convergence
-				if (iterations < 150) {
-					// Fast initial settling
-					animationFrameRef.current = requestAnimationFrame(simulate);
-				} else if (iterations < 300) {
-					// Medium speed
-					if (iterations % 2 === 0) {
-						animationFrameRef.current = requestAnimationFrame(simulate);
-					}
-				} else {
-					// Slow refinement
-					if (iterations % 3 === 0) {
-						animationFrameRef.current = requestAnimationFrame(simulate);
+			// Simulate only active nodes (not deleted) - the runner works off the main thread
+			if (!runnerRef.current) {
+				runnerRef.current = new SimulationRunner();
+			}
+			const runner = runnerRef.current;
+
+			// Run simulation - fewer iterations if we're just adjusting existing nodes
+			const maxIterations =
+				hasNewNodes || previousNodes.size === 0
+					? layoutConfig.iterations
+					: Math.round(layoutConfig.iterations * 0.4);
+
+			runner.start(
+				activeNodes,
+				edges,
+				maxIterations,
+				(positions, done) => {
+					unpackPositions(activeNodes, positions);
+					// Combine simulated nodes with deleted nodes (which stay in place)
+					setSimulationNodes([...activeNodes, ...deletedNodes]);
+					if (done) {
+						savePositions();
+						onLayoutSettledRef.current?.(activeNodes);
 					}
-				}
-			};
+				},
+				layoutConfig,
+				seed,
+			);
 
-			simulate();
+			return () => {
+				runner.stop();
+				// Save latest positions even if simulation is interrupted
+				savePositions();
+			};
+		}, [nodes, edges, layoutConfig, layoutMode, seed]);
 
+		// Shut down the simulation worker on unmount
+		useEffect(() => {
 			return () => {
-				if (animationFrameRef.current) {
-					cancelAnimationFrame(animationFrameRef.current);
-				}
-				// Save final positions even if simulation is interrupted
-				// Include both active and deleted nodes
-				if (simulationRef.current) {
-					const finalNodes = simulationRef.current.getNodes();
-					const allNodes = [...finalNodes, ...deletedNodes];
-					previousNodesRef.current = new Map(
-						allNodes.map((n) => [n.id, { ...n }]),
-					);
-				}
+				runnerRef.current?.dispose();
+				runnerRef.current = null;
 			};
-		}, [nodes, edges]);
+		}, []);
 
 		// Handle WebGL context loss/restore
 		useEffect(() => {
@@ -310,6 +466,32 @@ export const RepoGraph3D = forwardRef<RepoGraph3DHandle, RepoGraph3DProps>(
 		// No memoization - recalculate nodeMap on every render
 		const nodeMap = new Map(simulationNodes.map((n) => [n.id, n]));
 
+		// Nodes folded into an aggregate aren't drawn, nor are their edges
+		const hiddenIds = useMemo(() => {
+			const ids = new Set<string>();
+			for (const aggregate of aggregates.values()) {
+				for (const id of aggregate.hidden) ids.add(id);
+			}
+			return ids;
+		}, [aggregates]);
+		const renderedNodes = simulationNodes.filter(
+			(node) => !hiddenIds.has(node.id) && !aggregates.has(node.id),
+		);
+
+		const visibleEdges = useMemo(
+			() =>
+				edges.filter((edge) => {
+					if (!showDependencies && edge.type === "dependency") return false;
+					// Treemap districts already show the hierarchy
+					if (buildings && edge.type === "parent") return false;
+					return !hiddenIds.has(edge.source) && !hiddenIds.has(edge.target);
+				}),
+			[edges, showDependencies, buildings, hiddenIds],
+		);
+
+		// A mesh per node stops keeping up with large repos
+		const instanced = simulationNodes.length > instancingThreshold;
+
 		// Debug: Log nodes and edges on first render
 		// Debug logging removed - was flooding console during autoload testing
 		// if (simulationNodes.length > 0 && edges.length > 0) {
@@ -385,25 +567,64 @@ export const RepoGraph3D = forwardRef<RepoGraph3DHandle, RepoGraph3DProps>(
 				<pointLight position={[100, 100, 100]} intensity={1} />
 				<pointLight position={[-100, -100, -100]} intensity={0.5} />
 
-				{/* Render edges first so they appear behind nodes */}
-				{edges.map((edge, i) => {
-					const source = nodeMap.get(edge.source);
-					const target = nodeMap.get(edge.target);
-					// Include node positions in key to force re-render when positions change
-					const key = `edge-${i}-${source?.x?.toFixed(1) ?? 0}-${source?.y?.toFixed(1) ?? 0}-${target?.x?.toFixed(1) ?? 0}-${target?.y?.toFixed(1) ?? 0}`;
-					return <FileEdge3D key={key} edge={edge} nodes={nodeMap} />;
-				})}
-
-				{/* Render nodes */}
-				{simulationNodes.map((node) => (
-					<FileNode3D
-						key={node.id}
-						node={node}
+				{instanced ? (
+					<>
+						<InstancedFileEdges edges={visibleEdges} nodes={nodeMap} />
+						<InstancedFileNodes
+							nodes={renderedNodes}
+							buildings={buildings}
+							highlightedPaths={highlightedPaths}
+							nodeColors={nodeColors}
+							onClick={onNodeClick}
+							onDoubleClick={onNodeDoubleClick}
+						/>
+					</>
+				) : (
+					<>
+						{/* Render edges first so they appear behind nodes */}
+						{visibleEdges.map((edge, i) => {
+							const source = nodeMap.get(edge.source);
+							const target = nodeMap.get(edge.target);
+							// Include node positions in key to force re-render when positions change
+							const key = `edge-${i}-${source?.x?.toFixed(1) ?? 0}-${source?.y?.toFixed(1) ?? 0}-${target?.x?.toFixed(1) ?? 0}-${target?.y?.toFixed(1) ?? 0}`;
+							return <FileEdge3D key={key} edge={edge} nodes={nodeMap} />;
+						})}
+
+						{/* Render nodes */}
+						{renderedNodes.map((node) => (
+							<FileNode3D
+								key={node.id}
+								node={node}
+								highlighted={highlightedPaths?.has(node.path)}
+								building={buildings?.get(node.id)}
+								color={nodeColors?.get(node.id)}
+								onClick={onNodeClick}
+								onDoubleClick={onNodeDoubleClick}
+							/>
+						))}
+					</>
+				)}
+
+				{/* Distant subtrees, collapsed into one bubble each */}
+				{[...aggregates.values()].map(({ node, totalSize, fileCount }) => (
+					<AggregateNode3D
+						key={`aggregate-${node.id}`}
+						node={nodeMap.get(node.id) ?? node}
+						totalSize={totalSize}
+						fileCount={fileCount}
 						onClick={onNodeClick}
 						onDoubleClick={onNodeDoubleClick}
 					/>
 				))}
 
+				<LevelOfDetailController
+					nodes={simulationNodes}
+					edges={edges}
+					expanded={expandedIds}
+					enabled={!buildings} // The treemap stays fully detailed
+					onChange={setAggregates}
+				/>
+
 				<OrbitControls
 					ref={orbitControlsRef}
 					enableDamping
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { parseRepoInput } from "../utils/repoPath";
 
 export function RepoInput() {
 	const navigate = useNavigate();
@@ -12,27 +13,28 @@ export function RepoInput() {
 
 		// Parse the input - accept formats like:
 		// - "owner/repo"
-		// - "https://github.com/owner/repo"
 		// - "https://github.com/owner/repo/pull/123" (extract owner/repo)
-		let repoPath = input.trim();
+		// - "https://gitlab.com/group/subgroup/project" (also self-hosted GitLab)
+		// - "https://bitbucket.org/workspace/repo"
+		const repoPath = parseRepoInput(input);
 
-		// Extract from GitHub URL
-		const githubUrlMatch = repoPath.match(/github\.com\/([^/]+\/[^/]+)/i);
-		if (githubUrlMatch) {
-			repoPath = githubUrlMatch[1];
+		if (!repoPath) {
+			setError(
+				'Invalid format. Please enter "owner/repo" or a GitHub, GitLab or Bitbucket URL.',
+			);
+			return;
 		}
 
-		// Remove trailing slashes and .git
-		repoPath = repoPath.replace(/\.git$/, "").replace(/\/$/, "");
-
-		// Validate format: should be "owner/repo"
-		if (!/^[^/]+\/[^/]+$/.test(repoPath)) {
-			setError('Invalid format. Please enter "owner/repo" or a GitHub URL.');
+		// Navigate to the repo route ("gitlab:group/project" -> "/gitlab/group/project",
+		// "gitlab@gitlab.example.com:group/project" -> "/gitlab/group/project?instance=gitlab.example.com")
+		const selfHosted = repoPath.match(/^gitlab@([^:]+):(.+)$/);
+		if (selfHosted) {
+			navigate(
+				`/gitlab/${selfHosted[2]}?instance=${encodeURIComponent(selfHosted[1])}`,
+			);
 			return;
 		}
-
-		// Navigate to the repo route
-		navigate(`/${repoPath}`);
+		navigate(`/${repoPath.replace(/^(gitlab|bitbucket):/, "$1/")}`);
 	};
 
 	return (
@@ -59,7 +61,7 @@ export function RepoInput() {
 						</a>
 					</div>
 					<p className="text-gray-400 text-lg">
-						Visualize how a GitHub repository evolved through commits
+						Visualize how a Git repository evolved through commits
 					</p>
 				</div>
 
@@ -69,14 +71,14 @@ export function RepoInput() {
 							htmlFor="repo-input"
 							className="block text-sm font-medium mb-2"
 						>
-							GitHub Repository
+							Repository
 						</label>
 						<input
 							id="repo-input"
 							type="text"
 							value={input}
 							onChange={(e) => setInput(e.target.value)}
-							placeholder="owner/repo (e.g., facebook/react)"
+							placeholder="owner/repo or a GitHub, GitLab or Bitbucket URL"
 							className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-500"
 						/>
 						{error && <p className="mt-2 text-sm text-red-400">{error}</p>}
@@ -97,6 +99,7 @@ export function RepoInput() {
 						<li>• rjwalters/bucket-brigade</li>
 						<li>• facebook/react</li>
 						<li>• microsoft/vscode</li>
+						<li>• https://gitlab.com/gitlab-org/gitlab-runner</li>
 					</ul>
 				</div>
 
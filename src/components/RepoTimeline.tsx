@@ -2,20 +2,56 @@ import {
 	ArrowLeft,
 	ChevronDown,
 	ChevronUp,
+	Filter,
+	FolderClosed,
+	FolderOpen,
 	Loader2,
+	Network,
 	RefreshCw,
+	SlidersHorizontal,
 } from "lucide-react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { TEST_MODE } from "../config";
 import { usePlaybackTimer } from "../hooks/usePlaybackTimer";
 import { useRepoData } from "../hooks/useRepoData";
 import type { RepoTimelineProps } from "../lib/types";
 import { StorageService } from "../services/storageService";
 import { FileNode } from "../types";
+import type { TimelineFilePatch } from "../types/provider";
+import {
+	ChangeFrequencyWindow,
+	DAY_MS,
+	getWindowBounds,
+} from "../utils/changeFrequency";
+import { collapseDirectories } from "../utils/collapseDirectories";
+import {
+	type ColorMode,
+	getAuthorColors,
+	getAuthorLegend,
+	getHeatColors,
+} from "../utils/colorModes";
+import { getMergeChangedPaths } from "../utils/commitGraph";
+import { getFileHistory } from "../utils/fileHistory";
+import {
+	getFileTypeColors,
+	getFileTypeLegend,
+	hideFileTypes,
+	normalizeFileTypeColors,
+} from "../utils/fileTypes";
+import type { ForceSimulationConfig } from "../utils/forceSimulation";
+import { isEmptyFilter, type PathFilter } from "../utils/pathFilter";
 import { getCurrentIndex } from "../utils/timelineHelpers";
+import type { LayoutMode } from "../utils/treeLayouts";
+import { AuthorLegend } from "./AuthorLegend";
 import { EmptyState } from "./EmptyState";
 import { ErrorState } from "./ErrorState";
+import { FileHistoryPanel } from "./FileHistoryPanel";
+import { FilePatchViewer } from "./FilePatchViewer";
+import { FileTypeLegend } from "./FileTypeLegend";
+import { HeatLegend } from "./HeatLegend";
+import { LayoutTuningPanel } from "./LayoutTuningPanel";
 import { LoadingState } from "./LoadingState";
+import { PathFilterPanel } from "./PathFilterPanel";
 import { RateLimitDisplay } from "./RateLimitDisplay";
 import { RepoGraph3D, type RepoGraph3DHandle } from "./RepoGraph3D";
 import { RepoStatusBanner } from "./RepoStatusBanner";
@@ -25,19 +61,60 @@ import {
 	TimelineScrubber,
 } from "./TimelineScrubber";
 
+const LAYOUT_MODES: Array<{ value: LayoutMode; label: string }> = [
+	{ value: "force", label: "Force" },
+	{ value: "radial", label: "Radial tree" },
+	{ value: "cone", label: "Cone tree" },
+	{ value: "treemap", label: "Treemap" },
+];
+
+const COLOR_MODES: Array<{ value: ColorMode; label: string }> = [
+	{ value: "type", label: "Colour by type" },
+	{ value: "extension", label: "Colour by file extension" },
+	{ value: "author", label: "Colour by author" },
+	{ value: "heat", label: "Change frequency" },
+];
+
+// Settled positions are written once layouts stop settling for this long, so
+// playback (a settle per commit) doesn't rewrite the stored layout every step
+const LAYOUT_SAVE_DELAY_MS = 2000;
+
 export function RepoTimeline({
 	repoPath,
 	workerUrl,
+	localServerUrl,
+	dataProvider,
+	gitRef,
 	onBack,
 	showControls = true,
+	showDependencies: initialShowDependencies = true,
 	autoPlay = false,
 	playbackSpeed: initialPlaybackSpeed = 60,
 	playbackDirection: initialPlaybackDirection = "forward",
+	layout,
+	layoutMode: initialLayoutMode = "force",
+	persistLayout = true,
+	collapsedPaths: initialCollapsedPaths,
+	include,
+	exclude,
+	colorMode: initialColorMode = "type",
+	heatWindowDays: initialHeatWindowDays = 30,
+	fileTypeColors,
 	onError,
 }: RepoTimelineProps) {
+	// Path filter, editable from the header; changing it rebuilds the timeline
+	const [pathFilter, setPathFilter] = useState<PathFilter>({
+		include,
+		exclude,
+	});
+	const [showPathFilter, setShowPathFilter] = useState(false);
+
 	// Data loading state managed by custom hook
 	const {
 		commits,
+		getStateAt,
+		getChangedPaths,
+		fetchFilePatch,
 		currentTime,
 		setCurrentTime,
 		timeRange,
@@ -55,19 +132,49 @@ export function RepoTimeline({
 	} = useRepoData({
 		repoPath,
 		workerUrl,
+		localServerUrl,
+		dataProvider,
+		gitRef,
+		filter: pathFilter,
 		testMode: TEST_MODE,
 		onError,
 	});
 
 	// UI state
 	const [selectedNode, setSelectedNode] = useState<FileNode | null>(null);
+	// Commit the selected node was picked at - its path is only valid there
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [filePatch, setFilePatch] = useState<{
+		patch: TimelineFilePatch | null;
+		loading: boolean;
+		error: string | null;
+	} | null>(null);
 	const [isPlaying, setIsPlaying] = useState(autoPlay);
+	const [showDependencies, setShowDependencies] = useState(
+		initialShowDependencies,
+	);
 	const [playbackSpeed, setPlaybackSpeed] =
 		useState<PlaybackSpeed>(initialPlaybackSpeed);
 	const [playbackDirection, setPlaybackDirection] = useState<PlaybackDirection>(
 		initialPlaybackDirection,
 	);
 	const [isBannerVisible, setIsBannerVisible] = useState(true);
+	const [layoutMode, setLayoutMode] = useState<LayoutMode>(initialLayoutMode);
+	const [colorMode, setColorMode] = useState<ColorMode>(initialColorMode);
+	const [highlightedAuthor, setHighlightedAuthor] = useState<string | null>(
+		null,
+	);
+	const [heatWindowDays, setHeatWindowDays] = useState(initialHeatWindowDays);
+	const [hiddenFileTypes, setHiddenFileTypes] = useState<ReadonlySet<string>>(
+		() => new Set(),
+	);
+	const [showLayoutTuning, setShowLayoutTuning] = useState(false);
+	const [layoutOverrides, setLayoutOverrides] = useState<
+		Partial<ForceSimulationConfig>
+	>({});
+	const [collapsedPaths, setCollapsedPaths] = useState<ReadonlySet<string>>(
+		() => new Set(initialCollapsedPaths),
+	);
 	const graphRef = useRef<RepoGraph3DHandle>(null);
 
 	const handleResetView = useCallback(() => {
@@ -79,6 +186,8 @@ export function RepoTimeline({
 	}, []);
 
 	const currentIndex = getCurrentIndex(commits, currentTime);
+	const currentIndexRef = useRef(currentIndex);
+	currentIndexRef.current = currentIndex;
 
 	// Use playback timer hook for automatic time advancement
 	usePlaybackTimer({
@@ -146,9 +255,35 @@ export function RepoTimeline({
 
 	const handleNodeClick = useCallback((node: FileNode) => {
 		setSelectedNode(node);
+		setSelectedIndex(currentIndexRef.current);
 		console.log("Selected node:", node);
 	}, []);
 
+	const handleToggleCollapsed = useCallback((path: string) => {
+		setCollapsedPaths((prev) => {
+			const next = new Set(prev);
+			if (next.has(path)) {
+				next.delete(path);
+			} else {
+				next.add(path);
+			}
+			return next;
+		});
+		setSelectedNode(null);
+	}, []);
+
+	const handleToggleFileType = useCallback((extension: string) => {
+		setHiddenFileTypes((prev) => {
+			const next = new Set(prev);
+			if (next.has(extension)) {
+				next.delete(extension);
+			} else {
+				next.add(extension);
+			}
+			return next;
+		});
+	}, []);
+
 	const handleClearCache = useCallback(() => {
 		StorageService.clearCache(repoPath);
 		loadCommits(true); // Force reload from API
@@ -158,6 +293,200 @@ export function RepoTimeline({
 		setIsBannerVisible((prev) => !prev);
 	}, []);
 
+	// Resolve the current commit's file tree from the delta store
+	const currentState = useMemo(
+		() => (commits.length > 0 ? getStateAt(currentIndex) : null),
+		[commits, currentIndex, getStateAt],
+	);
+
+	// Drop hidden file types, then fold collapsed directories into single
+	// nodes, before they reach the graph. Types are only hidden while the
+	// extension legend that shows them again is on screen
+	const graphState = useMemo(() => {
+		if (!currentState) return null;
+		const visible = hideFileTypes(
+			currentState.files,
+			currentState.edges,
+			colorMode === "extension" ? hiddenFileTypes : new Set<string>(),
+		);
+		return collapseDirectories(visible.nodes, visible.edges, collapsedPaths);
+	}, [currentState, colorMode, hiddenFileTypes, collapsedPaths]);
+
+	// Node positions saved on earlier visits, kept up to date as layouts settle
+	const savedLayout = useMemo(
+		() =>
+			persistLayout
+				? (StorageService.loadLayout(repoPath) ?? new Map())
+				: undefined,
+		[repoPath, persistLayout],
+	);
+
+	const layoutSaveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+	const handleLayoutSettled = useCallback(
+		(nodes: FileNode[]) => {
+			if (!savedLayout) return;
+			for (const node of nodes) {
+				if (
+					node.x === undefined ||
+					node.y === undefined ||
+					node.z === undefined
+				)
+					continue;
+				// Re-insert so the most recently placed nodes survive the size cap
+				savedLayout.delete(node.id);
+				savedLayout.set(node.id, [node.x, node.y, node.z]);
+			}
+			clearTimeout(layoutSaveTimer.current);
+			layoutSaveTimer.current = setTimeout(() => {
+				layoutSaveTimer.current = undefined;
+				StorageService.saveLayout(repoPath, savedLayout);
+			}, LAYOUT_SAVE_DELAY_MS);
+		},
+		[repoPath, savedLayout],
+	);
+
+	// Write a pending layout straight away when the page is hidden, the repo
+	// changes or the timeline unmounts
+	useEffect(() => {
+		if (!savedLayout) return;
+		const flush = () => {
+			if (layoutSaveTimer.current === undefined) return;
+			clearTimeout(layoutSaveTimer.current);
+			layoutSaveTimer.current = undefined;
+			StorageService.saveLayout(repoPath, savedLayout);
+		};
+		window.addEventListener("pagehide", flush);
+		return () => {
+			window.removeEventListener("pagehide", flush);
+			flush();
+		};
+	}, [repoPath, savedLayout]);
+
+	// Live tuning overrides (dev only) take precedence over the layout prop
+	const graphLayout = useMemo(
+		() => ({ ...layout, ...layoutOverrides }),
+		[layout, layoutOverrides],
+	);
+
+	// Highlight the files a merge commit brought into its first parent
+	const mergeChangedPaths = useMemo(
+		() => (currentState ? getMergeChangedPaths(currentState) : undefined),
+		[currentState],
+	);
+
+	// Author colour mode: colours handed out by commit count over loaded commits
+	const authorLegend = useMemo(() => getAuthorLegend(commits), [commits]);
+
+	// Extension colour mode: the legend counts every file, hidden types included.
+	// Overrides are compared by value so inline objects don't recolour each render
+	const typeColorsKey = JSON.stringify(normalizeFileTypeColors(fileTypeColors));
+	const typeColors = useMemo<Record<string, string>>(
+		() => JSON.parse(typeColorsKey),
+		[typeColorsKey],
+	);
+	const fileTypeLegend = useMemo(
+		() =>
+			colorMode === "extension" && currentState
+				? getFileTypeLegend(currentState.files, typeColors)
+				: [],
+		[colorMode, currentState, typeColors],
+	);
+
+	// Heat map mode: commits per file over the window ending at the current time.
+	// The window is moved commit by commit, and only when its bounds change
+	const heatWindow = useMemo(
+		() => new ChangeFrequencyWindow(getChangedPaths),
+		[getChangedPaths],
+	);
+	const [heatStart, heatEnd] =
+		colorMode === "heat"
+			? getWindowBounds(commits, currentTime, heatWindowDays * DAY_MS)
+			: [0, 0];
+	const heatCounts = useMemo(
+		() =>
+			colorMode === "heat"
+				? heatWindow.moveTo(commits, heatStart, heatEnd)
+				: undefined,
+		[colorMode, heatWindow, commits, heatStart, heatEnd],
+	);
+
+	const nodeColors = useMemo(() => {
+		if (!graphState) return undefined;
+		if (colorMode === "extension") {
+			return getFileTypeColors(graphState.nodes, typeColors);
+		}
+		if (colorMode === "author") {
+			return getAuthorColors(graphState.nodes, authorLegend);
+		}
+		if (colorMode === "heat" && heatCounts) {
+			return getHeatColors(graphState.nodes, heatCounts);
+		}
+		return undefined;
+	}, [colorMode, graphState, typeColors, authorLegend, heatCounts]);
+
+	// Commits that touched the selected file, for the history panel
+	const fileHistory = useMemo(
+		() =>
+			selectedNode?.type === "file" && commits.length > 0
+				? getFileHistory(
+						commits,
+						selectedNode.path,
+						selectedIndex,
+						getChangedPaths,
+					)
+				: null,
+		[selectedNode, selectedIndex, commits, getChangedPaths],
+	);
+
+	// The selected file's change in the current commit, under the name it had
+	// there - kept as strings so reloading history doesn't refetch the diff
+	const patchEntry = fileHistory?.find(({ index }) => index === currentIndex);
+	const patchHash = patchEntry?.commit.hash ?? null;
+	const patchPath = patchEntry
+		? (patchEntry.change?.path ?? selectedNode?.path ?? null)
+		: null;
+
+	// Fetch the diff for the info panel when the provider can serve one
+	useEffect(() => {
+		const request =
+			patchHash && patchPath ? fetchFilePatch(patchHash, patchPath) : null;
+		if (!request) {
+			setFilePatch(null);
+			return;
+		}
+
+		let cancelled = false;
+		setFilePatch({ patch: null, loading: true, error: null });
+		request
+			.then((patch) => {
+				if (!cancelled) setFilePatch({ patch, loading: false, error: null });
+			})
+			.catch((err) => {
+				if (cancelled) return;
+				setFilePatch({
+					patch: null,
+					loading: false,
+					error: err instanceof Error ? err.message : "Failed to load diff",
+				});
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [patchHash, patchPath, fetchFilePatch]);
+
+	// Files of the author picked in the legend replace the merge highlight
+	const authorPaths = useMemo(() => {
+		if (colorMode !== "author" || !highlightedAuthor || !graphState) {
+			return undefined;
+		}
+		return new Set(
+			graphState.nodes
+				.filter((node) => node.lastAuthor === highlightedAuthor)
+				.map((node) => node.path),
+		);
+	}, [colorMode, highlightedAuthor, graphState]);
+
 	if (loading) {
 		return <LoadingState loadProgress={loadProgress} fromCache={fromCache} />;
 	}
@@ -186,17 +515,14 @@ export function RepoTimeline({
 	}
 
 	// Get current commit or show loading state
-	const currentCommit =
-		commits.length > 0
-			? commits[currentIndex]
-			: {
-					hash: "",
-					message: "Loading...",
-					author: "",
-					date: new Date(),
-					files: [],
-					edges: [],
-				};
+	const currentCommit = currentState ?? {
+		hash: "",
+		message: "Loading...",
+		author: "",
+		date: new Date(),
+		files: [],
+		edges: [],
+	};
 
 	return (
 		<div className="w-full h-full relative flex flex-col">
@@ -204,11 +530,46 @@ export function RepoTimeline({
 			<div className="flex-1 relative z-0">
 				<RepoGraph3D
 					ref={graphRef}
-					nodes={currentCommit.files}
-					edges={currentCommit.edges}
+					nodes={graphState?.nodes ?? currentCommit.files}
+					edges={graphState?.edges ?? currentCommit.edges}
 					onNodeClick={handleNodeClick}
 					onNodeDoubleClick={handleNodeDoubleClick}
+					highlightedPaths={authorPaths ?? mergeChangedPaths}
+					nodeColors={nodeColors}
+					showDependencies={showDependencies}
+					layout={graphLayout}
+					layoutMode={layoutMode}
+					seed={repoPath}
+					savedPositions={savedLayout}
+					onLayoutSettled={handleLayoutSettled}
 				/>
+
+				{colorMode === "extension" && fileTypeLegend.length > 0 && (
+					<div className="absolute bottom-4 right-4">
+						<FileTypeLegend
+							entries={fileTypeLegend}
+							hiddenTypes={hiddenFileTypes}
+							onToggle={handleToggleFileType}
+						/>
+					</div>
+				)}
+				{colorMode === "author" && authorLegend.length > 0 && (
+					<div className="absolute bottom-4 right-4">
+						<AuthorLegend
+							entries={authorLegend}
+							highlightedAuthor={highlightedAuthor}
+							onSelect={setHighlightedAuthor}
+						/>
+					</div>
+				)}
+				{colorMode === "heat" && (
+					<div className="absolute bottom-4 right-4">
+						<HeatLegend
+							windowDays={heatWindowDays}
+							onWindowChange={setHeatWindowDays}
+						/>
+					</div>
+				)}
 			</div>
 
 			{/* Timeline Controls - sits at bottom with higher z-index */}
@@ -249,6 +610,7 @@ export function RepoTimeline({
 					)}
 					<TimelineScrubber
 						commits={commits}
+						fileCount={currentCommit.files.length}
 						currentTime={currentTime}
 						onTimeChange={setCurrentTime}
 						timeRange={timeRange}
@@ -259,6 +621,7 @@ export function RepoTimeline({
 						playbackDirection={playbackDirection}
 						onDirectionChange={setPlaybackDirection}
 						onResetView={handleResetView}
+						getChangedPaths={getChangedPaths}
 					/>
 				</div>
 			)}
@@ -278,13 +641,77 @@ export function RepoTimeline({
 							<span className="text-gray-400">Size:</span> {selectedNode.size}{" "}
 							bytes
 						</div>
+						{selectedNode.collapsed && (
+							<div>
+								<span className="text-gray-400">Files:</span>{" "}
+								{selectedNode.collapsed.fileCount} (
+								{selectedNode.collapsed.changedCount} changed)
+							</div>
+						)}
+					</div>
+					{filePatch && (
+						<FilePatchViewer
+							patch={filePatch.patch}
+							loading={filePatch.loading}
+							error={filePatch.error}
+						/>
+					)}
+					{fileHistory && (
+						<FileHistoryPanel
+							entries={fileHistory}
+							currentIndex={currentIndex}
+							timeRange={timeRange}
+							onSelect={(index) => {
+								setIsPlaying(false);
+								setCurrentTime(commits[index].date.getTime());
+							}}
+						/>
+					)}
+					<div className="flex gap-3 mt-3 text-xs">
+						{selectedNode.type === "directory" && selectedNode.path !== "/" && (
+							<button
+								onClick={() => handleToggleCollapsed(selectedNode.path)}
+								className="flex items-center gap-1 text-gray-400 hover:text-white"
+							>
+								{collapsedPaths.has(selectedNode.path) ? (
+									<>
+										<FolderOpen size={12} /> Expand
+									</>
+								) : (
+									<>
+										<FolderClosed size={12} /> Collapse
+									</>
+								)}
+							</button>
+						)}
+						<button
+							onClick={() => setSelectedNode(null)}
+							className="text-gray-400 hover:text-white"
+						>
+							Close
+						</button>
 					</div>
-					<button
-						onClick={() => setSelectedNode(null)}
-						className="mt-3 text-xs text-gray-400 hover:text-white"
-					>
-						Close
-					</button>
+				</div>
+			)}
+
+			{/* Path filter editor and layout tuning panel (dev builds only) */}
+			{(showPathFilter || (import.meta.env.DEV && showLayoutTuning)) && (
+				<div className="absolute top-36 left-4 flex flex-col gap-2">
+					{showPathFilter && (
+						<PathFilterPanel
+							filter={pathFilter}
+							onApply={setPathFilter}
+							onClose={() => setShowPathFilter(false)}
+						/>
+					)}
+					{import.meta.env.DEV && showLayoutTuning && (
+						<LayoutTuningPanel
+							layout={layout ?? {}}
+							overrides={layoutOverrides}
+							onChange={setLayoutOverrides}
+							onClose={() => setShowLayoutTuning(false)}
+						/>
+					)}
 				</div>
 			)}
 
@@ -292,7 +719,14 @@ export function RepoTimeline({
 			<div className="absolute top-4 left-4 bg-gray-900 bg-opacity-90 text-white p-4 rounded-lg border border-gray-700">
 				<div className="flex items-center justify-between gap-4">
 					<div>
-						<h1 className="text-xl font-bold mb-1">{repoPath}</h1>
+						<h1 className="text-xl font-bold mb-1">
+							{repoPath}
+							{gitRef && (
+								<span className="ml-2 text-sm font-normal text-gray-400">
+									@ {gitRef}
+								</span>
+							)}
+						</h1>
 						<div className="flex items-center gap-3 mt-2">
 							{rateLimitedCache && (
 								<div className="text-xs text-yellow-400 bg-yellow-900 bg-opacity-20 px-2 py-1 rounded border border-yellow-600">
@@ -330,6 +764,63 @@ export function RepoTimeline({
 								<ArrowLeft size={20} />
 							</button>
 						)}
+						<button
+							onClick={() => setShowDependencies((prev) => !prev)}
+							className={`p-2 hover:bg-gray-800 rounded transition-colors ${
+								showDependencies ? "text-cyan-400" : "text-gray-500"
+							}`}
+							title={
+								showDependencies
+									? "Hide dependency edges"
+									: "Show dependency edges"
+							}
+						>
+							<Network size={20} />
+						</button>
+						<button
+							onClick={() => setShowPathFilter((prev) => !prev)}
+							className={`p-2 hover:bg-gray-800 rounded transition-colors ${
+								isEmptyFilter(pathFilter) ? "text-gray-500" : "text-cyan-400"
+							}`}
+							title="Filter paths"
+						>
+							<Filter size={20} />
+						</button>
+						<select
+							value={layoutMode}
+							onChange={(e) => setLayoutMode(e.target.value as LayoutMode)}
+							className="bg-gray-800 text-gray-300 text-sm rounded px-2 hover:bg-gray-700 transition-colors"
+							title="Layout"
+						>
+							{LAYOUT_MODES.map(({ value, label }) => (
+								<option key={value} value={value}>
+									{label}
+								</option>
+							))}
+						</select>
+						<select
+							value={colorMode}
+							onChange={(e) => setColorMode(e.target.value as ColorMode)}
+							className="bg-gray-800 text-gray-300 text-sm rounded px-2 hover:bg-gray-700 transition-colors"
+							title="Colour files by"
+						>
+							{COLOR_MODES.map(({ value, label }) => (
+								<option key={value} value={value}>
+									{label}
+								</option>
+							))}
+						</select>
+						{import.meta.env.DEV && (
+							<button
+								onClick={() => setShowLayoutTuning((prev) => !prev)}
+								className={`p-2 hover:bg-gray-800 rounded transition-colors ${
+									showLayoutTuning ? "text-cyan-400" : "text-gray-500"
+								}`}
+								title="Tune layout forces"
+							>
+								<SlidersHorizontal size={20} />
+							</button>
+						)}
 						<button
 							onClick={() => loadCommits(true)}
 							className="p-2 hover:bg-gray-800 rounded transition-colors"
@@ -1,13 +1,23 @@
-import { CommitData } from "../types";
+import { useCallback, useMemo, useState } from "react";
+import { CommitSummary } from "../types";
+import { hasBranchTopology } from "../utils/commitGraph";
+import {
+	type CommitSearchQuery,
+	findCommitMatches,
+	getAdjacentMatch,
+} from "../utils/commitSearch";
 import { getCurrentIndex } from "../utils/timelineHelpers";
+import { BranchLanes } from "./timeline/BranchLanes";
 import { CommitInfo } from "./timeline/CommitInfo";
+import { CommitSearch } from "./timeline/CommitSearch";
 import { PlaybackControls } from "./timeline/PlaybackControls";
 
 export type PlaybackSpeed = 1 | 60 | 300 | 1800;
 export type PlaybackDirection = "forward" | "reverse";
 
 interface TimelineScrubberProps {
-	commits: CommitData[];
+	commits: CommitSummary[];
+	fileCount: number; // Nodes in the current commit's tree
 	currentTime: number; // Current timestamp in ms
 	onTimeChange: (time: number) => void;
 	timeRange: { start: number; end: number }; // Time range in ms
@@ -18,10 +28,12 @@ interface TimelineScrubberProps {
 	playbackDirection: PlaybackDirection;
 	onDirectionChange: (direction: PlaybackDirection) => void;
 	onResetView?: () => void;
+	getChangedPaths?: (index: number) => string[]; // Lets path search cover commits without `changes`
 }
 
 export function TimelineScrubber({
 	commits,
+	fileCount,
 	currentTime,
 	onTimeChange,
 	timeRange,
@@ -32,8 +44,34 @@ export function TimelineScrubber({
 	playbackDirection,
 	onDirectionChange,
 	onResetView,
+	getChangedPaths,
 }: TimelineScrubberProps) {
 	const currentIndex = getCurrentIndex(commits, currentTime);
+	const showBranchLanes = useMemo(() => hasBranchTopology(commits), [commits]);
+	const [searchQuery, setSearchQuery] = useState<CommitSearchQuery>({
+		text: "",
+		field: "message",
+		regex: false,
+	});
+
+	const search = useMemo(
+		() => findCommitMatches(commits, searchQuery, getChangedPaths),
+		[commits, searchQuery, getChangedPaths],
+	);
+	const matchSet = useMemo(() => new Set(search.matches), [search]);
+	const matchPosition = matchSet.has(currentIndex)
+		? search.matches.indexOf(currentIndex) + 1
+		: null;
+
+	const handleNextMatch = useCallback(() => {
+		const index = getAdjacentMatch(search.matches, currentIndex, "next");
+		if (index !== null) onTimeChange(commits[index].date.getTime());
+	}, [search, currentIndex, commits, onTimeChange]);
+
+	const handlePreviousMatch = useCallback(() => {
+		const index = getAdjacentMatch(search.matches, currentIndex, "previous");
+		if (index !== null) onTimeChange(commits[index].date.getTime());
+	}, [search, currentIndex, commits, onTimeChange]);
 
 	const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		// Convert slider value (0-100) to timestamp
@@ -59,6 +97,10 @@ export function TimelineScrubber({
 		}
 	};
 
+	const handleSelectCommit = (index: number) => {
+		onTimeChange(commits[index].date.getTime());
+	};
+
 	const handleSkipToStart = () => {
 		onTimeChange(timeRange.start);
 	};
@@ -81,6 +123,16 @@ export function TimelineScrubber({
 					isPlaying={isPlaying}
 				/>
 
+				<CommitSearch
+					query={searchQuery}
+					onQueryChange={setSearchQuery}
+					matchCount={search.matches.length}
+					matchPosition={matchPosition}
+					error={search.error}
+					onPrevious={handlePreviousMatch}
+					onNext={handleNextMatch}
+				/>
+
 				{/* Video-style controls */}
 				<div className="flex items-center gap-3 mb-3">
 					<PlaybackControls
@@ -101,40 +153,57 @@ export function TimelineScrubber({
 
 					{/* Slider with PR markers */}
 					<div className="flex-1 flex items-center gap-4 ml-4">
-						<div className="flex-1 relative">
-							{/* PR Markers - positioned based on timestamp */}
-							<div className="absolute inset-0 pointer-events-none flex items-center">
-								{commits.map((commit, index) => {
-									// Calculate position based on time
-									const totalTime = timeRange.end - timeRange.start;
-									const commitTime = commit.date.getTime() - timeRange.start;
-									const position = (commitTime / totalTime) * 100;
-									return (
-										<div
-											key={index}
-											className="absolute w-0.5 h-4 bg-gray-500"
-											style={{
-												left: `${position}%`,
-												transform: "translateX(-50%)",
-											}}
-										/>
-									);
-								})}
+						<div className="flex-1">
+							{/* Branch/merge lanes share the slider's time axis */}
+							{showBranchLanes && (
+								<BranchLanes
+									commits={commits}
+									currentIndex={currentIndex}
+									timeRange={timeRange}
+									onSelectCommit={handleSelectCommit}
+								/>
+							)}
+							<div className="relative">
+								{/* PR Markers - positioned based on timestamp, search matches stand out */}
+								<div className="absolute inset-0 pointer-events-none flex items-center">
+									{commits.map((commit, index) => {
+										// Calculate position based on time
+										const totalTime = timeRange.end - timeRange.start;
+										const commitTime = commit.date.getTime() - timeRange.start;
+										const position = (commitTime / totalTime) * 100;
+										const isMatch = matchSet.has(index);
+										return (
+											<div
+												key={index}
+												className={
+													isMatch
+														? "absolute w-1 h-6 bg-amber-400 rounded-sm"
+														: "absolute w-0.5 h-4 bg-gray-500"
+												}
+												data-search-match={isMatch || undefined}
+												style={{
+													left: `${position}%`,
+													transform: "translateX(-50%)",
+												}}
+											/>
+										);
+									})}
+								</div>
+								{/* Slider - uses percentage (0-100) */}
+								<input
+									type="range"
+									min={0}
+									max={100}
+									step={0.1}
+									value={
+										((currentTime - timeRange.start) /
+											(timeRange.end - timeRange.start)) *
+										100
+									}
+									onChange={handleSliderChange}
+									className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider relative z-10"
+								/>
 							</div>
-							{/* Slider - uses percentage (0-100) */}
-							<input
-								type="range"
-								min={0}
-								max={100}
-								step={0.1}
-								value={
-									((currentTime - timeRange.start) /
-										(timeRange.end - timeRange.start)) *
-									100
-								}
-								onChange={handleSliderChange}
-								className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider relative z-10"
-							/>
 						</div>
 					</div>
 				</div>
@@ -142,8 +211,7 @@ export function TimelineScrubber({
 				{/* File statistics */}
 				<div className="flex gap-6 text-sm text-gray-300">
 					<div>
-						<span className="text-gray-400">Files:</span>{" "}
-						{currentCommit.files.length}
+						<span className="text-gray-400">Files:</span> {fileCount}
 					</div>
 					<div>
 						<span className="text-gray-400">Commit:</span> {currentIndex + 1} of{" "}
@@ -155,6 +223,14 @@ export function TimelineScrubber({
 							{currentCommit.hash.substring(0, 7)}
 						</span>
 					</div>
+					{currentCommit.parents && currentCommit.parents.length > 1 && (
+						<div className="text-purple-400">
+							Merge of{" "}
+							<span className="font-mono">
+								{currentCommit.parents.join(" + ")}
+							</span>
+						</div>
+					)}
 					{isPlaying && (
 						<div className="text-blue-400">
 							▶ Playing {playbackDirection} at {playbackSpeed}x
@@ -0,0 +1,122 @@
+import { memo, useMemo } from "react";
+import type { CommitSummary } from "../../types";
+import { computeCommitLanes } from "../../utils/commitGraph";
+
+const LANE_HEIGHT = 10; // px between lanes
+const MAX_VISIBLE_LANES = 6; // Extra lanes are drawn on the last row
+const BEND = 0.6; // % of the width used to swing between lanes
+
+interface BranchLanesProps {
+	commits: CommitSummary[];
+	currentIndex: number;
+	timeRange: { start: number; end: number };
+	onSelectCommit: (index: number) => void;
+}
+
+/**
+ * Branch/merge lane view drawn above the scrubber slider
+ * Commits are placed on the same time axis as the slider; forks swing out
+ * next to the parent and merges swing in next to the merge commit.
+ */
+export const BranchLanes = memo(function BranchLanes({
+	commits,
+	currentIndex,
+	timeRange,
+	onSelectCommit,
+}: BranchLanesProps) {
+	const layout = useMemo(() => computeCommitLanes(commits), [commits]);
+
+	const totalTime = timeRange.end - timeRange.start || 1;
+	const xOf = (index: number) =>
+		((commits[index].date.getTime() - timeRange.start) / totalTime) * 100;
+	const yOf = (lane: number) =>
+		Math.min(lane, MAX_VISIBLE_LANES - 1) * LANE_HEIGHT + LANE_HEIGHT / 2;
+
+	const height =
+		Math.min(Math.max(layout.laneCount, 1), MAX_VISIBLE_LANES) * LANE_HEIGHT;
+
+	return (
+		<svg
+			className="w-full overflow-visible mb-1"
+			height={height}
+			role="img"
+			aria-label="Branch and merge history"
+		>
+			{layout.edges.map((edge) => {
+				const px = xOf(edge.parentIndex);
+				const cx = xOf(edge.childIndex);
+				const py = yOf(edge.parentLane);
+				const cy = yOf(edge.childLane);
+				const color = edge.kind === "merge" ? "#a855f7" : "#6b7280";
+
+				if (py === cy) {
+					return (
+						<line
+							key={`${edge.parentIndex}-${edge.childIndex}`}
+							x1={`${px}%`}
+							y1={py}
+							x2={`${cx}%`}
+							y2={cy}
+							stroke={color}
+							strokeWidth={1.5}
+						/>
+					);
+				}
+
+				// First-parent edges fork near the parent, merge edges join near the child
+				const bend = Math.min(BEND, (cx - px) / 2);
+				const bx = edge.kind === "merge" ? cx - bend : px + bend;
+				const points =
+					edge.kind === "merge"
+						? [
+								[px, py],
+								[bx, py],
+								[cx, cy],
+							]
+						: [
+								[px, py],
+								[bx, cy],
+								[cx, cy],
+							];
+
+				return (
+					<g key={`${edge.parentIndex}-${edge.childIndex}`}>
+						{points.slice(1).map(([x, y], i) => (
+							<line
+								key={i}
+								x1={`${points[i][0]}%`}
+								y1={points[i][1]}
+								x2={`${x}%`}
+								y2={y}
+								stroke={color}
+								strokeWidth={1.5}
+							/>
+						))}
+					</g>
+				);
+			})}
+
+			{layout.nodes.map((node) => {
+				const commit = commits[node.index];
+				const isCurrent = node.index === currentIndex;
+				return (
+					<circle
+						key={commit.hash}
+						cx={`${xOf(node.index)}%`}
+						cy={yOf(node.lane)}
+						r={isCurrent ? 4 : node.isMerge ? 3.5 : 2.5}
+						fill={isCurrent ? "#3b82f6" : node.isMerge ? "#a855f7" : "#9ca3af"}
+						stroke={node.missingParents > 0 ? "#f59e0b" : "none"}
+						strokeWidth={1}
+						className="cursor-pointer"
+						onClick={() => onSelectCommit(node.index)}
+					>
+						<title>
+							{`${commit.hash.substring(0, 7)} ${commit.message}${node.isMerge ? " (merge)" : ""}`}
+						</title>
+					</circle>
+				);
+			})}
+		</svg>
+	);
+});
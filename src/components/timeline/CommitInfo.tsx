@@ -1,8 +1,8 @@
 import { memo } from "react";
-import type { CommitData } from "../../types";
+import type { CommitSummary } from "../../types";
 
 interface CommitInfoProps {
-	commit: CommitData;
+	commit: CommitSummary;
 	currentTime: number;
 	isPlaying: boolean;
 }
@@ -0,0 +1,151 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CommitSearchQuery } from "../../utils/commitSearch";
+import { CommitSearch } from "./CommitSearch";
+
+describe("CommitSearch", () => {
+	const query: CommitSearchQuery = {
+		text: "fix",
+		field: "message",
+		regex: false,
+	};
+	const defaultProps = {
+		query,
+		onQueryChange: vi.fn(),
+		matchCount: 3,
+		matchPosition: 2,
+		error: null,
+		onPrevious: vi.fn(),
+		onNext: vi.fn(),
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("rendering", () => {
+		it("should show the current match position", () => {
+			render(<CommitSearch {...defaultProps} />);
+
+			expect(screen.getByText("2 of 3")).toBeInTheDocument();
+		});
+
+		it("should show the match count when the current commit isn't a match", () => {
+			render(<CommitSearch {...defaultProps} matchPosition={null} />);
+
+			expect(screen.getByText("3 matches")).toBeInTheDocument();
+		});
+
+		it("should report no matches and disable stepping", () => {
+			render(
+				<CommitSearch {...defaultProps} matchCount={0} matchPosition={null} />,
+			);
+
+			expect(screen.getByText("No matches")).toBeInTheDocument();
+			expect(screen.getByTitle("Next match (Enter)")).toBeDisabled();
+			expect(screen.getByTitle("Previous match (Shift+Enter)")).toBeDisabled();
+		});
+
+		it("should flag an invalid pattern", () => {
+			render(
+				<CommitSearch
+					{...defaultProps}
+					query={{ ...query, regex: true }}
+					matchCount={0}
+					matchPosition={null}
+					error="Unterminated group"
+				/>,
+			);
+
+			expect(screen.getByText("Invalid pattern")).toBeInTheDocument();
+			expect(screen.getByLabelText("Search commits")).toHaveAttribute(
+				"aria-invalid",
+				"true",
+			);
+		});
+	});
+
+	describe("editing the query", () => {
+		it("should update the text, field and regex mode", () => {
+			render(<CommitSearch {...defaultProps} />);
+
+			fireEvent.change(screen.getByLabelText("Search commits"), {
+				target: { value: "fix bug" },
+			});
+			expect(defaultProps.onQueryChange).toHaveBeenLastCalledWith({
+				...query,
+				text: "fix bug",
+			});
+
+			fireEvent.change(screen.getByLabelText("Search in"), {
+				target: { value: "path" },
+			});
+			expect(defaultProps.onQueryChange).toHaveBeenLastCalledWith({
+				...query,
+				field: "path",
+			});
+
+			fireEvent.click(screen.getByTitle("Use regular expression"));
+			expect(defaultProps.onQueryChange).toHaveBeenLastCalledWith({
+				...query,
+				regex: true,
+			});
+		});
+
+		it("should clear the text on Escape", () => {
+			render(<CommitSearch {...defaultProps} />);
+
+			fireEvent.keyDown(screen.getByLabelText("Search commits"), {
+				key: "Escape",
+			});
+
+			expect(defaultProps.onQueryChange).toHaveBeenCalledWith({
+				...query,
+				text: "",
+			});
+		});
+	});
+
+	describe("keyboard shortcuts", () => {
+		it("should step with Enter and Shift+Enter in the box", () => {
+			render(<CommitSearch {...defaultProps} />);
+			const input = screen.getByLabelText("Search commits");
+
+			fireEvent.keyDown(input, { key: "Enter" });
+			expect(defaultProps.onNext).toHaveBeenCalledTimes(1);
+
+			fireEvent.keyDown(input, { key: "Enter", shiftKey: true });
+			expect(defaultProps.onPrevious).toHaveBeenCalledTimes(1);
+		});
+
+		it("should focus the box on /", () => {
+			render(<CommitSearch {...defaultProps} />);
+
+			fireEvent.keyDown(window, { key: "/" });
+
+			expect(screen.getByLabelText("Search commits")).toHaveFocus();
+		});
+
+		it("should step with n and N outside the box", () => {
+			render(<CommitSearch {...defaultProps} />);
+
+			fireEvent.keyDown(window, { key: "n" });
+			fireEvent.keyDown(window, { key: "N" });
+
+			expect(defaultProps.onNext).toHaveBeenCalledTimes(1);
+			expect(defaultProps.onPrevious).toHaveBeenCalledTimes(1);
+		});
+
+		it("should ignore n while typing in the box or without a query", () => {
+			const { rerender } = render(<CommitSearch {...defaultProps} />);
+
+			fireEvent.keyDown(screen.getByLabelText("Search commits"), { key: "n" });
+			rerender(
+				<CommitSearch {...defaultProps} query={{ ...query, text: "" }} />,
+			);
+			fireEvent.keyDown(window, { key: "n" });
+
+			expect(defaultProps.onNext).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,174 @@
+import { ChevronDown, ChevronUp, Regex, Search, X } from "lucide-react";
+import { memo, useEffect, useRef } from "react";
+import type {
+	CommitSearchField,
+	CommitSearchQuery,
+} from "../../utils/commitSearch";
+
+interface CommitSearchProps {
+	query: CommitSearchQuery;
+	onQueryChange: (query: CommitSearchQuery) => void;
+	matchCount: number;
+	matchPosition: number | null; // 1-based position of the current commit among the matches
+	error: string | null; // Invalid regular expression
+	onPrevious: () => void;
+	onNext: () => void;
+}
+
+const FIELDS: Array<{ value: CommitSearchField; label: string }> = [
+	{ value: "message", label: "Message" },
+	{ value: "author", label: "Author" },
+	{ value: "path", label: "Path" },
+];
+
+/**
+ * Whether a key press is going into a text field rather than the page
+ */
+function isTyping(target: EventTarget | null): boolean {
+	return (
+		target instanceof HTMLElement &&
+		(target.isContentEditable ||
+			["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+	);
+}
+
+/**
+ * Search box for commits by message, author or touched path
+ *
+ * Enter and Shift+Enter step through the matches from the box; elsewhere on
+ * the page "/" focuses it and "n" / "N" step through the matches.
+ */
+export const CommitSearch = memo(function CommitSearch({
+	query,
+	onQueryChange,
+	matchCount,
+	matchPosition,
+	error,
+	onPrevious,
+	onNext,
+}: CommitSearchProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const hasQuery = query.text !== "";
+
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (isTyping(event.target) || event.ctrlKey || event.metaKey) return;
+			if (event.key === "/") {
+				event.preventDefault();
+				inputRef.current?.focus();
+			} else if (hasQuery && event.key === "n") {
+				onNext();
+			} else if (hasQuery && event.key === "N") {
+				onPrevious();
+			}
+		};
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [hasQuery, onNext, onPrevious]);
+
+	const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === "Enter") {
+			event.preventDefault();
+			if (event.shiftKey) {
+				onPrevious();
+			} else {
+				onNext();
+			}
+		} else if (event.key === "Escape") {
+			onQueryChange({ ...query, text: "" });
+			inputRef.current?.blur();
+		}
+	};
+
+	let status = "";
+	if (error) {
+		status = "Invalid pattern";
+	} else if (hasQuery && matchCount === 0) {
+		status = "No matches";
+	} else if (hasQuery) {
+		status =
+			matchPosition !== null
+				? `${matchPosition} of ${matchCount}`
+				: `${matchCount} ${matchCount === 1 ? "match" : "matches"}`;
+	}
+
+	const iconButtonClass =
+		"p-1 text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed rounded transition-colors";
+
+	return (
+		<div className="flex items-center gap-2 mb-3 text-sm">
+			<div className="flex items-center gap-1 bg-gray-800 border border-gray-700 rounded px-2 focus-within:border-blue-500">
+				<Search size={14} className="text-gray-400 shrink-0" />
+				<input
+					ref={inputRef}
+					type="text"
+					value={query.text}
+					onChange={(e) => onQueryChange({ ...query, text: e.target.value })}
+					onKeyDown={handleInputKeyDown}
+					placeholder="Search commits ( / )"
+					aria-label="Search commits"
+					aria-invalid={error !== null}
+					className="bg-transparent py-1 w-56 outline-none placeholder-gray-500"
+				/>
+				{hasQuery && (
+					<button
+						onClick={() => onQueryChange({ ...query, text: "" })}
+						className={iconButtonClass}
+						title="Clear search"
+					>
+						<X size={14} />
+					</button>
+				)}
+			</div>
+			<select
+				value={query.field}
+				onChange={(e) =>
+					onQueryChange({
+						...query,
+						field: e.target.value as CommitSearchField,
+					})
+				}
+				className="bg-gray-800 border border-gray-700 rounded px-2 py-1"
+				aria-label="Search in"
+			>
+				{FIELDS.map(({ value, label }) => (
+					<option key={value} value={value}>
+						{label}
+					</option>
+				))}
+			</select>
+			<button
+				onClick={() => onQueryChange({ ...query, regex: !query.regex })}
+				className={`${iconButtonClass} ${query.regex ? "bg-blue-600 text-white" : ""}`}
+				title="Use regular expression"
+				aria-pressed={query.regex}
+			>
+				<Regex size={16} />
+			</button>
+			<button
+				onClick={onPrevious}
+				disabled={matchCount === 0}
+				className={iconButtonClass}
+				title="Previous match (Shift+Enter)"
+			>
+				<ChevronUp size={16} />
+			</button>
+			<button
+				onClick={onNext}
+				disabled={matchCount === 0}
+				className={iconButtonClass}
+				title="Next match (Enter)"
+			>
+				<ChevronDown size={16} />
+			</button>
+			{status && (
+				<span
+					className={`tabular-nums ${error ? "text-red-400" : "text-gray-400"}`}
+					title={error ?? undefined}
+				>
+					{status}
+				</span>
+			)}
+		</div>
+	);
+});
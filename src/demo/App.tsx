@@ -11,6 +11,11 @@ function App() {
 					<Routes>
 						<Route path="/" element={<RepoInput />} />
 						<Route path="/:owner/:repo" element={<RepoWrapper />} />
+						<Route path="/gitlab/*" element={<RepoWrapper host="gitlab" />} />
+						<Route
+							path="/bitbucket/*"
+							element={<RepoWrapper host="bitbucket" />}
+						/>
 						<Route path="*" element={<Navigate to="/" replace />} />
 					</Routes>
 				</div>
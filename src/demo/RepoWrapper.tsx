@@ -1,23 +1,40 @@
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { RepoTimeline } from "../components/RepoTimeline";
 import { WORKER_URL } from "../config";
+import type { GitHost } from "../types/provider";
+import { parseRepoPath } from "../utils/repoPath";
 
-export function RepoWrapper() {
-	const { owner, repo } = useParams<{ owner: string; repo: string }>();
+interface RepoWrapperProps {
+	host?: GitHost;
+}
+
+export function RepoWrapper({ host = "github" }: RepoWrapperProps) {
+	const { owner, repo, "*": splat } = useParams();
 	const navigate = useNavigate();
+	const [searchParams] = useSearchParams();
+	const gitRef = searchParams.get("ref") || undefined;
+	const instance = searchParams.get("instance"); // Self-hosted GitLab hostname
 
-	// Validate that we have both params
-	if (!owner || !repo) {
+	// GitHub routes are /:owner/:repo, other hosts use /<host>/* (GitLab paths can be nested)
+	const path = host === "github" ? `${owner}/${repo}` : splat || "";
+	const repoPath =
+		host === "github"
+			? path
+			: host === "gitlab" && instance
+				? `gitlab@${instance}:${path}`
+				: `${host}:${path}`;
+
+	// Validate that the route is a repository path
+	if (!parseRepoPath(repoPath)) {
 		navigate("/");
 		return null;
 	}
 
-	const repoPath = `${owner}/${repo}`;
-
 	return (
 		<RepoTimeline
 			repoPath={repoPath}
 			workerUrl={WORKER_URL}
+			gitRef={gitRef}
 			onBack={() => navigate("/")}
 		/>
 	);
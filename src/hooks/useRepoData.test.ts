@@ -1,6 +1,7 @@
-import { renderHook, waitFor } from "@testing-library/react";
+import { act, renderHook, waitFor } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { CommitData } from "../types";
+import type { CommitData, CommitSummary } from "../types";
+import { CommitStateStore } from "../utils/commitStateStore";
 import { useRepoData } from "./useRepoData";
 
 // Create mock methods
@@ -8,6 +9,8 @@ const mockGetMetadata = vi.fn();
 const mockGetCommitHistory = vi.fn();
 const mockGetCacheInfo = vi.fn();
 const mockGetRateLimitInfo = vi.fn();
+const mockGetRepoStatus = vi.fn();
+const mockLoadMoreCommits = vi.fn();
 
 // Mock GitService
 vi.mock("../services/gitService", () => {
@@ -18,6 +21,8 @@ vi.mock("../services/gitService", () => {
 				getCommitHistory: mockGetCommitHistory,
 				getCacheInfo: mockGetCacheInfo,
 				getRateLimitInfo: mockGetRateLimitInfo,
+				getRepoStatus: mockGetRepoStatus,
+				loadMoreCommits: mockLoadMoreCommits,
 			};
 		}),
 	};
@@ -26,6 +31,37 @@ vi.mock("../services/gitService", () => {
 // Import after mocking
 import { GitService } from "../services/gitService";
 
+/**
+ * Stand-in for getCommitHistory that fills the store it's given, streaming
+ * each commit when the hook asks for them (from the cache otherwise)
+ */
+function historyWith(
+	commits: CommitData[],
+	pagination: {
+		hasMore?: boolean;
+		totalCount?: number;
+		nextOffset?: number;
+	} = {
+		hasMore: false,
+		totalCount: commits.length,
+	},
+) {
+	return async (
+		store: CommitStateStore,
+		_onProgress?: unknown,
+		_forceRefresh?: boolean,
+		onCommit?: (commit: CommitSummary) => void,
+	) => {
+		// Commits arrive after the provider's first response, as they do for real
+		await Promise.resolve();
+		for (const commit of commits) {
+			store.append([commit]);
+			onCommit?.(store.getCommit(store.length - 1));
+		}
+		return { fromCache: !onCommit, ...pagination };
+	};
+}
+
 describe("useRepoData", () => {
 	const mockCommits: CommitData[] = [
 		{
@@ -57,11 +93,7 @@ describe("useRepoData", () => {
 				end: new Date("2024-01-31").getTime(),
 			},
 		});
-		mockGetCommitHistory.mockResolvedValue({
-			commits: mockCommits,
-			hasMore: false,
-			totalCount: mockCommits.length,
-		});
+		mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 		mockGetCacheInfo.mockReturnValue({ exists: false });
 		mockGetRateLimitInfo.mockReturnValue(null);
 	});
@@ -84,10 +116,10 @@ describe("useRepoData", () => {
 		it("should start with loading state when not in test mode", async () => {
 			// When there's a cache, loading starts as true
 			mockGetCacheInfo.mockReturnValue({ exists: true });
-			mockGetCommitHistory.mockImplementation(async () => {
+			mockGetCommitHistory.mockImplementation(async (store) => {
 				// Simulate slow loading
 				await new Promise((resolve) => setTimeout(resolve, 100));
-				return mockCommits;
+				return historyWith(mockCommits)(store);
 			});
 
 			const { result } = renderHook(() =>
@@ -122,6 +154,32 @@ describe("useRepoData", () => {
 					"facebook/react",
 					undefined,
 					"https://worker.example.com",
+					undefined,
+					undefined,
+					undefined,
+					undefined,
+				);
+			});
+		});
+
+		it("should pass the path filter to GitService", async () => {
+			renderHook(() =>
+				useRepoData({
+					repoPath: "facebook/react",
+					filter: { exclude: ["**/*.lock"] },
+					testMode: true,
+				}),
+			);
+
+			await waitFor(() => {
+				expect(GitService).toHaveBeenCalledWith(
+					"facebook/react",
+					undefined,
+					undefined,
+					undefined,
+					undefined,
+					undefined,
+					{ exclude: ["**/*.lock"] },
 				);
 			});
 		});
@@ -169,6 +227,8 @@ describe("useRepoData", () => {
 				prs: [],
 				timeRange,
 			});
+			// No commits arrive to widen or narrow the range
+			mockGetCommitHistory.mockImplementation(historyWith([]));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -209,11 +269,7 @@ describe("useRepoData", () => {
 		});
 
 		it("should load commits from cache", async () => {
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
-			});
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -229,13 +285,44 @@ describe("useRepoData", () => {
 			});
 		});
 
-		it("should set time range from cached commits", async () => {
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
+		it("should keep file trees out of commits and resolve them with getStateAt", async () => {
+			const file = {
+				id: "README.md",
+				path: "README.md",
+				name: "README.md",
+				size: 10,
+				type: "file" as const,
+			};
+			mockGetCacheInfo.mockReturnValue({ exists: true });
+			mockGetCommitHistory.mockImplementation(
+				historyWith(
+					[
+						{ ...mockCommits[0], files: [file] },
+						{ ...mockCommits[1], files: [{ ...file, size: 20 }] },
+					],
+					{},
+				),
+			);
+
+			const { result } = renderHook(() =>
+				useRepoData({
+					repoPath: "facebook/react",
+					testMode: false,
+				}),
+			);
+
+			await waitFor(() => {
+				expect(result.current.commits).toHaveLength(2);
 			});
 
+			expect(result.current.commits[1]).not.toHaveProperty("files");
+			expect(result.current.getStateAt(0).files[0].size).toBe(10);
+			expect(result.current.getStateAt(1).files[0].size).toBe(20);
+		});
+
+		it("should set time range from cached commits", async () => {
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
+
 			const { result } = renderHook(() =>
 				useRepoData({
 					repoPath: "facebook/react",
@@ -256,11 +343,7 @@ describe("useRepoData", () => {
 		it("should set current time to start of range", async () => {
 			// Make metadata fail so currentTime starts at 0
 			mockGetMetadata.mockRejectedValue(new Error("No metadata"));
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
-			});
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -320,19 +403,7 @@ describe("useRepoData", () => {
 		});
 
 		it("should load commits incrementally", async () => {
-			let onCommit: ((commit: CommitData) => void) | undefined;
-
-			mockGetCommitHistory.mockImplementation(
-				async (_onProgress, _forceRefresh, commitCallback) => {
-					onCommit = commitCallback;
-					// Simulate incremental loading
-					if (onCommit) {
-						onCommit(mockCommits[0]);
-						onCommit(mockCommits[1]);
-					}
-					return mockCommits;
-				},
-			);
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -348,16 +419,8 @@ describe("useRepoData", () => {
 		});
 
 		it("should update time range as commits are added", async () => {
-			let onCommit: ((commit: CommitData) => void) | undefined;
-
 			mockGetCommitHistory.mockImplementation(
-				async (_onProgress, _forceRefresh, commitCallback) => {
-					onCommit = commitCallback;
-					if (onCommit) {
-						onCommit(mockCommits[0]);
-					}
-					return mockCommits;
-				},
+				historyWith(mockCommits.slice(0, 1)),
 			);
 
 			const { result } = renderHook(() =>
@@ -377,13 +440,15 @@ describe("useRepoData", () => {
 		it("should report load progress", async () => {
 			let onProgress: ((progress: any) => void) | undefined;
 
-			mockGetCommitHistory.mockImplementation(async (progressCallback) => {
-				onProgress = progressCallback;
-				if (onProgress) {
-					onProgress({ loaded: 5, total: 10, percentage: 50 });
-				}
-				return mockCommits;
-			});
+			mockGetCommitHistory.mockImplementation(
+				async (store, progressCallback) => {
+					onProgress = progressCallback;
+					if (onProgress) {
+						onProgress({ loaded: 5, total: 10, percentage: 50 });
+					}
+					return historyWith(mockCommits)(store);
+				},
+			);
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -408,11 +473,7 @@ describe("useRepoData", () => {
 			});
 
 			// Simulate successful cache load
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
-			});
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -446,13 +507,45 @@ describe("useRepoData", () => {
 		});
 	});
 
-	describe("setCurrentTime", () => {
-		it("should set current time with number", async () => {
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
+	describe("loadMore", () => {
+		it("should continue from the provider offset the last page reported", async () => {
+			mockGetCacheInfo.mockReturnValue({ exists: false });
+			// A path filter kept one of the five commits the provider returned
+			mockGetCommitHistory.mockImplementation(
+				historyWith(mockCommits.slice(0, 1), {
+					hasMore: true,
+					totalCount: 10,
+					nextOffset: 5,
+				}),
+			);
+			mockLoadMoreCommits.mockResolvedValue({
 				hasMore: false,
-				totalCount: mockCommits.length,
+				totalCount: 10,
+				nextOffset: 10,
+			});
+
+			const { result } = renderHook(() =>
+				useRepoData({ repoPath: "facebook/react" }),
+			);
+			await waitFor(() => {
+				expect(result.current.hasMoreCommits).toBe(true);
+				expect(result.current.backgroundLoading).toBe(false);
 			});
+
+			await act(() => result.current.loadMore());
+
+			expect(mockLoadMoreCommits.mock.calls[0][0]).toBeInstanceOf(
+				CommitStateStore,
+			);
+			expect(mockLoadMoreCommits.mock.calls[0][1]).toBe(5);
+			expect(result.current.nextOffset).toBe(10);
+			expect(result.current.hasMoreCommits).toBe(false);
+		});
+	});
+
+	describe("setCurrentTime", () => {
+		it("should set current time with number", async () => {
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 			mockGetCacheInfo.mockReturnValue({ exists: true });
 
 			const { result } = renderHook(() =>
@@ -475,11 +568,7 @@ describe("useRepoData", () => {
 		});
 
 		it("should set current time with updater function", async () => {
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
-			});
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 			mockGetCacheInfo.mockReturnValue({ exists: true });
 
 			const { result } = renderHook(() =>
@@ -509,11 +598,7 @@ describe("useRepoData", () => {
 				age: 1000,
 				commitCount: 2,
 			});
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
-			});
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -532,6 +617,7 @@ describe("useRepoData", () => {
 
 			await waitFor(() => {
 				expect(mockGetCommitHistory).toHaveBeenCalledWith(
+					expect.any(CommitStateStore),
 					expect.any(Function),
 					true, // forceRefresh
 					expect.any(Function),
@@ -553,11 +639,7 @@ describe("useRepoData", () => {
 
 			mockGetCacheInfo.mockReturnValue({ exists: true });
 			mockGetRateLimitInfo.mockReturnValue(mockRateLimit);
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
-			});
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -598,7 +680,7 @@ describe("useRepoData", () => {
 	describe("edge cases", () => {
 		it("should handle empty commits array", async () => {
 			mockGetCacheInfo.mockReturnValue({ exists: true });
-			mockGetCommitHistory.mockResolvedValue([]);
+			mockGetCommitHistory.mockImplementation(historyWith([]));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -651,7 +733,7 @@ describe("useRepoData", () => {
 	describe("reducer - SET_COMMITS", () => {
 		it("should handle empty commits", async () => {
 			mockGetCacheInfo.mockReturnValue({ exists: true });
-			mockGetCommitHistory.mockResolvedValue([]);
+			mockGetCommitHistory.mockImplementation(historyWith([]));
 
 			const { result } = renderHook(() =>
 				useRepoData({
@@ -669,11 +751,7 @@ describe("useRepoData", () => {
 	describe("repoPath changes", () => {
 		it("should reload data when repoPath changes", async () => {
 			mockGetCacheInfo.mockReturnValue({ exists: true });
-			mockGetCommitHistory.mockResolvedValue({
-				commits: mockCommits,
-				hasMore: false,
-				totalCount: mockCommits.length,
-			});
+			mockGetCommitHistory.mockImplementation(historyWith(mockCommits));
 
 			const { rerender } = renderHook(
 				({ repoPath }) =>
@@ -700,6 +778,10 @@ describe("useRepoData", () => {
 					"microsoft/vscode",
 					undefined,
 					undefined,
+					undefined,
+					undefined,
+					undefined,
+					undefined,
 				);
 			});
 		});
@@ -710,15 +792,14 @@ describe("useRepoData", () => {
 		const mockFetchRepoSummary = vi.fn();
 
 		beforeEach(() => {
-			// Mock the dynamic import of GitHubApiService
-			vi.doMock("../services/githubApiService", () => ({
-				GitHubApiService: vi.fn(function MockGitHubApiService() {
-					return {
-						fetchCacheStatus: mockFetchCacheStatus,
-						fetchRepoSummary: mockFetchRepoSummary,
-					};
-				}),
-			}));
+			// Stage 1 combines the provider's cache status and repo summary
+			mockGetRepoStatus.mockImplementation(async () => {
+				const [cacheStatus, summary] = await Promise.all([
+					mockFetchCacheStatus(),
+					mockFetchRepoSummary(),
+				]);
+				return { cacheStatus, summary };
+			});
 
 			mockFetchCacheStatus.mockResolvedValue({
 				cache: {
@@ -780,7 +861,9 @@ describe("useRepoData", () => {
 			expect(result.current.error).toBeNull();
 		});
 
-		it("should skip Stage 1 when workerUrl is not provided", () => {
+		it("should skip Stage 1 when the provider has no cache status", () => {
+			mockGetRepoStatus.mockResolvedValue(null);
+
 			const { result } = renderHook(() =>
 				useRepoData({
 					repoPath: "facebook/react",
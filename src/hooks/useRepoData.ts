@@ -1,26 +1,17 @@
-import { useCallback, useEffect, useReducer, useRef } from "react";
+import { useCallback, useEffect, useMemo, useReducer, useRef } from "react";
 import {
 	GitService,
 	type LoadProgress,
 	type RateLimitInfo,
 } from "../services/gitService";
-import type { CommitData } from "../types";
-
-interface CacheStatus {
-	exists: boolean;
-	cachedCommits: number;
-	ageSeconds: number | null;
-	lastCommitSha: string | null;
-	defaultBranch: string | null;
-	firstCommit: { sha: string; date: string } | null;
-	lastCommit: { sha: string; date: string } | null;
-}
-
-interface RepoSummary {
-	estimatedTotalPRs: number;
-	hasMoreThan100PRs: boolean;
-	firstMergedPR: { number: number; merged_at: string } | null;
-}
+import type { CommitSummary } from "../types";
+import type {
+	CacheStatus,
+	RepoSummary,
+	TimelineDataProvider,
+} from "../types/provider";
+import { CommitStateStore } from "../utils/commitStateStore";
+import { isEmptyFilter, type PathFilter } from "../utils/pathFilter";
 
 interface RepoStatus {
 	cache: CacheStatus;
@@ -29,7 +20,7 @@ interface RepoStatus {
 }
 
 interface RepoDataState {
-	commits: CommitData[];
+	commits: CommitSummary[]; // File trees live in the commit state store
 	currentTime: number;
 	timeRange: { start: number; end: number };
 	totalPRs: number;
@@ -51,11 +42,12 @@ interface RepoDataState {
 		| "complete";
 	hasMoreCommits: boolean;
 	totalCommitsAvailable: number;
+	nextOffset: number; // Provider commits consumed so far (filters can skip some)
 }
 
 type RepoDataAction =
-	| { type: "SET_COMMITS"; commits: CommitData[] }
-	| { type: "ADD_COMMIT"; commit: CommitData }
+	| { type: "SET_COMMITS"; commits: CommitSummary[] }
+	| { type: "ADD_COMMIT"; commit: CommitSummary }
 	| { type: "SET_CURRENT_TIME"; time: number }
 	| { type: "SET_TIME_RANGE"; range: { start: number; end: number } }
 	| { type: "SET_TOTAL_PRS"; count: number }
@@ -75,8 +67,9 @@ type RepoDataAction =
 			type: "SET_PAGINATION";
 			hasMore: boolean;
 			totalAvailable: number;
+			nextOffset: number;
 	  }
-	| { type: "APPEND_COMMITS"; commits: CommitData[] };
+	| { type: "APPEND_COMMITS"; commits: CommitSummary[] };
 
 function repoDataReducer(
 	state: RepoDataState,
@@ -161,6 +154,7 @@ function repoDataReducer(
 				...state,
 				hasMoreCommits: action.hasMore,
 				totalCommitsAvailable: action.totalAvailable,
+				nextOffset: action.nextOffset,
 			};
 		case "APPEND_COMMITS": {
 			const newCommits = [...state.commits, ...action.commits];
@@ -184,6 +178,10 @@ function repoDataReducer(
 interface UseRepoDataOptions {
 	repoPath: string;
 	workerUrl?: string;
+	localServerUrl?: string;
+	dataProvider?: TimelineDataProvider;
+	gitRef?: string;
+	filter?: PathFilter; // Include/exclude globs applied while building commits
 	testMode?: boolean;
 	onError?: (error: Error) => void;
 }
@@ -191,9 +189,22 @@ interface UseRepoDataOptions {
 export function useRepoData({
 	repoPath,
 	workerUrl,
+	localServerUrl,
+	dataProvider,
+	gitRef,
+	filter: filterOption,
 	testMode = false,
 	onError,
 }: UseRepoDataOptions) {
+	// Compare filters by value so inline arrays don't trigger a reload
+	const filterKey = isEmptyFilter(filterOption)
+		? ""
+		: JSON.stringify(filterOption);
+	const filter = useMemo<PathFilter | undefined>(
+		() => (filterKey ? JSON.parse(filterKey) : undefined),
+		[filterKey],
+	);
+
 	const [state, dispatch] = useReducer(repoDataReducer, {
 		commits: [],
 		currentTime: 0,
@@ -212,33 +223,60 @@ export function useRepoData({
 		loadingStage: "initial",
 		hasMoreCommits: false,
 		totalCommitsAvailable: 0,
+		nextOffset: 0,
 	});
 
 	const gitServiceRef = useRef<GitService | null>(null);
+	const storeRef = useRef(new CommitStateStore());
+
+	/**
+	 * Start a new, empty commit store for a load to fill
+	 */
+	const resetStore = useCallback(() => {
+		storeRef.current = new CommitStateStore();
+		return storeRef.current;
+	}, []);
+
+	const getStateAt = useCallback(
+		(index: number) => storeRef.current.getStateAt(index),
+		[],
+	);
+
+	const getChangedPaths = useCallback(
+		(index: number) => storeRef.current.getChangedPaths(index),
+		[],
+	);
+
+	// null when there is no service yet or its provider can't serve diffs
+	const fetchFilePatch = useCallback(
+		(sha: string, path: string) =>
+			gitServiceRef.current?.getFilePatch(sha, path) ?? null,
+		[],
+	);
 
-	// Stage 1: Instant feedback - parallel cache status + repo summary (only with workerUrl)
+	// Stage 1: Instant feedback - parallel cache status + repo summary (only for providers that support it)
 	useEffect(() => {
-		if (!workerUrl || testMode) return;
+		if (testMode) return;
 
 		const loadInstantFeedback = async () => {
-			dispatch({ type: "SET_LOADING_STAGE", stage: "cache-check" });
-
 			try {
-				const { GitHubApiService } = await import(
-					"../services/githubApiService"
-				);
-				const githubApiService = new GitHubApiService(
+				const gitService = new GitService(
 					repoPath,
 					undefined,
 					workerUrl,
+					localServerUrl,
+					dataProvider,
+					gitRef,
+					filter,
 				);
 
 				// Parallel fetch for instant feedback (~1.5s total)
-				const [cacheStatus, summary] = await Promise.all([
-					githubApiService.fetchCacheStatus(),
-					githubApiService.fetchRepoSummary(),
-				]);
+				const repoStatus = await gitService.getRepoStatus();
+				if (!repoStatus) return;
 
+				dispatch({ type: "SET_LOADING_STAGE", stage: "cache-check" });
+
+				const { cacheStatus, summary } = repoStatus;
 				dispatch({ type: "SET_CACHE_STATUS", status: cacheStatus.cache });
 				dispatch({ type: "SET_REPO_SUMMARY", summary: summary.github });
 
@@ -256,17 +294,35 @@ export function useRepoData({
 		};
 
 		loadInstantFeedback();
-	}, [repoPath, workerUrl, testMode]);
+	}, [
+		repoPath,
+		workerUrl,
+		localServerUrl,
+		dataProvider,
+		gitRef,
+		filter,
+		testMode,
+	]);
 
 	// Stage 2: Load metadata to build timeline structure
 	useEffect(() => {
 		const loadMetadata = async () => {
-			dispatch({ type: "SET_LOADING_STAGE", stage: "metadata" });
-
 			try {
-				const gitService = new GitService(repoPath, undefined, workerUrl);
+				const gitService = new GitService(
+					repoPath,
+					undefined,
+					workerUrl,
+					localServerUrl,
+					dataProvider,
+					gitRef,
+					filter,
+				);
 				const metadata = await gitService.getMetadata();
 
+				// Providers without metadata build the timeline from the commits
+				if (!metadata) return;
+
+				dispatch({ type: "SET_LOADING_STAGE", stage: "metadata" });
 				dispatch({ type: "SET_TOTAL_PRS", count: metadata.prs.length });
 				dispatch({ type: "SET_TIME_RANGE", range: metadata.timeRange });
 				dispatch({ type: "SET_CURRENT_TIME", time: metadata.timeRange.start });
@@ -277,7 +333,7 @@ export function useRepoData({
 		};
 
 		loadMetadata();
-	}, [repoPath, workerUrl]);
+	}, [repoPath, workerUrl, localServerUrl, dataProvider, gitRef, filter]);
 
 	const loadCommits = useCallback(
 		async (forceRefresh = false) => {
@@ -285,6 +341,10 @@ export function useRepoData({
 				repoPath,
 				undefined, // No token needed - using worker
 				workerUrl,
+				localServerUrl,
+				dataProvider,
+				gitRef,
+				filter,
 			);
 			gitServiceRef.current = gitService;
 
@@ -297,22 +357,28 @@ export function useRepoData({
 				dispatch({ type: "SET_LOADING", loading: true });
 				dispatch({ type: "SET_LOAD_PROGRESS", progress: null });
 				try {
-					const result = await gitService.getCommitHistory((progress) => {
-						dispatch({ type: "SET_LOAD_PROGRESS", progress });
-					}, forceRefresh);
+					const store = resetStore();
+					const result = await gitService.getCommitHistory(
+						store,
+						(progress) => {
+							dispatch({ type: "SET_LOAD_PROGRESS", progress });
+						},
+						forceRefresh,
+					);
 
 					console.log("[AUTOLOAD] useRepoData received initial result:", {
-						commits: result.commits.length,
+						commits: store.length,
 						hasMore: result.hasMore,
 						totalCount: result.totalCount,
 					});
 
-					dispatch({ type: "SET_COMMITS", commits: result.commits });
+					dispatch({ type: "SET_COMMITS", commits: store.getCommits() });
 					if (result.hasMore !== undefined && result.totalCount !== undefined) {
 						dispatch({
 							type: "SET_PAGINATION",
 							hasMore: result.hasMore,
 							totalAvailable: result.totalCount,
+							nextOffset: result.nextOffset ?? store.length,
 						});
 					}
 					dispatch({ type: "SET_FROM_CACHE", fromCache: true });
@@ -345,32 +411,53 @@ export function useRepoData({
 				dispatch({ type: "SET_LOADING", loading: false });
 				dispatch({ type: "SET_BACKGROUND_LOADING", loading: true });
 				dispatch({ type: "SET_LOAD_PROGRESS", progress: null });
+				const store = resetStore();
 				dispatch({ type: "RESET_COMMITS" });
 				dispatch({ type: "SET_FROM_CACHE", fromCache: false });
 
 				try {
-					await gitService.getCommitHistory(
+					const result = await gitService.getCommitHistory(
+						store,
 						(progress) => {
 							dispatch({ type: "SET_LOAD_PROGRESS", progress });
 						},
 						forceRefresh,
 						(commit) => {
+							// Ignore commits from a load that has been superseded
+							if (storeRef.current !== store) return;
 							// Add commit incrementally
 							// Reducer will auto-update time range and current time
 							dispatch({ type: "ADD_COMMIT", commit });
 						},
 					);
+					if (result.fromCache) {
+						// The fetch failed and the service fell back to its cache
+						dispatch({ type: "SET_COMMITS", commits: store.getCommits() });
+					}
+					if (result.hasMore !== undefined && result.totalCount !== undefined) {
+						dispatch({
+							type: "SET_PAGINATION",
+							hasMore: result.hasMore,
+							totalAvailable: result.totalCount,
+							nextOffset: result.nextOffset ?? store.length,
+						});
+					}
 				} catch (err) {
 					console.error("Error loading commits:", err);
 
 					// If we hit an error (like rate limiting), try to load from cache
 					if (cacheInfo.exists) {
 						try {
-							const cachedResult = await gitService.getCommitHistory(
+							const cachedStore = resetStore();
+							await gitService.getCommitHistory(
+								cachedStore,
 								undefined, // no progress updates needed
 								false, // don't force refresh
 							);
-							dispatch({ type: "SET_COMMITS", commits: cachedResult.commits });
+							dispatch({
+								type: "SET_COMMITS",
+								commits: cachedStore.getCommits(),
+							});
 							dispatch({ type: "SET_FROM_CACHE", fromCache: true });
 							dispatch({
 								type: "SET_RATE_LIMITED_CACHE",
@@ -421,7 +508,16 @@ export function useRepoData({
 				}
 			}
 		},
-		[repoPath, workerUrl, onError],
+		[
+			repoPath,
+			workerUrl,
+			localServerUrl,
+			dataProvider,
+			gitRef,
+			filter,
+			onError,
+			resetStore,
+		],
 	);
 
 	useEffect(() => {
@@ -446,24 +542,19 @@ export function useRepoData({
 		dispatch({ type: "SET_BACKGROUND_LOADING", loading: true });
 
 		try {
-			// Build existing file state from current commits
-			const existingFiles = new Map<string, number>();
-			if (state.commits.length > 0) {
-				const lastCommit = state.commits[state.commits.length - 1];
-				for (const file of lastCommit.files) {
-					existingFiles.set(file.path, file.size);
-				}
-			}
+			// Continue the file state from the last loaded commit
+			const store = storeRef.current;
 
 			console.log(
 				"[AUTOLOAD] Calling gitService.loadMoreCommits with offset:",
-				state.commits.length,
+				state.nextOffset,
 			);
 			const result = await gitServiceRef.current.loadMoreCommits(
-				state.commits.length,
+				store,
+				state.nextOffset,
 				40,
-				existingFiles,
 				(commit) => {
+					if (storeRef.current !== store) return;
 					console.log("[AUTOLOAD] Received commit:", commit.hash);
 					dispatch({ type: "APPEND_COMMITS", commits: [commit] });
 				},
@@ -473,7 +564,7 @@ export function useRepoData({
 			);
 
 			console.log("[AUTOLOAD] Load complete:", {
-				newCommits: result.commits.length,
+				commits: store.length,
 				hasMore: result.hasMore,
 				totalCount: result.totalCount,
 			});
@@ -482,6 +573,7 @@ export function useRepoData({
 				type: "SET_PAGINATION",
 				hasMore: result.hasMore,
 				totalAvailable: result.totalCount,
+				nextOffset: result.nextOffset,
 			});
 
 			dispatch({ type: "SET_BACKGROUND_LOADING", loading: false });
@@ -491,10 +583,13 @@ export function useRepoData({
 			dispatch({ type: "SET_BACKGROUND_LOADING", loading: false });
 			dispatch({ type: "SET_LOAD_PROGRESS", progress: null });
 		}
-	}, [state.commits, state.backgroundLoading]);
+	}, [state.commits, state.backgroundLoading, state.nextOffset]);
 
 	return {
 		...state,
+		getStateAt,
+		getChangedPaths,
+		fetchFilePatch,
 		loadCommits,
 		loadMore,
 		setCurrentTime: (
@@ -7,8 +7,27 @@
 // Export main component
 export { RepoTimeline } from "../components/RepoTimeline";
 // Re-export commonly needed types from internal modules
-export type { CommitData, FileEdge, FileNode } from "../types";
+export type {
+	CommitData,
+	FileChange,
+	FileEdge,
+	FileNode,
+} from "../types";
+export type {
+	CacheStatusResponse,
+	GitHost,
+	RepoSummary,
+	TimelineCommit,
+	TimelineCommitMetadata,
+	TimelineCommitPage,
+	TimelineDataProvider,
+	TimelineFileChange,
+	TimelineFilePatch,
+} from "../types/provider";
 // Export public types
+export type { ColorMode } from "../utils/colorModes";
+export type { ForceSimulationConfig } from "../utils/forceSimulation";
+export type { LayoutMode } from "../utils/treeLayouts";
 export type {
 	PlaybackDirection,
 	PlaybackSpeed,
@@ -2,23 +2,57 @@
  * Public API types for the repo-timeline package
  */
 
+import type { TimelineDataProvider } from "../types/provider";
+import type { ColorMode } from "../utils/colorModes";
+import type { ForceSimulationConfig } from "../utils/forceSimulation";
+import type { LayoutMode } from "../utils/treeLayouts";
+
 export type PlaybackSpeed = 1 | 60 | 300 | 1800;
 
 export type PlaybackDirection = "forward" | "reverse";
 
 export interface RepoTimelineProps {
-	/** GitHub repository path in "owner/repo" format */
+	/**
+	 * Repository path: "owner/repo" for GitHub, "gitlab:group/project"
+	 * (subgroups allowed) for GitLab, or "bitbucket:workspace/repo" for Bitbucket
+	 */
 	repoPath: string;
 
 	/** Optional Cloudflare Worker URL for cached data */
 	workerUrl?: string;
 
+	/**
+	 * Optional local git server URL (see scripts/local-git-server.mjs).
+	 * When set, repoPath is a directory relative to the server's root and
+	 * GitHub is bypassed entirely. Use "" for a server on the same origin.
+	 */
+	localServerUrl?: string;
+
+	/**
+	 * Optional custom data source. Takes precedence over workerUrl and
+	 * localServerUrl. Keep the instance stable (e.g. with useMemo) -
+	 * a new provider triggers a full reload.
+	 */
+	dataProvider?: TimelineDataProvider;
+
+	/**
+	 * Optional branch, tag or commit SHA to follow instead of the default
+	 * branch (e.g. "release/2.x"). Named gitRef because `ref` is reserved by React.
+	 */
+	gitRef?: string;
+
 	/** Optional callback for error handling */
 	onError?: (error: Error) => void;
 
 	/** Show timeline controls (default: true) */
 	showControls?: boolean;
 
+	/**
+	 * Initially draw import/dependency edges between files (default: true)
+	 * Can be toggled from the header. Import data comes from the worker
+	 */
+	showDependencies?: boolean;
+
 	/** Start playing automatically (default: false) */
 	autoPlay?: boolean;
 
@@ -28,6 +62,64 @@ export interface RepoTimelineProps {
 	/** Initial playback direction (default: "forward") */
 	playbackDirection?: PlaybackDirection;
 
+	/**
+	 * Force layout constants, e.g. `{ distance: 60, repulsion: 2000 }` to
+	 * spread out deep trees. Unset values use the defaults. In dev builds the
+	 * header has a tuning panel for adjusting these live
+	 */
+	layout?: Partial<ForceSimulationConfig>;
+
+	/**
+	 * Initial layout (default: "force"). "radial", "cone" and "treemap" are
+	 * computed from the directory tree and place the same files identically
+	 * on every load. Can be switched from the header
+	 */
+	layoutMode?: LayoutMode;
+
+	/**
+	 * Save where files settle in the force layout (per repo, in localStorage)
+	 * and restore them on the next visit (default: true). Starting positions
+	 * are seeded by repoPath either way, so layouts are reproducible
+	 */
+	persistLayout?: boolean;
+
+	/**
+	 * Directories to start collapsed, e.g. `["docs", "vendor"]`. A collapsed
+	 * directory is drawn as one node sized by the files below it and coloured
+	 * by how many of them changed. Can be toggled from the node info panel
+	 */
+	collapsedPaths?: string[];
+
+	/**
+	 * Only show files matching one of these globs, e.g. `["src/**"]`.
+	 * `*` matches within a path segment and `**` across segments. Commits
+	 * that only touched files outside the filter are left out of the timeline
+	 */
+	include?: string[];
+
+	/** Hide files matching any of these globs, e.g. `["**\/*.lock", "dist/**"]` */
+	exclude?: string[];
+
+	/**
+	 * Initial file colouring (default: "type"). "type" colours the root,
+	 * directories and files apart; "extension" colours files by extension with
+	 * a legend of file types; "author" tints each file by the
+	 * author of the last commit that touched it and shows an author legend;
+	 * "heat" colours files by how many commits touched them within
+	 * `heatWindowDays`. Can be switched from the header
+	 */
+	colorMode?: ColorMode;
+
+	/** Days of history counted by the "heat" colour mode (default: 30) */
+	heatWindowDays?: number;
+
+	/**
+	 * Colours for the "extension" colour mode by file extension, e.g.
+	 * `{ ts: "#3178c6", md: "#ffffff" }`. Overrides the built-in mapping;
+	 * extensions in neither are green
+	 */
+	fileTypeColors?: Record<string, string>;
+
 	/** Optional callback when user clicks back button */
 	onBack?: () => void;
 }
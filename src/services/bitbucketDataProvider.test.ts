@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BitbucketDataProvider } from "./bitbucketDataProvider";
+
+const REPO_URL = "https://api.bitbucket.org/2.0/repositories/workspace/repo";
+
+describe("BitbucketDataProvider", () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	const jsonResponse = (data: unknown) => ({
+		ok: true,
+		status: 200,
+		json: () => Promise.resolve(data),
+	});
+
+	const errorResponse = (status: number) => ({
+		ok: false,
+		status,
+		json: () => Promise.resolve({}),
+	});
+
+	// Commit list comes back newest first
+	const commits = ["ccccccccc", "bbbbbbbbb", "aaaaaaaaa"].map((hash, i) => ({
+		hash,
+		message: `Commit ${3 - i}\n\nDetails`,
+		date: `2024-01-0${3 - i}T00:00:00Z`,
+		author: { raw: "Alice <alice@example.com>" },
+	}));
+
+	const diffStat = (path: string) => ({
+		status: "modified",
+		lines_added: 2,
+		lines_removed: 1,
+		old: { path },
+		new: { path },
+	});
+
+	beforeEach(() => {
+		fetchMock = vi.fn((url: string) => {
+			if (url === REPO_URL) {
+				return Promise.resolve(jsonResponse({ mainbranch: { name: "trunk" } }));
+			}
+			if (url.includes("/diffstat/")) {
+				return Promise.resolve(jsonResponse({ values: [diffStat("a.ts")] }));
+			}
+			return Promise.resolve(jsonResponse({ values: commits }));
+		});
+		vi.stubGlobal("fetch", fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should list commits from the main branch, oldest first", async () => {
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		const metadata = await provider.fetchMetadata();
+
+		expect(fetchMock.mock.calls[1][0]).toBe(
+			`${REPO_URL}/commits/trunk?pagelen=100`,
+		);
+		expect(metadata.map((commit) => commit.sha)).toEqual([
+			"aaaaaaa",
+			"bbbbbbb",
+			"ccccccc",
+		]);
+		expect(metadata[0]).toEqual({
+			sha: "aaaaaaa",
+			message: "Commit 1",
+			author: "Alice",
+			date: "2024-01-01T00:00:00Z",
+		});
+	});
+
+	it("should list commits from the requested ref without looking up the main branch", async () => {
+		const provider = new BitbucketDataProvider(
+			"workspace",
+			"repo",
+			undefined,
+			"release/1.0",
+		);
+
+		await provider.fetchMetadata();
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0][0]).toBe(
+			`${REPO_URL}/commits/release%2F1.0?pagelen=100`,
+		);
+	});
+
+	it("should page through the commit list by offset and limit", async () => {
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		const first = await provider.fetchCommits(0, 2);
+		const second = await provider.fetchCommits(2, 2);
+
+		expect(first.commits.map((commit) => commit.sha)).toEqual([
+			"aaaaaaa",
+			"bbbbbbb",
+		]);
+		expect(first.hasMore).toBe(true);
+		expect(first.totalCount).toBe(3);
+		expect(second.commits.map((commit) => commit.sha)).toEqual(["ccccccc"]);
+		expect(second.hasMore).toBe(false);
+		// The commit list is fetched once per provider
+		expect(
+			fetchMock.mock.calls.filter(([url]) => url.includes("/commits/")),
+		).toHaveLength(1);
+	});
+
+	it("should follow the next links of large diffstats", async () => {
+		fetchMock.mockImplementation((url: string) => {
+			if (url === REPO_URL) {
+				return Promise.resolve(jsonResponse({ mainbranch: { name: "main" } }));
+			}
+			if (url.endsWith("?pagelen=500")) {
+				return Promise.resolve(
+					jsonResponse({
+						values: [diffStat("a.ts")],
+						next: `${url}&page=2`,
+					}),
+				);
+			}
+			if (url.includes("/diffstat/")) {
+				return Promise.resolve(jsonResponse({ values: [diffStat("b.ts")] }));
+			}
+			return Promise.resolve(jsonResponse({ values: [commits[2]] }));
+		});
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		const page = await provider.fetchCommits(0, 40);
+
+		expect(page.commits[0].files).toEqual([
+			{ filename: "a.ts", status: "modified", additions: 2, deletions: 1 },
+			{ filename: "b.ts", status: "modified", additions: 2, deletions: 1 },
+		]);
+	});
+
+	it("should normalise added, removed and renamed files", async () => {
+		fetchMock.mockImplementation((url: string) => {
+			if (url === REPO_URL) {
+				return Promise.resolve(jsonResponse({ mainbranch: { name: "main" } }));
+			}
+			if (url.includes("/diffstat/")) {
+				return Promise.resolve(
+					jsonResponse({
+						values: [
+							{
+								status: "added",
+								lines_added: 3,
+								lines_removed: 0,
+								old: null,
+								new: { path: "new.ts" },
+							},
+							{
+								status: "removed",
+								lines_added: 0,
+								lines_removed: 4,
+								old: { path: "gone.ts" },
+								new: null,
+							},
+							{
+								status: "renamed",
+								lines_added: 1,
+								lines_removed: 1,
+								old: { path: "old.ts" },
+								new: { path: "moved.ts" },
+							},
+						],
+					}),
+				);
+			}
+			return Promise.resolve(jsonResponse({ values: [commits[2]] }));
+		});
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		const page = await provider.fetchCommits(0, 40);
+
+		expect(page.commits[0].files).toEqual([
+			{ filename: "new.ts", status: "added", additions: 3, deletions: 0 },
+			{ filename: "gone.ts", status: "removed", additions: 0, deletions: 4 },
+			{
+				filename: "moved.ts",
+				status: "renamed",
+				additions: 1,
+				deletions: 1,
+				previous_filename: "old.ts",
+			},
+		]);
+	});
+
+	it("should report a missing repository", async () => {
+		fetchMock.mockResolvedValue(errorResponse(404));
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		await expect(provider.fetchMetadata()).rejects.toThrow(
+			"Bitbucket repository not found",
+		);
+	});
+
+	it("should report rate limiting", async () => {
+		fetchMock.mockResolvedValue(errorResponse(429));
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		await expect(provider.fetchCommits(0, 40)).rejects.toThrow(
+			"Bitbucket API rate limit exceeded",
+		);
+	});
+
+	it("should report other API errors with their status", async () => {
+		fetchMock.mockResolvedValue(errorResponse(500));
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		await expect(provider.fetchMetadata()).rejects.toThrow(
+			"Bitbucket API error: 500",
+		);
+	});
+
+	it("should report an empty repository", async () => {
+		fetchMock.mockImplementation((url: string) =>
+			Promise.resolve(
+				url === REPO_URL
+					? jsonResponse({ mainbranch: { name: "main" } })
+					: jsonResponse({ values: [] }),
+			),
+		);
+		const provider = new BitbucketDataProvider("workspace", "repo");
+
+		await expect(provider.fetchMetadata()).rejects.toThrow("No commits found");
+	});
+
+	it("should send the token as a bearer header", async () => {
+		const provider = new BitbucketDataProvider("workspace", "repo", "secret");
+
+		await provider.fetchMetadata();
+
+		expect(fetchMock.mock.calls[0][1]).toEqual({
+			headers: { Authorization: "Bearer secret" },
+		});
+	});
+});
@@ -0,0 +1,221 @@
+import type { LoadProgress } from "../types";
+import type {
+	TimelineCommit,
+	TimelineCommitMetadata,
+	TimelineCommitPage,
+	TimelineDataProvider,
+	TimelineFileChange,
+} from "../types/provider";
+
+const BITBUCKET_API_URL = "https://api.bitbucket.org/2.0";
+
+interface BitbucketCommit {
+	hash: string;
+	message: string;
+	date: string;
+	author: {
+		raw: string;
+		user?: { display_name: string };
+	};
+	parents?: Array<{ hash: string }>;
+}
+
+interface BitbucketDiffStat {
+	status: string;
+	lines_added: number;
+	lines_removed: number;
+	old: { path: string } | null;
+	new: { path: string } | null;
+}
+
+interface BitbucketPage<T> {
+	values: T[];
+	next?: string;
+}
+
+/**
+ * Data provider that talks to the Bitbucket Cloud REST API directly
+ */
+export class BitbucketDataProvider implements TimelineDataProvider {
+	private repoUrl: string;
+	private token?: string;
+	private ref?: string;
+	private commitList: BitbucketCommit[] | null = null;
+
+	constructor(workspace: string, repo: string, token?: string, ref?: string) {
+		this.repoUrl = `${BITBUCKET_API_URL}/repositories/${workspace}/${repo}`;
+		this.token = token;
+		this.ref = ref;
+	}
+
+	private async request<T>(path: string): Promise<T> {
+		return this.requestUrl(`${this.repoUrl}${path}`);
+	}
+
+	/**
+	 * Fetch every page of a list endpoint by following the "next" links
+	 */
+	private async requestAll<T>(path: string): Promise<T[]> {
+		const items: T[] = [];
+		let url: string | undefined = `${this.repoUrl}${path}`;
+
+		while (url) {
+			const page: BitbucketPage<T> = await this.requestUrl(url);
+			items.push(...page.values);
+			url = page.next;
+		}
+
+		return items;
+	}
+
+	private async requestUrl<T>(url: string): Promise<T> {
+		const headers: HeadersInit = this.token
+			? { Authorization: `Bearer ${this.token}` }
+			: {};
+
+		const response = await fetch(url, { headers });
+
+		if (!response.ok) {
+			if (response.status === 404) {
+				throw new Error("Bitbucket repository not found");
+			}
+			if (response.status === 429) {
+				throw new Error("Bitbucket API rate limit exceeded");
+			}
+			throw new Error(`Bitbucket API error: ${response.status}`);
+		}
+
+		return response.json();
+	}
+
+	/**
+	 * Fetch the ref's (or main branch's) commit list once per provider (oldest first)
+	 */
+	private async loadCommitList(
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<BitbucketCommit[]> {
+		if (!this.commitList) {
+			const branch =
+				this.ref ||
+				(await this.request<{ mainbranch?: { name: string } }>("")).mainbranch
+					?.name ||
+				"main";
+
+			if (onProgress) {
+				onProgress({
+					loaded: 0,
+					total: -1,
+					percentage: 0,
+					message: `Fetching commits from ${branch} branch...`,
+				});
+			}
+
+			// Limit to avoid too many API calls
+			const page = await this.request<BitbucketPage<BitbucketCommit>>(
+				`/commits/${encodeURIComponent(branch)}?pagelen=100`,
+			);
+
+			if (page.values.length === 0) {
+				throw new Error(
+					"No commits found. Repository may be empty or private.",
+				);
+			}
+
+			this.commitList = page.values.reverse();
+		}
+		return this.commitList;
+	}
+
+	async fetchCommits(
+		offset: number,
+		limit: number,
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<TimelineCommitPage> {
+		const commitList = await this.loadCommitList(onProgress);
+		const page = commitList.slice(offset, offset + limit);
+		const commits: TimelineCommit[] = [];
+
+		for (let i = 0; i < page.length; i++) {
+			const commit = page[i];
+
+			if (onProgress) {
+				onProgress({
+					loaded: i + 1,
+					total: page.length,
+					percentage: Math.round(((i + 1) / page.length) * 100),
+					message: `Processing commit ${i + 1}/${page.length}`,
+				});
+			}
+
+			const diffStat = await this.requestAll<BitbucketDiffStat>(
+				`/diffstat/${commit.hash}?pagelen=500`,
+			);
+
+			commits.push({
+				...toMetadata(commit),
+				parents: commit.parents?.map((parent) => parent.hash.substring(0, 7)),
+				files: diffStat.map(diffStatToFileChange),
+			});
+		}
+
+		return {
+			commits,
+			hasMore: offset + page.length < commitList.length,
+			totalCount: commitList.length,
+		};
+	}
+
+	async fetchMetadata(): Promise<TimelineCommitMetadata[]> {
+		const commitList = await this.loadCommitList();
+		return commitList.map(toMetadata);
+	}
+}
+
+function toMetadata(commit: BitbucketCommit): TimelineCommitMetadata {
+	return {
+		sha: commit.hash.substring(0, 7),
+		message: commit.message.split("\n")[0],
+		// Raw author is "Name <email>" - prefer the linked account name
+		author:
+			commit.author.user?.display_name ||
+			commit.author.raw.replace(/\s*<[^>]*>\s*$/, ""),
+		date: commit.date,
+	};
+}
+
+function diffStatToFileChange(stat: BitbucketDiffStat): TimelineFileChange {
+	const additions = stat.lines_added || 0;
+	const deletions = stat.lines_removed || 0;
+
+	if (stat.status === "added" || !stat.old) {
+		return {
+			filename: stat.new?.path || "",
+			status: "added",
+			additions,
+			deletions,
+		};
+	}
+	if (stat.status === "removed" || !stat.new) {
+		return {
+			filename: stat.old.path,
+			status: "removed",
+			additions,
+			deletions,
+		};
+	}
+	if (stat.status === "renamed") {
+		return {
+			filename: stat.new.path,
+			status: "renamed",
+			additions,
+			deletions,
+			previous_filename: stat.old.path,
+		};
+	}
+	return {
+		filename: stat.new.path,
+		status: "modified",
+		additions,
+		deletions,
+	};
+}
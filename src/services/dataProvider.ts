@@ -0,0 +1,48 @@
+import type { TimelineDataProvider } from "../types/provider";
+import { parseRepoPath } from "../utils/repoPath";
+import { BitbucketDataProvider } from "./bitbucketDataProvider";
+import { GitHubDataProvider } from "./githubDataProvider";
+import { GitLabDataProvider } from "./gitlabDataProvider";
+import { LocalDataProvider } from "./localDataProvider";
+import { WorkerDataProvider } from "./workerDataProvider";
+
+export interface DataProviderOptions {
+	token?: string;
+	workerUrl?: string;
+	localServerUrl?: string;
+	ref?: string; // Branch, tag or SHA; the default branch when omitted
+}
+
+/**
+ * Pick the built-in data provider for a repository
+ *
+ * - A local server URL, or a path that isn't a remote repo path, reads from the local git server
+ * - A worker URL reads from the Cloudflare Worker cache (any host except an
+ *   explicitly named self-hosted GitLab, which the worker only knows as GITLAB_URL)
+ * - Otherwise the host's REST API (GitHub, GitLab or Bitbucket) is used directly
+ */
+export function createDataProvider(
+	repoPath: string,
+	{ token, workerUrl, localServerUrl, ref }: DataProviderOptions = {},
+): TimelineDataProvider {
+	const parsed = parseRepoPath(repoPath);
+
+	if (localServerUrl !== undefined || !parsed) {
+		return new LocalDataProvider(repoPath, localServerUrl, ref);
+	}
+
+	const { host, owner, repo, baseUrl } = parsed;
+
+	if (workerUrl && !baseUrl) {
+		return new WorkerDataProvider(workerUrl, owner, repo, host, ref);
+	}
+
+	switch (host) {
+		case "gitlab":
+			return new GitLabDataProvider(owner, repo, token, ref, baseUrl);
+		case "bitbucket":
+			return new BitbucketDataProvider(owner, repo, token, ref);
+		default:
+			return new GitHubDataProvider(repoPath, token, ref);
+	}
+}
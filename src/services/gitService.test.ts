@@ -0,0 +1,523 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CommitData, CommitSummary } from "../types";
+import type { TimelineCommit, TimelineDataProvider } from "../types/provider";
+import { CommitStateStore } from "../utils/commitStateStore";
+import { GitService } from "./gitService";
+
+/**
+ * Load the first page and resolve every commit the store holds
+ */
+async function loadHistory(service: GitService): Promise<CommitData[]> {
+	const store = new CommitStateStore();
+	await service.getCommitHistory(store);
+	return Array.from({ length: store.length }, (_, i) => store.getStateAt(i));
+}
+
+describe("GitService", () => {
+	const commits: TimelineCommit[] = [
+		{
+			sha: "abc1234",
+			message: "Grow the README",
+			author: "Alice",
+			date: "2024-01-01T10:00:00Z",
+			files: [
+				{
+					filename: "README.md",
+					status: "modified",
+					additions: 2,
+					deletions: 0,
+				},
+				{
+					filename: "src/new.ts",
+					status: "added",
+					additions: 10,
+					deletions: 0,
+				},
+			],
+		},
+	];
+
+	const renameCommits: TimelineCommit[] = [
+		{
+			sha: "aaa1111",
+			message: "Add files",
+			author: "Alice",
+			date: "2024-01-01T10:00:00Z",
+			files: [
+				{
+					filename: "src/util.ts",
+					status: "added",
+					additions: 10,
+					deletions: 0,
+				},
+				{
+					filename: "a/index.ts",
+					status: "added",
+					additions: 5,
+					deletions: 0,
+				},
+			],
+		},
+		{
+			sha: "bbb2222",
+			message: "Move util, replace index",
+			author: "Bob",
+			date: "2024-01-02T10:00:00Z",
+			files: [
+				{
+					filename: "lib/util.ts",
+					status: "renamed",
+					previous_filename: "src/util.ts",
+					additions: 2,
+					deletions: 0,
+				},
+				{
+					filename: "a/index.ts",
+					status: "removed",
+					additions: 0,
+					deletions: 5,
+				},
+				{
+					filename: "b/index.ts",
+					status: "added",
+					additions: 5,
+					deletions: 0,
+				},
+			],
+		},
+	];
+
+	beforeEach(() => {
+		localStorage.clear();
+		vi.spyOn(console, "log").mockImplementation(() => undefined);
+	});
+
+	describe("getCommitHistory", () => {
+		it("should seed file sizes from the provider's base tree", async () => {
+			const provider: TimelineDataProvider = {
+				fetchCommits: vi.fn().mockResolvedValue({
+					commits,
+					hasMore: false,
+					totalCount: 1,
+				}),
+				fetchBaseTree: vi.fn().mockResolvedValue({
+					sha: "0000000",
+					files: [
+						{ path: "README.md", size: 1000 },
+						{ path: "LICENSE", size: 1070 },
+					],
+				}),
+			};
+
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				provider,
+			);
+			const result = await loadHistory(service);
+			const sizes = new Map(
+				result[0].files
+					.filter((f) => f.type === "file")
+					.map((f) => [f.path, f.size]),
+			);
+
+			// Untouched files keep their real size, line deltas become estimated bytes
+			expect(sizes.get("LICENSE")).toBe(1070);
+			expect(sizes.get("README.md")).toBe(1080);
+			expect(sizes.get("src/new.ts")).toBe(400);
+		});
+
+		it("should keep line-based sizes when the provider has no base tree", async () => {
+			const provider: TimelineDataProvider = {
+				fetchCommits: vi.fn().mockResolvedValue({
+					commits,
+					hasMore: false,
+					totalCount: 1,
+				}),
+			};
+
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				provider,
+			);
+			const result = await loadHistory(service);
+
+			expect(result[0].files.find((f) => f.path === "src/new.ts")?.size).toBe(
+				10,
+			);
+			expect(result[0].files.find((f) => f.path === "LICENSE")).toBeUndefined();
+		});
+
+		it("should fall back to line-based sizes when the base tree fails", async () => {
+			vi.spyOn(console, "warn").mockImplementation(() => undefined);
+			const provider: TimelineDataProvider = {
+				fetchCommits: vi.fn().mockResolvedValue({
+					commits,
+					hasMore: false,
+					totalCount: 1,
+				}),
+				fetchBaseTree: vi.fn().mockRejectedValue(new Error("offline")),
+			};
+
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				provider,
+			);
+			const result = await loadHistory(service);
+
+			expect(result[0].files.find((f) => f.path === "src/new.ts")?.size).toBe(
+				400,
+			);
+		});
+	});
+
+	describe("rename detection", () => {
+		it("should mark files the provider reports as renamed as moved", async () => {
+			const provider: TimelineDataProvider = {
+				fetchCommits: vi.fn().mockResolvedValue({
+					commits: renameCommits,
+					hasMore: false,
+					totalCount: 2,
+				}),
+			};
+
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				provider,
+			);
+			const result = await loadHistory(service);
+			const files = new Map(result[1].files.map((f) => [f.path, f]));
+
+			expect(files.get("lib/util.ts")).toMatchObject({
+				fileStatus: "moved",
+				previousPath: "src/util.ts",
+				previousSize: 10,
+				sizeChange: "increase",
+			});
+			// The old path of a moved file isn't shown as deleted
+			expect(files.has("src/util.ts")).toBe(false);
+		});
+
+		it("should not guess moves from matching names and sizes", async () => {
+			const provider: TimelineDataProvider = {
+				fetchCommits: vi.fn().mockResolvedValue({
+					commits: renameCommits,
+					hasMore: false,
+					totalCount: 2,
+				}),
+			};
+
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				provider,
+			);
+			const result = await loadHistory(service);
+			const files = new Map(result[1].files.map((f) => [f.path, f]));
+
+			expect(files.get("b/index.ts")?.fileStatus).toBe("added");
+			expect(files.get("b/index.ts")?.previousPath).toBeUndefined();
+			expect(files.get("a/index.ts")?.fileStatus).toBe("deleted");
+		});
+	});
+
+	describe("file changes", () => {
+		it("should record line counts and resulting sizes per commit", async () => {
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				{
+					fetchCommits: vi.fn().mockResolvedValue({
+						commits: renameCommits,
+						hasMore: false,
+						totalCount: 2,
+					}),
+				},
+			);
+			const result = await loadHistory(service);
+
+			expect(result[1].changes).toEqual([
+				{
+					path: "lib/util.ts",
+					oldPath: "src/util.ts",
+					insertions: 2,
+					deletions: 0,
+					status: "renamed",
+					size: 12,
+				},
+				{
+					path: "a/index.ts",
+					insertions: 0,
+					deletions: 5,
+					status: "deleted",
+					size: 0,
+				},
+				{
+					path: "b/index.ts",
+					insertions: 5,
+					deletions: 0,
+					status: "added",
+					size: 5,
+				},
+			]);
+		});
+	});
+
+	describe("path filters", () => {
+		const filteredCommits: TimelineCommit[] = [
+			...commits,
+			{
+				sha: "def5678",
+				message: "Bump lockfile",
+				author: "Bob",
+				date: "2024-01-02T10:00:00Z",
+				files: [
+					{
+						filename: "pnpm.lock",
+						status: "added",
+						additions: 100,
+						deletions: 0,
+					},
+				],
+			},
+		];
+
+		const createService = (filter: {
+			include?: string[];
+			exclude?: string[];
+		}) =>
+			new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				{
+					fetchCommits: vi.fn().mockResolvedValue({
+						commits: filteredCommits,
+						hasMore: false,
+						totalCount: 2,
+					}),
+				},
+				undefined,
+				filter,
+			);
+
+		it("should leave filtered-out files out of nodes and edges", async () => {
+			const result = await loadHistory(
+				createService({
+					include: ["src/**"],
+				}),
+			);
+			const paths = result[0].files.map((f) => f.path);
+
+			expect(paths).toContain("src/new.ts");
+			expect(paths).not.toContain("README.md");
+			for (const edge of result[0].edges) {
+				expect(edge.target).not.toBe("README.md");
+			}
+		});
+
+		it("should skip commits that only touched filtered-out files", async () => {
+			const result = await loadHistory(
+				createService({
+					exclude: ["**/*.lock"],
+				}),
+			);
+
+			expect(result.map((c) => c.hash)).toEqual(["abc1234"]);
+		});
+
+		it("should leave filtered-out files out of the commit's changes", async () => {
+			const result = await loadHistory(
+				createService({
+					include: ["src/**"],
+				}),
+			);
+
+			expect(result[0].changes?.map((change) => change.path)).toEqual([
+				"src/new.ts",
+			]);
+		});
+
+		it("should page on by provider commits, not the commits kept", async () => {
+			const fetchCommits = vi
+				.fn()
+				.mockResolvedValueOnce({
+					commits: filteredCommits,
+					hasMore: true,
+					totalCount: 3,
+				})
+				.mockResolvedValueOnce({
+					commits: renameCommits.slice(0, 1),
+					hasMore: false,
+					totalCount: 3,
+				});
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				{ fetchCommits },
+				undefined,
+				{ exclude: ["**/*.lock"] },
+			);
+
+			const store = new CommitStateStore();
+			const first = await service.getCommitHistory(store);
+			expect(store.length).toBe(1);
+			expect(first.nextOffset).toBe(2);
+
+			const more = await service.loadMoreCommits(
+				store,
+				first.nextOffset ?? 0,
+				40,
+			);
+
+			expect(fetchCommits).toHaveBeenLastCalledWith(2, 40, undefined);
+			expect(more.nextOffset).toBe(3);
+		});
+
+		it("should cache filtered timelines separately", async () => {
+			await loadHistory(createService({ exclude: ["**/*.lock"] }));
+
+			expect(createService({}).getCacheInfo().exists).toBe(false);
+			expect(
+				createService({ exclude: ["**/*.lock"] }).getCacheInfo().exists,
+			).toBe(true);
+		});
+	});
+
+	describe("loadMoreCommits", () => {
+		it("should continue from the previous commit's files and statuses", async () => {
+			const provider: TimelineDataProvider = {
+				fetchCommits: vi
+					.fn()
+					.mockResolvedValueOnce({
+						commits: renameCommits.slice(0, 1),
+						hasMore: true,
+						totalCount: 2,
+					})
+					.mockResolvedValueOnce({
+						commits: renameCommits.slice(1),
+						hasMore: false,
+						totalCount: 2,
+					}),
+			};
+
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				provider,
+			);
+			const store = new CommitStateStore();
+			await service.getCommitHistory(store);
+			const streamed: CommitSummary[] = [];
+			await service.loadMoreCommits(store, 1, 40, (commit) =>
+				streamed.push(commit),
+			);
+			const files = new Map(store.getStateAt(1).files.map((f) => [f.path, f]));
+
+			expect(store.length).toBe(2);
+			expect(files.get("lib/util.ts")).toMatchObject({
+				fileStatus: "moved",
+				size: 12,
+			});
+			expect(files.get("a/index.ts")?.fileStatus).toBe("deleted");
+			expect(streamed.map((commit) => commit.hash)).toEqual(["bbb2222"]);
+		});
+
+		it("should cache the whole store once more commits are loaded", async () => {
+			const fetchCommits = vi
+				.fn()
+				.mockResolvedValueOnce({
+					commits: renameCommits.slice(0, 1),
+					hasMore: true,
+					totalCount: 2,
+				})
+				.mockResolvedValueOnce({
+					commits: renameCommits.slice(1),
+					hasMore: false,
+					totalCount: 2,
+				});
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				{ fetchCommits },
+			);
+			const store = new CommitStateStore();
+			await service.getCommitHistory(store);
+			await service.loadMoreCommits(store, 1, 40);
+
+			const cached = new CommitStateStore();
+			const result = await service.getCommitHistory(cached);
+
+			expect(result.fromCache).toBe(true);
+			expect(fetchCommits).toHaveBeenCalledTimes(2);
+			expect(cached.getCommits().map((commit) => commit.hash)).toEqual([
+				"aaa1111",
+				"bbb2222",
+			]);
+			expect(
+				cached.getStateAt(1).files.find((f) => f.path === "lib/util.ts"),
+			).toMatchObject({ fileStatus: "moved", size: 12 });
+		});
+	});
+
+	describe("getFilePatch", () => {
+		it("should ask the provider for the diff", async () => {
+			const patch = {
+				sha: "abc1234",
+				path: "README.md",
+				status: "modified",
+				additions: 2,
+				deletions: 0,
+				patch: "@@ -1 +1,3 @@\n # App\n+\n+Usage\n",
+				truncated: false,
+			};
+			const fetchFilePatch = vi.fn().mockResolvedValue(patch);
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				{ fetchCommits: vi.fn(), fetchFilePatch },
+			);
+
+			await expect(service.getFilePatch("abc1234", "README.md")).resolves.toBe(
+				patch,
+			);
+			expect(fetchFilePatch).toHaveBeenCalledWith("abc1234", "README.md");
+		});
+
+		it("should return null when the provider has no diffs", () => {
+			const service = new GitService(
+				"acme/app",
+				undefined,
+				undefined,
+				undefined,
+				{ fetchCommits: vi.fn() },
+			);
+
+			expect(service.getFilePatch("abc1234", "README.md")).toBeNull();
+		});
+	});
+});
@@ -1,99 +1,142 @@
 import type {
 	CommitData,
+	CommitSummary,
+	FileChange,
 	FileNode,
 	LoadProgress,
 	RateLimitInfo,
 } from "../types";
-import { buildEdges, buildFileTree } from "../utils/fileTreeBuilder";
-import { GitHubApiService } from "./githubApiService";
+import type {
+	CacheStatusResponse,
+	RepoSummary,
+	TimelineCommit,
+	TimelineDataProvider,
+	TimelineFilePatch,
+} from "../types/provider";
+import { buildCommitFromFileState } from "../utils/commitBuilder";
+import type { CommitStateStore } from "../utils/commitStateStore";
+import { FileStateTracker } from "../utils/fileStateTracker";
+import { buildEdges } from "../utils/fileTreeBuilder";
+import {
+	createPathFilter,
+	isEmptyFilter,
+	type PathFilter,
+} from "../utils/pathFilter";
+import { hashString } from "../utils/random";
+import { createDataProvider } from "./dataProvider";
 import { StorageService } from "./storageService";
 
-interface RawCommitData {
-	hash: string;
-	message: string;
-	author: string;
-	date: string;
-	files: RawFileData[];
-}
-
-interface RawFileData {
-	path: string;
-	size?: number;
-	type?: string;
-}
-
 // Re-export for convenience
 export type { LoadProgress, RateLimitInfo };
 
+// Number of commits requested per page from the data provider
+const PAGE_SIZE = 40;
+
+// Average bytes per source line, used to turn line deltas into byte sizes
+// when the timeline is seeded with real sizes from a git tree
+const ESTIMATED_BYTES_PER_LINE = 40;
+
 export class GitService {
 	private repoPath: string;
-	private token?: string;
-	private workerUrl?: string;
-	private githubService?: GitHubApiService;
-
-	constructor(repoPath: string, token?: string, workerUrl?: string) {
+	private ref?: string;
+	private provider: TimelineDataProvider;
+	private filter?: PathFilter;
+	private pathFilter?: (path: string) => boolean;
+
+	constructor(
+		repoPath: string,
+		token?: string,
+		workerUrl?: string,
+		localServerUrl?: string,
+		dataProvider?: TimelineDataProvider,
+		ref?: string,
+		filter?: PathFilter,
+	) {
 		this.repoPath = repoPath;
-		this.token = token;
-		this.workerUrl = workerUrl;
+		this.ref = ref;
+		if (!isEmptyFilter(filter)) {
+			this.filter = filter;
+			this.pathFilter = createPathFilter(filter);
+		}
+		this.provider =
+			dataProvider ??
+			createDataProvider(repoPath, { token, workerUrl, localServerUrl, ref });
 	}
 
 	getRateLimitInfo(): RateLimitInfo | null {
-		return this.githubService?.getRateLimitInfo() || null;
+		return this.provider.getRateLimitInfo?.() || null;
 	}
 
 	/**
-	 * Load more commits with pagination
+	 * Load more commits with pagination, appending them to `store`
+	 * The file state continues from the last commit already in the store
+	 *
+	 * @param offset - Provider commits consumed so far (the previous `nextOffset`),
+	 * which differs from the commits loaded when a path filter skips some
 	 */
 	async loadMoreCommits(
+		store: CommitStateStore,
 		offset: number,
-		limit = 40,
-		existingFiles: Map<string, number> = new Map(),
-		onCommit?: (commit: CommitData) => void,
+		limit = PAGE_SIZE,
+		onCommit?: (commit: CommitSummary) => void,
 		onProgress?: (progress: LoadProgress) => void,
 	): Promise<{
-		commits: CommitData[];
 		hasMore: boolean;
 		totalCount: number;
+		nextOffset: number;
 	}> {
-		if (!this.githubService) {
-			this.githubService = new GitHubApiService(
-				this.repoPath,
-				this.token,
-				this.workerUrl,
+		const page = await this.provider.fetchCommits(offset, limit, onProgress);
+
+		// Initialize file state from the previous commit's files
+		const fileStateTracker = this.createFileStateTracker();
+		const previousCommit =
+			store.length > 0 ? store.getStateAt(store.length - 1) : undefined;
+		if (previousCommit) {
+			fileStateTracker.seed(
+				previousCommit.files.filter(
+					(file) => file.type === "file" && file.fileStatus !== "deleted",
+				),
 			);
 		}
 
-		const result = await this.githubService.loadMoreCommits(
-			offset,
-			limit,
-			existingFiles,
+		this.appendCommits(
+			store,
+			page.commits,
+			fileStateTracker,
+			previousCommit,
 			onCommit,
 			onProgress,
 		);
 
-		// Apply size change calculations
-		const calculatedCommits = this.calculateSizeChanges(result.commits);
-
-		// Update cache with all commits
-		const cacheKey = this.getCacheKey();
-		const existingCached = StorageService.loadCommits(cacheKey) || [];
-		const allCommits = [...existingCached, ...calculatedCommits];
-		StorageService.saveCommits(cacheKey, allCommits);
-
 		return {
-			...result,
-			commits: calculatedCommits,
+			hasMore: page.hasMore,
+			totalCount: page.totalCount,
+			nextOffset: offset + page.commits.length,
 		};
 	}
 
 	/**
-	 * Get repository status from worker (GitHub state + cache state)
+	 * Fetch server-side cache status and repository summary, if the provider supports them
 	 */
-	// Status methods removed - use new /cache and /summary endpoints directly
-	// via GitHubApiService.fetchCacheStatus() and GitHubApiService.fetchRepoSummary()
+	async getRepoStatus(): Promise<{
+		cacheStatus: CacheStatusResponse;
+		summary: { github: RepoSummary };
+	} | null> {
+		if (!this.provider.fetchCacheStatus || !this.provider.fetchRepoSummary) {
+			return null;
+		}
+
+		const [cacheStatus, summary] = await Promise.all([
+			this.provider.fetchCacheStatus(),
+			this.provider.fetchRepoSummary(),
+		]);
+
+		return { cacheStatus, summary };
+	}
 
 	/**
-	 * Fetch metadata for all PRs (fast, no files)
+	 * Fetch metadata for all commits (fast, no files)
+	 * Returns null when the data provider has no metadata endpoint
 	 */
 	async getMetadata(): Promise<{
 		prs: Array<{
@@ -103,14 +146,12 @@ export class GitService {
 			date: Date;
 		}>;
 		timeRange: { start: number; end: number };
-	}> {
-		this.githubService = new GitHubApiService(
-			this.repoPath,
-			this.token,
-			this.workerUrl,
-		);
+	} | null> {
+		if (!this.provider.fetchMetadata) {
+			return null;
+		}
 
-		const metadata = await this.githubService.fetchMetadata();
+		const metadata = await this.provider.fetchMetadata();
 
 		// Metadata now returns commits, not PRs
 		const prs = metadata.map((commit, index) => ({
@@ -134,21 +175,30 @@ export class GitService {
 	 * Get a cache key for this repository
 	 */
 	private getCacheKey(): string {
-		// Normalize repo path to create consistent key
-		return this.repoPath.toLowerCase().replace(/[^a-z0-9]/g, "-");
+		// Normalize repo path (and ref, so each branch caches separately) to create consistent key
+		const repoKey = this.ref ? `${this.repoPath}@${this.ref}` : this.repoPath;
+		const key = repoKey.toLowerCase().replace(/[^a-z0-9]/g, "-");
+		// Filtered timelines are cached apart from the full one
+		return this.filter
+			? `${key}-filter-${hashString(JSON.stringify(this.filter)).toString(36)}`
+			: key;
 	}
 
 	/**
-	 * Get commit history with caching and incremental loading
+	 * Get commit history with caching and incremental loading, into `store`
+	 * Fresh loads report pagination, with `nextOffset` as the provider offset to
+	 * pass to loadMoreCommits
 	 */
 	async getCommitHistory(
+		store: CommitStateStore,
 		onProgress?: (progress: LoadProgress) => void,
 		forceRefresh = false,
-		onCommit?: (commit: CommitData) => void,
+		onCommit?: (commit: CommitSummary) => void,
 	): Promise<{
-		commits: CommitData[];
+		fromCache: boolean;
 		hasMore?: boolean;
 		totalCount?: number;
+		nextOffset?: number;
 	}> {
 		const cacheKey = this.getCacheKey();
 
@@ -156,22 +206,21 @@ export class GitService {
 		if (!forceRefresh) {
 			const cached = StorageService.loadCommits(cacheKey);
 			if (cached) {
-				return { commits: cached };
+				store.restore(cached);
+				return { fromCache: true };
 			}
 		}
 
 		// Fetch fresh data
 		try {
-			const result = await this.fetchCommitsWithProgress(onProgress, onCommit);
-			// Save to cache
-			StorageService.saveCommits(cacheKey, result.commits);
-			return result;
+			return await this.fetchCommitsWithProgress(store, onProgress, onCommit);
 		} catch (error) {
 			console.error("Error fetching commits:", error);
 			// Try cache as fallback
 			const cached = StorageService.loadCommits(cacheKey);
 			if (cached) {
-				return { commits: cached };
+				store.restore(cached);
+				return { fromCache: true };
 			}
 			// Re-throw the error instead of returning demo data
 			throw error;
@@ -179,118 +228,169 @@ export class GitService {
 	}
 
 	/**
-	 * Fetch commits with progress reporting
+	 * Fetch the first page of commits with progress reporting
 	 */
 	private async fetchCommitsWithProgress(
+		store: CommitStateStore,
 		onProgress?: (progress: LoadProgress) => void,
-		onCommit?: (commit: CommitData) => void,
+		onCommit?: (commit: CommitSummary) => void,
 	): Promise<{
-		commits: CommitData[];
+		fromCache: boolean;
 		hasMore?: boolean;
 		totalCount?: number;
+		nextOffset?: number;
 	}> {
-		// Check if repoPath is in GitHub format (owner/repo)
-		if (/^[^/]+\/[^/]+$/.test(this.repoPath)) {
-			try {
-				this.githubService = new GitHubApiService(
-					this.repoPath,
-					this.token,
-					this.workerUrl,
-				);
-				const cacheKey = this.getCacheKey();
-				const result = await this.githubService.buildTimelineFromPRsIncremental(
-					onCommit
-						? (commit) => {
-								// Apply size change calculations incrementally
-								const calculated = this.calculateSizeChanges([commit]);
-								onCommit(calculated[0]);
-							}
-						: undefined,
-					onProgress,
-					(partialCommits) => {
-						// Save to cache incrementally
-						const calculated = this.calculateSizeChanges(partialCommits);
-						StorageService.saveCommits(cacheKey, calculated);
-					},
-				);
-
-				console.log("[AUTOLOAD] GitService initial load result:", {
-					commits: result.commits.length,
-					hasMore: result.hasMore,
-					totalCount: result.totalCount,
-				});
-
-				return {
-					commits: this.calculateSizeChanges(result.commits),
-					hasMore: result.hasMore,
-					totalCount: result.totalCount,
-				};
-			} catch (error) {
-				console.error("GitHub API error:", error);
-				throw error;
-			}
+		const page = await this.provider.fetchCommits(0, PAGE_SIZE, onProgress);
+
+		console.log("[AUTOLOAD] GitService initial load result:", {
+			commits: page.commits.length,
+			hasMore: page.hasMore,
+			totalCount: page.totalCount,
+		});
+
+		// Start from the real file sizes before the first commit when available
+		const fileStateTracker = this.createFileStateTracker();
+		const baseTree = await this.provider.fetchBaseTree?.().catch((error) => {
+			console.warn("Could not load base file sizes:", error);
+			return null;
+		});
+		if (baseTree) {
+			fileStateTracker.seed(baseTree.files);
 		}
 
-		// Try backend API (legacy support)
-		try {
-			const response = await fetch(
-				`/api/commits?path=${encodeURIComponent(this.repoPath)}`,
-			);
-			if (!response.ok) {
-				throw new Error("Failed to fetch commits");
-			}
-			const data = await response.json();
+		this.appendCommits(
+			store,
+			page.commits,
+			fileStateTracker,
+			undefined,
+			onCommit,
+			onProgress,
+		);
 
-			// Simulate incremental parsing for progress
-			const commits = this.parseCommitsWithProgress(data, onProgress);
-			return { commits };
-		} catch (error) {
-			// Re-throw error - no demo data fallback
-			throw new Error(
-				`Failed to fetch repository data. Please check the repository path and try again. ${error instanceof Error ? error.message : ""}`,
-			);
-		}
+		return {
+			fromCache: false,
+			hasMore: page.hasMore,
+			totalCount: page.totalCount,
+			nextOffset: page.commits.length,
+		};
 	}
 
 	/**
-	 * Parse commits with progress reporting
+	 * Providers with a base tree report sizes in bytes, so their line deltas are scaled to match
 	 */
-	private parseCommitsWithProgress(
-		data: RawCommitData[],
+	private createFileStateTracker(): FileStateTracker {
+		return new FileStateTracker(
+			this.provider.fetchBaseTree ? ESTIMATED_BYTES_PER_LINE : 1,
+		);
+	}
+
+	/**
+	 * Replay provider commits through the file state tracker into the store
+	 * Only the newest built tree is kept, to mark size changes on the next one;
+	 * the store is cached every 5 commits and at the end so rate limits don't lose data
+	 */
+	private appendCommits(
+		store: CommitStateStore,
+		timelineCommits: TimelineCommit[],
+		fileStateTracker: FileStateTracker,
+		previousCommit?: CommitData,
+		onCommit?: (commit: CommitSummary) => void,
 		onProgress?: (progress: LoadProgress) => void,
-	): CommitData[] {
-		const commits: CommitData[] = [];
-
-		for (let i = 0; i < data.length; i++) {
-			const commit = data[i];
-			commits.push({
-				hash: commit.hash,
-				message: commit.message,
-				author: commit.author,
-				date: new Date(commit.date),
-				files: buildFileTree(
-					commit.files.map((f) => ({
-						path: f.path,
-						size: f.size || 100,
-						type: f.type as "file" | "directory",
-					})),
-				),
-				edges: buildEdges(
-					commit.files.map((f) => ({ path: f.path, size: f.size || 100 })),
-				),
-			});
+	): void {
+		const cacheKey = this.getCacheKey();
+		let previous = previousCommit;
+
+		for (let i = 0; i < timelineCommits.length; i++) {
+			const timelineCommit = timelineCommits[i];
 
-			if (onProgress && i % 10 === 0) {
-				// Report progress every 10 commits
+			if (onProgress) {
 				onProgress({
 					loaded: i + 1,
-					total: data.length,
-					percentage: Math.round(((i + 1) / data.length) * 100),
+					total: timelineCommits.length,
+					percentage: 50 + Math.round((i / timelineCommits.length) * 50),
+					message: `Processing commit ${i + 1}/${timelineCommits.length}`,
 				});
 			}
+
+			// Update file state from commit files (even when empty, so renames
+			// from the previous commit aren't reported again)
+			fileStateTracker.updateFromPRFiles(
+				timelineCommit.files.map((file) => ({
+					...file,
+					changes: file.additions + file.deletions,
+				})),
+				timelineCommit.author,
+			);
+
+			// Skip commits that only touched filtered-out files
+			if (this.touchesFilteredFiles(timelineCommit)) {
+				// Build commit snapshot from current file state
+				const commit = buildCommitFromFileState(
+					timelineCommit.sha,
+					timelineCommit.message,
+					timelineCommit.author,
+					timelineCommit.date,
+					fileStateTracker,
+					timelineCommit.parents,
+					this.pathFilter,
+				);
+				commit.changes = this.getFileChanges(timelineCommit, commit);
+
+				[previous] = this.calculateSizeChanges([commit], previous);
+				store.append([commit]);
+				onCommit?.(store.getCommit(store.length - 1));
+			}
+
+			if (i % 5 === 0 || i === timelineCommits.length - 1) {
+				StorageService.saveCommits(cacheKey, store.serialize());
+			}
 		}
+	}
 
-		return this.calculateSizeChanges(commits);
+	/**
+	 * Whether a commit changed any file that passes the path filter
+	 * Commits without file changes are kept, since there's nothing to filter
+	 */
+	private touchesFilteredFiles(commit: TimelineCommit): boolean {
+		const pathFilter = this.pathFilter;
+		if (!pathFilter || commit.files.length === 0) return true;
+		return commit.files.some(
+			(file) =>
+				pathFilter(file.filename) ||
+				(file.previous_filename !== undefined &&
+					pathFilter(file.previous_filename)),
+		);
+	}
+
+	/**
+	 * Line counts and resulting sizes of the visible files a commit touched
+	 */
+	private getFileChanges(
+		timelineCommit: TimelineCommit,
+		commit: CommitData,
+	): FileChange[] {
+		const sizes = new Map(commit.files.map((file) => [file.path, file.size]));
+		return timelineCommit.files
+			.filter((file) => !this.pathFilter || this.pathFilter(file.filename))
+			.map((file) => ({
+				path: file.filename,
+				oldPath: file.previous_filename,
+				insertions: file.additions,
+				deletions: file.deletions,
+				status: file.status === "removed" ? "deleted" : file.status,
+				size: sizes.get(file.filename) ?? 0,
+			}));
+	}
+
+	/**
+	 * Fetch a file's diff in a commit
+	 * Returns null straight away when the provider can't serve diffs
+	 */
+	getFilePatch(
+		sha: string,
+		path: string,
+	): Promise<TimelineFilePatch | null> | null {
+		return this.provider.fetchFilePatch?.(sha, path) ?? null;
 	}
 
 	/**
@@ -307,10 +407,28 @@ export class GitService {
 		return StorageService.getCacheInfo(this.getCacheKey());
 	}
 
-	private calculateSizeChanges(commits: CommitData[]): CommitData[] {
+	/**
+	 * Whether a node passes the path filter (directories always do)
+	 * A previous commit built before the filter changed can hold files it now excludes
+	 */
+	private isVisible(node: FileNode): boolean {
+		return (
+			node.type !== "file" || !this.pathFilter || this.pathFilter(node.path)
+		);
+	}
+
+	/**
+	 * Mark size and lifecycle changes of each commit's files against the commit before it
+	 * `previousCommit` is the commit before the first one, when it was loaded earlier
+	 */
+	private calculateSizeChanges(
+		commits: CommitData[],
+		previousCommit?: CommitData,
+	): CommitData[] {
 		// Process commits in order to track size and status changes
 		for (let i = 0; i < commits.length; i++) {
-			if (i === 0) {
+			const previousCommitData = i === 0 ? previousCommit : commits[i - 1];
+			if (!previousCommitData) {
 				// First commit: all files are new
 				commits[i].files.forEach((file) => {
 					file.sizeChange = "unchanged";
@@ -318,9 +436,10 @@ export class GitService {
 				});
 			} else {
 				// Compare with previous commit
-				const previousCommit = commits[i - 1];
 				const previousFileMap = new Map(
-					previousCommit.files.map((f) => [f.path, f]),
+					previousCommitData.files
+						.filter((f) => f.fileStatus !== "deleted" && this.isVisible(f))
+						.map((f) => [f.path, f]),
 				);
 				const currentFileMap = new Map(
 					commits[i].files.map((f) => [f.path, f]),
@@ -329,44 +448,22 @@ export class GitService {
 				// Check current files
 				commits[i].files.forEach((file) => {
 					const prevFile = previousFileMap.get(file.path);
+					const movedFrom = file.previousPath
+						? previousFileMap.get(file.previousPath)
+						: undefined;
 					if (prevFile) {
 						// File exists in both commits
 						file.previousSize = prevFile.size;
 						file.fileStatus = "unchanged";
-
-						if (file.size > prevFile.size) {
-							file.sizeChange = "increase";
-						} else if (file.size < prevFile.size) {
-							file.sizeChange = "decrease";
-						} else {
-							file.sizeChange = "unchanged";
-						}
+						file.sizeChange = compareSizes(file.size, prevFile.size);
+					} else if (movedFrom) {
+						// Renamed - the provider reported the old path
+						file.fileStatus = "moved";
+						file.previousSize = movedFrom.size;
+						file.sizeChange = compareSizes(file.size, movedFrom.size);
 					} else {
-						// New file - check if it's a move (same name, different path)
-						const fileName = file.path.split("/").pop();
-						let isMove = false;
-
-						for (const [prevPath, prevFileNode] of previousFileMap) {
-							const prevFileName = prevPath.split("/").pop();
-							if (
-								prevFileName === fileName &&
-								!currentFileMap.has(prevPath) &&
-								file.size === prevFileNode.size
-							) {
-								// Likely a move/rename
-								file.fileStatus = "moved";
-								file.previousPath = prevPath;
-								file.previousSize = prevFileNode.size;
-								file.sizeChange = "unchanged";
-								isMove = true;
-								break;
-							}
-						}
-
-						if (!isMove) {
-							file.fileStatus = "added";
-							file.sizeChange = "increase";
-						}
+						file.fileStatus = "added";
+						file.sizeChange = "increase";
 					}
 				});
 
@@ -378,7 +475,10 @@ export class GitService {
 						let wasMoved = false;
 
 						for (const currentFile of commits[i].files) {
-							if (currentFile.previousPath === prevPath) {
+							if (
+								currentFile.fileStatus === "moved" &&
+								currentFile.previousPath === prevPath
+							) {
 								wasMoved = true;
 								break;
 							}
@@ -405,10 +505,22 @@ export class GitService {
 						path: f.path,
 						size: f.size,
 					}));
-					commits[i].edges = buildEdges(fileData);
+					commits[i].edges = [
+						...buildEdges(fileData),
+						...commits[i].edges.filter((e) => e.type === "dependency"),
+					];
 				}
 			}
 		}
 		return commits;
 	}
 }
+
+function compareSizes(
+	size: number,
+	previousSize: number,
+): "increase" | "decrease" | "unchanged" {
+	if (size > previousSize) return "increase";
+	if (size < previousSize) return "decrease";
+	return "unchanged";
+}
@@ -1,15 +1,12 @@
-import type { CommitData, LoadProgress, RateLimitInfo } from "../types";
+import type { LoadProgress, RateLimitInfo } from "../types";
 import type { GitHubCommit, GitHubPR, GitHubPRFile } from "../types/github";
-import { buildCommitFromFileState } from "../utils/commitBuilder";
-import { FileStateTracker } from "../utils/fileStateTracker";
 import { FILE_TREE_BUILDER_VERSION } from "../utils/fileTreeBuilder";
-import { WorkerApiService } from "./workerApiService";
 
 console.log(`📦 Loaded fileTreeBuilder version: ${FILE_TREE_BUILDER_VERSION}`);
 
 /**
- * Service for fetching repository data from GitHub's REST API
- * Handles rate limiting and incremental loading
+ * Client for GitHub's REST API
+ * Handles authentication, rate limit tracking and request throttling
  */
 export class GitHubApiService {
 	private owner: string;
@@ -18,113 +15,12 @@ export class GitHubApiService {
 	private requestDelay = 1000; // 1 second between requests to avoid rate limiting
 	private token?: string;
 	private lastRateLimit: RateLimitInfo | null = null;
-	private workerService?: WorkerApiService;
 
-	constructor(repoPath: string, token?: string, workerUrl?: string) {
+	constructor(repoPath: string, token?: string) {
 		const [owner, repo] = repoPath.split("/");
 		this.owner = owner;
 		this.repo = repo;
 		this.token = token;
-
-		// Initialize WorkerApiService if workerUrl is provided
-		if (workerUrl) {
-			this.workerService = new WorkerApiService(workerUrl, owner, repo);
-		}
-	}
-
-	/**
-	 * Check if we should use the worker for this request
-	 */
-	private shouldUseWorker(): boolean {
-		return !!this.workerService;
-	}
-
-	/**
-	 * Fetch metadata from Cloudflare Worker (fast, all commits without files)
-	 */
-	async fetchMetadata(): Promise<
-		Array<{
-			sha: string;
-			message: string;
-			author: string;
-			date: string;
-		}>
-	> {
-		if (!this.workerService) {
-			throw new Error("Worker URL not configured");
-		}
-
-		return this.workerService.fetchMetadata();
-	}
-
-	/**
-	 * Fetch cache status from Cloudflare Worker (instant!)
-	 */
-	async fetchCacheStatus(): Promise<{
-		cache: {
-			exists: boolean;
-			cachedCommits: number;
-			ageSeconds: number | null;
-			lastCommitSha: string | null;
-			defaultBranch: string | null;
-			firstCommit: { sha: string; date: string } | null;
-			lastCommit: { sha: string; date: string } | null;
-		};
-		status: "ready" | "partial" | "fetching";
-	}> {
-		if (!this.workerService) {
-			throw new Error("Worker URL required for cache status");
-		}
-
-		return this.workerService.fetchCacheStatus();
-	}
-
-	/**
-	 * Fetch repo summary from GitHub (fast, just first page)
-	 */
-	async fetchRepoSummary(): Promise<{
-		github: {
-			estimatedTotalPRs: number;
-			hasMoreThan100PRs: boolean;
-			firstMergedPR: { number: number; merged_at: string } | null;
-		};
-	}> {
-		if (!this.workerService) {
-			throw new Error("Worker URL required for summary");
-		}
-
-		return this.workerService.fetchRepoSummary();
-	}
-
-	/**
-	 * Fetch a single PR with files from Cloudflare Worker (instant from cache!)
-	 */
-	async fetchSinglePR(prNumber: number): Promise<GitHubPR | null> {
-		if (!this.workerService) {
-			throw new Error("Worker URL required for single PR fetch");
-		}
-
-		return this.workerService.fetchSinglePR(prNumber);
-	}
-
-	/**
-	 * Fetch commit data from Cloudflare Worker
-	 */
-	private async fetchCommitsFromWorker(
-		offset = 0,
-		limit = 40,
-	): Promise<{
-		commits: import("../types/github").GitHubWorkerCommit[];
-		totalCount: number;
-		hasMore: boolean;
-		offset: number;
-		limit: number;
-	}> {
-		if (!this.workerService) {
-			throw new Error("Worker URL not configured");
-		}
-
-		return this.workerService.fetchCommits(offset, limit);
 	}
 
 	getRateLimitInfo(): RateLimitInfo | null {
@@ -134,7 +30,7 @@ export class GitHubApiService {
 	/**
 	 * Fetch repository metadata to get default branch name
 	 */
-	private async fetchRepoInfo(): Promise<{ default_branch: string }> {
+	async fetchRepoInfo(): Promise<{ default_branch: string }> {
 		return this.fetchGitHub<{ default_branch: string }>(
 			`/repos/${this.owner}/${this.repo}`,
 		);
@@ -147,6 +43,13 @@ export class GitHubApiService {
 		return new Promise((resolve) => setTimeout(resolve, ms));
 	}
 
+	/**
+	 * Wait between consecutive requests to avoid rate limiting
+	 */
+	throttle(): Promise<void> {
+		return this.sleep(this.requestDelay);
+	}
+
 	/**
 	 * Make a GitHub API request with error handling
 	 */
@@ -287,317 +190,19 @@ export class GitHubApiService {
 	}
 
 	/**
-	 * Load additional commits from worker with pagination
-	 * Returns processed commits and pagination info
+	 * Fetch the commit list of a branch, oldest first (without file details)
 	 */
-	async loadMoreCommits(
-		offset: number,
-		limit = 40,
-		existingFiles: Map<string, number> = new Map(),
-		onCommit?: (commit: CommitData) => void,
-		onProgress?: (progress: LoadProgress) => void,
-	): Promise<{
-		commits: CommitData[];
-		hasMore: boolean;
-		totalCount: number;
-	}> {
-		if (!this.shouldUseWorker()) {
-			throw new Error("loadMoreCommits requires worker URL");
-		}
-
-		if (onProgress) {
-			onProgress({
-				loaded: 0,
-				total: -1,
-				percentage: 0,
-				message: `Fetching commits ${offset}-${offset + limit}...`,
-			});
-		}
-
-		const workerResponse = await this.fetchCommitsFromWorker(offset, limit);
-
-		if (onProgress) {
-			onProgress({
-				loaded: workerResponse.commits.length,
-				total: workerResponse.commits.length,
-				percentage: 50,
-				message: `Processing ${workerResponse.commits.length} additional commits...`,
-			});
-		}
-
-		// Process commits with existing file state
-		const commits: CommitData[] = [];
-		const fileStateTracker = new FileStateTracker();
-
-		// Initialize file state from existing files
-		for (const [path, size] of existingFiles.entries()) {
-			fileStateTracker.updateFromPRFiles([
-				{
-					filename: path,
-					status: "added",
-					additions: size,
-					deletions: 0,
-					changes: size,
-				},
-			]);
-		}
-
-		for (let i = 0; i < workerResponse.commits.length; i++) {
-			const workerCommit = workerResponse.commits[i];
-
-			if (onProgress) {
-				onProgress({
-					loaded: i + 1,
-					total: workerResponse.commits.length,
-					percentage: 50 + Math.round((i / workerResponse.commits.length) * 50),
-					message: `Processing commit ${i + 1}/${workerResponse.commits.length}`,
-				});
-			}
-
-			// Update file state from commit files
-			if (workerCommit.files && workerCommit.files.length > 0) {
-				const prFiles: GitHubPRFile[] = workerCommit.files.map((file) => ({
-					filename: file.filename,
-					status: file.status,
-					additions: file.additions,
-					deletions: file.deletions,
-					changes: file.changes,
-					previous_filename: file.previous_filename,
-				}));
-
-				fileStateTracker.updateFromPRFiles(prFiles);
-			}
-
-			// Build commit snapshot from current file state
-			const commit = buildCommitFromFileState(
-				workerCommit.sha.substring(0, 7),
-				workerCommit.commit.message.split("\n")[0],
-				workerCommit.commit.author.name,
-				workerCommit.commit.author.date,
-				fileStateTracker,
-			);
-
-			commits.push(commit);
-
-			if (onCommit) {
-				onCommit(commit);
-			}
-		}
-
-		return {
-			commits,
-			hasMore: workerResponse.hasMore,
-			totalCount: workerResponse.totalCount,
-		};
-	}
-
-	/**
-	 * Build commit timeline from PRs incrementally
-	 * Calls onCommit callback for each PR processed, allowing progressive rendering
-	 */
-	async buildTimelineFromPRsIncremental(
-		onCommit?: (commit: CommitData) => void,
-		onProgress?: (progress: LoadProgress) => void,
-		onSaveCache?: (commits: CommitData[]) => void,
-	): Promise<{
-		commits: CommitData[];
-		hasMore?: boolean;
-		totalCount?: number;
-	}> {
-		// Use worker if available, otherwise fetch from GitHub API
-		if (this.shouldUseWorker()) {
-			if (onProgress) {
-				onProgress({
-					loaded: 0,
-					total: -1,
-					percentage: 0,
-					message: "Fetching data from cache...",
-				});
-			}
-
-			// Worker now returns commits directly, not PRs
-			const workerResponse = await this.fetchCommitsFromWorker();
-
-			console.log("[AUTOLOAD] Initial fetch response:", {
-				commits: workerResponse.commits.length,
-				totalCount: workerResponse.totalCount,
-				hasMore: workerResponse.hasMore,
-			});
-
-			if (onProgress) {
-				onProgress({
-					loaded: workerResponse.commits.length,
-					total: workerResponse.totalCount,
-					percentage: 50,
-					message: `Loaded ${workerResponse.commits.length} commits from cache`,
-				});
-			}
-
-			// Process commits from worker
-			const commits: CommitData[] = [];
-			const fileStateTracker = new FileStateTracker();
-
-			for (let i = 0; i < workerResponse.commits.length; i++) {
-				const workerCommit = workerResponse.commits[i];
-
-				if (onProgress) {
-					onProgress({
-						loaded: i + 1,
-						total: workerResponse.commits.length,
-						percentage:
-							50 + Math.round((i / workerResponse.commits.length) * 50),
-						message: `Processing commit ${i + 1}/${workerResponse.commits.length}`,
-					});
-				}
-
-				// Update file state from commit files
-				if (workerCommit.files && workerCommit.files.length > 0) {
-					const prFiles: GitHubPRFile[] = workerCommit.files.map((file) => ({
-						filename: file.filename,
-						status: file.status,
-						additions: file.additions,
-						deletions: file.deletions,
-						changes: file.changes,
-						previous_filename: file.previous_filename,
-					}));
-
-					fileStateTracker.updateFromPRFiles(prFiles);
-				}
-
-				// Build commit snapshot from current file state
-				const commit = buildCommitFromFileState(
-					workerCommit.sha.substring(0, 7),
-					workerCommit.commit.message.split("\n")[0],
-					workerCommit.commit.author.name,
-					workerCommit.commit.author.date,
-					fileStateTracker,
-				);
-
-				commits.push(commit);
-
-				if (onCommit) {
-					onCommit(commit);
-				}
-
-				if (
-					onSaveCache &&
-					(i % 5 === 0 || i === workerResponse.commits.length - 1)
-				) {
-					onSaveCache([...commits]);
-				}
-			}
-
-			return {
-				commits,
-				hasMore: workerResponse.hasMore,
-				totalCount: workerResponse.totalCount,
-			};
-		}
-
-		// No worker - fetch PRs from GitHub API
-		const prs = await this.fetchMergedPRs((progress) => {
-			if (onProgress) {
-				onProgress({
-					...progress,
-					percentage: 10,
-				});
-			}
-		});
-
-		if (prs.length === 0) {
-			// Fall back to fetching commits directly if no PRs found
-			return this.buildTimelineFromCommits(onCommit, onProgress);
-		}
-
-		const commits: CommitData[] = [];
-		const fileStateTracker = new FileStateTracker();
-
-		// Process each PR
-		for (let i = 0; i < prs.length; i++) {
-			const pr = prs[i];
-
-			if (onProgress) {
-				onProgress({
-					loaded: i + 1,
-					total: prs.length,
-					percentage: 10 + Math.round((i / prs.length) * 90),
-					message: `Processing PR #${pr.number}: ${pr.title}`,
-				});
-			}
-
-			// Get files - either from worker (already included) or fetch from GitHub
-			const prFiles = pr.files || (await this.fetchPRFiles(pr.number));
-
-			// Update file state
-			fileStateTracker.updateFromPRFiles(prFiles);
-
-			// Build commit snapshot from current file state using shared utilities
-			const commit = buildCommitFromFileState(
-				pr.merge_commit_sha
-					? pr.merge_commit_sha.substring(0, 7)
-					: `pr-${pr.number}`,
-				pr.title,
-				pr.user.login,
-				pr.merged_at || new Date(Date.now()).toISOString(),
-				fileStateTracker,
-			);
-
-			commits.push(commit);
-
-			// Call onCommit callback for incremental updates
-			if (onCommit) {
-				onCommit(commit);
-			}
-
-			// Save to cache incrementally so we don't lose data if rate limited
-			if (onSaveCache && (i % 5 === 0 || i === prs.length - 1)) {
-				// Save every 5 PRs or at the end
-				onSaveCache([...commits]);
-			}
-
-			// Throttle between PRs
-			if (i < prs.length - 1) {
-				await this.sleep(this.requestDelay);
-			}
-		}
-
-		return { commits };
-	}
-
-	/**
-	 * Build commit timeline from commits directly (when no merged PRs exist)
-	 * This fetches commits from the default branch and builds file state incrementally
-	 */
-	async buildTimelineFromCommits(
-		onCommit?: (commit: CommitData) => void,
-		onProgress?: (progress: LoadProgress) => void,
-	): Promise<{
-		commits: CommitData[];
-		hasMore?: boolean;
-		totalCount?: number;
-	}> {
-		// First, fetch repository info to get default branch
-		const repoInfo = await this.fetchRepoInfo();
-		const defaultBranch = repoInfo.default_branch;
-
-		if (onProgress) {
-			onProgress({
-				loaded: 0,
-				total: -1,
-				percentage: 0,
-				message: `Fetching commits from ${defaultBranch} branch...`,
-			});
-		}
-
-		// Fetch commit list from default branch (without file details)
+	async fetchCommitList(
+		branch: string,
+		maxCommits = 100,
+	): Promise<GitHubCommit[]> {
 		const commitList: GitHubCommit[] = [];
 		let page = 1;
 		const perPage = 100;
-		const maxCommits = 100; // Limit to avoid too many API calls
 
 		while (commitList.length < maxCommits) {
 			const batch = await this.fetchGitHub<GitHubCommit[]>(
-				`/repos/${this.owner}/${this.repo}/commits?sha=${defaultBranch}&per_page=${perPage}&page=${page}`,
+				`/repos/${this.owner}/${this.repo}/commits?sha=${branch}&per_page=${perPage}&page=${page}`,
 			);
 
 			if (batch.length === 0) break;
@@ -609,80 +214,16 @@ export class GitHubApiService {
 			await this.sleep(this.requestDelay);
 		}
 
-		if (commitList.length === 0) {
-			throw new Error("No commits found. Repository may be empty or private.");
-		}
-
-		// Now fetch file details for each commit and build timeline
-		const commits: CommitData[] = [];
-		const fileStateTracker = new FileStateTracker();
-
-		for (let i = 0; i < commitList.length; i++) {
-			const commitMeta = commitList[i];
-
-			if (onProgress) {
-				onProgress({
-					loaded: i + 1,
-					total: commitList.length,
-					percentage: Math.round(((i + 1) / commitList.length) * 100),
-					message: `Processing commit ${i + 1}/${commitList.length}`,
-				});
-			}
-
-			// Fetch full commit details with files
-			const commitDetails = await this.fetchGitHub<GitHubCommit>(
-				`/repos/${this.owner}/${this.repo}/commits/${commitMeta.sha}`,
-			);
-
-			// Update file state from commit files
-			if (commitDetails.files && commitDetails.files.length > 0) {
-				// Convert GitHubCommitFile to GitHubPRFile format
-				const prFiles: GitHubPRFile[] = commitDetails.files.map((file) => ({
-					filename: file.filename,
-					status: file.status,
-					additions: file.additions,
-					deletions: file.deletions,
-					changes: file.changes,
-					previous_filename: file.previous_filename,
-				}));
-
-				fileStateTracker.updateFromPRFiles(prFiles);
-			}
-
-			// Build commit snapshot from current file state
-			const commit = buildCommitFromFileState(
-				commitDetails.sha.substring(0, 7),
-				commitDetails.commit.message.split("\n")[0],
-				commitDetails.commit.author.name,
-				commitDetails.commit.author.date,
-				fileStateTracker,
-			);
-
-			commits.push(commit);
-
-			if (onCommit) {
-				onCommit(commit);
-			}
-
-			// Throttle between commits
-			if (i < commitList.length - 1) {
-				await this.sleep(this.requestDelay);
-			}
-		}
-
-		return { commits };
+		// GitHub lists newest first
+		return commitList.reverse();
 	}
 
 	/**
-	 * Build commit timeline from PRs (non-incremental version for backward compatibility)
+	 * Fetch full commit details including changed files
 	 */
-	async buildTimelineFromPRs(
-		onProgress?: (progress: LoadProgress) => void,
-	): Promise<CommitData[]> {
-		const result = await this.buildTimelineFromPRsIncremental(
-			undefined,
-			onProgress,
+	async fetchCommitDetails(sha: string): Promise<GitHubCommit> {
+		return this.fetchGitHub<GitHubCommit>(
+			`/repos/${this.owner}/${this.repo}/commits/${sha}`,
 		);
-		return result.commits;
 	}
 }
@@ -0,0 +1,172 @@
+import type { LoadProgress, RateLimitInfo } from "../types";
+import type { GitHubCommitFile, GitHubPR } from "../types/github";
+import type {
+	TimelineCommit,
+	TimelineCommitPage,
+	TimelineDataProvider,
+	TimelineFileChange,
+} from "../types/provider";
+import { GitHubApiService } from "./githubApiService";
+
+/**
+ * Timeline entry discovered up front; files are fetched page by page
+ */
+type HistoryEntry =
+	| { kind: "pr"; pr: GitHubPR }
+	| { kind: "commit"; sha: string };
+
+/**
+ * Data provider that talks to the GitHub REST API directly
+ * Builds the timeline from merged PRs, falling back to the default
+ * branch's commits when the repository has no merged PRs.
+ * With an explicit ref, the ref's commits are used instead of PRs.
+ */
+export class GitHubDataProvider implements TimelineDataProvider {
+	private githubApi: GitHubApiService;
+	private entries: HistoryEntry[] | null = null;
+	private ref?: string;
+
+	constructor(repoPath: string, token?: string, ref?: string) {
+		this.githubApi = new GitHubApiService(repoPath, token);
+		this.ref = ref;
+	}
+
+	getRateLimitInfo(): RateLimitInfo | null {
+		return this.githubApi.getRateLimitInfo();
+	}
+
+	/**
+	 * Discover the full list of timeline entries once per provider
+	 */
+	private async loadEntries(
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<HistoryEntry[]> {
+		if (this.entries) {
+			return this.entries;
+		}
+
+		// PRs only describe the default branch, so a ref always uses its commits
+		if (!this.ref) {
+			const prs = await this.githubApi.fetchMergedPRs((progress) => {
+				if (onProgress) {
+					onProgress({
+						...progress,
+						percentage: 10,
+					});
+				}
+			});
+
+			if (prs.length > 0) {
+				this.entries = prs.map((pr) => ({ kind: "pr", pr }));
+				return this.entries;
+			}
+		}
+
+		// Fall back to fetching commits directly if no PRs found
+		const defaultBranch =
+			this.ref || (await this.githubApi.fetchRepoInfo()).default_branch;
+
+		if (onProgress) {
+			onProgress({
+				loaded: 0,
+				total: -1,
+				percentage: 0,
+				message: `Fetching commits from ${defaultBranch} branch...`,
+			});
+		}
+
+		// Limit to avoid too many API calls
+		const commitList = await this.githubApi.fetchCommitList(defaultBranch, 100);
+
+		if (commitList.length === 0) {
+			throw new Error("No commits found. Repository may be empty or private.");
+		}
+
+		this.entries = commitList.map((commit) => ({
+			kind: "commit",
+			sha: commit.sha,
+		}));
+		return this.entries;
+	}
+
+	async fetchCommits(
+		offset: number,
+		limit: number,
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<TimelineCommitPage> {
+		const entries = await this.loadEntries(onProgress);
+		const page = entries.slice(offset, offset + limit);
+		const commits: TimelineCommit[] = [];
+
+		for (let i = 0; i < page.length; i++) {
+			const entry = page[i];
+
+			if (entry.kind === "pr") {
+				const { pr } = entry;
+
+				if (onProgress) {
+					onProgress({
+						loaded: i + 1,
+						total: page.length,
+						percentage: 10 + Math.round((i / page.length) * 90),
+						message: `Processing PR #${pr.number}: ${pr.title}`,
+					});
+				}
+
+				const prFiles =
+					pr.files || (await this.githubApi.fetchPRFiles(pr.number));
+
+				commits.push({
+					sha: pr.merge_commit_sha
+						? pr.merge_commit_sha.substring(0, 7)
+						: `pr-${pr.number}`,
+					message: pr.title,
+					author: pr.user.login,
+					date: pr.merged_at || new Date(Date.now()).toISOString(),
+					files: prFiles.map(toFileChange),
+				});
+			} else {
+				if (onProgress) {
+					onProgress({
+						loaded: i + 1,
+						total: page.length,
+						percentage: Math.round(((i + 1) / page.length) * 100),
+						message: `Processing commit ${i + 1}/${page.length}`,
+					});
+				}
+
+				const details = await this.githubApi.fetchCommitDetails(entry.sha);
+
+				commits.push({
+					sha: details.sha.substring(0, 7),
+					message: details.commit.message.split("\n")[0],
+					author: details.commit.author.name,
+					date: details.commit.author.date,
+					parents: details.parents?.map((parent) => parent.sha.substring(0, 7)),
+					files: (details.files || []).map(toFileChange),
+				});
+			}
+
+			// Throttle between requests
+			if (i < page.length - 1) {
+				await this.githubApi.throttle();
+			}
+		}
+
+		return {
+			commits,
+			hasMore: offset + page.length < entries.length,
+			totalCount: entries.length,
+		};
+	}
+}
+
+function toFileChange(file: GitHubCommitFile): TimelineFileChange {
+	return {
+		filename: file.filename,
+		status: file.status,
+		additions: file.additions,
+		deletions: file.deletions,
+		previous_filename: file.previous_filename,
+	};
+}
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { countDiffLines, GitLabDataProvider } from "./gitlabDataProvider";
+
+describe("gitlabDataProvider", () => {
+	describe("countDiffLines", () => {
+		it("should count added and removed lines, ignoring file headers", () => {
+			const diff = [
+				"--- a/src/index.ts",
+				"+++ b/src/index.ts",
+				"@@ -1,3 +1,4 @@",
+				" unchanged",
+				"-removed",
+				"+added",
+				"+added again",
+			].join("\n");
+
+			expect(countDiffLines(diff)).toEqual({ additions: 2, deletions: 1 });
+		});
+	});
+
+	describe("GitLabDataProvider", () => {
+		let fetchMock: ReturnType<typeof vi.fn>;
+
+		const jsonResponse = (data: unknown, nextPage?: number) => ({
+			ok: true,
+			headers: new Headers(nextPage ? { "X-Next-Page": String(nextPage) } : {}),
+			json: () => Promise.resolve(data),
+		});
+
+		beforeEach(() => {
+			fetchMock = vi.fn((url: string) => {
+				if (url.includes("/diff")) {
+					return Promise.resolve(
+						jsonResponse(
+							url.includes("/bbbbbbbbb/")
+								? [
+										{
+											old_path: "old.ts",
+											new_path: "new.ts",
+											new_file: false,
+											renamed_file: true,
+											deleted_file: false,
+											diff: "@@ -1 +1 @@\n-a\n+b\n",
+										},
+									]
+								: [
+										{
+											old_path: "old.ts",
+											new_path: "old.ts",
+											new_file: true,
+											renamed_file: false,
+											deleted_file: false,
+											diff: "@@ -0,0 +1,2 @@\n+a\n+b\n",
+										},
+									],
+						),
+					);
+				}
+				// Commit list comes back newest first
+				return Promise.resolve(
+					jsonResponse([
+						{
+							id: "bbbbbbbbb",
+							message: "Rename file\n\nDetails",
+							author_name: "Bob",
+							authored_date: "2024-01-02T00:00:00Z",
+						},
+						{
+							id: "aaaaaaaaa",
+							message: "Initial commit",
+							author_name: "Alice",
+							authored_date: "2024-01-01T00:00:00Z",
+						},
+					]),
+				);
+			});
+			vi.stubGlobal("fetch", fetchMock);
+		});
+
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		it("should address the project by its encoded path", async () => {
+			const provider = new GitLabDataProvider("group/subgroup", "project");
+
+			await provider.fetchMetadata();
+
+			expect(fetchMock.mock.calls[0][0]).toBe(
+				"https://gitlab.com/api/v4/projects/group%2Fsubgroup%2Fproject/repository/commits?per_page=100",
+			);
+		});
+
+		it("should talk to a self-hosted instance given its base URL", async () => {
+			const provider = new GitLabDataProvider(
+				"team",
+				"api",
+				undefined,
+				undefined,
+				"https://gitlab.example.com/",
+			);
+
+			await provider.fetchMetadata();
+
+			expect(fetchMock.mock.calls[0][0]).toBe(
+				"https://gitlab.example.com/api/v4/projects/team%2Fapi/repository/commits?per_page=100",
+			);
+		});
+
+		it("should return commits oldest first with normalised file changes", async () => {
+			const provider = new GitLabDataProvider("group", "project");
+
+			const page = await provider.fetchCommits(0, 40);
+
+			expect(page.hasMore).toBe(false);
+			expect(page.totalCount).toBe(2);
+			expect(page.commits).toEqual([
+				{
+					sha: "aaaaaaa",
+					message: "Initial commit",
+					author: "Alice",
+					date: "2024-01-01T00:00:00Z",
+					files: [
+						{
+							filename: "old.ts",
+							status: "added",
+							additions: 2,
+							deletions: 0,
+						},
+					],
+				},
+				{
+					sha: "bbbbbbb",
+					message: "Rename file",
+					author: "Bob",
+					date: "2024-01-02T00:00:00Z",
+					files: [
+						{
+							filename: "new.ts",
+							status: "renamed",
+							additions: 1,
+							deletions: 1,
+							previous_filename: "old.ts",
+						},
+					],
+				},
+			]);
+		});
+
+		it("should follow X-Next-Page for commits touching many files", async () => {
+			const file = (name: string) => ({
+				old_path: name,
+				new_path: name,
+				new_file: true,
+				renamed_file: false,
+				deleted_file: false,
+				diff: "@@ -0,0 +1 @@\n+a\n",
+			});
+			fetchMock.mockImplementation((url: string) => {
+				if (url.includes("/diff")) {
+					return Promise.resolve(
+						url.endsWith("page=1")
+							? jsonResponse([file("a.ts")], 2)
+							: jsonResponse([file("b.ts")]),
+					);
+				}
+				return Promise.resolve(
+					jsonResponse([
+						{
+							id: "aaaaaaaaa",
+							message: "Initial commit",
+							author_name: "Alice",
+							authored_date: "2024-01-01T00:00:00Z",
+						},
+					]),
+				);
+			});
+			const provider = new GitLabDataProvider("group", "project");
+
+			const page = await provider.fetchCommits(0, 40);
+
+			expect(page.commits[0].files.map((f) => f.filename)).toEqual([
+				"a.ts",
+				"b.ts",
+			]);
+			expect(fetchMock.mock.calls.map(([url]) => url)).toContain(
+				"https://gitlab.com/api/v4/projects/group%2Fproject/repository/commits/aaaaaaaaa/diff?per_page=100&page=2",
+			);
+		});
+
+		it("should send the token as a bearer header", async () => {
+			const provider = new GitLabDataProvider("group", "project", "glpat-123");
+
+			await provider.fetchMetadata();
+
+			expect(fetchMock.mock.calls[0][1]).toEqual({
+				headers: { Authorization: "Bearer glpat-123" },
+			});
+		});
+	});
+});
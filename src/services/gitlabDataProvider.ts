@@ -0,0 +1,241 @@
+import type { LoadProgress } from "../types";
+import type {
+	TimelineCommit,
+	TimelineCommitMetadata,
+	TimelineCommitPage,
+	TimelineDataProvider,
+	TimelineFileChange,
+} from "../types/provider";
+
+const GITLAB_URL = "https://gitlab.com";
+
+interface GitLabCommit {
+	id: string;
+	message: string;
+	author_name: string;
+	authored_date: string;
+	parent_ids?: string[];
+}
+
+interface GitLabDiff {
+	old_path: string;
+	new_path: string;
+	new_file: boolean;
+	renamed_file: boolean;
+	deleted_file: boolean;
+	diff: string;
+}
+
+/**
+ * Data provider that talks to the GitLab REST API directly
+ * gitlab.com by default, or a self-hosted instance given by its base URL
+ */
+export class GitLabDataProvider implements TimelineDataProvider {
+	private projectPath: string;
+	private token?: string;
+	private ref?: string;
+	private apiUrl: string;
+	private commitList: GitLabCommit[] | null = null;
+
+	constructor(
+		owner: string,
+		repo: string,
+		token?: string,
+		ref?: string,
+		baseUrl: string = GITLAB_URL,
+	) {
+		this.projectPath = `${owner}/${repo}`;
+		this.token = token;
+		this.ref = ref;
+		this.apiUrl = `${baseUrl.replace(/\/+$/, "")}/api/v4`;
+	}
+
+	private async fetchPage(path: string): Promise<Response> {
+		const url = `${this.apiUrl}/projects/${encodeURIComponent(this.projectPath)}${path}`;
+		const headers: HeadersInit = this.token
+			? { Authorization: `Bearer ${this.token}` }
+			: {};
+
+		const response = await fetch(url, { headers });
+
+		if (!response.ok) {
+			if (response.status === 404) {
+				throw new Error(`GitLab project ${this.projectPath} not found`);
+			}
+			if (response.status === 429) {
+				throw new Error("GitLab API rate limit exceeded");
+			}
+			throw new Error(`GitLab API error: ${response.status}`);
+		}
+
+		return response;
+	}
+
+	private async request<T>(path: string): Promise<T> {
+		const response = await this.fetchPage(path);
+		return response.json();
+	}
+
+	/**
+	 * Fetch every page of a list endpoint by following X-Next-Page
+	 */
+	private async requestAll<T>(path: string): Promise<T[]> {
+		const items: T[] = [];
+		const separator = path.includes("?") ? "&" : "?";
+		let page = 1;
+
+		while (true) {
+			const response = await this.fetchPage(`${path}${separator}page=${page}`);
+			items.push(...((await response.json()) as T[]));
+
+			const nextPage = Number.parseInt(
+				response.headers.get("X-Next-Page") || "",
+				10,
+			);
+			if (!nextPage) {
+				return items;
+			}
+			page = nextPage;
+		}
+	}
+
+	/**
+	 * Fetch the ref's (or default branch's) commit list once per provider (oldest first)
+	 */
+	private async loadCommitList(
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<GitLabCommit[]> {
+		if (!this.commitList) {
+			if (onProgress) {
+				onProgress({
+					loaded: 0,
+					total: -1,
+					percentage: 0,
+					message: "Fetching commits from GitLab...",
+				});
+			}
+
+			// Limit to avoid too many API calls
+			const refParam = this.ref
+				? `&ref_name=${encodeURIComponent(this.ref)}`
+				: "";
+			const commits = await this.request<GitLabCommit[]>(
+				`/repository/commits?per_page=100${refParam}`,
+			);
+
+			if (commits.length === 0) {
+				throw new Error(
+					"No commits found. Repository may be empty or private.",
+				);
+			}
+
+			this.commitList = commits.reverse();
+		}
+		return this.commitList;
+	}
+
+	async fetchCommits(
+		offset: number,
+		limit: number,
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<TimelineCommitPage> {
+		const commitList = await this.loadCommitList(onProgress);
+		const page = commitList.slice(offset, offset + limit);
+		const commits: TimelineCommit[] = [];
+
+		for (let i = 0; i < page.length; i++) {
+			const commit = page[i];
+
+			if (onProgress) {
+				onProgress({
+					loaded: i + 1,
+					total: page.length,
+					percentage: Math.round(((i + 1) / page.length) * 100),
+					message: `Processing commit ${i + 1}/${page.length}`,
+				});
+			}
+
+			// Commits touching more than 100 files span several pages
+			const diffs = await this.requestAll<GitLabDiff>(
+				`/repository/commits/${commit.id}/diff?per_page=100`,
+			);
+
+			commits.push({
+				sha: commit.id.substring(0, 7),
+				message: commit.message.split("\n")[0],
+				author: commit.author_name,
+				date: commit.authored_date,
+				parents: commit.parent_ids?.map((id) => id.substring(0, 7)),
+				files: diffs.map(diffToFileChange),
+			});
+		}
+
+		return {
+			commits,
+			hasMore: offset + page.length < commitList.length,
+			totalCount: commitList.length,
+		};
+	}
+
+	async fetchMetadata(): Promise<TimelineCommitMetadata[]> {
+		const commitList = await this.loadCommitList();
+		return commitList.map((commit) => ({
+			sha: commit.id.substring(0, 7),
+			message: commit.message.split("\n")[0],
+			author: commit.author_name,
+			date: commit.authored_date,
+		}));
+	}
+}
+
+/**
+ * Count added and removed lines in a unified diff hunk
+ */
+export function countDiffLines(diff: string): {
+	additions: number;
+	deletions: number;
+} {
+	let additions = 0;
+	let deletions = 0;
+
+	for (const line of diff.split("\n")) {
+		if (line.startsWith("+") && !line.startsWith("+++")) {
+			additions++;
+		} else if (line.startsWith("-") && !line.startsWith("---")) {
+			deletions++;
+		}
+	}
+
+	return { additions, deletions };
+}
+
+function diffToFileChange(diff: GitLabDiff): TimelineFileChange {
+	const { additions, deletions } = countDiffLines(diff.diff || "");
+
+	if (diff.new_file) {
+		return { filename: diff.new_path, status: "added", additions, deletions };
+	}
+	if (diff.deleted_file) {
+		return {
+			filename: diff.old_path,
+			status: "removed",
+			additions,
+			deletions,
+		};
+	}
+	if (diff.renamed_file) {
+		return {
+			filename: diff.new_path,
+			status: "renamed",
+			additions,
+			deletions,
+			previous_filename: diff.old_path,
+		};
+	}
+	return {
+		filename: diff.new_path,
+		status: "modified",
+		additions,
+		deletions,
+	};
+}
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RawCommitData } from "../types/local";
+import { LocalDataProvider, snapshotsToCommits } from "./localDataProvider";
+
+describe("localDataProvider", () => {
+	const snapshots: RawCommitData[] = [
+		{
+			hash: "abc1234",
+			message: "Initial commit",
+			author: "Alice",
+			date: "2024-01-01T10:00:00Z",
+			files: [
+				{ path: "README.md", size: 120 },
+				{ path: "src/index.ts", size: 300 },
+			],
+		},
+		{
+			hash: "def5678",
+			message: "Add utils",
+			author: "Bob",
+			date: "2024-01-02T10:00:00Z",
+			files: [
+				{ path: "README.md", size: 150 },
+				{ path: "src/index.ts", size: 300 },
+				{ path: "src/utils/math.ts", size: 80 },
+			],
+		},
+		{
+			hash: "0123abc",
+			message: "Trim readme, drop index",
+			author: "Alice",
+			date: "2024-01-03T10:00:00Z",
+			files: [
+				{ path: "README.md", size: 100 },
+				{ path: "src/utils/math.ts", size: 80 },
+			],
+		},
+	];
+
+	describe("snapshotsToCommits", () => {
+		it("should add every file in the first snapshot", () => {
+			const [first] = snapshotsToCommits(snapshots);
+
+			expect(first).toMatchObject({
+				sha: "abc1234",
+				message: "Initial commit",
+				author: "Alice",
+				date: "2024-01-01T10:00:00Z",
+			});
+			expect(first.files).toEqual([
+				{
+					filename: "README.md",
+					status: "added",
+					additions: 120,
+					deletions: 0,
+				},
+				{
+					filename: "src/index.ts",
+					status: "added",
+					additions: 300,
+					deletions: 0,
+				},
+			]);
+		});
+
+		it("should only report files that changed between snapshots", () => {
+			const [, second, third] = snapshotsToCommits(snapshots);
+
+			expect(second.files).toEqual([
+				{
+					filename: "README.md",
+					status: "modified",
+					additions: 30,
+					deletions: 0,
+				},
+				{
+					filename: "src/utils/math.ts",
+					status: "added",
+					additions: 80,
+					deletions: 0,
+				},
+			]);
+			expect(third.files).toEqual([
+				{
+					filename: "README.md",
+					status: "modified",
+					additions: 0,
+					deletions: 50,
+				},
+				{
+					filename: "src/index.ts",
+					status: "removed",
+					additions: 0,
+					deletions: 0,
+				},
+			]);
+		});
+
+		it("should report renames detected by git", () => {
+			const [, renamed] = snapshotsToCommits([
+				snapshots[0],
+				{
+					...snapshots[1],
+					files: [
+						{ path: "README.md", size: 120 },
+						{ path: "src/main.ts", size: 320 },
+					],
+					renames: [{ path: "src/main.ts", previousPath: "src/index.ts" }],
+				},
+			]);
+
+			expect(renamed.files).toEqual([
+				{
+					filename: "src/main.ts",
+					status: "renamed",
+					additions: 20,
+					deletions: 0,
+					previous_filename: "src/index.ts",
+				},
+			]);
+		});
+
+		it("should default missing sizes to 100", () => {
+			const [commit] = snapshotsToCommits([
+				{ ...snapshots[0], files: [{ path: "a.txt" }] },
+			]);
+
+			expect(commit.files[0].additions).toBe(100);
+		});
+	});
+
+	describe("LocalDataProvider", () => {
+		let fetchMock: ReturnType<typeof vi.fn>;
+
+		beforeEach(() => {
+			fetchMock = vi.fn().mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve(snapshots),
+			});
+			vi.stubGlobal("fetch", fetchMock);
+		});
+
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		it("should page through the history", async () => {
+			const provider = new LocalDataProvider("repo", "http://localhost:4174");
+
+			const firstPage = await provider.fetchCommits(0, 2);
+			expect(firstPage.commits.map((c) => c.sha)).toEqual([
+				"abc1234",
+				"def5678",
+			]);
+			expect(firstPage.hasMore).toBe(true);
+			expect(firstPage.totalCount).toBe(3);
+
+			const secondPage = await provider.fetchCommits(2, 2);
+			expect(secondPage.commits.map((c) => c.sha)).toEqual(["0123abc"]);
+			expect(secondPage.hasMore).toBe(false);
+		});
+
+		it("should only fetch from the server once", async () => {
+			const provider = new LocalDataProvider("repo", "http://localhost:4174");
+
+			await provider.fetchCommits(0, 1);
+			await provider.fetchCommits(1, 1);
+			await provider.fetchMetadata();
+
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it("should expose commit metadata without files", async () => {
+			const provider = new LocalDataProvider("repo", "http://localhost:4174");
+
+			const metadata = await provider.fetchMetadata();
+
+			expect(metadata[1]).toEqual({
+				sha: "def5678",
+				message: "Add utils",
+				author: "Bob",
+				date: "2024-01-02T10:00:00Z",
+			});
+		});
+	});
+});
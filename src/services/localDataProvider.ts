@@ -0,0 +1,150 @@
+import type { LoadProgress } from "../types";
+import type { RawCommitData } from "../types/local";
+import type {
+	TimelineCommit,
+	TimelineCommitMetadata,
+	TimelineCommitPage,
+	TimelineDataProvider,
+	TimelineFileChange,
+} from "../types/provider";
+import { LocalGitService } from "./localGitService";
+
+/**
+ * Data provider backed by the local git server
+ * The server returns full snapshots, which are diffed into file changes
+ */
+export class LocalDataProvider implements TimelineDataProvider {
+	private localService: LocalGitService;
+	private commits: TimelineCommit[] | null = null;
+
+	constructor(repoPath: string, serverUrl = "", ref?: string) {
+		this.localService = new LocalGitService(repoPath, serverUrl, ref);
+	}
+
+	/**
+	 * Load and convert the whole history once per provider
+	 */
+	private async loadCommits(
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<TimelineCommit[]> {
+		if (!this.commits) {
+			if (onProgress) {
+				onProgress({
+					loaded: 0,
+					total: -1,
+					percentage: 0,
+					message: "Reading local git history...",
+				});
+			}
+			this.commits = snapshotsToCommits(await this.localService.fetchCommits());
+		}
+		return this.commits;
+	}
+
+	async fetchCommits(
+		offset: number,
+		limit: number,
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<TimelineCommitPage> {
+		const commits = await this.loadCommits(onProgress);
+		const page = commits.slice(offset, offset + limit);
+
+		return {
+			commits: page,
+			hasMore: offset + page.length < commits.length,
+			totalCount: commits.length,
+		};
+	}
+
+	async fetchMetadata(): Promise<TimelineCommitMetadata[]> {
+		const commits = await this.loadCommits();
+		return commits.map(({ sha, message, author, date }) => ({
+			sha,
+			message,
+			author,
+			date,
+		}));
+	}
+}
+
+/**
+ * Convert consecutive file snapshots into per-commit file changes
+ * Size deltas are expressed as additions/deletions so FileStateTracker
+ * reproduces the snapshot sizes exactly
+ */
+export function snapshotsToCommits(
+	snapshots: RawCommitData[],
+): TimelineCommit[] {
+	let previous = new Map<string, number>();
+
+	return snapshots.map((snapshot) => {
+		const current = new Map(
+			snapshot.files.map((f) => [f.path, f.size || 100] as const),
+		);
+		const files: TimelineFileChange[] = [];
+
+		// Only renames that match both snapshots are kept (new path -> old path)
+		const renamedFrom = new Map(
+			(snapshot.renames ?? [])
+				.filter(
+					(rename) =>
+						previous.has(rename.previousPath) &&
+						!current.has(rename.previousPath) &&
+						!previous.has(rename.path) &&
+						current.has(rename.path),
+				)
+				.map((rename) => [rename.path, rename.previousPath] as const),
+		);
+		const renamedPaths = new Set(renamedFrom.values());
+
+		for (const [path, size] of current) {
+			const previousPath = renamedFrom.get(path);
+			const previousSize = previous.get(previousPath ?? path);
+			if (previousPath !== undefined && previousSize !== undefined) {
+				files.push({
+					filename: path,
+					status: "renamed",
+					additions: Math.max(size - previousSize, 0),
+					deletions: Math.max(previousSize - size, 0),
+					previous_filename: previousPath,
+				});
+			} else if (previousSize === undefined) {
+				files.push({
+					filename: path,
+					status: "added",
+					additions: size,
+					deletions: 0,
+				});
+			} else if (previousSize !== size) {
+				files.push({
+					filename: path,
+					status: "modified",
+					additions: Math.max(size - previousSize, 0),
+					deletions: Math.max(previousSize - size, 0),
+				});
+			}
+		}
+
+		for (const path of previous.keys()) {
+			if (!current.has(path) && !renamedPaths.has(path)) {
+				files.push({
+					filename: path,
+					status: "removed",
+					additions: 0,
+					deletions: 0,
+				});
+			}
+		}
+
+		previous = current;
+
+		return {
+			sha: snapshot.hash,
+			message: snapshot.message,
+			author: snapshot.author,
+			date: snapshot.date,
+			parents: snapshot.parents,
+			files,
+		};
+	});
+}
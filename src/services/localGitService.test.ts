@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RawCommitData } from "../types/local";
+import { LocalGitService } from "./localGitService";
+
+describe("LocalGitService", () => {
+	const rawCommits: RawCommitData[] = [
+		{
+			hash: "abc1234",
+			message: "Initial commit",
+			author: "Alice",
+			date: "2024-01-01T10:00:00Z",
+			files: [
+				{ path: "README.md", size: 120 },
+				{ path: "src/index.ts", size: 300 },
+			],
+		},
+		{
+			hash: "def5678",
+			message: "Add utils",
+			author: "Bob",
+			date: "2024-01-02T10:00:00Z",
+			files: [
+				{ path: "README.md", size: 150 },
+				{ path: "src/index.ts", size: 300 },
+				{ path: "src/utils/math.ts", size: 80 },
+			],
+		},
+	];
+
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		vi.stubGlobal("fetch", fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe("fetchCommits", () => {
+		it("should request commits for the repo path from the server", async () => {
+			fetchMock.mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve(rawCommits),
+			});
+
+			const service = new LocalGitService(
+				"projects/monorepo",
+				"http://localhost:4174/",
+			);
+			const data = await service.fetchCommits();
+
+			expect(fetchMock).toHaveBeenCalledWith(
+				"http://localhost:4174/api/commits?path=projects%2Fmonorepo",
+			);
+			expect(data).toEqual(rawCommits);
+		});
+
+		it("should use same origin when no server URL is given", async () => {
+			fetchMock.mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve([]),
+			});
+
+			await new LocalGitService("repo").fetchCommits();
+
+			expect(fetchMock).toHaveBeenCalledWith("/api/commits?path=repo");
+		});
+
+		it("should pass the ref to the server", async () => {
+			fetchMock.mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve([]),
+			});
+
+			await new LocalGitService("repo", "", "release/2.x").fetchCommits();
+
+			expect(fetchMock).toHaveBeenCalledWith(
+				"/api/commits?path=repo&ref=release%2F2.x",
+			);
+		});
+
+		it("should surface server error messages", async () => {
+			fetchMock.mockResolvedValue({
+				ok: false,
+				status: 500,
+				json: () => Promise.resolve({ error: "not a git repository" }),
+			});
+
+			const service = new LocalGitService("repo", "http://localhost:4174");
+
+			await expect(service.fetchCommits()).rejects.toThrow(
+				"not a git repository",
+			);
+		});
+
+		it("should explain how to start the server when unreachable", async () => {
+			fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+
+			const service = new LocalGitService("repo", "http://localhost:4174");
+
+			await expect(service.fetchCommits()).rejects.toThrow(
+				/Could not reach local git server at http:\/\/localhost:4174/,
+			);
+		});
+	});
+});
@@ -0,0 +1,51 @@
+import type { RawCommitData } from "../types/local";
+
+/**
+ * Service for reading commit history from a local git server
+ * (see scripts/local-git-server.mjs) so repositories can be visualized
+ * without going through GitHub
+ */
+export class LocalGitService {
+	private repoPath: string;
+	private serverUrl: string;
+	private ref?: string;
+
+	/**
+	 * @param repoPath - Repository directory, relative to the server's root
+	 * @param serverUrl - Base URL of the local git server ("" for same origin)
+	 * @param ref - Branch, tag or SHA to follow (HEAD when omitted)
+	 */
+	constructor(repoPath: string, serverUrl = "", ref?: string) {
+		this.repoPath = repoPath;
+		this.serverUrl = serverUrl.replace(/\/$/, "");
+		this.ref = ref;
+	}
+
+	/**
+	 * Fetch raw commit snapshots from the local git server
+	 */
+	async fetchCommits(): Promise<RawCommitData[]> {
+		const refParam = this.ref ? `&ref=${encodeURIComponent(this.ref)}` : "";
+		const url = `${this.serverUrl}/api/commits?path=${encodeURIComponent(this.repoPath)}${refParam}`;
+
+		let response: Response;
+		try {
+			response = await fetch(url);
+		} catch (_error) {
+			throw new Error(
+				`Could not reach local git server at ${this.serverUrl || window.location.origin}. Start it with "pnpm serve:local <repo-dir>".`,
+			);
+		}
+
+		if (!response.ok) {
+			const error = await response
+				.json()
+				.catch(() => ({ error: "Unknown error" }));
+			throw new Error(
+				error.error || `Local git server request failed: ${response.status}`,
+			);
+		}
+
+		return response.json();
+	}
+}
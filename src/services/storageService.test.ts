@@ -1,6 +1,14 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { CommitData } from "../types";
-import { StorageService } from "./storageService";
+import {
+	CommitStateStore,
+	type SerializedCommitStore,
+} from "../utils/commitStateStore";
+import {
+	MAX_LAYOUT_NODES,
+	type SavedLayout,
+	StorageService,
+} from "./storageService";
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -53,6 +61,26 @@ const localStorageMock = (() => {
 	});
 })();
 
+/**
+ * Serialize commits the way GitService caches them
+ */
+function serializeCommits(commits: CommitData[]): SerializedCommitStore {
+	const store = new CommitStateStore();
+	store.append(commits);
+	return store.serialize();
+}
+
+/**
+ * Load a cached repo back into a commit store
+ */
+function loadStore(repoKey: string): CommitStateStore | null {
+	const cached = StorageService.loadCommits(repoKey);
+	if (!cached) return null;
+	const store = new CommitStateStore();
+	store.restore(cached);
+	return store;
+}
+
 // Override global localStorage
 Object.defineProperty(globalThis, "localStorage", {
 	value: localStorageMock,
@@ -106,6 +134,7 @@ describe("StorageService", () => {
 			],
 		},
 	];
+	const mockStore = serializeCommits(mockCommits);
 
 	beforeEach(() => {
 		localStorage.clear();
@@ -120,7 +149,7 @@ describe("StorageService", () => {
 
 	describe("saveCommits", () => {
 		it("should save commits to localStorage", () => {
-			const result = StorageService.saveCommits("facebook/react", mockCommits);
+			const result = StorageService.saveCommits("facebook/react", mockStore);
 
 			expect(result).toBe(true);
 
@@ -129,42 +158,54 @@ describe("StorageService", () => {
 		});
 
 		it("should serialize data correctly", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			const stored = localStorage.getItem("repo-timeline:test/repo");
 			expect(stored).toBeTruthy();
 
 			const parsed = JSON.parse(stored!);
 			expect(parsed.repoKey).toBe("test/repo");
-			expect(parsed.commits).toHaveLength(2);
-			expect(parsed.version).toBe(1);
+			expect(parsed.store.summaries).toHaveLength(2);
+			expect(parsed.version).toBe(2);
 			expect(parsed.lastUpdated).toBeGreaterThan(0);
 		});
 
+		it("should store later commits as deltas", () => {
+			StorageService.saveCommits("test/repo", mockStore);
+
+			const parsed = JSON.parse(
+				localStorage.getItem("repo-timeline:test/repo")!,
+			);
+
+			expect(parsed.store.stored[0].checkpoint.files).toHaveLength(1);
+			expect(parsed.store.stored[1].checkpoint).toBeUndefined();
+			expect(parsed.store.stored[1].delta.removed).toEqual(["src/index.ts"]);
+		});
+
 		it("should convert Date objects to ISO strings", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			const stored = localStorage.getItem("repo-timeline:test/repo");
 			const parsed = JSON.parse(stored!);
 
 			// Dates should be stored as strings
-			expect(typeof parsed.commits[0].date).toBe("string");
-			expect(parsed.commits[0].date).toBe("2024-01-01T10:00:00.000Z");
-			expect(parsed.commits[1].date).toBe("2024-01-02T15:30:00.000Z");
+			expect(typeof parsed.store.summaries[0].date).toBe("string");
+			expect(parsed.store.summaries[0].date).toBe("2024-01-01T10:00:00.000Z");
+			expect(parsed.store.summaries[1].date).toBe("2024-01-02T15:30:00.000Z");
 		});
 
 		it("should include version number", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			const stored = localStorage.getItem("repo-timeline:test/repo");
 			const parsed = JSON.parse(stored!);
 
-			expect(parsed.version).toBe(1);
+			expect(parsed.version).toBe(2);
 		});
 
 		it("should include timestamp", () => {
 			const beforeSave = Date.now();
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 			const afterSave = Date.now();
 
 			const stored = localStorage.getItem("repo-timeline:test/repo");
@@ -175,13 +216,16 @@ describe("StorageService", () => {
 		});
 
 		it("should handle empty commits array", () => {
-			const result = StorageService.saveCommits("test/repo", []);
+			const result = StorageService.saveCommits(
+				"test/repo",
+				serializeCommits([]),
+			);
 
 			expect(result).toBe(true);
 
 			const stored = localStorage.getItem("repo-timeline:test/repo");
 			const parsed = JSON.parse(stored!);
-			expect(parsed.commits).toHaveLength(0);
+			expect(parsed.store.summaries).toHaveLength(0);
 		});
 
 		it("should return false on localStorage error", () => {
@@ -191,7 +235,7 @@ describe("StorageService", () => {
 				throw new Error("Storage error");
 			};
 
-			const result = StorageService.saveCommits("test/repo", mockCommits);
+			const result = StorageService.saveCommits("test/repo", mockStore);
 
 			expect(result).toBe(false);
 
@@ -208,7 +252,7 @@ describe("StorageService", () => {
 				throw error;
 			};
 
-			const result = StorageService.saveCommits("test/repo", mockCommits);
+			const result = StorageService.saveCommits("test/repo", mockStore);
 
 			expect(result).toBe(false);
 
@@ -217,7 +261,7 @@ describe("StorageService", () => {
 		});
 
 		it("should overwrite existing data for same repo", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			const newCommits: CommitData[] = [
 				{
@@ -226,24 +270,24 @@ describe("StorageService", () => {
 				},
 			];
 
-			StorageService.saveCommits("test/repo", newCommits);
+			StorageService.saveCommits("test/repo", serializeCommits(newCommits));
 
 			const loaded = StorageService.loadCommits("test/repo");
-			expect(loaded).toHaveLength(1);
-			expect(loaded?.[0].message).toBe("Updated commit");
+			expect(loaded?.summaries).toHaveLength(1);
+			expect(loaded?.summaries[0].message).toBe("Updated commit");
 		});
 	});
 
 	describe("loadCommits", () => {
 		it("should load saved commits", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			const loaded = StorageService.loadCommits("test/repo");
 
 			expect(loaded).toBeTruthy();
-			expect(loaded).toHaveLength(2);
-			expect(loaded?.[0].hash).toBe("abc123");
-			expect(loaded?.[1].hash).toBe("def456");
+			expect(loaded?.summaries).toHaveLength(2);
+			expect(loaded?.summaries[0].hash).toBe("abc123");
+			expect(loaded?.summaries[1].hash).toBe("def456");
 		});
 
 		it("should return null for non-existent cache", () => {
@@ -252,20 +296,24 @@ describe("StorageService", () => {
 			expect(loaded).toBeNull();
 		});
 
-		it("should convert ISO strings back to Date objects", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+		it("should restore Date objects through the commit store", () => {
+			StorageService.saveCommits("test/repo", mockStore);
 
-			const loaded = StorageService.loadCommits("test/repo");
+			const store = loadStore("test/repo");
 
-			expect(loaded).toBeTruthy();
-			expect(loaded?.[0].date).toBeInstanceOf(Date);
-			expect(loaded?.[0].date.toISOString()).toBe("2024-01-01T10:00:00.000Z");
-			expect(loaded?.[1].date).toBeInstanceOf(Date);
-			expect(loaded?.[1].date.toISOString()).toBe("2024-01-02T15:30:00.000Z");
+			expect(store).toBeTruthy();
+			expect(store?.getCommit(0).date).toBeInstanceOf(Date);
+			expect(store?.getCommit(0).date.toISOString()).toBe(
+				"2024-01-01T10:00:00.000Z",
+			);
+			expect(store?.getCommit(1).date).toBeInstanceOf(Date);
+			expect(store?.getCommit(1).date.toISOString()).toBe(
+				"2024-01-02T15:30:00.000Z",
+			);
 		});
 
 		it("should return null and clear cache for version mismatch", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			// Manually modify the version
 			const stored = localStorage.getItem("repo-timeline:test/repo");
@@ -283,7 +331,7 @@ describe("StorageService", () => {
 		});
 
 		it("should return null and clear cache for expired data", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			// Manually set lastUpdated to 25 hours ago
 			const stored = localStorage.getItem("repo-timeline:test/repo");
@@ -301,7 +349,7 @@ describe("StorageService", () => {
 		});
 
 		it("should load cache that is not expired", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			// Manually set lastUpdated to 1 hour ago
 			const stored = localStorage.getItem("repo-timeline:test/repo");
@@ -312,7 +360,7 @@ describe("StorageService", () => {
 			const loaded = StorageService.loadCommits("test/repo");
 
 			expect(loaded).toBeTruthy();
-			expect(loaded).toHaveLength(2);
+			expect(loaded?.summaries).toHaveLength(2);
 		});
 
 		it("should return null on parse error", () => {
@@ -338,9 +386,93 @@ describe("StorageService", () => {
 		});
 	});
 
+	describe("layouts", () => {
+		it("should save and load node positions rounded to 0.1", () => {
+			expect(
+				StorageService.saveLayout(
+					"owner/repo",
+					new Map([["src/index.ts", [1.234, -5.678, 10]]]),
+				),
+			).toBe(true);
+
+			expect(StorageService.loadLayout("owner/repo")).toEqual(
+				new Map([["src/index.ts", [1.2, -5.7, 10]]]),
+			);
+		});
+
+		it("should return null when no layout is saved", () => {
+			expect(StorageService.loadLayout("owner/none")).toBeNull();
+		});
+
+		it("should drop layouts from another version", () => {
+			localStorage.setItem(
+				"repo-timeline-layout:owner/repo",
+				JSON.stringify({ repoKey: "owner/repo", positions: {}, version: 1 }),
+			);
+
+			expect(StorageService.loadLayout("owner/repo")).toBeNull();
+			expect(
+				localStorage.getItem("repo-timeline-layout:owner/repo"),
+			).toBeNull();
+		});
+
+		it("should keep the layout when the commit cache is cleared", () => {
+			StorageService.saveCommits("owner/repo", mockStore);
+			StorageService.saveLayout("owner/repo", new Map([["a", [1, 2, 3]]]));
+
+			StorageService.clearCache("owner/repo");
+			expect(StorageService.loadLayout("owner/repo")).toEqual(
+				new Map([["a", [1, 2, 3]]]),
+			);
+
+			StorageService.clearLayout("owner/repo");
+			expect(StorageService.loadLayout("owner/repo")).toBeNull();
+		});
+
+		it("should remove layouts when all caches are cleared", () => {
+			StorageService.saveLayout("owner/repo", new Map([["a", [1, 2, 3]]]));
+
+			StorageService.clearAllCaches();
+
+			expect(StorageService.loadLayout("owner/repo")).toBeNull();
+		});
+
+		it("should keep only the most recently inserted positions", () => {
+			const positions: SavedLayout = new Map();
+			for (let i = 0; i < MAX_LAYOUT_NODES + 10; i++) {
+				positions.set(`file${i}.ts`, [i, 0, 0]);
+			}
+
+			StorageService.saveLayout("owner/repo", positions);
+			const saved = StorageService.loadLayout("owner/repo") ?? new Map();
+
+			expect(saved.size).toBe(MAX_LAYOUT_NODES);
+			expect(saved.get("file9.ts")).toBeUndefined();
+			expect(saved.get("file10.ts")).toEqual([10, 0, 0]);
+		});
+
+		it("should keep insertion order for integer-like node ids", () => {
+			const positions: SavedLayout = new Map();
+			for (let i = 0; i < MAX_LAYOUT_NODES; i++) {
+				positions.set(`file${i}.ts`, [i, 0, 0]);
+			}
+			// Placed last, but an object would enumerate these keys first
+			positions.set("2024", [1, 1, 1]);
+			positions.set("7", [2, 2, 2]);
+
+			StorageService.saveLayout("owner/repo", positions);
+			const saved = StorageService.loadLayout("owner/repo") ?? new Map();
+
+			expect(saved.get("2024")).toEqual([1, 1, 1]);
+			expect(saved.get("7")).toEqual([2, 2, 2]);
+			expect(saved.has("file0.ts")).toBe(false);
+			expect([...saved.keys()].slice(-2)).toEqual(["2024", "7"]);
+		});
+	});
+
 	describe("clearCache", () => {
 		it("should clear cache for specific repo", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			StorageService.clearCache("test/repo");
 
@@ -349,8 +481,8 @@ describe("StorageService", () => {
 		});
 
 		it("should not affect other repos", () => {
-			StorageService.saveCommits("repo1", mockCommits);
-			StorageService.saveCommits("repo2", mockCommits);
+			StorageService.saveCommits("repo1", mockStore);
+			StorageService.saveCommits("repo2", mockStore);
 
 			StorageService.clearCache("repo1");
 
@@ -384,9 +516,9 @@ describe("StorageService", () => {
 
 	describe("clearAllCaches", () => {
 		it("should clear all repo timeline caches", () => {
-			StorageService.saveCommits("repo1", mockCommits);
-			StorageService.saveCommits("repo2", mockCommits);
-			StorageService.saveCommits("repo3", mockCommits);
+			StorageService.saveCommits("repo1", mockStore);
+			StorageService.saveCommits("repo2", mockStore);
+			StorageService.saveCommits("repo3", mockStore);
 
 			StorageService.clearAllCaches();
 
@@ -397,7 +529,7 @@ describe("StorageService", () => {
 
 		it("should not clear non-repo-timeline items", () => {
 			localStorage.setItem("other-app-data", "should not be deleted");
-			StorageService.saveCommits("repo1", mockCommits);
+			StorageService.saveCommits("repo1", mockStore);
 
 			StorageService.clearAllCaches();
 
@@ -414,7 +546,7 @@ describe("StorageService", () => {
 		});
 
 		it("should handle errors gracefully", () => {
-			StorageService.saveCommits("repo1", mockCommits);
+			StorageService.saveCommits("repo1", mockStore);
 
 			const originalRemoveItem = localStorage.removeItem.bind(localStorage);
 			localStorageMock.removeItem = () => {
@@ -440,7 +572,7 @@ describe("StorageService", () => {
 		});
 
 		it("should return cache metadata for existing cache", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			const info = StorageService.getCacheInfo("test/repo");
 
@@ -452,7 +584,7 @@ describe("StorageService", () => {
 		});
 
 		it("should calculate age correctly", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			// Manually set lastUpdated to 2 hours ago
 			const stored = localStorage.getItem("repo-timeline:test/repo");
@@ -467,6 +599,20 @@ describe("StorageService", () => {
 			expect(info.age).toBeLessThanOrEqual(2 * 60 * 60 * 1000 + 100);
 		});
 
+		it("should not report a cache from another version", () => {
+			localStorage.setItem(
+				"repo-timeline:test/repo",
+				JSON.stringify({
+					repoKey: "test/repo",
+					commits: [],
+					lastUpdated: Date.now(),
+					version: 1,
+				}),
+			);
+
+			expect(StorageService.getCacheInfo("test/repo").exists).toBe(false);
+		});
+
 		it("should handle parse error gracefully", () => {
 			localStorage.setItem("repo-timeline:test/repo", "invalid json");
 
@@ -485,8 +631,8 @@ describe("StorageService", () => {
 		});
 
 		it("should count cached repos", () => {
-			StorageService.saveCommits("repo1", mockCommits);
-			StorageService.saveCommits("repo2", mockCommits);
+			StorageService.saveCommits("repo1", mockStore);
+			StorageService.saveCommits("repo2", mockStore);
 
 			const stats = StorageService.getStorageStats();
 
@@ -494,7 +640,7 @@ describe("StorageService", () => {
 		});
 
 		it("should estimate storage size", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			const stats = StorageService.getStorageStats();
 
@@ -505,7 +651,7 @@ describe("StorageService", () => {
 
 		it("should not count non-repo-timeline items", () => {
 			localStorage.setItem("other-app-data", "some data");
-			StorageService.saveCommits("repo1", mockCommits);
+			StorageService.saveCommits("repo1", mockStore);
 
 			const stats = StorageService.getStorageStats();
 
@@ -526,8 +672,8 @@ describe("StorageService", () => {
 
 	describe("storage key generation", () => {
 		it("should generate correct storage keys", () => {
-			StorageService.saveCommits("facebook/react", mockCommits);
-			StorageService.saveCommits("microsoft/vscode", mockCommits);
+			StorageService.saveCommits("facebook/react", mockStore);
+			StorageService.saveCommits("microsoft/vscode", mockStore);
 
 			const reactKey = localStorage.getItem("repo-timeline:facebook/react");
 			const vscodeKey = localStorage.getItem("repo-timeline:microsoft/vscode");
@@ -537,8 +683,8 @@ describe("StorageService", () => {
 		});
 
 		it("should handle special characters in repo names", () => {
-			StorageService.saveCommits("repo/with-dash", mockCommits);
-			StorageService.saveCommits("repo/with_underscore", mockCommits);
+			StorageService.saveCommits("repo/with-dash", mockStore);
+			StorageService.saveCommits("repo/with_underscore", mockStore);
 
 			const loaded1 = StorageService.loadCommits("repo/with-dash");
 			const loaded2 = StorageService.loadCommits("repo/with_underscore");
@@ -550,11 +696,11 @@ describe("StorageService", () => {
 
 	describe("data integrity", () => {
 		it("should preserve file node properties", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
-			const loaded = StorageService.loadCommits("test/repo");
+			const store = loadStore("test/repo");
 
-			expect(loaded?.[0].files[0]).toMatchObject({
+			expect(store?.getStateAt(0).files[0]).toMatchObject({
 				id: "src/index.ts",
 				path: "src/index.ts",
 				name: "index.ts",
@@ -564,11 +710,11 @@ describe("StorageService", () => {
 		});
 
 		it("should preserve edge properties", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
-			const loaded = StorageService.loadCommits("test/repo");
+			const store = loadStore("test/repo");
 
-			expect(loaded?.[0].edges[0]).toMatchObject({
+			expect(store?.getStateAt(0).edges[0]).toMatchObject({
 				source: "src",
 				target: "src/index.ts",
 				type: "parent",
@@ -576,11 +722,11 @@ describe("StorageService", () => {
 		});
 
 		it("should preserve commit metadata", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
-			const loaded = StorageService.loadCommits("test/repo");
+			const store = loadStore("test/repo");
 
-			expect(loaded?.[0]).toMatchObject({
+			expect(store?.getCommit(0)).toMatchObject({
 				hash: "abc123",
 				message: "Initial commit",
 				author: "Test Author",
@@ -603,18 +749,18 @@ describe("StorageService", () => {
 				edges: [],
 			};
 
-			StorageService.saveCommits("test/repo", [manyFiles]);
+			StorageService.saveCommits("test/repo", serializeCommits([manyFiles]));
 
-			const loaded = StorageService.loadCommits("test/repo");
+			const store = loadStore("test/repo");
 
-			expect(loaded).toBeTruthy();
-			expect(loaded?.[0].files).toHaveLength(100);
+			expect(store).toBeTruthy();
+			expect(store?.getStateAt(0).files).toHaveLength(100);
 		});
 	});
 
 	describe("cache expiry", () => {
 		it("should accept cache within 24 hours", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			// Set to 23 hours ago (within expiry)
 			const stored = localStorage.getItem("repo-timeline:test/repo");
@@ -628,7 +774,7 @@ describe("StorageService", () => {
 		});
 
 		it("should reject cache older than 24 hours", () => {
-			StorageService.saveCommits("test/repo", mockCommits);
+			StorageService.saveCommits("test/repo", mockStore);
 
 			// Set to 25 hours ago (expired)
 			const stored = localStorage.getItem("repo-timeline:test/repo");
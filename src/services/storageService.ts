@@ -1,42 +1,54 @@
-import { CommitData } from "../types";
+import type { SerializedCommitStore } from "../utils/commitStateStore";
 
 interface CachedRepoData {
 	repoKey: string;
-	commits: CommitData[];
+	store: SerializedCommitStore; // Checkpoints and deltas, not a tree per commit
 	lastUpdated: number;
 	version: number; // For cache invalidation when data structure changes
 }
 
-const CACHE_VERSION = 1;
+/**
+ * Node positions by node id, as [x, y, z], from least to most recently placed
+ * (a Map keeps that order for every id, integer-like ones included)
+ */
+export type SavedLayout = Map<string, [number, number, number]>;
+
+interface StoredLayout {
+	repoKey: string;
+	positions: Array<[string, number, number, number]>; // Oldest first
+	lastUpdated: number;
+	version: number;
+}
+
+const CACHE_VERSION = 2;
 const CACHE_PREFIX = "repo-timeline:";
 const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
 
+// Layouts are kept apart from the commit caches so clearing one repo's cache
+// keeps its layout; clearing all caches removes layouts too
+const LAYOUT_VERSION = 2;
+const LAYOUT_PREFIX = "repo-timeline-layout:";
+// Most node positions kept per repo, so layouts can't crowd out commit caches
+export const MAX_LAYOUT_NODES = 5000;
+
 export class StorageService {
 	private static getStorageKey(repoKey: string): string {
 		return `${CACHE_PREFIX}${repoKey}`;
 	}
 
 	/**
-	 * Save commit data to localStorage
+	 * Save commits to localStorage, as the commit store keeps them
 	 */
-	static saveCommits(repoKey: string, commits: CommitData[]): boolean {
+	static saveCommits(repoKey: string, store: SerializedCommitStore): boolean {
 		try {
 			const data: CachedRepoData = {
 				repoKey,
-				commits,
+				store,
 				lastUpdated: Date.now(),
 				version: CACHE_VERSION,
 			};
 
-			const serialized = JSON.stringify(data, (_key, value) => {
-				// Convert Date objects to ISO strings for serialization
-				if (value instanceof Date) {
-					return value.toISOString();
-				}
-				return value;
-			});
-
-			localStorage.setItem(this.getStorageKey(repoKey), serialized);
+			localStorage.setItem(this.getStorageKey(repoKey), JSON.stringify(data));
 			return true;
 		} catch (error) {
 			console.error("Failed to save to localStorage:", error);
@@ -49,25 +61,16 @@ export class StorageService {
 	}
 
 	/**
-	 * Load commit data from localStorage
+	 * Load cached commits from localStorage, to restore into a commit store
 	 */
-	static loadCommits(repoKey: string): CommitData[] | null {
+	static loadCommits(repoKey: string): SerializedCommitStore | null {
 		try {
 			const stored = localStorage.getItem(this.getStorageKey(repoKey));
 			if (!stored) {
 				return null;
 			}
 
-			const data: CachedRepoData = JSON.parse(stored, (_key, value) => {
-				// Convert ISO strings back to Date objects
-				if (
-					typeof value === "string" &&
-					/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)
-				) {
-					return new Date(value);
-				}
-				return value;
-			});
+			const data: CachedRepoData = JSON.parse(stored);
 
 			// Validate cache version
 			if (data.version !== CACHE_VERSION) {
@@ -81,13 +84,82 @@ export class StorageService {
 				return null;
 			}
 
-			return data.commits;
+			return data.store;
 		} catch (error) {
 			console.error("Failed to load from localStorage:", error);
 			return null;
 		}
 	}
 
+	/**
+	 * Save node positions for a repo (rounded to 0.1 to keep them small)
+	 * Only the last MAX_LAYOUT_NODES positions in insertion order are kept,
+	 * so callers should re-insert the nodes they just placed
+	 */
+	static saveLayout(repoKey: string, positions: SavedLayout): boolean {
+		try {
+			const rounded: StoredLayout["positions"] = Array.from(
+				positions,
+				([id, [x, y, z]]): [string, number, number, number] => [
+					id,
+					Math.round(x * 10) / 10,
+					Math.round(y * 10) / 10,
+					Math.round(z * 10) / 10,
+				],
+			).slice(-MAX_LAYOUT_NODES);
+
+			const data: StoredLayout = {
+				repoKey,
+				positions: rounded,
+				lastUpdated: Date.now(),
+				version: LAYOUT_VERSION,
+			};
+			localStorage.setItem(`${LAYOUT_PREFIX}${repoKey}`, JSON.stringify(data));
+			return true;
+		} catch (error) {
+			console.error("Failed to save layout to localStorage:", error);
+			return false;
+		}
+	}
+
+	/**
+	 * Load saved node positions for a repo (layouts don't expire)
+	 */
+	static loadLayout(repoKey: string): SavedLayout | null {
+		try {
+			const stored = localStorage.getItem(`${LAYOUT_PREFIX}${repoKey}`);
+			if (!stored) {
+				return null;
+			}
+
+			const data: StoredLayout = JSON.parse(stored);
+			if (data.version !== LAYOUT_VERSION) {
+				this.clearLayout(repoKey);
+				return null;
+			}
+
+			const layout: SavedLayout = new Map();
+			for (const [id, x, y, z] of data.positions) {
+				layout.set(id, [x, y, z]);
+			}
+			return layout;
+		} catch (error) {
+			console.error("Failed to load layout from localStorage:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Forget the saved node positions for a repo
+	 */
+	static clearLayout(repoKey: string): void {
+		try {
+			localStorage.removeItem(`${LAYOUT_PREFIX}${repoKey}`);
+		} catch (error) {
+			console.error("Failed to clear layout:", error);
+		}
+	}
+
 	/**
 	 * Clear cache for a specific repo
 	 */
@@ -100,13 +172,13 @@ export class StorageService {
 	}
 
 	/**
-	 * Clear all repo timeline caches
+	 * Clear all repo timeline caches and saved layouts
 	 */
 	static clearAllCaches(): void {
 		try {
 			const keys = Object.keys(localStorage);
 			for (const key of keys) {
-				if (key.startsWith(CACHE_PREFIX)) {
+				if (key.startsWith(CACHE_PREFIX) || key.startsWith(LAYOUT_PREFIX)) {
 					localStorage.removeItem(key);
 				}
 			}
@@ -130,10 +202,13 @@ export class StorageService {
 			}
 
 			const data: CachedRepoData = JSON.parse(stored);
+			if (data.version !== CACHE_VERSION) {
+				return { exists: false };
+			}
 			return {
 				exists: true,
 				age: Date.now() - data.lastUpdated,
-				commitCount: data.commits.length,
+				commitCount: data.store.summaries.length,
 			};
 		} catch (_error) {
 			return { exists: false };
@@ -1,4 +1,12 @@
 import type { GitHubPR, GitHubWorkerCommit } from "../types/github";
+import type {
+	CacheStatusResponse,
+	GitHost,
+	RepoSummary,
+	TimelineBaseTree,
+	TimelineCommitMetadata,
+	TimelineFilePatch,
+} from "../types/provider";
 
 /**
  * Service for interacting with the Cloudflare Worker API
@@ -8,25 +16,45 @@ export class WorkerApiService {
 	private workerUrl: string;
 	private owner: string;
 	private repo: string;
-
-	constructor(workerUrl: string, owner: string, repo: string) {
+	private host: GitHost;
+	private ref?: string;
+
+	constructor(
+		workerUrl: string,
+		owner: string,
+		repo: string,
+		host: GitHost = "github",
+		ref?: string,
+	) {
 		this.workerUrl = workerUrl;
 		this.owner = owner;
 		this.repo = repo;
+		this.host = host;
+		this.ref = ref;
+	}
+
+	/**
+	 * Build a worker URL for this repository
+	 * The owner is encoded so GitLab subgroups ("group/subgroup") stay in one segment
+	 */
+	private repoUrl(path = "", params: Record<string, string> = {}): string {
+		const query = new URLSearchParams(params);
+		if (this.host !== "github") {
+			query.set("host", this.host);
+		}
+		if (this.ref) {
+			query.set("ref", this.ref);
+		}
+		const queryString = query.toString();
+
+		return `${this.workerUrl}/api/repo/${encodeURIComponent(this.owner)}/${this.repo}${path}${queryString ? `?${queryString}` : ""}`;
 	}
 
 	/**
 	 * Fetch metadata from Cloudflare Worker (fast, all commits without files)
 	 */
-	async fetchMetadata(): Promise<
-		Array<{
-			sha: string;
-			message: string;
-			author: string;
-			date: string;
-		}>
-	> {
-		const url = `${this.workerUrl}/api/repo/${this.owner}/${this.repo}/metadata`;
+	async fetchMetadata(): Promise<TimelineCommitMetadata[]> {
+		const url = this.repoUrl("/metadata");
 		const response = await fetch(url);
 
 		if (!response.ok) {
@@ -42,22 +70,52 @@ export class WorkerApiService {
 		return data;
 	}
 
+	/**
+	 * Fetch file sizes before the oldest cached commit
+	 * Returns null when the worker can't provide them (uncached, or no sizes for the host)
+	 */
+	async fetchBaseTree(): Promise<TimelineBaseTree | null> {
+		const response = await fetch(this.repoUrl("/tree"));
+
+		if (!response.ok) {
+			return null;
+		}
+
+		return response.json();
+	}
+
+	/**
+	 * Fetch one file's stored patch in a cached commit
+	 * Returns null when the worker has no cached change to the file in that commit
+	 */
+	async fetchFilePatch(
+		sha: string,
+		path: string,
+	): Promise<TimelineFilePatch | null> {
+		const url = this.repoUrl(`/commit/${sha}/file`, { path });
+		const response = await fetch(url);
+
+		if (response.status === 404) {
+			return null;
+		}
+
+		if (!response.ok) {
+			const error = await response
+				.json()
+				.catch(() => ({ error: "Unknown error" }));
+			throw new Error(
+				error.error || `File patch request failed: ${response.status}`,
+			);
+		}
+
+		return response.json();
+	}
+
 	/**
 	 * Fetch cache status from Cloudflare Worker (instant!)
 	 */
-	async fetchCacheStatus(): Promise<{
-		cache: {
-			exists: boolean;
-			cachedCommits: number;
-			ageSeconds: number | null;
-			lastCommitSha: string | null;
-			defaultBranch: string | null;
-			firstCommit: { sha: string; date: string } | null;
-			lastCommit: { sha: string; date: string } | null;
-		};
-		status: "ready" | "partial" | "fetching";
-	}> {
-		const url = `${this.workerUrl}/api/repo/${this.owner}/${this.repo}/cache`;
+	async fetchCacheStatus(): Promise<CacheStatusResponse> {
+		const url = this.repoUrl("/cache");
 
 		const response = await fetch(url);
 
@@ -83,14 +141,8 @@ export class WorkerApiService {
 	/**
 	 * Fetch repo summary from GitHub (fast, just first page)
 	 */
-	async fetchRepoSummary(): Promise<{
-		github: {
-			estimatedTotalPRs: number;
-			hasMoreThan100PRs: boolean;
-			firstMergedPR: { number: number; merged_at: string } | null;
-		};
-	}> {
-		const url = `${this.workerUrl}/api/repo/${this.owner}/${this.repo}/summary`;
+	async fetchRepoSummary(): Promise<{ github: RepoSummary }> {
+		const url = this.repoUrl("/summary");
 
 		const response = await fetch(url);
 
@@ -112,7 +164,7 @@ export class WorkerApiService {
 	 * Fetch a single PR with files from Cloudflare Worker (instant from cache!)
 	 */
 	async fetchSinglePR(prNumber: number): Promise<GitHubPR | null> {
-		const url = `${this.workerUrl}/api/repo/${this.owner}/${this.repo}/pr/${prNumber}`;
+		const url = this.repoUrl(`/pr/${prNumber}`);
 
 		const response = await fetch(url);
 
@@ -146,7 +198,10 @@ export class WorkerApiService {
 		offset: number;
 		limit: number;
 	}> {
-		const url = `${this.workerUrl}/api/repo/${this.owner}/${this.repo}?offset=${offset}&limit=${limit}`;
+		const url = this.repoUrl("", {
+			offset: String(offset),
+			limit: String(limit),
+		});
 		const response = await fetch(url);
 
 		if (!response.ok) {
@@ -0,0 +1,88 @@
+import type { LoadProgress } from "../types";
+import type {
+	CacheStatusResponse,
+	GitHost,
+	RepoSummary,
+	TimelineBaseTree,
+	TimelineCommitMetadata,
+	TimelineCommitPage,
+	TimelineDataProvider,
+	TimelineFilePatch,
+} from "../types/provider";
+import { WorkerApiService } from "./workerApiService";
+
+/**
+ * Data provider backed by the Cloudflare Worker cache
+ */
+export class WorkerDataProvider implements TimelineDataProvider {
+	private workerService: WorkerApiService;
+
+	constructor(
+		workerUrl: string,
+		owner: string,
+		repo: string,
+		host: GitHost = "github",
+		ref?: string,
+	) {
+		this.workerService = new WorkerApiService(
+			workerUrl,
+			owner,
+			repo,
+			host,
+			ref,
+		);
+	}
+
+	async fetchCommits(
+		offset: number,
+		limit: number,
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<TimelineCommitPage> {
+		if (onProgress) {
+			onProgress({
+				loaded: 0,
+				total: -1,
+				percentage: 0,
+				message:
+					offset === 0
+						? "Fetching data from cache..."
+						: `Fetching commits ${offset}-${offset + limit}...`,
+			});
+		}
+
+		const response = await this.workerService.fetchCommits(offset, limit);
+
+		return {
+			commits: response.commits.map((commit) => ({
+				sha: commit.sha.substring(0, 7),
+				message: commit.commit.message.split("\n")[0],
+				author: commit.commit.author.name,
+				date: commit.commit.author.date,
+				parents: commit.parents?.map((parent) => parent.sha.substring(0, 7)),
+				files: commit.files || [],
+			})),
+			hasMore: response.hasMore,
+			totalCount: response.totalCount,
+		};
+	}
+
+	fetchBaseTree(): Promise<TimelineBaseTree | null> {
+		return this.workerService.fetchBaseTree();
+	}
+
+	fetchFilePatch(sha: string, path: string): Promise<TimelineFilePatch | null> {
+		return this.workerService.fetchFilePatch(sha, path);
+	}
+
+	fetchMetadata(): Promise<TimelineCommitMetadata[]> {
+		return this.workerService.fetchMetadata();
+	}
+
+	fetchCacheStatus(): Promise<CacheStatusResponse> {
+		return this.workerService.fetchCacheStatus();
+	}
+
+	fetchRepoSummary(): Promise<{ github: RepoSummary }> {
+		return this.workerService.fetchRepoSummary();
+	}
+}
@@ -14,6 +14,18 @@ export interface FileNode {
 	sizeChange?: "increase" | "decrease" | "unchanged"; // Change from previous commit
 	fileStatus?: "added" | "deleted" | "moved" | "unchanged"; // File lifecycle status
 	previousPath?: string; // Path in previous commit (for detecting moves)
+	imports?: string[]; // Import specifiers from the file's source (for dependency edges)
+	lastAuthor?: string; // Author of the most recent commit that touched the file
+	collapsed?: CollapsedSummary; // Set on a collapsed directory standing in for its subtree
+}
+
+/**
+ * What a collapsed directory node hides
+ */
+export interface CollapsedSummary {
+	fileCount: number; // Files below the directory (including ones deleted in this commit)
+	changedCount: number; // Of those, files added, deleted, moved or resized in this commit
+	deletedCount: number; // Of those, files deleted in this commit
 }
 
 export interface FileEdge {
@@ -22,11 +34,19 @@ export interface FileEdge {
 	type: "parent" | "dependency";
 }
 
-export interface CommitData {
+/**
+ * Commit metadata without its file tree
+ */
+export interface CommitSummary {
 	hash: string;
 	message: string;
 	author: string;
 	date: Date;
+	parents?: string[]; // Parent hashes, first parent first (merges have more than one)
+	changes?: FileChange[]; // Files the commit touched, with line counts (missing in older caches)
+}
+
+export interface CommitData extends CommitSummary {
 	files: FileNode[];
 	edges: FileEdge[];
 }
@@ -42,6 +62,7 @@ export interface FileChange {
 	insertions: number;
 	deletions: number;
 	status: "added" | "modified" | "deleted" | "renamed";
+	size?: number; // Size in bytes after the commit (0 once deleted)
 }
 
 export interface LoadProgress {
@@ -19,6 +19,7 @@ export interface GitHubCommit {
 			date: string;
 		};
 	};
+	parents?: Array<{ sha: string }>;
 	files?: GitHubCommitFile[];
 }
 
@@ -29,6 +30,7 @@ export interface GitHubCommitFile {
 	deletions: number;
 	changes: number;
 	previous_filename?: string;
+	imports?: string[];
 }
 
 export interface GitHubWorkerCommit {
@@ -40,6 +42,7 @@ export interface GitHubWorkerCommit {
 			date: string;
 		};
 	};
+	parents?: Array<{ sha: string }>;
 	files?: GitHubCommitFile[];
 }
 
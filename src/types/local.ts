@@ -0,0 +1,24 @@
+/**
+ * Commit snapshot served by the local git server (scripts/local-git-server.mjs)
+ * Each commit carries the complete file list as of that commit
+ */
+export interface RawCommitData {
+	hash: string;
+	message: string;
+	author: string;
+	date: string;
+	parents?: string[];
+	files: RawFileData[];
+	renames?: RawRename[]; // Files git detected as renamed in this commit
+}
+
+export interface RawFileData {
+	path: string;
+	size?: number;
+	type?: string;
+}
+
+export interface RawRename {
+	path: string;
+	previousPath: string;
+}
@@ -0,0 +1,138 @@
+import type { LoadProgress, RateLimitInfo } from "../types";
+
+/**
+ * Data provider contract used by RepoTimeline to load repository history.
+ * Built-in providers cover GitHub, the Cloudflare Worker and the local git
+ * server; embedders can pass their own via the `dataProvider` prop.
+ */
+
+/**
+ * Supported git hosting services
+ */
+export type GitHost = "github" | "gitlab" | "bitbucket";
+
+/**
+ * A single file change within a commit
+ */
+export interface TimelineFileChange {
+	filename: string;
+	status: "added" | "removed" | "modified" | "renamed";
+	additions: number;
+	deletions: number;
+	previous_filename?: string; // For renamed files
+	imports?: string[]; // Import specifiers as written in the source; omitted when unknown
+}
+
+/**
+ * A commit together with the file changes it introduced
+ */
+export interface TimelineCommit {
+	sha: string; // Identifier shown in the timeline (usually a short SHA)
+	message: string;
+	author: string;
+	date: string; // ISO 8601 date string
+	parents?: string[]; // Parent identifiers in the same form as sha, first parent first
+	files: TimelineFileChange[];
+}
+
+/**
+ * One page of commits, ordered oldest first
+ */
+export interface TimelineCommitPage {
+	commits: TimelineCommit[];
+	hasMore: boolean;
+	totalCount: number;
+}
+
+/**
+ * Commit metadata without file changes (used to size the timeline early)
+ */
+export interface TimelineCommitMetadata {
+	sha: string;
+	message: string;
+	author: string;
+	date: string;
+}
+
+/**
+ * Real file sizes (in bytes) just before the first commit of the timeline
+ */
+export interface TimelineBaseTree {
+	sha: string | null; // Commit the sizes were read from; null when the first commit is the root
+	files: Array<{ path: string; size: number }>;
+}
+
+/**
+ * One file's unified diff in one commit
+ */
+export interface TimelineFilePatch {
+	sha: string;
+	path: string;
+	status: string;
+	additions: number;
+	deletions: number;
+	previousPath?: string;
+	patch: string | null; // null for binary files and diffs the source doesn't keep
+	truncated: boolean; // Cut to the source's size cap
+}
+
+export interface CacheStatus {
+	exists: boolean;
+	cachedCommits: number;
+	ageSeconds: number | null;
+	lastCommitSha: string | null;
+	defaultBranch: string | null;
+	firstCommit: { sha: string; date: string } | null;
+	lastCommit: { sha: string; date: string } | null;
+}
+
+export interface CacheStatusResponse {
+	cache: CacheStatus;
+	status: "ready" | "partial" | "fetching";
+}
+
+export interface RepoSummary {
+	estimatedTotalPRs: number;
+	hasMoreThan100PRs: boolean;
+	firstMergedPR: { number: number; merged_at: string } | null;
+}
+
+export interface TimelineDataProvider {
+	/**
+	 * Fetch a page of commits with their file changes, oldest first
+	 *
+	 * @param offset - Number of commits already loaded
+	 * @param limit - Maximum number of commits to return
+	 * @param onProgress - Optional progress callback for slow sources
+	 */
+	fetchCommits(
+		offset: number,
+		limit: number,
+		onProgress?: (progress: LoadProgress) => void,
+	): Promise<TimelineCommitPage>;
+
+	/**
+	 * Fetch real file sizes just before the first commit (optional)
+	 * Providers that implement this report line counts in additions/deletions;
+	 * the timeline seeds from these sizes and converts line deltas to estimated bytes
+	 */
+	fetchBaseTree?(): Promise<TimelineBaseTree | null>;
+
+	/**
+	 * Fetch a file's diff in a commit (optional)
+	 * Resolves to null when the source has no record of the change
+	 */
+	fetchFilePatch?(sha: string, path: string): Promise<TimelineFilePatch | null>;
+
+	/** Fetch metadata for all commits (optional, fast) */
+	fetchMetadata?(): Promise<TimelineCommitMetadata[]>;
+
+	/** Fetch server-side cache status (optional) */
+	fetchCacheStatus?(): Promise<CacheStatusResponse>;
+
+	/** Fetch a quick summary of the upstream repository (optional) */
+	fetchRepoSummary?(): Promise<{ github: RepoSummary }>;
+
+	/** Latest known API rate limit (optional) */
+	getRateLimitInfo?(): RateLimitInfo | null;
+}
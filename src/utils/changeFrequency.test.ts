@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CommitSummary } from "../types";
+import {
+	ChangeFrequencyWindow,
+	DAY_MS,
+	getWindowBounds,
+} from "./changeFrequency";
+
+const start = new Date("2024-01-01").getTime();
+
+// One commit a day
+const commits: CommitSummary[] = Array.from({ length: 6 }, (_, i) => ({
+	hash: `c${i}`,
+	message: "change",
+	author: "alice",
+	date: new Date(start + i * DAY_MS),
+}));
+
+// c0: a, c1: a b, c2: b, c3: a, c4: c, c5: a c
+const changed = [["a"], ["a", "b"], ["b"], ["a"], ["c"], ["a", "c"]];
+
+describe("getWindowBounds", () => {
+	it("should cover the commits within the window up to the time", () => {
+		expect(getWindowBounds(commits, start + 3 * DAY_MS, 2 * DAY_MS)).toEqual([
+			2, 4,
+		]);
+	});
+
+	it("should be empty before the first commit", () => {
+		expect(getWindowBounds(commits, start - DAY_MS, 7 * DAY_MS)).toEqual([
+			0, 0,
+		]);
+	});
+
+	it("should reach the last commit at the end of the timeline", () => {
+		expect(getWindowBounds(commits, start + 10 * DAY_MS, 30 * DAY_MS)).toEqual([
+			0, 6,
+		]);
+	});
+});
+
+describe("ChangeFrequencyWindow", () => {
+	function countsAt(from: number, to: number): Map<string, number> {
+		const counts = new Map<string, number>();
+		for (let i = from; i < to; i++) {
+			for (const path of changed[i]) {
+				counts.set(path, (counts.get(path) ?? 0) + 1);
+			}
+		}
+		return counts;
+	}
+
+	it("should count how many commits touched each file", () => {
+		const window = new ChangeFrequencyWindow((i) => changed[i]);
+
+		expect(window.moveTo(commits, 0, 4)).toEqual(
+			new Map([
+				["a", 3],
+				["b", 2],
+			]),
+		);
+	});
+
+	it("should match a fresh count after sliding forwards and backwards", () => {
+		const window = new ChangeFrequencyWindow((i) => changed[i]);
+		const ranges: Array<[number, number]> = [
+			[0, 2],
+			[1, 4],
+			[3, 6],
+			[2, 3],
+			[5, 6],
+			[0, 6],
+			[4, 4],
+		];
+
+		for (const [from, to] of ranges) {
+			expect(window.moveTo(commits, from, to)).toEqual(countsAt(from, to));
+		}
+	});
+
+	it("should only look up the commits that entered or left the window", () => {
+		const getChangedPaths = vi.fn((i: number) => changed[i]);
+		const window = new ChangeFrequencyWindow(getChangedPaths);
+		window.moveTo(commits, 0, 3);
+		getChangedPaths.mockClear();
+
+		window.moveTo(commits, 1, 4);
+
+		expect(getChangedPaths.mock.calls.map(([i]) => i).sort()).toEqual([0, 3]);
+	});
+
+	it("should start over for a new commit list", () => {
+		const getChangedPaths = vi.fn((i: number) => changed[i]);
+		const window = new ChangeFrequencyWindow(getChangedPaths);
+		window.moveTo(commits, 0, 3);
+		getChangedPaths.mockClear();
+
+		expect(window.moveTo([...commits], 1, 3)).toEqual(countsAt(1, 3));
+		expect(getChangedPaths).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,101 @@
+import type { CommitSummary } from "../types";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Heat map window lengths offered in the header, in days
+export const HEAT_WINDOW_DAYS = [7, 30, 90, 365];
+
+/**
+ * Number of commits dated at or before a time (commits sorted by date)
+ */
+function countAtOrBefore(commits: CommitSummary[], time: number): number {
+	let low = 0;
+	let high = commits.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (commits[mid].date.getTime() <= time) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+	return low;
+}
+
+/**
+ * Commit index range [start, end) dated within `windowMs` up to and including `time`
+ */
+export function getWindowBounds(
+	commits: CommitSummary[],
+	time: number,
+	windowMs: number,
+): [number, number] {
+	return [
+		countAtOrBefore(commits, time - windowMs),
+		countAtOrBefore(commits, time),
+	];
+}
+
+/**
+ * How many commits touched each file within a sliding range of commits
+ *
+ * Moving the range only adds the commits that entered it and subtracts the
+ * ones that left, so playback costs the commits crossed rather than the
+ * commits in the window.
+ */
+export class ChangeFrequencyWindow {
+	private getChangedPaths: (index: number) => string[];
+	private commits: CommitSummary[] = [];
+	private counts = new Map<string, number>();
+	private start = 0;
+	private end = 0;
+
+	constructor(getChangedPaths: (index: number) => string[]) {
+		this.getChangedPaths = getChangedPaths;
+	}
+
+	/**
+	 * Move the window to commits [start, end) and return a snapshot of the counts
+	 * A new commit list (a reload or another page) starts the counts over
+	 */
+	moveTo(
+		commits: CommitSummary[],
+		start: number,
+		end: number,
+	): Map<string, number> {
+		if (commits !== this.commits || start >= this.end || end <= this.start) {
+			this.commits = commits;
+			this.counts.clear();
+			this.addRange(start, end);
+		} else {
+			this.addRange(start, this.start);
+			this.addRange(this.end, end);
+			this.removeRange(this.start, start);
+			this.removeRange(end, this.end);
+		}
+		this.start = start;
+		this.end = end;
+		return new Map(this.counts);
+	}
+
+	private addRange(from: number, to: number): void {
+		for (let i = from; i < to; i++) {
+			for (const path of this.getChangedPaths(i)) {
+				this.counts.set(path, (this.counts.get(path) ?? 0) + 1);
+			}
+		}
+	}
+
+	private removeRange(from: number, to: number): void {
+		for (let i = from; i < to; i++) {
+			for (const path of this.getChangedPaths(i)) {
+				const count = (this.counts.get(path) ?? 0) - 1;
+				if (count > 0) {
+					this.counts.set(path, count);
+				} else {
+					this.counts.delete(path);
+				}
+			}
+		}
+	}
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import type { FileEdge, FileNode } from "../types";
+import { collapseDirectories } from "./collapseDirectories";
+import {
+	buildDependencyEdges,
+	buildEdges,
+	buildFileTree,
+} from "./fileTreeBuilder";
+
+const files = [
+	{ path: "README.md", size: 500 },
+	{ path: "src/index.ts", size: 2000, imports: ["./vendor/lib"] },
+	{ path: "src/vendor/lib.ts", size: 30000 },
+	{ path: "src/vendor/deep/util.ts", size: 1000 },
+	{ path: "docs/guide.md", size: 800 },
+];
+
+function makeTree(): { nodes: FileNode[]; edges: FileEdge[] } {
+	return {
+		nodes: buildFileTree(files),
+		edges: [...buildEdges(files), ...buildDependencyEdges(files)],
+	};
+}
+
+describe("collapseDirectories", () => {
+	it("should leave the tree alone when nothing is collapsed", () => {
+		const { nodes, edges } = makeTree();
+		const result = collapseDirectories(nodes, edges, new Set());
+
+		expect(result.nodes).toBe(nodes);
+		expect(result.edges).toBe(edges);
+	});
+
+	it("should replace a collapsed directory's subtree with the directory", () => {
+		const { nodes, edges } = makeTree();
+		const result = collapseDirectories(nodes, edges, new Set(["src/vendor"]));
+		const ids = result.nodes.map((node) => node.id);
+
+		expect(ids).toContain("src/vendor");
+		expect(ids).not.toContain("src/vendor/lib.ts");
+		expect(ids).not.toContain("src/vendor/deep");
+		expect(ids).not.toContain("src/vendor/deep/util.ts");
+		expect(ids).toContain("src/index.ts");
+
+		const vendor = result.nodes.find((node) => node.id === "src/vendor");
+		expect(vendor).toMatchObject({
+			type: "directory",
+			size: 31000,
+			collapsed: { fileCount: 2, changedCount: 0, deletedCount: 0 },
+		});
+	});
+
+	it("should redirect dependency edges and drop edges into the subtree", () => {
+		const { nodes, edges } = makeTree();
+		const result = collapseDirectories(nodes, edges, new Set(["src/vendor"]));
+
+		expect(result.edges).toContainEqual({
+			source: "src/index.ts",
+			target: "src/vendor",
+			type: "dependency",
+		});
+		expect(result.edges).toContainEqual({
+			source: "src",
+			target: "src/vendor",
+			type: "parent",
+		});
+		for (const edge of result.edges) {
+			expect(edge.source.startsWith("src/vendor/")).toBe(false);
+			expect(edge.target.startsWith("src/vendor/")).toBe(false);
+		}
+	});
+
+	it("should let the outermost collapsed directory win", () => {
+		const { nodes, edges } = makeTree();
+		const result = collapseDirectories(
+			nodes,
+			edges,
+			new Set(["src", "src/vendor"]),
+		);
+
+		expect(result.nodes.map((node) => node.id).sort()).toEqual([
+			"/",
+			"README.md",
+			"docs",
+			"docs/guide.md",
+			"src",
+		]);
+		expect(result.nodes.find((node) => node.id === "src")?.collapsed).toEqual({
+			fileCount: 3,
+			changedCount: 0,
+			deletedCount: 0,
+		});
+	});
+
+	it("should never collapse the root", () => {
+		const { nodes, edges } = makeTree();
+		const result = collapseDirectories(nodes, edges, new Set(["/"]));
+
+		expect(result.nodes).toBe(nodes);
+	});
+
+	it("should total up changes below the directory", () => {
+		const { nodes, edges } = makeTree();
+		const changed = nodes.map((node): FileNode => {
+			if (node.id === "src/vendor/lib.ts") {
+				return { ...node, previousSize: 20000, sizeChange: "increase" };
+			}
+			if (node.id === "src/vendor/deep/util.ts") {
+				return { ...node, fileStatus: "added" };
+			}
+			return node;
+		});
+		const vendor = collapseDirectories(
+			changed,
+			edges,
+			new Set(["src/vendor"]),
+		).nodes.find((node) => node.id === "src/vendor");
+
+		expect(vendor).toMatchObject({
+			size: 31000,
+			previousSize: 20000,
+			sizeChange: "increase",
+			collapsed: { fileCount: 2, changedCount: 2, deletedCount: 0 },
+		});
+	});
+});
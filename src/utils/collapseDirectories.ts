@@ -0,0 +1,143 @@
+import type { FileEdge, FileNode } from "../types";
+
+/**
+ * Whether a file counts as changed in its commit
+ */
+function isChanged(node: FileNode): boolean {
+	return (
+		node.fileStatus === "added" ||
+		node.fileStatus === "deleted" ||
+		node.fileStatus === "moved" ||
+		node.sizeChange === "increase" ||
+		node.sizeChange === "decrease"
+	);
+}
+
+/**
+ * Replace each collapsed directory's subtree with the directory alone
+ *
+ * The directory keeps its id (so it keeps its place in the layout), takes the
+ * summed size of the files below it, and records how many of them changed.
+ * Dependency edges to hidden files are redirected to the directory; edges
+ * inside a collapsed directory are dropped. Nested collapsed paths are
+ * covered by their outermost collapsed ancestor, and the root can't collapse.
+ */
+export function collapseDirectories(
+	nodes: FileNode[],
+	edges: FileEdge[],
+	collapsedPaths: ReadonlySet<string>,
+): { nodes: FileNode[]; edges: FileEdge[] } {
+	if (collapsedPaths.size === 0) return { nodes, edges };
+
+	const collapsedDirectories = new Set(
+		nodes
+			.filter(
+				(node) =>
+					node.type === "directory" &&
+					node.path !== "/" &&
+					collapsedPaths.has(node.path),
+			)
+			.map((node) => node.path),
+	);
+	if (collapsedDirectories.size === 0) return { nodes, edges };
+
+	// Outermost collapsed directory containing a path, if any
+	const findCollapsed = (path: string): string | undefined => {
+		const parts = path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			const prefix = parts.slice(0, i).join("/");
+			if (collapsedDirectories.has(prefix)) return prefix;
+		}
+		return undefined;
+	};
+
+	// Sum up the hidden files per collapsed directory
+	const totals = new Map<
+		string,
+		{
+			size: number;
+			previousSize: number;
+			files: number;
+			changed: number;
+			deleted: number;
+		}
+	>();
+	const ownerById = new Map<string, string>();
+	const visibleNodes: FileNode[] = [];
+	for (const node of nodes) {
+		const owner = findCollapsed(node.path);
+		if (!owner) {
+			visibleNodes.push(node);
+			continue;
+		}
+		ownerById.set(node.id, owner);
+		if (node.type !== "file") continue;
+
+		const total = totals.get(owner) ?? {
+			size: 0,
+			previousSize: 0,
+			files: 0,
+			changed: 0,
+			deleted: 0,
+		};
+		total.files++;
+		if (node.fileStatus === "deleted") {
+			total.deleted++;
+		} else {
+			total.size += node.size;
+		}
+		if (node.fileStatus !== "added") {
+			total.previousSize += node.previousSize ?? node.size;
+		}
+		if (isChanged(node)) total.changed++;
+		totals.set(owner, total);
+	}
+
+	const collapsedNodes = visibleNodes.map((node): FileNode => {
+		if (!collapsedDirectories.has(node.path)) return node;
+		const total = totals.get(node.path) ?? {
+			size: 0,
+			previousSize: 0,
+			files: 0,
+			changed: 0,
+			deleted: 0,
+		};
+		return {
+			...node,
+			size: total.size,
+			previousSize: total.previousSize,
+			sizeChange:
+				total.size > total.previousSize
+					? "increase"
+					: total.size < total.previousSize
+						? "decrease"
+						: "unchanged",
+			collapsed: {
+				fileCount: total.files,
+				changedCount: total.changed,
+				deletedCount: total.deleted,
+			},
+		};
+	});
+
+	// Redirect edges from hidden nodes to their collapsed directory
+	const seen = new Set<string>();
+	const collapsedEdges: FileEdge[] = [];
+	for (const edge of edges) {
+		const source = ownerById.get(edge.source) ?? edge.source;
+		const target = ownerById.get(edge.target) ?? edge.target;
+		if (source === target) continue;
+		if (edge.type === "parent" && target !== edge.target) continue;
+
+		const key = `${edge.type}:${source}->${target}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		collapsedEdges.push(
+			source === edge.source && target === edge.target
+				? edge
+				: { ...edge, source, target },
+		);
+	}
+
+	return { nodes: collapsedNodes, edges: collapsedEdges };
+}
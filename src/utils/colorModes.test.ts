@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { CommitSummary, FileNode } from "../types";
+import {
+	getAuthorColors,
+	getAuthorLegend,
+	getHeatColor,
+	getHeatColors,
+	HEAT_COLD_COLOR,
+	OTHER_AUTHORS_COLOR,
+} from "./colorModes";
+
+function commitsBy(...authors: string[]): CommitSummary[] {
+	return authors.map((author, i) => ({
+		hash: `c${i}`,
+		message: "change",
+		author,
+		date: new Date(2024, 0, i + 1),
+	}));
+}
+
+describe("getAuthorLegend", () => {
+	it("should order authors by commit count, then by name", () => {
+		const legend = getAuthorLegend(
+			commitsBy("carol", "alice", "bob", "alice", "bob", "alice"),
+		);
+
+		expect(legend.map(({ author, commits }) => [author, commits])).toEqual([
+			["alice", 3],
+			["bob", 2],
+			["carol", 1],
+		]);
+	});
+
+	it("should give each author a distinct colour", () => {
+		const legend = getAuthorLegend(commitsBy("alice", "bob", "carol"));
+		const colors = new Set(legend.map(({ color }) => color));
+
+		expect(colors.size).toBe(3);
+		expect(colors.has(OTHER_AUTHORS_COLOR)).toBe(false);
+	});
+
+	it("should share one colour between authors beyond the palette", () => {
+		const authors = Array.from({ length: 14 }, (_, i) => `author${i}`);
+		const legend = getAuthorLegend(commitsBy(...authors));
+
+		expect(legend).toHaveLength(14);
+		expect(legend[11].color).not.toBe(OTHER_AUTHORS_COLOR);
+		expect(legend[12].color).toBe(OTHER_AUTHORS_COLOR);
+		expect(legend[13].color).toBe(OTHER_AUTHORS_COLOR);
+	});
+
+	it("should skip commits without an author", () => {
+		expect(getAuthorLegend(commitsBy("", "alice"))).toHaveLength(1);
+	});
+});
+
+describe("getAuthorColors", () => {
+	const nodes: FileNode[] = [
+		{ id: "/", path: "/", name: "/", size: 0, type: "directory" },
+		{
+			id: "a.ts",
+			path: "a.ts",
+			name: "a.ts",
+			size: 10,
+			type: "file",
+			lastAuthor: "alice",
+		},
+		{
+			id: "b.ts",
+			path: "b.ts",
+			name: "b.ts",
+			size: 10,
+			type: "file",
+			lastAuthor: "mallory",
+		},
+		{ id: "c.ts", path: "c.ts", name: "c.ts", size: 10, type: "file" },
+	];
+
+	it("should colour files by their last author", () => {
+		const legend = getAuthorLegend(commitsBy("alice"));
+		const colors = getAuthorColors(nodes, legend);
+
+		expect(colors.get("a.ts")).toBe(legend[0].color);
+		expect(colors.get("b.ts")).toBe(OTHER_AUTHORS_COLOR);
+		expect(colors.has("c.ts")).toBe(false);
+		expect(colors.has("/")).toBe(false);
+	});
+});
+
+describe("getHeatColors", () => {
+	const nodes: FileNode[] = [
+		{ id: "/", path: "/", name: "/", size: 0, type: "directory" },
+		{ id: "hot.ts", path: "hot.ts", name: "hot.ts", size: 10, type: "file" },
+		{ id: "warm.ts", path: "warm.ts", name: "warm.ts", size: 10, type: "file" },
+		{ id: "cold.ts", path: "cold.ts", name: "cold.ts", size: 10, type: "file" },
+		{
+			id: "vendor",
+			path: "vendor",
+			name: "vendor",
+			size: 20,
+			type: "directory",
+			collapsed: { fileCount: 2, changedCount: 0, deletedCount: 0 },
+		},
+	];
+
+	it("should run from the cold end to the hot end of the ramp", () => {
+		const colors = getHeatColors(
+			nodes,
+			new Map([
+				["hot.ts", 7],
+				["warm.ts", 1],
+			]),
+		);
+
+		expect(colors.get("hot.ts")).toBe(getHeatColor(1));
+		expect(colors.get("warm.ts")).toBe(
+			getHeatColor(Math.log1p(1) / Math.log1p(7)),
+		);
+		expect(colors.get("cold.ts")).toBe(HEAT_COLD_COLOR);
+		expect(colors.has("/")).toBe(false);
+	});
+
+	it("should add up the files below a collapsed directory", () => {
+		const colors = getHeatColors(
+			nodes,
+			new Map([
+				["hot.ts", 2],
+				["vendor/a.ts", 3],
+				["vendor/lib/b.ts", 1],
+			]),
+		);
+
+		expect(colors.get("vendor")).toBe(getHeatColor(1));
+		expect(colors.get("hot.ts")).not.toBe(getHeatColor(1));
+	});
+});
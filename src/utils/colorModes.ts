@@ -0,0 +1,130 @@
+import * as THREE from "three";
+import type { CommitSummary, FileNode } from "../types";
+
+/**
+ * What file colours show: their node type (the default), their extension,
+ * who last changed them, or how often they changed recently
+ */
+export type ColorMode = "type" | "extension" | "author" | "heat";
+
+// Distinct hues for the most active authors, busiest first
+const AUTHOR_PALETTE = [
+	"#f472b6",
+	"#38bdf8",
+	"#facc15",
+	"#a78bfa",
+	"#fb923c",
+	"#34d399",
+	"#f87171",
+	"#2dd4bf",
+	"#c084fc",
+	"#a3e635",
+	"#fbbf24",
+	"#818cf8",
+];
+
+// Authors beyond the palette share one colour
+export const OTHER_AUTHORS_COLOR = "#9ca3af";
+
+export interface AuthorLegendEntry {
+	author: string;
+	commits: number;
+	color: string;
+}
+
+/**
+ * Authors by commit count (ties by name), with the palette handed out in that order
+ */
+export function getAuthorLegend(commits: CommitSummary[]): AuthorLegendEntry[] {
+	const counts = new Map<string, number>();
+	for (const commit of commits) {
+		if (!commit.author) continue;
+		counts.set(commit.author, (counts.get(commit.author) ?? 0) + 1);
+	}
+
+	return [...counts]
+		.sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+		.map(([author, count], i) => ({
+			author,
+			commits: count,
+			color: AUTHOR_PALETTE[i] ?? OTHER_AUTHORS_COLOR,
+		}));
+}
+
+/**
+ * Colour of each file by its last author, keyed by node id
+ * Directories and files without a known author keep their usual colour
+ */
+export function getAuthorColors(
+	nodes: FileNode[],
+	legend: AuthorLegendEntry[],
+): Map<string, string> {
+	const colorByAuthor = new Map(
+		legend.map(({ author, color }) => [author, color]),
+	);
+	const colors = new Map<string, string>();
+	for (const node of nodes) {
+		if (node.type !== "file" || !node.lastAuthor) continue;
+		colors.set(
+			node.id,
+			colorByAuthor.get(node.lastAuthor) ?? OTHER_AUTHORS_COLOR,
+		);
+	}
+	return colors;
+}
+
+// Heat map ramp from rarely to most often changed; untouched files stay dark
+const HEAT_STOPS = ["#3b82f6", "#facc15", "#ef4444"];
+export const HEAT_COLD_COLOR = "#334155";
+
+/**
+ * Colour on the heat ramp for a share (0-1) of the busiest file's commits
+ */
+export function getHeatColor(share: number): string {
+	const position = Math.min(1, Math.max(0, share)) * (HEAT_STOPS.length - 1);
+	const index = Math.min(Math.floor(position), HEAT_STOPS.length - 2);
+	return `#${new THREE.Color(HEAT_STOPS[index])
+		.lerp(new THREE.Color(HEAT_STOPS[index + 1]), position - index)
+		.getHexString()}`;
+}
+
+/**
+ * Colour of each file by how many commits touched it, keyed by node id
+ *
+ * Counts are scaled logarithmically against the busiest visible file, so a
+ * few very hot files don't wash everything else out. Collapsed directories
+ * add up the counts of the files below them.
+ */
+export function getHeatColors(
+	nodes: FileNode[],
+	counts: ReadonlyMap<string, number>,
+): Map<string, string> {
+	const nodeCounts = new Map<string, number>();
+	let max = 0;
+	for (const node of nodes) {
+		let count = 0;
+		if (node.type === "file") {
+			count = counts.get(node.path) ?? 0;
+		} else if (node.collapsed) {
+			const prefix = `${node.path}/`;
+			for (const [path, pathCount] of counts) {
+				if (path.startsWith(prefix)) count += pathCount;
+			}
+		} else {
+			continue;
+		}
+		nodeCounts.set(node.id, count);
+		max = Math.max(max, count);
+	}
+
+	const colors = new Map<string, string>();
+	for (const [id, count] of nodeCounts) {
+		colors.set(
+			id,
+			count > 0
+				? getHeatColor(Math.log1p(count) / Math.log1p(max))
+				: HEAT_COLD_COLOR,
+		);
+	}
+	return colors;
+}
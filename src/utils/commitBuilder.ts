@@ -1,6 +1,10 @@
 import type { CommitData } from "../types";
 import type { FileStateTracker } from "./fileStateTracker";
-import { buildEdges, buildFileTree } from "./fileTreeBuilder";
+import {
+	buildDependencyEdges,
+	buildEdges,
+	buildFileTree,
+} from "./fileTreeBuilder";
 
 /**
  * Build a CommitData object from file state tracker data
@@ -11,6 +15,8 @@ import { buildEdges, buildFileTree } from "./fileTreeBuilder";
  * @param author - The commit author name
  * @param date - The commit date
  * @param fileStateTracker - The file state tracker containing current file state
+ * @param parents - Parent commit hashes, first parent first
+ * @param pathFilter - Keeps only the files it accepts (see createPathFilter)
  * @returns A CommitData object with nodes and edges built from the file state
  */
 export function buildCommitFromFileState(
@@ -19,11 +25,16 @@ export function buildCommitFromFileState(
 	author: string,
 	date: string,
 	fileStateTracker: FileStateTracker,
+	parents?: string[],
+	pathFilter?: (path: string) => boolean,
 ): CommitData {
-	// Build commit snapshot from current file state
-	const fileData = fileStateTracker.getFileData();
+	// Build commit snapshot from current file state, minus filtered-out files
+	const allFileData = fileStateTracker.getFileData();
+	const fileData = pathFilter
+		? allFileData.filter((file) => pathFilter(file.path))
+		: allFileData;
 	const files = buildFileTree(fileData);
-	const edges = buildEdges(fileData);
+	const edges = [...buildEdges(fileData), ...buildDependencyEdges(fileData)];
 
 	// Check for orphaned nodes
 	const connectedNodes = new Set([
@@ -52,6 +63,7 @@ export function buildCommitFromFileState(
 		message,
 		author,
 		date: new Date(date),
+		parents,
 		files,
 		edges,
 	};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { CommitData, FileNode } from "../types";
+import {
+	computeCommitLanes,
+	getMergeChangedPaths,
+	hasBranchTopology,
+} from "./commitGraph";
+
+function makeCommit(
+	hash: string,
+	parents?: string[],
+	files: FileNode[] = [],
+): CommitData {
+	return {
+		hash,
+		message: `Commit ${hash}`,
+		author: "Test Author",
+		date: new Date("2024-01-01"),
+		parents,
+		files,
+		edges: [],
+	};
+}
+
+function makeFile(path: string, extra: Partial<FileNode> = {}): FileNode {
+	return {
+		id: path,
+		path,
+		name: path.split("/").pop() || path,
+		size: 100,
+		type: "file",
+		...extra,
+	};
+}
+
+describe("computeCommitLanes", () => {
+	it("should keep a linear history in a single lane", () => {
+		const layout = computeCommitLanes([
+			makeCommit("a", []),
+			makeCommit("b", ["a"]),
+			makeCommit("c", ["b"]),
+		]);
+
+		expect(layout.laneCount).toBe(1);
+		expect(layout.nodes.map((n) => n.lane)).toEqual([0, 0, 0]);
+		expect(layout.edges).toHaveLength(2);
+		expect(layout.edges.every((e) => e.kind === "first-parent")).toBe(true);
+	});
+
+	it("should put a merged feature branch in its own lane", () => {
+		// a - b ------- m
+		//      \       /
+		//       f1 - f2
+		const layout = computeCommitLanes([
+			makeCommit("a", []),
+			makeCommit("b", ["a"]),
+			makeCommit("f1", ["b"]),
+			makeCommit("f2", ["f1"]),
+			makeCommit("m", ["b", "f2"]),
+		]);
+
+		expect(layout.laneCount).toBe(2);
+		expect(layout.nodes.map((n) => n.lane)).toEqual([0, 0, 1, 1, 0]);
+		expect(layout.nodes[4].isMerge).toBe(true);
+
+		const mergeEdge = layout.edges.find((e) => e.kind === "merge");
+		expect(mergeEdge).toEqual({
+			parentIndex: 3,
+			childIndex: 4,
+			parentLane: 1,
+			childLane: 0,
+			kind: "merge",
+		});
+
+		// The feature branch forks off b
+		const forkEdge = layout.edges.find((e) => e.childIndex === 2);
+		expect(forkEdge).toMatchObject({ parentLane: 0, childLane: 1 });
+	});
+
+	it("should count parents that aren't loaded as missing", () => {
+		const layout = computeCommitLanes([
+			makeCommit("a", []),
+			makeCommit("m", ["a", "outside"]),
+		]);
+
+		expect(layout.nodes[1].missingParents).toBe(1);
+		expect(layout.edges).toHaveLength(1);
+	});
+
+	it("should chain commits without parent information linearly", () => {
+		const layout = computeCommitLanes([makeCommit("a"), makeCommit("b")]);
+
+		expect(layout.laneCount).toBe(1);
+		expect(layout.edges).toEqual([
+			{
+				parentIndex: 0,
+				childIndex: 1,
+				parentLane: 0,
+				childLane: 0,
+				kind: "first-parent",
+			},
+		]);
+	});
+
+	it("should handle an empty timeline", () => {
+		expect(computeCommitLanes([])).toEqual({
+			nodes: [],
+			edges: [],
+			laneCount: 0,
+		});
+	});
+});
+
+describe("hasBranchTopology", () => {
+	it("should only report topology when a merge is present", () => {
+		expect(
+			hasBranchTopology([makeCommit("a", []), makeCommit("b", ["a"])]),
+		).toBe(false);
+		expect(hasBranchTopology([makeCommit("m", ["a", "b"])])).toBe(true);
+	});
+});
+
+describe("getMergeChangedPaths", () => {
+	it("should return changed files of a merge commit", () => {
+		const merge = makeCommit(
+			"m",
+			["a", "b"],
+			[
+				makeFile("src/new.ts", { fileStatus: "added" }),
+				makeFile("src/grown.ts", { sizeChange: "increase" }),
+				makeFile("src/same.ts", { sizeChange: "unchanged" }),
+				{ ...makeFile("src"), type: "directory", fileStatus: "added" },
+			],
+		);
+
+		expect(getMergeChangedPaths(merge)).toEqual(
+			new Set(["src/new.ts", "src/grown.ts"]),
+		);
+	});
+
+	it("should return an empty set for regular commits", () => {
+		const commit = makeCommit(
+			"b",
+			["a"],
+			[makeFile("src/new.ts", { fileStatus: "added" })],
+		);
+
+		expect(getMergeChangedPaths(commit).size).toBe(0);
+	});
+});
@@ -0,0 +1,153 @@
+import type { CommitData, CommitSummary } from "../types";
+
+/**
+ * A commit's position in the branch/merge lane view
+ */
+export interface CommitLaneNode {
+	index: number; // Index into the commits array
+	lane: number; // Column (0 is the lane of the newest commit's first-parent line)
+	isMerge: boolean;
+	missingParents: number; // Parents that aren't in the loaded timeline
+}
+
+/**
+ * A parent → child link between two loaded commits
+ */
+export interface CommitLaneEdge {
+	parentIndex: number;
+	childIndex: number;
+	parentLane: number;
+	childLane: number;
+	kind: "first-parent" | "merge"; // merge edges bring a side branch into the child
+}
+
+export interface CommitLaneLayout {
+	nodes: CommitLaneNode[];
+	edges: CommitLaneEdge[];
+	laneCount: number;
+}
+
+/**
+ * Assign commits to lanes so forks and merges can be drawn git-graph style
+ *
+ * Walks from the newest commit back, keeping one lane per line of history
+ * that is still waiting for its parent. A commit takes the lane that expects
+ * it; other lanes expecting the same commit are branches that forked there.
+ * Commits without parent information are chained linearly.
+ *
+ * @param commits Commits sorted oldest first
+ */
+export function computeCommitLanes(commits: CommitSummary[]): CommitLaneLayout {
+	const indexByHash = new Map(commits.map((c, i) => [c.hash, i]));
+	const parentIndices = commits.map((commit, i) => {
+		if (!commit.parents) {
+			return i > 0 ? [i - 1] : [];
+		}
+		// Parents dated after their child (rebases, clock skew) are treated as missing
+		return commit.parents
+			.map((hash) => indexByHash.get(hash))
+			.filter((index): index is number => index !== undefined && index < i);
+	});
+
+	const active: (number | null)[] = []; // lane -> index of the commit it waits for
+	const laneOf: number[] = new Array(commits.length);
+
+	const claimLane = (target: number, preferAfter = -1): number => {
+		let lane = active.findIndex(
+			(value, l) => value === null && l > preferAfter,
+		);
+		if (lane === -1) {
+			lane = active.length;
+			active.push(null);
+		}
+		active[lane] = target;
+		return lane;
+	};
+
+	for (let i = commits.length - 1; i >= 0; i--) {
+		let lane = active.indexOf(i);
+		if (lane === -1) {
+			lane = claimLane(i);
+		}
+
+		// Any other lane waiting for this commit forked from it
+		for (let l = 0; l < active.length; l++) {
+			if (active[l] === i) {
+				active[l] = null;
+			}
+		}
+		laneOf[i] = lane;
+
+		const [firstParent, ...otherParents] = parentIndices[i];
+		if (firstParent !== undefined) {
+			active[lane] = firstParent;
+		}
+		for (const parent of otherParents) {
+			if (!active.includes(parent)) {
+				claimLane(parent, lane);
+			}
+		}
+
+		// Trim free lanes from the right so the view stays compact
+		while (active.length > 0 && active[active.length - 1] === null) {
+			active.pop();
+		}
+	}
+
+	const nodes: CommitLaneNode[] = commits.map((commit, i) => ({
+		index: i,
+		lane: laneOf[i],
+		isMerge: (commit.parents?.length ?? 0) > 1,
+		missingParents: commit.parents
+			? commit.parents.length - parentIndices[i].length
+			: 0,
+	}));
+
+	const edges: CommitLaneEdge[] = [];
+	parentIndices.forEach((parents, childIndex) => {
+		parents.forEach((parentIndex, n) => {
+			edges.push({
+				parentIndex,
+				childIndex,
+				parentLane: laneOf[parentIndex],
+				childLane: laneOf[childIndex],
+				kind: n === 0 ? "first-parent" : "merge",
+			});
+		});
+	});
+
+	return {
+		nodes,
+		edges,
+		laneCount: nodes.reduce((max, node) => Math.max(max, node.lane + 1), 0),
+	};
+}
+
+/**
+ * Whether the commits carry enough parent information to show a lane view
+ */
+export function hasBranchTopology(commits: CommitSummary[]): boolean {
+	return commits.some((commit) => (commit.parents?.length ?? 0) > 1);
+}
+
+/**
+ * Paths of the files a merge commit changed relative to its first parent
+ * Returns an empty set for non-merge commits
+ */
+export function getMergeChangedPaths(commit: CommitData): Set<string> {
+	if ((commit.parents?.length ?? 0) < 2) {
+		return new Set();
+	}
+
+	return new Set(
+		commit.files
+			.filter(
+				(file) =>
+					file.type === "file" &&
+					(file.fileStatus === "added" ||
+						file.fileStatus === "moved" ||
+						(file.sizeChange !== undefined && file.sizeChange !== "unchanged")),
+			)
+			.map((file) => file.path),
+	);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { CommitSummary } from "../types";
+import { findCommitMatches, getAdjacentMatch } from "./commitSearch";
+
+const commits: CommitSummary[] = [
+	{
+		hash: "c0",
+		message: "Initial commit",
+		author: "Alice",
+		date: new Date(2024, 0, 1),
+		changes: [
+			{ path: "README.md", insertions: 3, deletions: 0, status: "added" },
+		],
+	},
+	{
+		hash: "c1",
+		message: "Fix #12: crash on empty input",
+		author: "Bob",
+		date: new Date(2024, 0, 2),
+		changes: [
+			{
+				path: "src/parser.ts",
+				oldPath: "src/parse.ts",
+				insertions: 4,
+				deletions: 1,
+				status: "renamed",
+			},
+		],
+	},
+	{
+		hash: "c2",
+		message: "fix typo",
+		author: "alice",
+		date: new Date(2024, 0, 3),
+	},
+];
+
+describe("findCommitMatches", () => {
+	const search = (
+		text: string,
+		field: "message" | "author" | "path",
+		regex = false,
+		getChangedPaths?: (index: number) => string[],
+	) => findCommitMatches(commits, { text, field, regex }, getChangedPaths);
+
+	it("matches message substrings regardless of case", () => {
+		expect(search("FIX", "message")).toEqual({ matches: [1, 2], error: null });
+	});
+
+	it("matches authors", () => {
+		expect(search("alice", "author").matches).toEqual([0, 2]);
+	});
+
+	it("matches touched paths under old and new names", () => {
+		expect(search("parse.ts", "path").matches).toEqual([1]);
+		expect(search("parser", "path").matches).toEqual([1]);
+	});
+
+	it("falls back to the store's changed paths for commits without changes", () => {
+		expect(
+			search("src/", "path", false, (index) =>
+				index === 2 ? ["src/index.ts"] : [],
+			).matches,
+		).toEqual([1, 2]);
+	});
+
+	it("supports regular expressions", () => {
+		expect(search("^fix #\\d+", "message", true).matches).toEqual([1]);
+	});
+
+	it("reports invalid regular expressions instead of throwing", () => {
+		const result = search("fix(", "message", true);
+
+		expect(result.matches).toEqual([]);
+		expect(result.error).toBeTruthy();
+	});
+
+	it("matches nothing for an empty query", () => {
+		expect(search("", "message").matches).toEqual([]);
+	});
+});
+
+describe("getAdjacentMatch", () => {
+	const matches = [2, 5, 9];
+
+	it("steps to the next and previous matches", () => {
+		expect(getAdjacentMatch(matches, 5, "next")).toBe(9);
+		expect(getAdjacentMatch(matches, 5, "previous")).toBe(2);
+		expect(getAdjacentMatch(matches, 3, "next")).toBe(5);
+		expect(getAdjacentMatch(matches, 3, "previous")).toBe(2);
+	});
+
+	it("wraps around the ends", () => {
+		expect(getAdjacentMatch(matches, 9, "next")).toBe(2);
+		expect(getAdjacentMatch(matches, 2, "previous")).toBe(9);
+	});
+
+	it("returns null without matches", () => {
+		expect(getAdjacentMatch([], 4, "next")).toBeNull();
+	});
+});
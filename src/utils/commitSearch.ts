@@ -0,0 +1,95 @@
+import type { CommitSummary } from "../types";
+
+export type CommitSearchField = "message" | "author" | "path";
+
+export interface CommitSearchQuery {
+	text: string;
+	field: CommitSearchField;
+	regex: boolean; // Treat text as a regular expression rather than a substring
+}
+
+/**
+ * Test for one commit field's text, or an error for an invalid pattern
+ * Matching is case-insensitive in both modes
+ */
+function createTextMatcher(
+	text: string,
+	regex: boolean,
+): ((value: string) => boolean) | { error: string } {
+	if (regex) {
+		try {
+			const pattern = new RegExp(text, "i");
+			return (value) => pattern.test(value);
+		} catch (err) {
+			return { error: err instanceof Error ? err.message : "Invalid pattern" };
+		}
+	}
+	const needle = text.toLowerCase();
+	return (value) => value.toLowerCase().includes(needle);
+}
+
+/**
+ * Paths a commit touched - its own changes when it carries them, otherwise
+ * what the commit store recorded (renames match under both names)
+ */
+function getTouchedPaths(
+	commits: CommitSummary[],
+	index: number,
+	getChangedPaths?: (index: number) => string[],
+): string[] {
+	const changes = commits[index].changes;
+	if (changes) {
+		return changes.flatMap((change) =>
+			change.oldPath ? [change.path, change.oldPath] : [change.path],
+		);
+	}
+	return getChangedPaths?.(index) ?? [];
+}
+
+/**
+ * Timeline indices of the commits matching a query, in order
+ * An empty query matches nothing
+ */
+export function findCommitMatches(
+	commits: CommitSummary[],
+	query: CommitSearchQuery,
+	getChangedPaths?: (index: number) => string[],
+): { matches: number[]; error: string | null } {
+	if (query.text === "") return { matches: [], error: null };
+
+	const matcher = createTextMatcher(query.text, query.regex);
+	if (typeof matcher !== "function")
+		return { matches: [], error: matcher.error };
+
+	const matches: number[] = [];
+	for (let i = 0; i < commits.length; i++) {
+		const commit = commits[i];
+		const found =
+			query.field === "message"
+				? matcher(commit.message)
+				: query.field === "author"
+					? matcher(commit.author)
+					: getTouchedPaths(commits, i, getChangedPaths).some(matcher);
+		if (found) matches.push(i);
+	}
+	return { matches, error: null };
+}
+
+/**
+ * The next match after (or previous before) the current commit, wrapping
+ * around the ends of the timeline; null when nothing matches
+ */
+export function getAdjacentMatch(
+	matches: number[],
+	currentIndex: number,
+	direction: "next" | "previous",
+): number | null {
+	if (matches.length === 0) return null;
+	if (direction === "next") {
+		return matches.find((index) => index > currentIndex) ?? matches[0];
+	}
+	for (let i = matches.length - 1; i >= 0; i--) {
+		if (matches[i] < currentIndex) return matches[i];
+	}
+	return matches[matches.length - 1];
+}
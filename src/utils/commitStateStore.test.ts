@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import type { CommitData, FileNode } from "../types";
+import { CommitStateStore } from "./commitStateStore";
+import { buildEdges, buildFileTree } from "./fileTreeBuilder";
+
+function makeCommit(
+	hash: string,
+	files: Array<{ path: string; size: number }>,
+): CommitData {
+	return {
+		hash,
+		message: `Commit ${hash}`,
+		author: "Test Author",
+		date: new Date("2024-01-01"),
+		files: buildFileTree(files),
+		edges: buildEdges(files),
+	};
+}
+
+function sizes(commit: CommitData): Record<string, number> {
+	return Object.fromEntries(
+		commit.files
+			.filter((file) => file.type === "file")
+			.map((file) => [file.path, file.size]),
+	);
+}
+
+// 0: a.ts grows each commit, 3: b.ts added, 5: a.ts removed
+function makeHistory(): CommitData[] {
+	return Array.from({ length: 7 }, (_, i) => {
+		const files = [];
+		if (i < 5) files.push({ path: "src/a.ts", size: 10 + i });
+		if (i >= 3) files.push({ path: "lib/b.ts", size: 50 });
+		files.push({ path: "README.md", size: 100 });
+		return makeCommit(`c${i}`, files);
+	});
+}
+
+describe("CommitStateStore", () => {
+	it("should resolve every commit to the tree it was appended with", () => {
+		const history = makeHistory();
+		const store = new CommitStateStore(3);
+		store.append(history);
+
+		expect(store.length).toBe(7);
+		for (let i = 0; i < history.length; i++) {
+			const state = store.getStateAt(i);
+			expect(sizes(state)).toEqual(sizes(history[i]));
+			expect(
+				new Set(state.edges.map((e) => `${e.source}->${e.target}`)),
+			).toEqual(
+				new Set(history[i].edges.map((e) => `${e.source}->${e.target}`)),
+			);
+		}
+	});
+
+	it("should resolve the same state when seeking backwards and forwards", () => {
+		const history = makeHistory();
+		const store = new CommitStateStore(3);
+		store.append(history);
+
+		const forward = sizes(store.getStateAt(4));
+		store.getStateAt(6);
+		store.getStateAt(0);
+		expect(sizes(store.getStateAt(4))).toEqual(forward);
+		expect(sizes(store.getStateAt(5))).toEqual({
+			"lib/b.ts": 50,
+			"README.md": 100,
+		});
+	});
+
+	it("should return the same object for repeated lookups", () => {
+		const store = new CommitStateStore();
+		store.append(makeHistory());
+
+		expect(store.getStateAt(2)).toBe(store.getStateAt(2));
+	});
+
+	it("should share unchanged nodes between commits", () => {
+		const store = new CommitStateStore(10);
+		store.append(makeHistory());
+		const byPath = (commit: CommitData) =>
+			new Map(commit.files.map((file) => [file.path, file]));
+
+		const first = byPath(store.getStateAt(0));
+		const second = byPath(store.getStateAt(1));
+
+		// Only a.ts changed, so every other node comes from the checkpoint
+		expect(second.get("README.md")).toBe(first.get("README.md"));
+		expect(second.get("src/a.ts")).not.toBe(first.get("src/a.ts"));
+		expect(second.get("src/a.ts")?.size).toBe(11);
+	});
+
+	it("should keep metadata without file trees", () => {
+		const store = new CommitStateStore();
+		store.append(makeHistory().slice(0, 2));
+
+		expect(store.getCommits()).toEqual([
+			{
+				hash: "c0",
+				message: "Commit c0",
+				author: "Test Author",
+				date: new Date("2024-01-01"),
+			},
+			{
+				hash: "c1",
+				message: "Commit c1",
+				author: "Test Author",
+				date: new Date("2024-01-01"),
+			},
+		]);
+	});
+
+	it("should not pick up changes made to appended commits", () => {
+		const history = makeHistory();
+		const store = new CommitStateStore();
+		store.append(history);
+
+		history[0].files[0].size = 9999;
+		expect(store.getStateAt(0).files[0].size).not.toBe(9999);
+	});
+
+	it("should throw for indices outside the stored range", () => {
+		const store = new CommitStateStore();
+		store.append(makeHistory().slice(0, 1));
+
+		expect(() => store.getStateAt(1)).toThrow("out of range");
+	});
+
+	it("should list the files each commit touched", () => {
+		const history = makeHistory();
+		const first = history[0].files.find((file) => file.path === "src/a.ts");
+		const grown = history[1].files.find((file) => file.path === "src/a.ts");
+		if (!first || !grown) throw new Error("missing fixture file");
+		first.fileStatus = "added";
+		first.sizeChange = "unchanged";
+		grown.sizeChange = "increase";
+		const moved = history[2].files.find((file) => file.path === "README.md");
+		if (!moved) throw new Error("missing fixture file");
+		moved.fileStatus = "moved";
+
+		const store = new CommitStateStore(2);
+		store.append(history);
+
+		expect(store.getChangedPaths(0)).toEqual([]);
+		expect(store.getChangedPaths(1)).toEqual(["src/a.ts"]);
+		expect(store.getChangedPaths(2)).toEqual(["README.md"]);
+		expect(store.getChangedPaths(99)).toEqual([]);
+	});
+
+	it("should list every file in the commit's changes, including net-zero edits", () => {
+		const history = makeHistory().slice(0, 2);
+		history[1].changes = [
+			{ path: "src/a.ts", insertions: 1, deletions: 0, status: "modified" },
+			{ path: "README.md", insertions: 1, deletions: 1, status: "modified" },
+		];
+
+		const store = new CommitStateStore();
+		store.append(history);
+
+		expect(store.getChangedPaths(1)).toEqual(["src/a.ts", "README.md"]);
+	});
+
+	it("should restore a serialized store and keep appending after it", () => {
+		const history = makeHistory();
+		const original = new CommitStateStore(3);
+		original.append(history.slice(0, 4));
+
+		const restored = new CommitStateStore();
+		restored.restore(JSON.parse(JSON.stringify(original.serialize())));
+		restored.append(history.slice(4));
+
+		expect(restored.length).toBe(7);
+		expect(restored.getCommit(2).date).toEqual(history[2].date);
+		for (let i = 0; i < history.length; i++) {
+			expect(sizes(restored.getStateAt(i))).toEqual(sizes(history[i]));
+		}
+		expect(restored.getChangedPaths(3)).toEqual(original.getChangedPaths(3));
+	});
+});
@@ -0,0 +1,282 @@
+import type { CommitData, CommitSummary, FileEdge, FileNode } from "../types";
+
+// Store a full copy of the file tree every N commits
+export const CHECKPOINT_INTERVAL = 50;
+
+/**
+ * Changes to the file tree since the previous commit
+ */
+interface CommitDelta {
+	changed: FileNode[]; // Nodes that are new or differ from the previous commit
+	removed: string[]; // Ids of nodes gone since the previous commit
+	addedEdges: FileEdge[];
+	removedEdges: string[]; // Keys of edges gone since the previous commit
+}
+
+interface StoredCommit {
+	checkpoint?: { files: FileNode[]; edges: FileEdge[] };
+	delta?: CommitDelta;
+	changedPaths: string[]; // Files the commit touched
+}
+
+/**
+ * JSON-safe copy of a store (dates as ISO strings), for caching
+ */
+export interface SerializedCommitStore {
+	checkpointInterval: number;
+	summaries: Array<Omit<CommitSummary, "date"> & { date: string }>;
+	stored: StoredCommit[];
+}
+
+function edgeKey(edge: FileEdge): string {
+	return `${edge.type}:${edge.source}->${edge.target}`;
+}
+
+function sameImports(a?: string[], b?: string[]): boolean {
+	if (a === b) return true;
+	if (!a || !b || a.length !== b.length) return false;
+	return a.every((specifier, i) => specifier === b[i]);
+}
+
+/**
+ * Whether the commit that produced a node touched the file, judged from the
+ * tree alone for commits without `changes` (cached before they were kept)
+ * Edits that leave the size unchanged can't be seen this way, and the first
+ * commit's files count as untouched - they only seed the tree
+ */
+function isTouched(file: FileNode): boolean {
+	return (
+		file.type === "file" &&
+		(file.fileStatus === "moved" ||
+			file.sizeChange === "increase" ||
+			file.sizeChange === "decrease")
+	);
+}
+
+/**
+ * Compare the data fields of two nodes (layout positions are ignored)
+ */
+function sameNode(a: FileNode, b: FileNode): boolean {
+	return (
+		a.path === b.path &&
+		a.name === b.name &&
+		a.size === b.size &&
+		a.type === b.type &&
+		a.previousSize === b.previousSize &&
+		a.sizeChange === b.sizeChange &&
+		a.fileStatus === b.fileStatus &&
+		a.previousPath === b.previousPath &&
+		a.lastAuthor === b.lastAuthor &&
+		sameImports(a.imports, b.imports)
+	);
+}
+
+/**
+ * Commit history stored as per-commit deltas with a full checkpoint every N commits
+ *
+ * Memory grows with the number of changed files instead of commits × files.
+ * getStateAt rebuilds a commit's tree from the nearest checkpoint at or before
+ * it, or from the last resolved commit when stepping forward.
+ */
+export class CommitStateStore {
+	private summaries: CommitSummary[] = [];
+	private stored: StoredCommit[] = [];
+	private checkpointInterval: number;
+
+	// Tree of the newest commit, to diff the next appended commit against
+	private lastFiles = new Map<string, FileNode>();
+	private lastEdges = new Map<string, FileEdge>();
+
+	// Last resolved commit, reused for repeated lookups and forward steps
+	private resolved: {
+		index: number;
+		commit: CommitData;
+		files: Map<string, FileNode>;
+		edges: Map<string, FileEdge>;
+	} | null = null;
+
+	constructor(checkpointInterval = CHECKPOINT_INTERVAL) {
+		this.checkpointInterval = checkpointInterval;
+	}
+
+	get length(): number {
+		return this.stored.length;
+	}
+
+	/**
+	 * Append commits (oldest first) after the ones already stored
+	 * Nodes are copied, so later changes to the given commits don't leak in
+	 */
+	append(commits: CommitData[]): void {
+		for (const commit of commits) {
+			const { files: fileList, edges: edgeList, ...summary } = commit;
+			const files = new Map(fileList.map((file) => [file.id, { ...file }]));
+			const edges = new Map(edgeList.map((edge) => [edgeKey(edge), edge]));
+			const changedPaths = commit.changes
+				? commit.changes.map((change) => change.path)
+				: fileList.filter(isTouched).map((file) => file.path);
+
+			if (this.stored.length % this.checkpointInterval === 0) {
+				this.stored.push({
+					checkpoint: {
+						files: Array.from(files.values()),
+						edges: Array.from(edges.values()),
+					},
+					changedPaths,
+				});
+			} else {
+				this.stored.push({ delta: this.diff(files, edges), changedPaths });
+			}
+
+			this.lastFiles = files;
+			this.lastEdges = edges;
+			this.summaries.push(summary);
+		}
+	}
+
+	/**
+	 * Checkpoints and deltas as they are stored, for caching
+	 * Shares nodes with the store, so it should be serialized rather than kept
+	 */
+	serialize(): SerializedCommitStore {
+		return {
+			checkpointInterval: this.checkpointInterval,
+			summaries: this.summaries.map((summary) => ({
+				...summary,
+				date: summary.date.toISOString(),
+			})),
+			stored: this.stored,
+		};
+	}
+
+	/**
+	 * Replace the stored commits with serialized ones
+	 * Appends then continue after the last restored commit
+	 */
+	restore(data: SerializedCommitStore): void {
+		this.checkpointInterval = data.checkpointInterval;
+		this.summaries = data.summaries.map((summary) => ({
+			...summary,
+			date: new Date(summary.date),
+		}));
+		this.stored = data.stored;
+		this.resolved = null;
+		this.lastFiles = new Map();
+		this.lastEdges = new Map();
+
+		if (this.stored.length > 0) {
+			const last = this.getStateAt(this.stored.length - 1);
+			this.lastFiles = new Map(last.files.map((file) => [file.id, file]));
+			this.lastEdges = new Map(last.edges.map((edge) => [edgeKey(edge), edge]));
+		}
+	}
+
+	/**
+	 * Commit metadata without file trees, in timeline order
+	 * Returns a new array so appends are visible to React
+	 */
+	getCommits(): CommitSummary[] {
+		return [...this.summaries];
+	}
+
+	/**
+	 * Commit metadata at an index
+	 */
+	getCommit(index: number): CommitSummary {
+		return this.summaries[index];
+	}
+
+	/**
+	 * Paths of the files a commit touched, without resolving its tree
+	 */
+	getChangedPaths(index: number): string[] {
+		return this.stored[index]?.changedPaths ?? [];
+	}
+
+	/**
+	 * Resolve the full commit, with files and edges, at an index
+	 * The returned nodes are shared with the store and must not be mutated
+	 */
+	getStateAt(index: number): CommitData {
+		if (index < 0 || index >= this.stored.length) {
+			throw new Error(
+				`Commit index ${index} out of range (0-${this.stored.length - 1})`,
+			);
+		}
+
+		if (this.resolved?.index === index) {
+			return this.resolved.commit;
+		}
+
+		const checkpointIndex = index - (index % this.checkpointInterval);
+		let files: Map<string, FileNode>;
+		let edges: Map<string, FileEdge>;
+		let from: number;
+
+		if (
+			this.resolved &&
+			this.resolved.index >= checkpointIndex &&
+			this.resolved.index < index
+		) {
+			files = new Map(this.resolved.files);
+			edges = new Map(this.resolved.edges);
+			from = this.resolved.index + 1;
+		} else {
+			const checkpoint = this.stored[checkpointIndex].checkpoint;
+			if (!checkpoint) {
+				throw new Error(`Missing checkpoint for commit ${checkpointIndex}`);
+			}
+			files = new Map(checkpoint.files.map((file) => [file.id, file]));
+			edges = new Map(checkpoint.edges.map((edge) => [edgeKey(edge), edge]));
+			from = checkpointIndex + 1;
+		}
+
+		for (let i = from; i <= index; i++) {
+			const delta = this.stored[i].delta;
+			if (!delta) continue;
+
+			for (const id of delta.removed) files.delete(id);
+			for (const file of delta.changed) files.set(file.id, file);
+			for (const key of delta.removedEdges) edges.delete(key);
+			for (const edge of delta.addedEdges) edges.set(edgeKey(edge), edge);
+		}
+
+		const commit: CommitData = {
+			...this.summaries[index],
+			files: Array.from(files.values()),
+			edges: Array.from(edges.values()),
+		};
+		this.resolved = { index, commit, files, edges };
+		return commit;
+	}
+
+	private diff(
+		files: Map<string, FileNode>,
+		edges: Map<string, FileEdge>,
+	): CommitDelta {
+		const delta: CommitDelta = {
+			changed: [],
+			removed: [],
+			addedEdges: [],
+			removedEdges: [],
+		};
+
+		for (const [id, file] of files) {
+			const previous = this.lastFiles.get(id);
+			if (!previous || !sameNode(previous, file)) {
+				delta.changed.push(file);
+			}
+		}
+		for (const id of this.lastFiles.keys()) {
+			if (!files.has(id)) delta.removed.push(id);
+		}
+		for (const [key, edge] of edges) {
+			if (!this.lastEdges.has(key)) delta.addedEdges.push(edge);
+		}
+		for (const key of this.lastEdges.keys()) {
+			if (!edges.has(key)) delta.removedEdges.push(key);
+		}
+
+		return delta;
+	}
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { CommitSummary, FileChange } from "../types";
+import { getFileHistory } from "./fileHistory";
+
+function commit(
+	hash: string,
+	day: number,
+	changes?: FileChange[],
+): CommitSummary {
+	return {
+		hash,
+		message: `Commit ${hash}`,
+		author: "alice",
+		date: new Date(2024, 0, day),
+		changes,
+	};
+}
+
+function change(
+	path: string,
+	status: FileChange["status"] = "modified",
+	oldPath?: string,
+): FileChange {
+	return { path, oldPath, insertions: 1, deletions: 0, status };
+}
+
+// a.ts is added, edited, renamed to b.ts, edited, then renamed to c.ts
+const commits: CommitSummary[] = [
+	commit("c0", 1, [change("a.ts", "added"), change("other.ts", "added")]),
+	commit("c1", 2, [change("a.ts")]),
+	commit("c2", 3, [change("other.ts")]),
+	commit("c3", 4, [change("b.ts", "renamed", "a.ts")]),
+	commit("c4", 5, [change("b.ts")]),
+	commit("c5", 6, [change("c.ts", "renamed", "b.ts")]),
+	commit("c6", 7, [change("c.ts")]),
+];
+
+const noChangedPaths = () => [];
+
+describe("getFileHistory", () => {
+	it("should list the commits that touched a file, oldest first", () => {
+		const history = getFileHistory(commits, "other.ts", 6, noChangedPaths);
+
+		expect(history.map(({ index }) => index)).toEqual([0, 2]);
+		expect(history[0].change?.status).toBe("added");
+	});
+
+	it("should follow renames to older and newer names", () => {
+		const history = getFileHistory(commits, "b.ts", 4, noChangedPaths);
+
+		expect(history.map(({ commit }) => commit.hash)).toEqual([
+			"c0",
+			"c1",
+			"c3",
+			"c4",
+			"c5",
+			"c6",
+		]);
+		expect(history[4].change).toMatchObject({
+			path: "c.ts",
+			oldPath: "b.ts",
+			status: "renamed",
+		});
+	});
+
+	it("should fall back to the store's changed paths without line counts", () => {
+		const cached = [commit("c0", 1), commit("c1", 2), commit("c2", 3)];
+		const history = getFileHistory(cached, "a.ts", 2, (index) =>
+			index === 1 ? ["a.ts"] : ["z.ts"],
+		);
+
+		expect(history).toEqual([{ index: 1, commit: cached[1] }]);
+	});
+});
@@ -0,0 +1,72 @@
+import type { CommitSummary, FileChange } from "../types";
+
+/**
+ * A commit that touched a file
+ */
+export interface FileHistoryEntry {
+	index: number; // Position of the commit in the timeline
+	commit: CommitSummary;
+	change?: FileChange; // Missing for commits cached before line counts were kept
+}
+
+/**
+ * The file's change in a commit, or an entry without line counts when the
+ * commit predates them but the store knows the file was touched
+ */
+function findEntry(
+	commits: CommitSummary[],
+	index: number,
+	path: string,
+	getChangedPaths: (index: number) => string[],
+): FileHistoryEntry | null {
+	const commit = commits[index];
+	if (commit.changes) {
+		const change = commit.changes.find((c) => c.path === path);
+		return change ? { index, commit, change } : null;
+	}
+	return getChangedPaths(index).includes(path) ? { index, commit } : null;
+}
+
+/**
+ * Every loaded commit that touched a file, oldest first
+ *
+ * The file is identified by its path at `fromIndex`. Renames are followed in
+ * both directions, so earlier commits are matched under the file's older
+ * names and later ones under its newer names.
+ */
+export function getFileHistory(
+	commits: CommitSummary[],
+	path: string,
+	fromIndex: number,
+	getChangedPaths: (index: number) => string[],
+): FileHistoryEntry[] {
+	const start = Math.min(fromIndex, commits.length - 1);
+	const earlier: FileHistoryEntry[] = [];
+	const later: FileHistoryEntry[] = [];
+
+	let name = path;
+	for (let i = start; i >= 0; i--) {
+		const entry = findEntry(commits, i, name, getChangedPaths);
+		if (!entry) continue;
+		earlier.push(entry);
+		if (entry.change?.status === "renamed" && entry.change.oldPath) {
+			name = entry.change.oldPath;
+		}
+	}
+
+	name = path;
+	for (let i = start + 1; i < commits.length; i++) {
+		const renamed = commits[i].changes?.find(
+			(c) => c.status === "renamed" && c.oldPath === name,
+		);
+		if (renamed) {
+			later.push({ index: i, commit: commits[i], change: renamed });
+			name = renamed.path;
+			continue;
+		}
+		const entry = findEntry(commits, i, name, getChangedPaths);
+		if (entry) later.push(entry);
+	}
+
+	return [...earlier.reverse(), ...later];
+}
@@ -582,7 +582,7 @@ describe("FileStateTracker", () => {
 			expect(data[0]).toEqual({ path: "test.ts", size: 100 });
 		});
 
-		it("should filter out files with non-positive sizes", () => {
+		it("should keep files whose size estimate falls to zero or below", () => {
 			tracker.updateFromPRFiles([
 				{
 					filename: "test.ts",
@@ -593,7 +593,7 @@ describe("FileStateTracker", () => {
 				},
 			]);
 
-			// This could theoretically make size negative
+			// Line counts can drift below zero, but the file still exists
 			tracker.updateFromPRFiles([
 				{
 					filename: "test.ts",
@@ -604,9 +604,62 @@ describe("FileStateTracker", () => {
 				},
 			]);
 
-			const data = tracker.getFileData();
-			// Files with size <= 0 are filtered out (effectively deleted)
-			expect(data).toHaveLength(0);
+			expect(tracker.getFileData()).toEqual([{ path: "test.ts", size: 1 }]);
+		});
+
+		it("should keep seeded files through deletion-heavy estimated changes", () => {
+			const estimating = new FileStateTracker(40);
+			// A lockfile with short lines: 600 bytes but 100 lines
+			estimating.seed([{ path: "pnpm-lock.yaml", size: 600 }]);
+
+			estimating.updateFromPRFiles([
+				{
+					filename: "pnpm-lock.yaml",
+					status: "modified",
+					additions: 5,
+					deletions: 40,
+					changes: 45,
+				},
+			]);
+			expect(estimating.getFileData()).toEqual([
+				{ path: "pnpm-lock.yaml", size: 1 },
+			]);
+
+			estimating.updateFromPRFiles([
+				{
+					filename: "pnpm-lock.yaml",
+					status: "modified",
+					additions: 2,
+					deletions: 0,
+					changes: 2,
+				},
+			]);
+			expect(estimating.getFileData()).toEqual([
+				{ path: "pnpm-lock.yaml", size: 81 },
+			]);
+		});
+
+		it("should keep seeded empty files until they are removed", () => {
+			tracker.seed([
+				{ path: "src/__init__.py", size: 0 },
+				{ path: "main.py", size: 50 },
+			]);
+
+			expect(tracker.getFileData()).toEqual([
+				{ path: "src/__init__.py", size: 0 },
+				{ path: "main.py", size: 50 },
+			]);
+
+			tracker.updateFromPRFiles([
+				{
+					filename: "src/__init__.py",
+					status: "removed",
+					additions: 0,
+					deletions: 0,
+					changes: 0,
+				},
+			]);
+			expect(tracker.getFileData()).toEqual([{ path: "main.py", size: 50 }]);
 		});
 
 		it("should return multiple files", () => {
@@ -784,4 +837,274 @@ describe("FileStateTracker", () => {
 			expect(state[0][1]).toBe(130); // 100 + 50 - 20
 		});
 	});
+
+	describe("imports", () => {
+		it("should keep imports until a change reports new ones", () => {
+			tracker.updateFromPRFiles([
+				{
+					filename: "src/a.ts",
+					status: "added",
+					additions: 10,
+					deletions: 0,
+					changes: 10,
+					imports: ["./b"],
+				},
+			]);
+			tracker.updateFromPRFiles([
+				{
+					filename: "src/a.ts",
+					status: "modified",
+					additions: 5,
+					deletions: 0,
+					changes: 5,
+				},
+			]);
+
+			expect(tracker.getFileData()).toEqual([
+				{ path: "src/a.ts", size: 15, imports: ["./b"] },
+			]);
+
+			tracker.updateFromPRFiles([
+				{
+					filename: "src/a.ts",
+					status: "modified",
+					additions: 1,
+					deletions: 0,
+					changes: 1,
+					imports: [],
+				},
+			]);
+
+			expect(tracker.getFileData()[0].imports).toEqual([]);
+		});
+
+		it("should move imports with renamed files and drop them on removal", () => {
+			tracker.updateFromPRFiles([
+				{
+					filename: "old.py",
+					status: "added",
+					additions: 10,
+					deletions: 0,
+					changes: 10,
+					imports: ["os"],
+				},
+			]);
+			tracker.updateFromPRFiles([
+				{
+					filename: "new.py",
+					status: "renamed",
+					additions: 0,
+					deletions: 0,
+					changes: 0,
+					previous_filename: "old.py",
+				},
+			]);
+
+			expect(tracker.getFileData()).toEqual([
+				{ path: "new.py", size: 10, imports: ["os"], previousPath: "old.py" },
+			]);
+
+			tracker.updateFromPRFiles([
+				{
+					filename: "new.py",
+					status: "removed",
+					additions: 0,
+					deletions: 10,
+					changes: 10,
+				},
+			]);
+			tracker.updateFromPRFiles([
+				{
+					filename: "new.py",
+					status: "added",
+					additions: 3,
+					deletions: 0,
+					changes: 3,
+				},
+			]);
+
+			expect(tracker.getFileData()).toEqual([{ path: "new.py", size: 3 }]);
+		});
+	});
+
+	describe("seeding and byte estimates", () => {
+		it("should start from seeded sizes and scale line deltas", () => {
+			const byteTracker = new FileStateTracker(40);
+			byteTracker.seed([
+				{ path: "README.md", size: 1000 },
+				{ path: "src/a.ts", size: 500, imports: ["./b"] },
+			]);
+
+			byteTracker.updateFromPRFiles([
+				{
+					filename: "README.md",
+					status: "modified",
+					additions: 3,
+					deletions: 1,
+					changes: 4,
+				},
+			]);
+
+			expect(byteTracker.getFileData()).toEqual([
+				{ path: "README.md", size: 1080 },
+				{ path: "src/a.ts", size: 500, imports: ["./b"] },
+			]);
+		});
+	});
+
+	describe("authors", () => {
+		it("should record the last author to touch each file", () => {
+			tracker.updateFromPRFiles(
+				[
+					{
+						filename: "a.ts",
+						status: "added",
+						additions: 10,
+						deletions: 0,
+						changes: 10,
+					},
+					{
+						filename: "b.ts",
+						status: "added",
+						additions: 5,
+						deletions: 0,
+						changes: 5,
+					},
+				],
+				"alice",
+			);
+			tracker.updateFromPRFiles(
+				[
+					{
+						filename: "b.ts",
+						status: "modified",
+						additions: 1,
+						deletions: 0,
+						changes: 1,
+					},
+				],
+				"bob",
+			);
+
+			expect(tracker.getFileData()).toEqual([
+				{ path: "a.ts", size: 10, lastAuthor: "alice" },
+				{ path: "b.ts", size: 6, lastAuthor: "bob" },
+			]);
+		});
+
+		it("should keep the author through renames and drop it on removal", () => {
+			tracker.updateFromPRFiles(
+				[
+					{
+						filename: "old.ts",
+						status: "added",
+						additions: 10,
+						deletions: 0,
+						changes: 10,
+					},
+				],
+				"alice",
+			);
+			tracker.updateFromPRFiles([
+				{
+					filename: "new.ts",
+					status: "renamed",
+					previous_filename: "old.ts",
+					additions: 0,
+					deletions: 0,
+					changes: 0,
+				},
+			]);
+
+			expect(tracker.getFileData()).toEqual([
+				{
+					path: "new.ts",
+					size: 10,
+					previousPath: "old.ts",
+					lastAuthor: "alice",
+				},
+			]);
+
+			tracker.updateFromPRFiles([
+				{
+					filename: "new.ts",
+					status: "removed",
+					additions: 0,
+					deletions: 10,
+					changes: 10,
+				},
+				{
+					filename: "new.ts",
+					status: "added",
+					additions: 3,
+					deletions: 0,
+					changes: 3,
+				},
+			]);
+
+			expect(tracker.getFileData()).toEqual([{ path: "new.ts", size: 3 }]);
+		});
+	});
+
+	describe("rename reporting", () => {
+		it("should report a rename's old path until the next update", () => {
+			tracker.updateFromPRFiles([
+				{
+					filename: "src/old.ts",
+					status: "added",
+					additions: 10,
+					deletions: 0,
+					changes: 10,
+				},
+			]);
+			tracker.updateFromPRFiles([
+				{
+					filename: "lib/new.ts",
+					status: "renamed",
+					previous_filename: "src/old.ts",
+					additions: 0,
+					deletions: 0,
+					changes: 0,
+				},
+			]);
+
+			expect(tracker.getFileData()).toEqual([
+				{ path: "lib/new.ts", size: 10, previousPath: "src/old.ts" },
+			]);
+
+			tracker.updateFromPRFiles([]);
+
+			expect(tracker.getFileData()).toEqual([{ path: "lib/new.ts", size: 10 }]);
+		});
+
+		it("should not report a deleted file and a new file with the same name as a rename", () => {
+			tracker.updateFromPRFiles([
+				{
+					filename: "a/index.ts",
+					status: "added",
+					additions: 10,
+					deletions: 0,
+					changes: 10,
+				},
+			]);
+			tracker.updateFromPRFiles([
+				{
+					filename: "a/index.ts",
+					status: "removed",
+					additions: 0,
+					deletions: 10,
+					changes: 10,
+				},
+				{
+					filename: "b/index.ts",
+					status: "added",
+					additions: 10,
+					deletions: 0,
+					changes: 10,
+				},
+			]);
+
+			expect(tracker.getFileData()).toEqual([{ path: "b/index.ts", size: 10 }]);
+		});
+	});
 });
@@ -1,38 +1,111 @@
 import type { GitHubPRFile } from "../types/github";
+import type { FileData } from "./fileTreeBuilder";
+
+// Smallest size kept for a file whose estimated size falls to zero or below.
+// Line-based estimates drift (short lines, base tree sizes in bytes), and only
+// a "removed" status means the file is gone
+const MIN_FILE_SIZE = 1;
 
 /**
  * Tracks cumulative file state across multiple PR changes
- * Maintains a map of file paths to their current sizes
+ * Maintains a map of file paths to their current sizes, plus the import
+ * specifiers and author last seen for each file and the renames of the latest update
  */
 export class FileStateTracker {
 	private fileState = new Map<string, number>();
+	private importState = new Map<string, string[]>();
+	private authorState = new Map<string, string>();
+	private renames = new Map<string, string>(); // new path -> old path
+	private bytesPerLine: number;
+
+	/**
+	 * @param bytesPerLine - Scale applied to additions/deletions; 1 keeps sizes
+	 * in the provider's units, larger values turn line counts into estimated bytes
+	 */
+	constructor(bytesPerLine = 1) {
+		this.bytesPerLine = bytesPerLine;
+	}
+
+	/**
+	 * Set known file sizes directly (e.g. real sizes from a git tree)
+	 */
+	seed(
+		files: Array<{
+			path: string;
+			size: number;
+			imports?: string[];
+			lastAuthor?: string;
+		}>,
+	): void {
+		for (const file of files) {
+			this.fileState.set(file.path, file.size);
+			if (file.imports) {
+				this.importState.set(file.path, file.imports);
+			}
+			if (file.lastAuthor) {
+				this.authorState.set(file.path, file.lastAuthor);
+			}
+		}
+	}
 
 	/**
 	 * Update file state based on PR file changes
+	 * Files without `imports` keep the imports recorded for them earlier
+	 * Renames are only reported until the next update
+	 *
+	 * @param author - Author of the change, recorded as the last author of every file it touched
 	 */
-	updateFromPRFiles(prFiles: GitHubPRFile[]): void {
+	updateFromPRFiles(
+		prFiles: Array<GitHubPRFile & { imports?: string[] }>,
+		author?: string,
+	): void {
+		this.renames.clear();
+
 		for (const file of prFiles) {
 			if (file.status === "removed") {
 				this.fileState.delete(file.filename);
-			} else if (file.status === "renamed" && file.previous_filename) {
+				this.importState.delete(file.filename);
+				this.authorState.delete(file.filename);
+				this.renames.delete(file.filename);
+				continue;
+			}
+
+			if (file.status === "renamed" && file.previous_filename) {
 				// Handle renames - preserve old size and apply delta
 				const oldSize = this.fileState.get(file.previous_filename) || 0;
+				const oldImports = this.importState.get(file.previous_filename);
+				const oldAuthor = this.authorState.get(file.previous_filename);
 				this.fileState.delete(file.previous_filename);
-				this.fileState.set(
-					file.filename,
-					oldSize + file.additions - file.deletions,
-				);
+				this.importState.delete(file.previous_filename);
+				this.authorState.delete(file.previous_filename);
+				if (oldImports) {
+					this.importState.set(file.filename, oldImports);
+				}
+				if (oldAuthor) {
+					this.authorState.set(file.filename, oldAuthor);
+				}
+				this.fileState.set(file.filename, this.applyDelta(oldSize, file));
+				this.renames.set(file.filename, file.previous_filename);
 			} else {
 				// Added or modified - apply delta to current size
 				const currentSize = this.fileState.get(file.filename) || 0;
-				this.fileState.set(
-					file.filename,
-					currentSize + file.additions - file.deletions,
-				);
+				this.fileState.set(file.filename, this.applyDelta(currentSize, file));
+			}
+
+			if (file.imports) {
+				this.importState.set(file.filename, file.imports);
+			}
+			if (author) {
+				this.authorState.set(file.filename, author);
 			}
 		}
 	}
 
+	private applyDelta(size: number, file: GitHubPRFile): number {
+		const delta = (file.additions - file.deletions) * this.bytesPerLine;
+		return Math.max(MIN_FILE_SIZE, size + delta);
+	}
+
 	/**
 	 * Get current file state as an array of [path, size] tuples
 	 */
@@ -42,14 +115,26 @@ export class FileStateTracker {
 
 	/**
 	 * Get file data suitable for building file tree
+	 * Every tracked file exists - seeded empty files are kept at size 0
+	 * Files renamed by the latest update carry their old path as `previousPath`
 	 */
-	getFileData(): Array<{ path: string; size: number }> {
-		return this.getFileState()
-			.filter(([, size]) => size > 0) // Exclude files with 0 or negative size (deleted)
-			.map(([path, size]) => ({
-				path,
-				size,
-			}));
+	getFileData(): FileData[] {
+		return this.getFileState().map(([path, size]) => {
+			const data: FileData = { path, size };
+			const imports = this.importState.get(path);
+			if (imports) {
+				data.imports = imports;
+			}
+			const previousPath = this.renames.get(path);
+			if (previousPath) {
+				data.previousPath = previousPath;
+			}
+			const lastAuthor = this.authorState.get(path);
+			if (lastAuthor) {
+				data.lastAuthor = lastAuthor;
+			}
+			return data;
+		});
 	}
 
 	/**
@@ -57,5 +142,8 @@ export class FileStateTracker {
 	 */
 	clear(): void {
 		this.fileState.clear();
+		this.importState.clear();
+		this.authorState.clear();
+		this.renames.clear();
 	}
 }
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { buildEdges, buildFileTree, type FileData } from "./fileTreeBuilder";
+import {
+	buildDependencyEdges,
+	buildEdges,
+	buildFileTree,
+	type FileData,
+} from "./fileTreeBuilder";
 
 describe("buildFileTree", () => {
 	describe("basic file tree construction", () => {
@@ -692,3 +697,41 @@ describe("buildFileTree and buildEdges integration", () => {
 		});
 	});
 });
+
+describe("buildDependencyEdges", () => {
+	it("should link files to the repo files they import", () => {
+		const files: FileData[] = [
+			{ path: "src/index.ts", size: 100, imports: ["./utils", "react"] },
+			{ path: "src/utils/index.ts", size: 50, imports: ["../index.js"] },
+		];
+
+		expect(buildDependencyEdges(files)).toEqual([
+			{
+				source: "src/index.ts",
+				target: "src/utils/index.ts",
+				type: "dependency",
+			},
+			{
+				source: "src/utils/index.ts",
+				target: "src/index.ts",
+				type: "dependency",
+			},
+		]);
+	});
+
+	it("should skip files without imports and duplicate targets", () => {
+		const files: FileData[] = [
+			{ path: "a.ts", size: 10, imports: ["./b", "./b.ts"] },
+			{ path: "b.ts", size: 10 },
+		];
+
+		expect(buildDependencyEdges(files)).toEqual([
+			{ source: "a.ts", target: "b.ts", type: "dependency" },
+		]);
+	});
+
+	it("should carry imports onto file nodes", () => {
+		const nodes = buildFileTree([{ path: "a.ts", size: 10, imports: ["./b"] }]);
+		expect(nodes.find((n) => n.path === "a.ts")?.imports).toEqual(["./b"]);
+	});
+});
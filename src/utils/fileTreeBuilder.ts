@@ -1,4 +1,5 @@
 import { FileEdge, FileNode } from "../types";
+import { buildPathIndex, resolveImport } from "./importResolver";
 
 // Version marker to verify code updates
 export const FILE_TREE_BUILDER_VERSION = "2025-11-04-v2";
@@ -11,6 +12,9 @@ export interface FileData {
 	path: string;
 	size: number;
 	type?: "file" | "directory";
+	imports?: string[]; // Import specifiers from the file's source
+	previousPath?: string; // Old path when the file was just renamed
+	lastAuthor?: string; // Author of the most recent commit that touched the file
 }
 
 /**
@@ -34,6 +38,16 @@ export function buildFileTree(files: FileData[]): FileNode[] {
 			size: file.size,
 			type: file.type || "file",
 		};
+		if (file.imports) {
+			node.imports = file.imports;
+		}
+		if (file.previousPath) {
+			node.previousPath = file.previousPath;
+			node.fileStatus = "moved";
+		}
+		if (file.lastAuthor) {
+			node.lastAuthor = file.lastAuthor;
+		}
 		nodes.push(node);
 		pathMap.set(file.path, node);
 
@@ -157,3 +171,35 @@ export function buildEdges(files: FileData[]): FileEdge[] {
 
 	return edges;
 }
+
+/**
+ * Build dependency edges from each file to the files it imports
+ * Imports that point outside the repository (packages, stdlib) are skipped
+ *
+ * @param files - Array of file data with paths and import specifiers
+ * @returns Array of FileEdge objects from importer to imported file
+ */
+export function buildDependencyEdges(files: FileData[]): FileEdge[] {
+	const index = buildPathIndex(
+		files.filter((f) => f.type !== "directory").map((f) => f.path),
+	);
+	const edges: FileEdge[] = [];
+
+	for (const file of files) {
+		if (!file.imports) continue;
+
+		const targets = new Set<string>();
+		for (const specifier of file.imports) {
+			const target = resolveImport(file.path, specifier, index);
+			if (target && target !== file.path) {
+				targets.add(target);
+			}
+		}
+
+		for (const target of targets) {
+			edges.push({ source: file.path, target, type: "dependency" });
+		}
+	}
+
+	return edges;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildDependencyEdges,
+	buildEdges,
+	buildFileTree,
+} from "./fileTreeBuilder";
+import {
+	DEFAULT_FILE_COLOR,
+	getFileExtension,
+	getFileTypeColor,
+	getFileTypeColors,
+	getFileTypeLegend,
+	hideFileTypes,
+	normalizeFileTypeColors,
+} from "./fileTypes";
+
+const files = [
+	{ path: "README.md", size: 500 },
+	{ path: "src/index.ts", size: 2000, imports: ["./util"] },
+	{ path: "src/util.ts", size: 1000 },
+	{ path: "src/styles.CSS", size: 300 },
+	{ path: "Makefile", size: 100 },
+];
+
+describe("getFileExtension", () => {
+	it("should return the lower-case extension without the dot", () => {
+		expect(getFileExtension("src/index.ts")).toBe("ts");
+		expect(getFileExtension("src/styles.CSS")).toBe("css");
+		expect(getFileExtension("archive.tar.gz")).toBe("gz");
+	});
+
+	it("should treat dotfiles and bare names as having no extension", () => {
+		expect(getFileExtension("Makefile")).toBe("");
+		expect(getFileExtension("config/.gitignore")).toBe("");
+		expect(getFileExtension("v1.2/LICENSE")).toBe("");
+	});
+});
+
+describe("getFileTypeColor", () => {
+	it("should prefer overrides to the built-in colours", () => {
+		const overrides = normalizeFileTypeColors({ ".TS": "#123456" });
+
+		expect(getFileTypeColor("ts", overrides)).toBe("#123456");
+		expect(getFileTypeColor("ts")).not.toBe(DEFAULT_FILE_COLOR);
+	});
+
+	it("should fall back to the default colour", () => {
+		expect(getFileTypeColor("xyz")).toBe(DEFAULT_FILE_COLOR);
+		expect(getFileTypeColor("")).toBe(DEFAULT_FILE_COLOR);
+		expect(getFileTypeColor("constructor")).toBe(DEFAULT_FILE_COLOR);
+	});
+});
+
+describe("getFileTypeColors", () => {
+	it("should colour files only", () => {
+		const colors = getFileTypeColors(buildFileTree(files), { ts: "#123456" });
+
+		expect(colors.get("src/index.ts")).toBe("#123456");
+		expect(colors.get("Makefile")).toBe(DEFAULT_FILE_COLOR);
+		expect(colors.has("src")).toBe(false);
+	});
+});
+
+describe("getFileTypeLegend", () => {
+	it("should count files and bytes per extension, most files first", () => {
+		const legend = getFileTypeLegend(buildFileTree(files));
+
+		expect(
+			legend.map(({ extension, files, size }) => [extension, files, size]),
+		).toEqual([
+			["ts", 2, 3000],
+			["", 1, 100],
+			["css", 1, 300],
+			["md", 1, 500],
+		]);
+	});
+
+	it("should not count deleted files", () => {
+		const nodes = buildFileTree(files).map((node) =>
+			node.id === "README.md"
+				? { ...node, fileStatus: "deleted" as const }
+				: node,
+		);
+
+		expect(
+			getFileTypeLegend(nodes).map(({ extension }) => extension),
+		).not.toContain("md");
+	});
+});
+
+describe("hideFileTypes", () => {
+	const nodes = buildFileTree(files);
+	const edges = [...buildEdges(files), ...buildDependencyEdges(files)];
+
+	it("should leave everything when nothing is hidden", () => {
+		const result = hideFileTypes(nodes, edges, new Set());
+
+		expect(result.nodes).toBe(nodes);
+		expect(result.edges).toBe(edges);
+	});
+
+	it("should drop hidden files and their edges", () => {
+		const result = hideFileTypes(nodes, edges, new Set(["ts"]));
+		const ids = result.nodes.map((node) => node.id);
+
+		expect(ids).not.toContain("src/index.ts");
+		expect(ids).not.toContain("src/util.ts");
+		expect(ids).toContain("src");
+		expect(ids).toContain("src/styles.CSS");
+		for (const edge of result.edges) {
+			expect([edge.source, edge.target]).not.toContain("src/util.ts");
+			expect([edge.source, edge.target]).not.toContain("src/index.ts");
+		}
+	});
+});
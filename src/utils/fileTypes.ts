@@ -0,0 +1,166 @@
+import type { FileEdge, FileNode } from "../types";
+
+// Colour of files whose extension has no entry in the mapping
+export const DEFAULT_FILE_COLOR = "#10b981";
+
+// Built-in colours by extension, loosely following the usual language colours
+// (lightened where they would vanish against the dark background)
+const FILE_TYPE_COLORS: Record<string, string> = {
+	ts: "#3b82f6",
+	tsx: "#60a5fa",
+	js: "#facc15",
+	jsx: "#fde047",
+	mjs: "#facc15",
+	cjs: "#facc15",
+	py: "#4b8bbe",
+	go: "#00add8",
+	rs: "#dea584",
+	java: "#e76f00",
+	kt: "#a97bff",
+	swift: "#f05138",
+	rb: "#e0115f",
+	php: "#8892bf",
+	c: "#a8b9cc",
+	h: "#a8b9cc",
+	cpp: "#f34b7d",
+	hpp: "#f34b7d",
+	cs: "#68217a",
+	css: "#a78bfa",
+	scss: "#c6538c",
+	html: "#e34c26",
+	vue: "#41b883",
+	svelte: "#ff3e00",
+	json: "#cbcb41",
+	yml: "#f87171",
+	yaml: "#f87171",
+	toml: "#9c4221",
+	md: "#e5e7eb",
+	mdx: "#e5e7eb",
+	sh: "#89e051",
+	sql: "#e38c00",
+	lock: "#6b7280",
+	svg: "#ffb13b",
+	png: "#d946ef",
+	jpg: "#d946ef",
+	gif: "#d946ef",
+};
+
+export interface FileTypeLegendEntry {
+	extension: string; // Without the dot; "" for files without one
+	files: number;
+	size: number; // Total bytes
+	color: string;
+}
+
+/**
+ * Lower-case extension of a path without the dot, or "" when it has none
+ * Dotfiles such as `.gitignore` count as having no extension
+ */
+export function getFileExtension(path: string): string {
+	const name = path.slice(path.lastIndexOf("/") + 1);
+	const dot = name.lastIndexOf(".");
+	return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+/**
+ * Normalize user colour overrides to the mapping's keys (lower case, no dot)
+ */
+export function normalizeFileTypeColors(
+	overrides?: Record<string, string>,
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(overrides ?? {}).map(([extension, color]) => [
+			extension.replace(/^\./, "").toLowerCase(),
+			color,
+		]),
+	);
+}
+
+/**
+ * Colour of an extension, preferring the overrides (normalized) over the built-in mapping
+ */
+export function getFileTypeColor(
+	extension: string,
+	overrides: Record<string, string> = {},
+): string {
+	const color = overrides[extension] ?? FILE_TYPE_COLORS[extension];
+	// Extensions like "constructor" find Object.prototype members instead
+	return typeof color === "string" ? color : DEFAULT_FILE_COLOR;
+}
+
+/**
+ * Colour of each file by its extension, keyed by node id
+ */
+export function getFileTypeColors(
+	nodes: FileNode[],
+	overrides?: Record<string, string>,
+): Map<string, string> {
+	const colors = new Map<string, string>();
+	for (const node of nodes) {
+		if (node.type !== "file") continue;
+		colors.set(
+			node.id,
+			getFileTypeColor(getFileExtension(node.path), overrides),
+		);
+	}
+	return colors;
+}
+
+/**
+ * File count and total size per extension, most files first (ties by extension)
+ * Deleted files are still drawn while they shrink away but aren't counted
+ */
+export function getFileTypeLegend(
+	nodes: FileNode[],
+	overrides?: Record<string, string>,
+): FileTypeLegendEntry[] {
+	const byExtension = new Map<string, FileTypeLegendEntry>();
+	for (const node of nodes) {
+		if (node.type !== "file" || node.fileStatus === "deleted") continue;
+		const extension = getFileExtension(node.path);
+		let entry = byExtension.get(extension);
+		if (!entry) {
+			entry = {
+				extension,
+				files: 0,
+				size: 0,
+				color: getFileTypeColor(extension, overrides),
+			};
+			byExtension.set(extension, entry);
+		}
+		entry.files++;
+		entry.size += node.size;
+	}
+
+	return [...byExtension.values()].sort(
+		(a, b) => b.files - a.files || a.extension.localeCompare(b.extension),
+	);
+}
+
+/**
+ * Drop files with hidden extensions, and their edges, before layout
+ */
+export function hideFileTypes(
+	nodes: FileNode[],
+	edges: FileEdge[],
+	hiddenTypes: ReadonlySet<string>,
+): { nodes: FileNode[]; edges: FileEdge[] } {
+	if (hiddenTypes.size === 0) return { nodes, edges };
+
+	const hidden = new Set<string>();
+	const visibleNodes = nodes.filter((node) => {
+		if (node.type !== "file" || !hiddenTypes.has(getFileExtension(node.path))) {
+			return true;
+		}
+		hidden.add(node.id);
+		return false;
+	});
+	if (hidden.size === 0) return { nodes, edges };
+
+	return {
+		nodes: visibleNodes,
+		edges: edges.filter(
+			(edge) => !hidden.has(edge.source) && !hidden.has(edge.target),
+		),
+	};
+}
@@ -1,6 +1,15 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import type { FileEdge, FileNode } from "../types";
-import { ForceSimulation } from "./forceSimulation";
+import {
+	DEFAULT_FORCE_CONFIG,
+	DEFAULT_THETA,
+	ForceSimulation,
+	getFrameStride,
+	POSITION_STRIDE,
+	packPositions,
+	resolveForceConfig,
+	unpackPositions,
+} from "./forceSimulation";
 
 describe("ForceSimulation", () => {
 	describe("initialization", () => {
@@ -36,6 +45,42 @@ describe("ForceSimulation", () => {
 			});
 		});
 
+		it("should start nodes at the same seeded position regardless of other nodes", () => {
+			const makeNode = (id: string): FileNode => ({
+				id,
+				path: id,
+				name: id,
+				size: 100,
+				type: "file",
+			});
+
+			const first = new ForceSimulation(
+				[makeNode("a.ts")],
+				[],
+				{},
+				"owner/repo",
+			).getNodes()[0];
+			const second = new ForceSimulation(
+				[makeNode("b.ts"), makeNode("a.ts")],
+				[],
+				{},
+				"owner/repo",
+			).getNodes()[1];
+			const otherRepo = new ForceSimulation(
+				[makeNode("a.ts")],
+				[],
+				{},
+				"owner/other",
+			).getNodes()[0];
+
+			expect([second.x, second.y, second.z]).toEqual([
+				first.x,
+				first.y,
+				first.z,
+			]);
+			expect(otherRepo.x).not.toBe(first.x);
+		});
+
 		it("should preserve existing node positions", () => {
 			const nodes: FileNode[] = [
 				{
@@ -855,7 +900,7 @@ describe("ForceSimulation", () => {
 			expect(() => simulation.tick()).not.toThrow();
 		});
 
-		it("should handle config parameter (backward compatibility)", () => {
+		it("should accept a partial config", () => {
 			const nodes: FileNode[] = [
 				{
 					id: "file1",
@@ -866,7 +911,6 @@ describe("ForceSimulation", () => {
 				},
 			];
 
-			// Config is accepted but ignored (for backward compatibility)
 			const simulation = new ForceSimulation(nodes, [], {
 				strength: 1.0,
 				distance: 15,
@@ -876,4 +920,352 @@ describe("ForceSimulation", () => {
 			expect(simulation.getNodes()).toHaveLength(1);
 		});
 	});
+
+	describe("config", () => {
+		const movingNode = (): FileNode => ({
+			id: "file1.ts",
+			path: "file1.ts",
+			name: "file1.ts",
+			size: 100,
+			type: "file",
+			x: 0,
+			y: 0,
+			z: 0,
+			vx: 10,
+			vy: 0,
+			vz: 0,
+		});
+
+		it("should fill in defaults and ignore unset or invalid values", () => {
+			expect(resolveForceConfig()).toEqual(DEFAULT_FORCE_CONFIG);
+			expect(
+				resolveForceConfig({
+					distance: 60,
+					repulsion: undefined,
+					damping: NaN,
+				}),
+			).toEqual({ ...DEFAULT_FORCE_CONFIG, distance: 60 });
+		});
+
+		it("should use the configured damping and centering", () => {
+			const simulation = new ForceSimulation([movingNode()], [], {
+				damping: 0.5,
+				centering: 0,
+			});
+			simulation.tick();
+
+			expect(simulation.getNodes()[0].vx).toBeCloseTo(5);
+		});
+
+		it("should use the configured max velocity", () => {
+			const simulation = new ForceSimulation([movingNode()], [], {
+				damping: 1,
+				maxVelocity: 2,
+			});
+			simulation.tick();
+
+			expect(simulation.getNodes()[0].vx).toBeCloseTo(2);
+		});
+
+		it("should use the configured spring distance", () => {
+			const makePair = (): FileNode[] => [
+				{
+					id: "src",
+					path: "src",
+					name: "src",
+					size: 0,
+					type: "directory",
+					x: 0,
+					y: 0,
+					z: 0,
+					vx: 0,
+					vy: 0,
+					vz: 0,
+				},
+				{
+					id: "src/a.ts",
+					path: "src/a.ts",
+					name: "a.ts",
+					size: 0,
+					type: "file",
+					x: 40,
+					y: 0,
+					z: 0,
+					vx: 0,
+					vy: 0,
+					vz: 0,
+				},
+			];
+			const edges: FileEdge[] = [
+				{ source: "src", target: "src/a.ts", type: "parent" },
+			];
+			const settle = (config: Parameters<typeof resolveForceConfig>[0]) => {
+				const simulation = new ForceSimulation(makePair(), edges, {
+					repulsion: 0,
+					centering: 0,
+					...config,
+				});
+				for (let i = 0; i < 200; i++) simulation.tick();
+				const [a, b] = simulation.getNodes();
+				return Math.abs(b.x! - a.x!);
+			};
+
+			// Ideal distance is the configured gap plus both radii (0.5 each)
+			expect(settle({ distance: 30 })).toBeCloseTo(31, 0);
+			expect(settle({ distance: 80 })).toBeCloseTo(81, 0);
+		});
+
+		it("should switch off repulsion when its strength is 0", () => {
+			const nodes = [movingNode(), { ...movingNode(), id: "b", x: 3, vx: 0 }];
+			nodes[0].vx = 0;
+			const simulation = new ForceSimulation(nodes, [], {
+				repulsion: 0,
+				centering: 0,
+			});
+			simulation.tick();
+
+			expect(simulation.getNodes()[1].vx).toBe(0);
+		});
+	});
+
+	describe("Barnes–Hut repulsion", () => {
+		// Deterministic scattered nodes (no Math.random, so runs are comparable)
+		function makeScatteredNodes(count: number): FileNode[] {
+			let seed = 42;
+			const random = () => {
+				seed = (seed * 1664525 + 1013904223) % 4294967296;
+				return seed / 4294967296;
+			};
+			return Array.from({ length: count }, (_, i) => ({
+				id: `file${i}.ts`,
+				path: `file${i}.ts`,
+				name: `file${i}.ts`,
+				size: Math.floor(random() * 5000),
+				type: "file" as const,
+				x: (random() - 0.5) * 200,
+				y: (random() - 0.5) * 200,
+				z: (random() - 0.5) * 200,
+				vx: 0,
+				vy: 0,
+				vz: 0,
+			}));
+		}
+
+		function radius(node: FileNode): number {
+			return Math.max(0.5, Math.min(5, Math.log10(node.size + 1) * 1.2));
+		}
+
+		function kineticEnergy(nodes: FileNode[]): number {
+			return nodes.reduce(
+				(sum, n) => sum + (n.vx! ** 2 + n.vy! ** 2 + n.vz! ** 2) / 2,
+				0,
+			);
+		}
+
+		function countOverlaps(nodes: FileNode[]): number {
+			let overlaps = 0;
+			for (let i = 0; i < nodes.length; i++) {
+				for (let j = i + 1; j < nodes.length; j++) {
+					const distance = Math.hypot(
+						nodes[i].x! - nodes[j].x!,
+						nodes[i].y! - nodes[j].y!,
+						nodes[i].z! - nodes[j].z!,
+					);
+					if (distance < radius(nodes[i]) + radius(nodes[j])) overlaps++;
+				}
+			}
+			return overlaps;
+		}
+
+		// Pairwise O(n²) repulsion on each node, written out independently
+		function exactRepulsion(nodes: FileNode[], strength: number) {
+			return nodes.map((node) => {
+				const force = { x: 0, y: 0, z: 0 };
+				for (const other of nodes) {
+					if (other === node) continue;
+					const dx = other.x! - node.x!;
+					const dy = other.y! - node.y!;
+					const dz = other.z! - node.z!;
+					const distance = Math.hypot(dx, dy, dz) || 1;
+					const radii = radius(node) + radius(other);
+					const gap = Math.max(distance - radii, 1);
+					const magnitude = (strength * radii) / (gap * gap);
+					force.x -= (dx / distance) * magnitude;
+					force.y -= (dy / distance) * magnitude;
+					force.z -= (dz / distance) * magnitude;
+				}
+				return force;
+			});
+		}
+
+		// One tick with only repulsion acting, so velocities equal the forces
+		function repulsionAfterTick(nodes: FileNode[], theta?: number) {
+			const simulation = new ForceSimulation(nodes, [], {
+				centering: 0,
+				damping: 1,
+				maxVelocity: 1e12,
+				theta,
+			});
+			simulation.tick();
+			return simulation.getNodes();
+		}
+
+		it("should stay within tolerance of the exact repulsion by default", () => {
+			const nodes = makeScatteredNodes(40);
+			const expected = exactRepulsion(nodes, DEFAULT_FORCE_CONFIG.repulsion);
+			const actual = repulsionAfterTick(makeScatteredNodes(40));
+
+			let error = 0;
+			let total = 0;
+			actual.forEach((node, i) => {
+				error += Math.hypot(
+					node.vx! - expected[i].x,
+					node.vy! - expected[i].y,
+					node.vz! - expected[i].z,
+				);
+				total += Math.hypot(expected[i].x, expected[i].y, expected[i].z);
+			});
+
+			expect(DEFAULT_FORCE_CONFIG.theta).toBe(DEFAULT_THETA);
+			expect(error / total).toBeLessThan(0.02);
+		});
+
+		it("should equal the exact repulsion at theta 0", () => {
+			const nodes = makeScatteredNodes(40);
+			const expected = exactRepulsion(nodes, DEFAULT_FORCE_CONFIG.repulsion);
+			const actual = repulsionAfterTick(makeScatteredNodes(40), 0);
+
+			actual.forEach((node, i) => {
+				expect(node.vx).toBeCloseTo(expected[i].x, 6);
+				expect(node.vy).toBeCloseTo(expected[i].y, 6);
+				expect(node.vz).toBeCloseTo(expected[i].z, 6);
+			});
+		});
+
+		it("should approximate the exact repulsion on a small graph", () => {
+			const exact = new ForceSimulation(makeScatteredNodes(80), [], {
+				theta: 0,
+			});
+			const approximate = new ForceSimulation(makeScatteredNodes(80), [], {
+				theta: 0.5,
+			});
+			exact.tick();
+			approximate.tick();
+
+			// Compare the velocity each node picked up, relative to the exact total
+			let error = 0;
+			let total = 0;
+			exact.getNodes().forEach((node, i) => {
+				const other = approximate.getNodes()[i];
+				error += Math.hypot(
+					node.vx! - other.vx!,
+					node.vy! - other.vy!,
+					node.vz! - other.vz!,
+				);
+				total += Math.hypot(node.vx!, node.vy!, node.vz!);
+			});
+
+			expect(error / total).toBeLessThan(0.05);
+		});
+
+		it("should settle with similar energy and overlap as the exact method", () => {
+			// Run 300 ticks, returning the mean kinetic energy of the last 100
+			const settle = (simulation: ForceSimulation) => {
+				let energy = 0;
+				for (let i = 0; i < 300; i++) {
+					simulation.tick();
+					if (i >= 200) energy += kineticEnergy(simulation.getNodes());
+				}
+				return energy / 100;
+			};
+			const spread = (nodes: FileNode[]) =>
+				nodes.reduce((sum, n) => sum + Math.hypot(n.x!, n.y!, n.z!), 0) /
+				nodes.length;
+
+			const exact = new ForceSimulation(makeScatteredNodes(60), [], {
+				theta: 0,
+			});
+			const accurate = new ForceSimulation(makeScatteredNodes(60), [], {
+				theta: 0.5,
+			});
+			const fast = new ForceSimulation(makeScatteredNodes(60), [], {
+				theta: DEFAULT_THETA,
+			});
+			const exactEnergy = settle(exact);
+			const accurateEnergy = settle(accurate);
+			settle(fast);
+
+			expect(Math.abs(accurateEnergy - exactEnergy)).toBeLessThan(
+				exactEnergy * 0.25,
+			);
+			expect(spread(fast.getNodes())).toBeCloseTo(spread(exact.getNodes()), -1);
+			expect(countOverlaps(exact.getNodes())).toBe(0);
+			expect(countOverlaps(accurate.getNodes())).toBe(0);
+			expect(countOverlaps(fast.getNodes())).toBe(0);
+		});
+
+		it("should match the exact method for two nodes", () => {
+			const pair = (): FileNode[] => makeScatteredNodes(2);
+			const exact = new ForceSimulation(pair(), [], { theta: 0 });
+			const approximate = new ForceSimulation(pair(), [], { theta: 1 });
+			exact.tick();
+			approximate.tick();
+
+			approximate.getNodes().forEach((node, i) => {
+				expect(node.x).toBeCloseTo(exact.getNodes()[i].x!, 6);
+				expect(node.vx).toBeCloseTo(exact.getNodes()[i].vx!, 6);
+			});
+		});
+
+		it("should handle nodes at the same position", () => {
+			const nodes = makeScatteredNodes(20).map((node) => ({
+				...node,
+				x: 5,
+				y: 5,
+				z: 5,
+			}));
+			const simulation = new ForceSimulation(nodes, []);
+
+			expect(() => simulation.tick()).not.toThrow();
+			simulation.getNodes().forEach((node) => {
+				expect(Number.isFinite(node.x)).toBe(true);
+			});
+		});
+	});
+
+	describe("position buffers", () => {
+		it("should round-trip positions and velocities through a Float32Array", () => {
+			const nodes: FileNode[] = [
+				{
+					id: "a",
+					path: "a",
+					name: "a",
+					size: 10,
+					type: "file",
+					x: 1,
+					y: 2,
+					z: 3,
+					vx: 0.5,
+					vy: -0.5,
+					vz: 0.25,
+				},
+				{ id: "b", path: "b", name: "b", size: 10, type: "file", x: -4 },
+			];
+
+			const positions = packPositions(nodes);
+			expect(positions).toHaveLength(nodes.length * POSITION_STRIDE);
+
+			const copies = nodes.map((node) => ({ ...node, x: 0, vx: 0 }));
+			unpackPositions(copies, positions);
+
+			expect(copies[0]).toMatchObject({ x: 1, y: 2, z: 3, vx: 0.5, vy: -0.5 });
+			expect(copies[1]).toMatchObject({ x: -4, y: 0, z: 0, vx: 0 });
+		});
+
+		it("should slow ticks down as the simulation settles", () => {
+			expect(getFrameStride(0)).toBe(1);
+			expect(getFrameStride(200)).toBe(2);
+			expect(getFrameStride(400)).toBe(3);
+		});
+	});
 });
@@ -1,23 +1,77 @@
 import { FileEdge, FileNode } from "../types";
+import { Octree, OctreeCell } from "./octree";
+import { createRandom } from "./random";
 
 export interface ForceSimulationConfig {
-	strength: number;
-	distance: number;
-	iterations: number;
+	strength: number; // Spring stiffness between parent and child
+	distance: number; // Ideal gap between parent and child, on top of their radii
+	repulsion: number; // Strength of the push between every pair of nodes
+	damping: number; // Share of velocity kept after each tick
+	centering: number; // Pull of every node towards the origin
+	maxVelocity: number; // Speed limit per tick, for stability
+	theta: number; // Barnes–Hut opening angle for repulsion (0 = exact pairwise)
+	iterations: number; // Ticks to lay out new nodes (updates to a settled layout run fewer)
+}
+
+// Cells smaller than theta × their distance are treated as one body
+export const DEFAULT_THETA = 0.8;
+
+export const DEFAULT_FORCE_CONFIG: ForceSimulationConfig = {
+	strength: 0.1,
+	distance: 30,
+	repulsion: 5000,
+	damping: 0.85, // Slightly more damping for stability
+	centering: 0.01,
+	maxVelocity: 10,
+	theta: DEFAULT_THETA,
+	iterations: 500,
+};
+
+/**
+ * Fill in defaults for config values that aren't set
+ */
+export function resolveForceConfig(
+	config: Partial<ForceSimulationConfig> = {},
+): ForceSimulationConfig {
+	const resolved = { ...DEFAULT_FORCE_CONFIG };
+	for (const key of Object.keys(resolved) as Array<
+		keyof ForceSimulationConfig
+	>) {
+		const value = config[key];
+		if (typeof value === "number" && Number.isFinite(value)) {
+			resolved[key] = value;
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Node radius based on log of file size (same as rendering)
+ */
+function nodeRadius(size: number): number {
+	return Math.max(0.5, Math.min(5, Math.log10(size + 1) * 1.2));
 }
 
 export class ForceSimulation {
 	private nodes: FileNode[];
 	private edges: FileEdge[];
+	private config: ForceSimulationConfig;
+	private seed?: string;
 
+	/**
+	 * @param seed - Seeds the starting positions of new nodes (e.g. the repo path),
+	 * so the same file always starts in the same place; random when omitted
+	 */
 	constructor(
 		nodes: FileNode[],
 		edges: FileEdge[],
-		_config: Partial<ForceSimulationConfig> = {},
+		config: Partial<ForceSimulationConfig> = {},
+		seed?: string,
 	) {
 		this.nodes = nodes;
 		this.edges = edges;
-		// Config parameters are now hardcoded in the force methods for better tuning
+		this.config = resolveForceConfig(config);
+		this.seed = seed;
 
 		this.initializePositions();
 	}
@@ -40,9 +94,14 @@ export class ForceSimulation {
 					node.vz = 0;
 				} else {
 					// Other nodes start at random positions around the origin
-					const angle1 = Math.random() * Math.PI * 2;
-					const angle2 = Math.random() * Math.PI * 2;
-					const radius = 100 + Math.random() * 100;
+					// Seeded per node, so a node's start doesn't depend on the others
+					const random =
+						this.seed !== undefined
+							? createRandom(`${this.seed}:${node.id}`)
+							: Math.random;
+					const angle1 = random() * Math.PI * 2;
+					const angle2 = random() * Math.PI * 2;
+					const radius = 100 + random() * 100;
 
 					node.x = radius * Math.sin(angle1) * Math.cos(angle2);
 					node.y = radius * Math.sin(angle1) * Math.sin(angle2);
@@ -62,7 +121,7 @@ export class ForceSimulation {
 		this.applyCenteringForce();
 
 		// Update positions with velocity damping
-		const damping = 0.85; // Slightly more damping for stability
+		const { damping, maxVelocity } = this.config;
 		this.nodes.forEach((node) => {
 			// Pin the root node at the origin
 			if (node.id === "/" || node.path === "/") {
@@ -86,7 +145,6 @@ export class ForceSimulation {
 				node.vz *= damping;
 
 				// Limit maximum velocity to prevent instability
-				const maxVelocity = 10;
 				const velocityMagnitude = Math.sqrt(
 					node.vx * node.vx + node.vy * node.vy + node.vz * node.vz,
 				);
@@ -107,24 +165,20 @@ export class ForceSimulation {
 
 	private applySpringForces() {
 		const nodeMap = new Map(this.nodes.map((n) => [n.id, n]));
-		const springStrength = 0.1; // Spring stiffness
-		const idealDistance = 30; // Ideal distance between parent and child
+		const { strength: springStrength, distance: idealDistance } = this.config;
 
 		this.edges.forEach((edge) => {
+			// Dependency edges are drawn but don't pull the directory layout out of shape
+			if (edge.type !== "parent") return;
+
 			const source = nodeMap.get(edge.source);
 			const target = nodeMap.get(edge.target);
 
 			if (!source || !target) return;
 
 			// Calculate radii for both nodes
-			const radiusSource = Math.max(
-				0.5,
-				Math.min(5, Math.log10(source.size + 1) * 1.2),
-			);
-			const radiusTarget = Math.max(
-				0.5,
-				Math.min(5, Math.log10(target.size + 1) * 1.2),
-			);
+			const radiusSource = nodeRadius(source.size);
+			const radiusTarget = nodeRadius(target.size);
 
 			const dx = target.x! - source.x!;
 			const dy = target.y! - source.y!;
@@ -153,22 +207,26 @@ export class ForceSimulation {
 	}
 
 	private applyRepulsionForces() {
-		const repulsionStrength = 5000; // Increased for stronger repulsion
+		if (this.config.theta > 0) {
+			this.applyBarnesHutRepulsion();
+		} else {
+			this.applyExactRepulsion();
+		}
+	}
+
+	/**
+	 * Repulsion between every pair of nodes - O(n²)
+	 */
+	private applyExactRepulsion() {
+		const { repulsion } = this.config;
 
 		for (let i = 0; i < this.nodes.length; i++) {
 			for (let j = i + 1; j < this.nodes.length; j++) {
 				const nodeA = this.nodes[i];
 				const nodeB = this.nodes[j];
 
-				// Calculate radii based on log of file size (same as rendering)
-				const radiusA = Math.max(
-					0.5,
-					Math.min(5, Math.log10(nodeA.size + 1) * 1.2),
-				);
-				const radiusB = Math.max(
-					0.5,
-					Math.min(5, Math.log10(nodeB.size + 1) * 1.2),
-				);
+				const radiusA = nodeRadius(nodeA.size);
+				const radiusB = nodeRadius(nodeB.size);
 
 				const dx = nodeB.x! - nodeA.x!;
 				const dy = nodeB.y! - nodeA.y!;
@@ -183,7 +241,7 @@ export class ForceSimulation {
 				// Use inverse square law but with radius-aware distance
 				const effectiveDistance = Math.max(distance - minDistance, 1);
 				const force =
-					(repulsionStrength * (radiusA + radiusB)) /
+					(repulsion * (radiusA + radiusB)) /
 					(effectiveDistance * effectiveDistance);
 
 				const fx = (dx / distance) * force;
@@ -201,8 +259,96 @@ export class ForceSimulation {
 		}
 	}
 
+	/**
+	 * Barnes–Hut repulsion - O(n log n)
+	 * Distant octree cells push as one body at their centroid, using the
+	 * cell's average radius in the same radius-aware force as the exact method
+	 */
+	private applyBarnesHutRepulsion() {
+		const count = this.nodes.length;
+		const xs = new Float64Array(count);
+		const ys = new Float64Array(count);
+		const zs = new Float64Array(count);
+		const radii = new Float64Array(count);
+		this.nodes.forEach((node, i) => {
+			xs[i] = node.x!;
+			ys[i] = node.y!;
+			zs[i] = node.z!;
+			radii[i] = nodeRadius(node.size);
+		});
+
+		const tree = new Octree(xs, ys, zs, radii);
+		const { repulsion, theta } = this.config;
+		const thetaSquared = theta * theta;
+
+		for (let i = 0; i < count; i++) {
+			const x = xs[i];
+			const y = ys[i];
+			const z = zs[i];
+			const radius = radii[i];
+			let fx = 0;
+			let fy = 0;
+			let fz = 0;
+
+			// Add the push from `weight` nodes with radius sum `radii` at distance dx/dy/dz
+			const push = (
+				dx: number,
+				dy: number,
+				dz: number,
+				weight: number,
+				radiusSum: number,
+			) => {
+				const distance = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+				const effectiveDistance = Math.max(
+					distance - (radius + radiusSum / weight),
+					1,
+				);
+				const force =
+					(repulsion * (weight * radius + radiusSum)) /
+					(effectiveDistance * effectiveDistance);
+				fx += (dx / distance) * force;
+				fy += (dy / distance) * force;
+				fz += (dz / distance) * force;
+			};
+
+			tree.visit((cell: OctreeCell) => {
+				if (!cell.children) {
+					for (const j of cell.points) {
+						if (j === i) continue;
+						push(xs[j] - x, ys[j] - y, zs[j] - z, 1, radii[j]);
+					}
+					return true;
+				}
+
+				// Open cells that contain this node or are too close for their size
+				const contains =
+					Math.abs(x - cell.centerX) <= cell.halfSize &&
+					Math.abs(y - cell.centerY) <= cell.halfSize &&
+					Math.abs(z - cell.centerZ) <= cell.halfSize;
+				const dx = cell.sumX / cell.count - x;
+				const dy = cell.sumY / cell.count - y;
+				const dz = cell.sumZ / cell.count - z;
+				const size = cell.halfSize * 2;
+				if (
+					contains ||
+					size * size >= thetaSquared * (dx * dx + dy * dy + dz * dz)
+				) {
+					return false;
+				}
+
+				push(dx, dy, dz, cell.count, cell.sumRadius);
+				return true;
+			});
+
+			const node = this.nodes[i];
+			node.vx! -= fx;
+			node.vy! -= fy;
+			node.vz! -= fz;
+		}
+	}
+
 	private applyCenteringForce() {
-		const centeringStrength = 0.01;
+		const { centering: centeringStrength } = this.config;
 
 		this.nodes.forEach((node) => {
 			node.vx! -= node.x! * centeringStrength;
@@ -219,3 +365,50 @@ export class ForceSimulation {
 		return this.edges;
 	}
 }
+
+// Floats per node in a positions buffer: x, y, z, vx, vy, vz
+export const POSITION_STRIDE = 6;
+
+/**
+ * Pack node positions and velocities into a Float32Array, in node order
+ * The buffer can be transferred to or from a worker without copying
+ */
+export function packPositions(nodes: FileNode[]): Float32Array {
+	const positions = new Float32Array(nodes.length * POSITION_STRIDE);
+	nodes.forEach((node, i) => {
+		const offset = i * POSITION_STRIDE;
+		positions[offset] = node.x ?? 0;
+		positions[offset + 1] = node.y ?? 0;
+		positions[offset + 2] = node.z ?? 0;
+		positions[offset + 3] = node.vx ?? 0;
+		positions[offset + 4] = node.vy ?? 0;
+		positions[offset + 5] = node.vz ?? 0;
+	});
+	return positions;
+}
+
+/**
+ * Copy packed positions and velocities back onto nodes (same order as packed)
+ */
+export function unpackPositions(nodes: FileNode[], positions: Float32Array) {
+	const count = Math.min(nodes.length, positions.length / POSITION_STRIDE);
+	for (let i = 0; i < count; i++) {
+		const node = nodes[i];
+		const offset = i * POSITION_STRIDE;
+		node.x = positions[offset];
+		node.y = positions[offset + 1];
+		node.z = positions[offset + 2];
+		node.vx = positions[offset + 3];
+		node.vy = positions[offset + 4];
+		node.vz = positions[offset + 5];
+	}
+}
+
+/**
+ * Frames to wait between ticks - fast initial settling, then slower refinement
+ */
+export function getFrameStride(iteration: number): number {
+	if (iteration < 150) return 1;
+	if (iteration < 300) return 2;
+	return 3;
+}
@@ -0,0 +1,54 @@
+/**
+ * Runs the force simulation off the main thread
+ * Positions are streamed back after every tick as transferable Float32Arrays;
+ * the runner on the main thread applies at most one batch per animation frame
+ */
+
+import {
+	ForceSimulation,
+	getFrameStride,
+	packPositions,
+} from "./forceSimulation";
+import type { SimulationRequest, SimulationResponse } from "./simulationRunner";
+
+const FRAME_MS = 16;
+
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+function post(response: SimulationResponse) {
+	self.postMessage(response, { transfer: [response.positions.buffer] });
+}
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+	const request = event.data;
+	clearTimeout(timer);
+	if (request.type !== "start") return;
+
+	const { runId, iterations } = request;
+	const simulation = new ForceSimulation(
+		request.nodes,
+		request.edges,
+		request.config,
+		request.seed,
+	);
+	let iteration = 0;
+
+	const step = () => {
+		simulation.tick();
+		iteration++;
+
+		const done = iteration >= iterations;
+		post({
+			type: "positions",
+			runId,
+			positions: packPositions(simulation.getNodes()),
+			done,
+		});
+
+		if (!done) {
+			timer = setTimeout(step, FRAME_MS * getFrameStride(iteration));
+		}
+	};
+
+	step();
+};
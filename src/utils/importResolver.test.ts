@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { buildPathIndex, resolveImport } from "./importResolver";
+
+describe("resolveImport", () => {
+	describe("TypeScript/JavaScript", () => {
+		const index = buildPathIndex([
+			"src/app.tsx",
+			"src/utils/format.ts",
+			"src/components/index.ts",
+			"lib/legacy.js",
+		]);
+
+		it("should resolve relative imports with extension guessing", () => {
+			expect(resolveImport("src/app.tsx", "./utils/format", index)).toBe(
+				"src/utils/format.ts",
+			);
+			expect(resolveImport("src/utils/format.ts", "../app", index)).toBe(
+				"src/app.tsx",
+			);
+		});
+
+		it("should resolve directory imports to index files", () => {
+			expect(resolveImport("src/app.tsx", "./components", index)).toBe(
+				"src/components/index.ts",
+			);
+		});
+
+		it("should map ESM .js specifiers to TypeScript sources", () => {
+			expect(resolveImport("src/app.tsx", "./utils/format.js", index)).toBe(
+				"src/utils/format.ts",
+			);
+			expect(resolveImport("src/app.tsx", "../lib/legacy.js", index)).toBe(
+				"lib/legacy.js",
+			);
+		});
+
+		it("should ignore packages and imports outside the repo", () => {
+			expect(resolveImport("src/app.tsx", "react", index)).toBeNull();
+			expect(resolveImport("src/app.tsx", "../../outside", index)).toBeNull();
+			expect(resolveImport("src/app.tsx", "./missing", index)).toBeNull();
+		});
+	});
+
+	describe("Python", () => {
+		const index = buildPathIndex([
+			"pkg/__init__.py",
+			"pkg/models.py",
+			"pkg/sub/views.py",
+			"src/tools/cli.py",
+		]);
+
+		it("should resolve relative imports", () => {
+			expect(resolveImport("pkg/sub/views.py", "..models", index)).toBe(
+				"pkg/models.py",
+			);
+			expect(resolveImport("pkg/models.py", ".sub.views", index)).toBe(
+				"pkg/sub/views.py",
+			);
+		});
+
+		it("should resolve absolute imports from the root or a source dir", () => {
+			expect(resolveImport("pkg/sub/views.py", "pkg.models", index)).toBe(
+				"pkg/models.py",
+			);
+			expect(resolveImport("pkg/sub/views.py", "pkg", index)).toBe(
+				"pkg/__init__.py",
+			);
+			expect(resolveImport("pkg/models.py", "tools.cli", index)).toBe(
+				"src/tools/cli.py",
+			);
+		});
+
+		it("should ignore third-party modules", () => {
+			expect(resolveImport("pkg/models.py", "django.db", index)).toBeNull();
+		});
+	});
+
+	describe("Go", () => {
+		const index = buildPathIndex(["main.go", "internal/store/db.go"]);
+
+		it("should resolve module imports to package directories", () => {
+			expect(
+				resolveImport("main.go", "github.com/acme/app/internal/store", index),
+			).toBe("internal/store");
+		});
+
+		it("should ignore the standard library", () => {
+			expect(resolveImport("main.go", "net/http", index)).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,155 @@
+/**
+ * Resolve import specifiers (as written in source files) to repository paths
+ * Used to turn the worker's per-file imports into dependency edges
+ */
+
+const JS_SOURCE = /\.(ts|tsx|js|jsx|mjs|cjs|mts|cts)$/;
+const JS_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+/**
+ * Known file and directory paths at a commit
+ */
+export interface RepoPathIndex {
+	files: Set<string>;
+	directories: Set<string>;
+}
+
+export function buildPathIndex(filePaths: string[]): RepoPathIndex {
+	const directories = new Set<string>();
+	for (const path of filePaths) {
+		const parts = path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			directories.add(parts.slice(0, i).join("/"));
+		}
+	}
+	return { files: new Set(filePaths), directories };
+}
+
+/**
+ * Resolve an import to the file (or Go package directory) it refers to
+ *
+ * @param fromPath - Path of the importing file
+ * @param specifier - Import specifier as written in the source
+ * @param index - Paths present at the commit
+ * @returns The imported path, or null for external packages and unresolvable imports
+ */
+export function resolveImport(
+	fromPath: string,
+	specifier: string,
+	index: RepoPathIndex,
+): string | null {
+	if (JS_SOURCE.test(fromPath)) {
+		return resolveJsImport(fromPath, specifier, index);
+	}
+	if (fromPath.endsWith(".py")) {
+		return resolvePythonImport(fromPath, specifier, index);
+	}
+	if (fromPath.endsWith(".go")) {
+		return resolveGoImport(specifier, index);
+	}
+	return null;
+}
+
+function dirname(path: string): string {
+	const slash = path.lastIndexOf("/");
+	return slash === -1 ? "" : path.slice(0, slash);
+}
+
+/**
+ * Join path segments, collapsing "." and ".." (null if it escapes the repo root)
+ */
+function joinPath(base: string, relativePath: string): string | null {
+	const parts = base ? base.split("/") : [];
+	for (const segment of relativePath.split("/")) {
+		if (segment === "..") {
+			if (parts.length === 0) return null;
+			parts.pop();
+		} else if (segment && segment !== ".") {
+			parts.push(segment);
+		}
+	}
+	return parts.join("/");
+}
+
+function resolveJsImport(
+	fromPath: string,
+	specifier: string,
+	index: RepoPathIndex,
+): string | null {
+	// Bare specifiers are packages (path aliases aren't resolved)
+	if (!specifier.startsWith(".")) {
+		return null;
+	}
+
+	const target = joinPath(dirname(fromPath), specifier);
+	if (!target) return null;
+
+	// TypeScript ESM imports name the emitted .js file
+	const withoutJsExtension = target.replace(/\.(m|c)?js$/, "");
+	const candidates = [
+		target,
+		...JS_EXTENSIONS.map((ext) => `${withoutJsExtension}${ext}`),
+		...JS_EXTENSIONS.map((ext) => `${target}/index${ext}`),
+	];
+
+	return candidates.find((candidate) => index.files.has(candidate)) ?? null;
+}
+
+function resolvePythonImport(
+	fromPath: string,
+	specifier: string,
+	index: RepoPathIndex,
+): string | null {
+	const dots = specifier.match(/^\.*/)?.[0].length ?? 0;
+	const modulePath = specifier.slice(dots).replace(/\./g, "/");
+
+	if (dots > 0) {
+		// Each dot beyond the first climbs one package
+		let base: string | null = dirname(fromPath);
+		for (let i = 1; i < dots && base !== null; i++) {
+			base = base ? dirname(base) : null;
+		}
+		if (base === null) return null;
+
+		const target = modulePath ? joinPath(base, modulePath) : base;
+		if (target === null) return null;
+		return findPythonModule(target, index);
+	}
+
+	// Absolute imports: from the repo root, or from a source root like "src/"
+	const direct = findPythonModule(modulePath, index);
+	if (direct) return direct;
+
+	for (const suffix of [`/${modulePath}.py`, `/${modulePath}/__init__.py`]) {
+		for (const file of index.files) {
+			if (file.endsWith(suffix)) return file;
+		}
+	}
+	return null;
+}
+
+function findPythonModule(target: string, index: RepoPathIndex): string | null {
+	const candidates = [`${target}.py`, `${target}/__init__.py`];
+	return candidates.find((candidate) => index.files.has(candidate)) ?? null;
+}
+
+function resolveGoImport(
+	specifier: string,
+	index: RepoPathIndex,
+): string | null {
+	const segments = specifier.split("/");
+
+	// Standard library packages have no domain ("fmt", "net/http")
+	if (!segments[0].includes(".")) {
+		return null;
+	}
+
+	// The module prefix isn't known, so match the longest suffix that's a directory
+	for (let start = 1; start < segments.length; start++) {
+		const candidate = segments.slice(start).join("/");
+		if (index.directories.has(candidate)) {
+			return candidate;
+		}
+	}
+	return null;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import type { FileEdge, FileNode } from "../types";
+import {
+	findAggregates,
+	getAggregateRadius,
+	getFocalLength,
+	getScreenRadius,
+	summarizeSubtrees,
+} from "./levelOfDetail";
+
+function makeNode(
+	id: string,
+	type: FileNode["type"],
+	position: [number, number, number],
+	size = 0,
+): FileNode {
+	const [x, y, z] = position;
+	return { id, path: id, name: id.split("/").pop() || id, size, type, x, y, z };
+}
+
+// "/" at the origin, "near" close by and "far" (with a nested directory) 1000 units away
+const nodes: FileNode[] = [
+	makeNode("/", "directory", [0, 0, 0]),
+	makeNode("near", "directory", [20, 0, 0]),
+	makeNode("near/a.ts", "file", [25, 0, 0], 1000),
+	makeNode("far", "directory", [0, 0, -1000]),
+	makeNode("far/b.ts", "file", [5, 0, -1000], 2000),
+	makeNode("far/lib", "directory", [0, 5, -1000]),
+	makeNode("far/lib/c.ts", "file", [0, 10, -1000], 3000),
+];
+
+const edges: FileEdge[] = [
+	{ source: "/", target: "near", type: "parent" },
+	{ source: "near", target: "near/a.ts", type: "parent" },
+	{ source: "/", target: "far", type: "parent" },
+	{ source: "far", target: "far/b.ts", type: "parent" },
+	{ source: "far", target: "far/lib", type: "parent" },
+	{ source: "far/lib", target: "far/lib/c.ts", type: "parent" },
+	{ source: "near/a.ts", target: "far/b.ts", type: "dependency" },
+];
+
+// Camera looking at the origin from 100 units away, 800px tall viewport
+const camera = { x: 0, y: 0, z: 100 };
+const focalLength = getFocalLength(75, 800);
+
+describe("levelOfDetail", () => {
+	it("should shrink on screen with distance", () => {
+		expect(getFocalLength(90, 800)).toBeCloseTo(400);
+		expect(getScreenRadius(10, 100, 400)).toBeCloseTo(40);
+		expect(getScreenRadius(10, 200, 400)).toBeCloseTo(20);
+	});
+
+	it("should size aggregates by total bytes", () => {
+		expect(getAggregateRadius(1_000_000)).toBeGreaterThan(
+			getAggregateRadius(1000),
+		);
+		expect(getAggregateRadius(0)).toBe(4);
+		expect(getAggregateRadius(1e12)).toBe(30);
+	});
+
+	it("should summarize each directory's descendants and bytes", () => {
+		const summaries = summarizeSubtrees(nodes, edges);
+
+		expect(summaries.get("/")?.totalSize).toBe(6000);
+		expect(summaries.get("far")?.descendants.sort()).toEqual([
+			"far/b.ts",
+			"far/lib",
+			"far/lib/c.ts",
+		]);
+		expect(summaries.get("far")?.totalSize).toBe(5000);
+		expect(summaries.get("far/a.ts")).toBeUndefined();
+	});
+
+	it("should collapse distant directories but not nearby ones", () => {
+		const aggregates = findAggregates(nodes, edges, camera, focalLength);
+
+		expect([...aggregates.keys()]).toEqual(["far"]);
+		expect(aggregates.get("far")).toMatchObject({
+			totalSize: 5000,
+			fileCount: 2,
+		});
+		expect(aggregates.get("far")?.hidden).toContain("far/lib/c.ts");
+	});
+
+	it("should not count deleted files in an aggregate", () => {
+		const withDeleted = nodes.map((node): FileNode => {
+			if (node.id === "far/b.ts") return { ...node, fileStatus: "deleted" };
+			if (node.id === "far/lib") {
+				return {
+					...node,
+					collapsed: { fileCount: 5, changedCount: 2, deletedCount: 2 },
+				};
+			}
+			return node;
+		});
+		const withoutLibFile = withDeleted.filter(
+			(node) => node.id !== "far/lib/c.ts",
+		);
+		const aggregates = findAggregates(
+			withoutLibFile,
+			edges,
+			camera,
+			focalLength,
+		);
+
+		expect(aggregates.get("far")?.fileCount).toBe(3);
+	});
+
+	it("should only collapse the outermost distant directory", () => {
+		const aggregates = findAggregates(nodes, edges, camera, focalLength);
+		expect(aggregates.has("far/lib")).toBe(false);
+	});
+
+	it("should never collapse the root", () => {
+		const distant = { x: 0, y: 0, z: 1_000_000 };
+		const aggregates = findAggregates(nodes, edges, distant, focalLength);
+
+		expect(aggregates.has("/")).toBe(false);
+		expect([...aggregates.keys()].sort()).toEqual(["far", "near"]);
+	});
+
+	it("should keep expanded directories and their ancestors open", () => {
+		const aggregates = findAggregates(
+			nodes,
+			edges,
+			camera,
+			focalLength,
+			new Set(["far/lib"]),
+		);
+
+		expect(aggregates.has("far")).toBe(false);
+		expect(aggregates.has("far/lib")).toBe(false);
+	});
+});
@@ -0,0 +1,229 @@
+import type { FileEdge, FileNode } from "../types";
+import { getNodeRadius } from "./nodeAppearance";
+
+// Labels are drawn only for nodes at least this many pixels across (radius)
+export const LABEL_MIN_PIXELS = 6;
+
+// Directories whose subtree spans fewer pixels than this (radius) are drawn
+// as a single aggregate bubble
+export const AGGREGATE_MAX_PIXELS = 24;
+
+/**
+ * Position, extent and total bytes of a directory's subtree
+ */
+export interface SubtreeSummary {
+	id: string;
+	descendants: string[]; // Ids of every node below the directory
+	totalSize: number; // Bytes of all files below the directory
+	centerX: number;
+	centerY: number;
+	centerZ: number;
+	radius: number; // Bounding sphere radius around the center, including node sizes
+}
+
+/**
+ * A collapsed directory and the nodes it stands in for
+ */
+export interface Aggregate {
+	node: FileNode; // The directory
+	hidden: string[];
+	totalSize: number;
+	fileCount: number; // Files below the directory, not counting ones deleted in this commit
+}
+
+/**
+ * Pixels per world unit at distance 1 for a perspective camera with the
+ * given vertical field of view (degrees) and viewport height (pixels)
+ */
+export function getFocalLength(fov: number, viewportHeight: number): number {
+	return viewportHeight / (2 * Math.tan((fov * Math.PI) / 360));
+}
+
+/**
+ * On-screen radius in pixels of a sphere of the given world radius
+ */
+export function getScreenRadius(
+	radius: number,
+	distance: number,
+	focalLength: number,
+): number {
+	return (radius / Math.max(distance, 1e-3)) * focalLength;
+}
+
+/**
+ * Radius of an aggregate bubble - grows with the log of the bytes it holds
+ */
+export function getAggregateRadius(totalSize: number): number {
+	return Math.max(4, Math.min(30, Math.log10(totalSize + 1) * 5));
+}
+
+/**
+ * Child ids of every directory, from the parent edges between known nodes
+ */
+function groupChildren(
+	byId: Map<string, FileNode>,
+	edges: FileEdge[],
+): Map<string, string[]> {
+	const childIds = new Map<string, string[]>();
+	for (const edge of edges) {
+		if (edge.type !== "parent") continue;
+		if (!byId.has(edge.source) || !byId.has(edge.target)) continue;
+		const ids = childIds.get(edge.source) ?? [];
+		ids.push(edge.target);
+		childIds.set(edge.source, ids);
+	}
+	return childIds;
+}
+
+/**
+ * Summarize every directory's subtree from the parent edges
+ * Directories without children are left out; nodes missing positions count as the origin
+ */
+export function summarizeSubtrees(
+	nodes: FileNode[],
+	edges: FileEdge[],
+): Map<string, SubtreeSummary> {
+	const byId = new Map(nodes.map((node) => [node.id, node]));
+	const childIds = groupChildren(byId, edges);
+
+	const summaries = new Map<string, SubtreeSummary>();
+	const visiting = new Set<string>();
+
+	const summarize = (id: string): SubtreeSummary | null => {
+		const cached = summaries.get(id);
+		if (cached) return cached;
+		const children = childIds.get(id);
+		if (!children || visiting.has(id)) return null;
+		visiting.add(id);
+
+		const descendants: string[] = [];
+		let totalSize = 0;
+		for (const childId of children) {
+			const child = byId.get(childId)!;
+			descendants.push(childId);
+			const summary = summarize(childId);
+			if (summary) {
+				descendants.push(...summary.descendants);
+				totalSize += summary.totalSize;
+			} else if (
+				(child.type === "file" || child.collapsed) &&
+				child.fileStatus !== "deleted"
+			) {
+				totalSize += child.size;
+			}
+		}
+
+		// Bounding sphere: centroid of the nodes, then the farthest node surface
+		const members = [byId.get(id)!, ...descendants.map((d) => byId.get(d)!)];
+		let centerX = 0;
+		let centerY = 0;
+		let centerZ = 0;
+		for (const member of members) {
+			centerX += member.x ?? 0;
+			centerY += member.y ?? 0;
+			centerZ += member.z ?? 0;
+		}
+		centerX /= members.length;
+		centerY /= members.length;
+		centerZ /= members.length;
+		let radius = 0;
+		for (const member of members) {
+			const distance = Math.hypot(
+				(member.x ?? 0) - centerX,
+				(member.y ?? 0) - centerY,
+				(member.z ?? 0) - centerZ,
+			);
+			radius = Math.max(radius, distance + getNodeRadius(member));
+		}
+
+		const summary: SubtreeSummary = {
+			id,
+			descendants,
+			totalSize,
+			centerX,
+			centerY,
+			centerZ,
+			radius,
+		};
+		summaries.set(id, summary);
+		visiting.delete(id);
+		return summary;
+	};
+
+	for (const id of childIds.keys()) {
+		summarize(id);
+	}
+	return summaries;
+}
+
+/**
+ * Pick the directories to collapse: walking down from the root, the first
+ * directories on each branch whose subtree is smaller on screen than maxPixels
+ * The root is never collapsed, nor are expanded directories or their ancestors
+ */
+export function findAggregates(
+	nodes: FileNode[],
+	edges: FileEdge[],
+	camera: { x: number; y: number; z: number },
+	focalLength: number,
+	expanded: ReadonlySet<string> = new Set(),
+	maxPixels = AGGREGATE_MAX_PIXELS,
+): Map<string, Aggregate> {
+	const byId = new Map(nodes.map((node) => [node.id, node]));
+	const summaries = summarizeSubtrees(nodes, edges);
+	const aggregates = new Map<string, Aggregate>();
+
+	const containsExpanded = (summary: SubtreeSummary) =>
+		expanded.has(summary.id) ||
+		summary.descendants.some((id) => expanded.has(id));
+
+	const childIds = groupChildren(byId, edges);
+
+	// Top-level directories: those that aren't a descendant of another
+	const nested = new Set<string>();
+	for (const summary of summaries.values()) {
+		for (const id of summary.descendants) nested.add(id);
+	}
+
+	const stack = [...summaries.keys()].filter((id) => !nested.has(id));
+	const roots = new Set(stack);
+	while (stack.length > 0) {
+		const summary = summaries.get(stack.pop()!);
+		if (!summary) continue;
+
+		const distance = Math.hypot(
+			summary.centerX - camera.x,
+			summary.centerY - camera.y,
+			summary.centerZ - camera.z,
+		);
+		const pixels = getScreenRadius(summary.radius, distance, focalLength);
+		if (
+			!roots.has(summary.id) &&
+			pixels < maxPixels &&
+			!containsExpanded(summary)
+		) {
+			aggregates.set(summary.id, {
+				node: byId.get(summary.id)!,
+				hidden: summary.descendants,
+				totalSize: summary.totalSize,
+				fileCount: summary.descendants.reduce((count, id) => {
+					const node = byId.get(id);
+					if (node?.collapsed) {
+						return (
+							count + node.collapsed.fileCount - node.collapsed.deletedCount
+						);
+					}
+					return (
+						count +
+						(node?.type === "file" && node.fileStatus !== "deleted" ? 1 : 0)
+					);
+				}, 0),
+			});
+			continue;
+		}
+
+		stack.push(...(childIds.get(summary.id) ?? []));
+	}
+
+	return aggregates;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { FileNode } from "../types";
+import {
+	getDeletedRadius,
+	getFileRadius,
+	getNodeBaseColor,
+	getNodeRadius,
+	getNodeTransitionColor,
+	hasTransition,
+} from "./nodeAppearance";
+
+function makeNode(overrides: Partial<FileNode> = {}): FileNode {
+	return {
+		id: "src/index.ts",
+		path: "src/index.ts",
+		name: "index.ts",
+		size: 1000,
+		type: "file",
+		...overrides,
+	};
+}
+
+describe("nodeAppearance", () => {
+	it("should size files by the log of their size, within limits", () => {
+		expect(getFileRadius(0)).toBe(2);
+		expect(getFileRadius(999)).toBeCloseTo(12);
+		expect(getFileRadius(10_000_000)).toBe(15);
+		expect(getNodeRadius(makeNode())).toBe(getFileRadius(1000));
+	});
+
+	it("should give the root and directories fixed sizes", () => {
+		expect(getNodeRadius(makeNode({ id: "/", path: "/" }))).toBe(5);
+		expect(getNodeRadius(makeNode({ type: "directory", size: 50000 }))).toBe(3);
+	});
+
+	it("should shrink deleted files from their previous size", () => {
+		const node = makeNode({ size: 0, previousSize: 5000 });
+		expect(getDeletedRadius(node)).toBe(getFileRadius(5000));
+		expect(getDeletedRadius(makeNode({ size: 0 }))).toBe(getFileRadius(100));
+	});
+
+	it("should colour the root, directories and files", () => {
+		expect(getNodeBaseColor(makeNode({ id: "/", path: "/" }))).toBe("#ffffff");
+		expect(getNodeBaseColor(makeNode({ type: "directory" }))).toBe("#60a5fa");
+		expect(getNodeBaseColor(makeNode())).toBe("#10b981");
+	});
+
+	it("should size and colour collapsed directories by their contents", () => {
+		const quiet = makeNode({
+			type: "directory",
+			size: 50000,
+			collapsed: { fileCount: 10, changedCount: 0, deletedCount: 0 },
+		});
+		const busy = makeNode({
+			type: "directory",
+			size: 50000,
+			collapsed: { fileCount: 10, changedCount: 10, deletedCount: 0 },
+		});
+
+		expect(getNodeRadius(quiet)).toBe(getFileRadius(50000));
+		expect(getNodeBaseColor(quiet)).toBe("#60a5fa");
+		expect(getNodeBaseColor(busy)).toBe("#f97316");
+		expect(
+			getNodeBaseColor({
+				...busy,
+				collapsed: { fileCount: 10, changedCount: 5, deletedCount: 0 },
+			}),
+		).not.toBe(getNodeBaseColor(quiet));
+	});
+
+	it("should flash a colour only for changed nodes", () => {
+		expect(hasTransition(makeNode())).toBe(false);
+		expect(hasTransition(makeNode({ sizeChange: "unchanged" }))).toBe(false);
+		expect(getNodeTransitionColor(makeNode())).toBeNull();
+
+		expect(hasTransition(makeNode({ sizeChange: "increase" }))).toBe(true);
+		expect(getNodeTransitionColor(makeNode({ sizeChange: "increase" }))).toBe(
+			"#ef4444",
+		);
+		expect(getNodeTransitionColor(makeNode({ sizeChange: "decrease" }))).toBe(
+			"#22c55e",
+		);
+		expect(hasTransition(makeNode({ fileStatus: "moved" }))).toBe(true);
+		expect(
+			getNodeTransitionColor(
+				makeNode({ fileStatus: "moved", sizeChange: "increase" }),
+			),
+		).toBe("#eab308");
+	});
+});
@@ -0,0 +1,76 @@
+import * as THREE from "three";
+import type { FileNode } from "../types";
+
+// Animation timings shared by the per-node and instanced renderers
+export const TRANSITION_FADE_MS = 3000; // Change colour fades back to the base colour
+export const DELETE_SHRINK_MS = 2000; // Deleted files shrink to nothing
+export const ADD_GROW_MS = 1000; // Added files grow from nothing
+
+export function isRootNode(node: FileNode): boolean {
+	return node.id === "/" || node.path === "/";
+}
+
+/**
+ * Radius of a file of the given size - scales with the LOG of the size
+ */
+export function getFileRadius(size: number): number {
+	return Math.max(2.0, Math.min(15, Math.log10(size + 1) * 4));
+}
+
+/**
+ * Rendered radius: the root is larger, directories get a fixed size and
+ * files (and collapsed directories) scale with their size
+ */
+export function getNodeRadius(node: FileNode): number {
+	if (isRootNode(node)) return 5.0;
+	if (node.collapsed) return Math.max(3.0, getFileRadius(node.size));
+	if (node.type === "directory") return 3.0;
+	return getFileRadius(node.size);
+}
+
+/**
+ * Radius a deleted file shrinks from
+ */
+export function getDeletedRadius(node: FileNode): number {
+	return getFileRadius(node.previousSize || 100);
+}
+
+// Collapsed directories shade from directory blue to orange as more of their files change
+const COLLAPSED_QUIET_COLOR = "#60a5fa";
+const COLLAPSED_ACTIVE_COLOR = "#f97316";
+
+/**
+ * Base colour: the root is white, directories bright blue, files green, and
+ * collapsed directories by the share of their files that changed
+ */
+export function getNodeBaseColor(node: FileNode): string {
+	if (isRootNode(node)) return "#ffffff";
+	if (node.collapsed) {
+		const { fileCount, changedCount } = node.collapsed;
+		const activity = fileCount > 0 ? Math.min(1, changedCount / fileCount) : 0;
+		return `#${new THREE.Color(COLLAPSED_QUIET_COLOR)
+			.lerp(new THREE.Color(COLLAPSED_ACTIVE_COLOR), activity)
+			.getHexString()}`;
+	}
+	return node.type === "directory" ? "#60a5fa" : "#10b981";
+}
+
+/**
+ * Colour flashed when a node changes, or null when it didn't
+ */
+export function getNodeTransitionColor(node: FileNode): string | null {
+	if (node.fileStatus === "moved") return "#eab308"; // Yellow for moved files
+	if (node.sizeChange === "increase") return "#ef4444"; // Red for size increase
+	if (node.sizeChange === "decrease") return "#22c55e"; // Green for size decrease
+	return null;
+}
+
+/**
+ * Whether a node should flash its transition colour
+ */
+export function hasTransition(node: FileNode): boolean {
+	return (
+		(node.sizeChange !== undefined && node.sizeChange !== "unchanged") ||
+		node.fileStatus === "moved"
+	);
+}
@@ -0,0 +1,172 @@
+// Stop splitting below this depth so coincident points can't recurse forever
+const MAX_DEPTH = 24;
+
+/**
+ * A cube of space with the totals of the points inside it
+ */
+export interface OctreeCell {
+	// Cube bounds
+	centerX: number;
+	centerY: number;
+	centerZ: number;
+	halfSize: number;
+
+	// Totals of the points inside, for approximating the cell as one body
+	count: number;
+	sumX: number;
+	sumY: number;
+	sumZ: number;
+	sumRadius: number;
+
+	children: Array<OctreeCell | null> | null; // null for leaf cells
+	points: number[]; // Indices of the points in a leaf cell
+}
+
+/**
+ * Octree over a set of 3D points, used for Barnes–Hut force approximation
+ *
+ * Each cell keeps the count, position sums and radius sum of its points so a
+ * distant cell can stand in for all of them.
+ */
+export class Octree {
+	readonly root: OctreeCell;
+	private xs: ArrayLike<number>;
+	private ys: ArrayLike<number>;
+	private zs: ArrayLike<number>;
+	private radii: ArrayLike<number>;
+
+	constructor(
+		xs: ArrayLike<number>,
+		ys: ArrayLike<number>,
+		zs: ArrayLike<number>,
+		radii: ArrayLike<number>,
+	) {
+		this.xs = xs;
+		this.ys = ys;
+		this.zs = zs;
+		this.radii = radii;
+
+		// Bounding cube around all points
+		let minX = Infinity;
+		let minY = Infinity;
+		let minZ = Infinity;
+		let maxX = -Infinity;
+		let maxY = -Infinity;
+		let maxZ = -Infinity;
+		for (let i = 0; i < xs.length; i++) {
+			minX = Math.min(minX, xs[i]);
+			minY = Math.min(minY, ys[i]);
+			minZ = Math.min(minZ, zs[i]);
+			maxX = Math.max(maxX, xs[i]);
+			maxY = Math.max(maxY, ys[i]);
+			maxZ = Math.max(maxZ, zs[i]);
+		}
+		const halfSize =
+			xs.length > 0
+				? Math.max(maxX - minX, maxY - minY, maxZ - minZ, 1) / 2 + 1
+				: 1;
+
+		this.root =
+			xs.length > 0
+				? createCell(
+						(minX + maxX) / 2,
+						(minY + maxY) / 2,
+						(minZ + maxZ) / 2,
+						halfSize,
+					)
+				: createCell(0, 0, 0, halfSize);
+
+		for (let i = 0; i < xs.length; i++) {
+			this.insert(this.root, i, 0);
+		}
+	}
+
+	/**
+	 * Walk the tree depth first - return true from the visitor to skip a cell's children
+	 */
+	visit(visitor: (cell: OctreeCell) => boolean | undefined) {
+		const stack: OctreeCell[] = [this.root];
+		while (stack.length > 0) {
+			const cell = stack.pop()!;
+			if (cell.count === 0 || visitor(cell) || !cell.children) continue;
+			for (const child of cell.children) {
+				if (child) stack.push(child);
+			}
+		}
+	}
+
+	private insert(cell: OctreeCell, index: number, depth: number) {
+		const x = this.xs[index];
+		const y = this.ys[index];
+		const z = this.zs[index];
+
+		cell.count++;
+		cell.sumX += x;
+		cell.sumY += y;
+		cell.sumZ += z;
+		cell.sumRadius += this.radii[index];
+
+		if (!cell.children) {
+			// Leaves hold one point, or several once the depth limit is reached
+			if (cell.points.length === 0 || depth >= MAX_DEPTH) {
+				cell.points.push(index);
+				return;
+			}
+
+			// Split and push the existing points down a level
+			const existing = cell.points;
+			cell.points = [];
+			cell.children = new Array(8).fill(null);
+			for (const point of existing) {
+				this.insertIntoChild(cell, point, depth);
+			}
+		}
+
+		this.insertIntoChild(cell, index, depth);
+	}
+
+	private insertIntoChild(cell: OctreeCell, index: number, depth: number) {
+		const x = this.xs[index];
+		const y = this.ys[index];
+		const z = this.zs[index];
+		const octant =
+			(x >= cell.centerX ? 1 : 0) |
+			(y >= cell.centerY ? 2 : 0) |
+			(z >= cell.centerZ ? 4 : 0);
+
+		let child = cell.children![octant];
+		if (!child) {
+			const half = cell.halfSize / 2;
+			child = createCell(
+				cell.centerX + (octant & 1 ? half : -half),
+				cell.centerY + (octant & 2 ? half : -half),
+				cell.centerZ + (octant & 4 ? half : -half),
+				half,
+			);
+			cell.children![octant] = child;
+		}
+
+		this.insert(child, index, depth + 1);
+	}
+}
+
+function createCell(
+	centerX: number,
+	centerY: number,
+	centerZ: number,
+	halfSize: number,
+): OctreeCell {
+	return {
+		centerX,
+		centerY,
+		centerZ,
+		halfSize,
+		count: 0,
+		sumX: 0,
+		sumY: 0,
+		sumZ: 0,
+		sumRadius: 0,
+		children: null,
+		points: [],
+	};
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+	createPathFilter,
+	globToRegExp,
+	isEmptyFilter,
+	normalizePatterns,
+} from "./pathFilter";
+
+describe("pathFilter", () => {
+	describe("globToRegExp", () => {
+		it("should keep * within one path segment", () => {
+			expect(globToRegExp("src/*.ts").test("src/index.ts")).toBe(true);
+			expect(globToRegExp("src/*.ts").test("src/utils/a.ts")).toBe(false);
+		});
+
+		it("should match any depth with **", () => {
+			const re = globToRegExp("**/*.lock");
+			expect(re.test("yarn.lock")).toBe(true);
+			expect(re.test("packages/app/pnpm.lock")).toBe(true);
+			expect(re.test("yarn.lock.bak")).toBe(false);
+		});
+
+		it("should match a directory and everything in it with dir/**", () => {
+			const re = globToRegExp("dist/**");
+			expect(re.test("dist")).toBe(true);
+			expect(re.test("dist/index.js")).toBe(true);
+			expect(re.test("dist/esm/index.js")).toBe(true);
+			expect(re.test("distribution/index.js")).toBe(false);
+		});
+
+		it("should support ? and {a,b}", () => {
+			expect(globToRegExp("src/?.ts").test("src/a.ts")).toBe(true);
+			expect(globToRegExp("src/?.ts").test("src/ab.ts")).toBe(false);
+			const re = globToRegExp("**/*.{ts,tsx}");
+			expect(re.test("src/App.tsx")).toBe(true);
+			expect(re.test("src/index.ts")).toBe(true);
+			expect(re.test("src/index.js")).toBe(false);
+		});
+
+		it("should treat regex characters literally", () => {
+			expect(globToRegExp("a+b.(c)").test("a+b.(c)")).toBe(true);
+			expect(globToRegExp("a.b").test("axb")).toBe(false);
+		});
+	});
+
+	describe("createPathFilter", () => {
+		it("should pass everything without patterns", () => {
+			const passes = createPathFilter({});
+			expect(passes("anything/at/all.md")).toBe(true);
+			expect(isEmptyFilter({ include: [" "], exclude: [] })).toBe(true);
+			expect(isEmptyFilter(undefined)).toBe(true);
+		});
+
+		it("should keep only included paths, minus excluded ones", () => {
+			const passes = createPathFilter({
+				include: ["src/**"],
+				exclude: ["**/*.test.ts"],
+			});
+
+			expect(passes("src/index.ts")).toBe(true);
+			expect(passes("src/index.test.ts")).toBe(false);
+			expect(passes("docs/guide.md")).toBe(false);
+		});
+
+		it("should ignore leading ./ in paths and patterns", () => {
+			const passes = createPathFilter({ exclude: ["./dist/**"] });
+			expect(passes("./dist/app.js")).toBe(false);
+			expect(passes("src/app.js")).toBe(true);
+		});
+	});
+
+	it("should drop blank and duplicate patterns", () => {
+		expect(normalizePatterns([" src/** ", "", "src/**", "docs/**"])).toEqual([
+			"src/**",
+			"docs/**",
+		]);
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * Glob patterns choosing which files appear in the timeline
+ */
+export interface PathFilter {
+	include?: string[]; // Only files matching one of these (all files when empty)
+	exclude?: string[]; // Minus files matching any of these
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths
+ *
+ * Supports `*` (within one path segment), `**` (any number of segments),
+ * `?` (one character) and `{a,b}` alternatives. `dir/**` also matches `dir`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	const glob = pattern.trim().replace(/^\.?\//, "");
+	let source = "";
+	let braceDepth = 0;
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*" && glob[i + 1] === "*") {
+			const atStart = i === 0 || glob[i - 1] === "/";
+			const atEnd = i + 2 === glob.length;
+			if (atStart && glob[i + 2] === "/") {
+				source += "(?:.*/)?"; // "**/" - zero or more directories
+				i += 2;
+			} else if (atEnd && i > 0 && glob[i - 1] === "/") {
+				source = `${source.slice(0, -1)}(?:/.*)?`; // "/**" - the directory and everything in it
+				i += 1;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			source += "(?:";
+			braceDepth++;
+		} else if (char === "}" && braceDepth > 0) {
+			source += ")";
+			braceDepth--;
+		} else if (char === "," && braceDepth > 0) {
+			source += "|";
+		} else {
+			source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Drop blank and duplicate patterns
+ */
+export function normalizePatterns(patterns: string[] = []): string[] {
+	return [
+		...new Set(patterns.map((pattern) => pattern.trim()).filter(Boolean)),
+	];
+}
+
+/**
+ * Whether a filter leaves every path in
+ */
+export function isEmptyFilter(filter?: PathFilter): boolean {
+	return (
+		normalizePatterns(filter?.include).length === 0 &&
+		normalizePatterns(filter?.exclude).length === 0
+	);
+}
+
+/**
+ * Build a predicate telling whether a file path passes the filter
+ */
+export function createPathFilter(
+	filter?: PathFilter,
+): (path: string) => boolean {
+	const include = normalizePatterns(filter?.include).map(globToRegExp);
+	const exclude = normalizePatterns(filter?.exclude).map(globToRegExp);
+
+	return (path) => {
+		const normalized = path.replace(/^\.?\//, "");
+		if (include.length > 0 && !include.some((re) => re.test(normalized))) {
+			return false;
+		}
+		return !exclude.some((re) => re.test(normalized));
+	};
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createRandom, hashString } from "./random";
+
+describe("random", () => {
+	it("should hash strings consistently", () => {
+		expect(hashString("facebook/react")).toBe(hashString("facebook/react"));
+		expect(hashString("facebook/react")).not.toBe(hashString("facebook/jest"));
+	});
+
+	it("should repeat the same sequence for the same seed", () => {
+		const a = createRandom("owner/repo");
+		const b = createRandom("owner/repo");
+
+		const first = Array.from({ length: 5 }, a);
+		expect(Array.from({ length: 5 }, b)).toEqual(first);
+		expect(new Set(first).size).toBe(5);
+	});
+
+	it("should give different sequences for different seeds", () => {
+		expect(createRandom(1)()).not.toBe(createRandom(2)());
+		expect(createRandom("a")()).not.toBe(createRandom("b")());
+	});
+
+	it("should stay within [0, 1)", () => {
+		const random = createRandom(42);
+		for (let i = 0; i < 1000; i++) {
+			const value = random();
+			expect(value).toBeGreaterThanOrEqual(0);
+			expect(value).toBeLessThan(1);
+		}
+	});
+});
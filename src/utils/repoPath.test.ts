@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parseRepoInput, parseRepoPath } from "./repoPath";
+
+describe("parseRepoPath", () => {
+	it("should treat owner/repo as GitHub", () => {
+		expect(parseRepoPath("facebook/react")).toEqual({
+			host: "github",
+			owner: "facebook",
+			repo: "react",
+		});
+	});
+
+	it("should allow nested GitLab namespaces", () => {
+		expect(parseRepoPath("gitlab:group/subgroup/project")).toEqual({
+			host: "gitlab",
+			owner: "group/subgroup",
+			repo: "project",
+		});
+	});
+
+	it("should keep the instance URL of self-hosted GitLab paths", () => {
+		expect(parseRepoPath("gitlab@gitlab.example.com:team/backend/api")).toEqual(
+			{
+				host: "gitlab",
+				owner: "team/backend",
+				repo: "api",
+				baseUrl: "https://gitlab.example.com",
+			},
+		);
+		expect(parseRepoPath("gitlab@gitlab.example.com:api")).toBeNull();
+	});
+
+	it("should parse Bitbucket paths", () => {
+		expect(parseRepoPath("bitbucket:workspace/repo")).toEqual({
+			host: "bitbucket",
+			owner: "workspace",
+			repo: "repo",
+		});
+	});
+
+	it("should reject nested paths for GitHub and Bitbucket", () => {
+		expect(parseRepoPath("projects/apps/monorepo")).toBeNull();
+		expect(parseRepoPath("bitbucket:a/b/c")).toBeNull();
+	});
+
+	it("should reject paths without an owner", () => {
+		expect(parseRepoPath("monorepo")).toBeNull();
+		expect(parseRepoPath("gitlab:project")).toBeNull();
+	});
+});
+
+describe("parseRepoInput", () => {
+	it("should accept repo paths as-is", () => {
+		expect(parseRepoInput("  facebook/react ")).toBe("facebook/react");
+		expect(parseRepoInput("gitlab:group/project")).toBe("gitlab:group/project");
+	});
+
+	it("should extract owner/repo from GitHub URLs", () => {
+		expect(parseRepoInput("https://github.com/facebook/react/pull/123")).toBe(
+			"facebook/react",
+		);
+		expect(parseRepoInput("https://github.com/facebook/react.git")).toBe(
+			"facebook/react",
+		);
+	});
+
+	it("should recognise gitlab.com and self-hosted GitLab URLs", () => {
+		expect(parseRepoInput("https://gitlab.com/gitlab-org/gitlab-runner")).toBe(
+			"gitlab:gitlab-org/gitlab-runner",
+		);
+		expect(
+			parseRepoInput("https://gitlab.example.com/team/backend/api/-/tree/main"),
+		).toBe("gitlab@gitlab.example.com:team/backend/api");
+		expect(parseRepoInput("gitlab@gitlab.example.com:team/api")).toBe(
+			"gitlab@gitlab.example.com:team/api",
+		);
+	});
+
+	it("should not mistake owners containing 'gitlab' for GitLab URLs", () => {
+		expect(parseRepoInput("mygitlabfan/repo")).toBe("mygitlabfan/repo");
+	});
+
+	it("should recognise Bitbucket URLs", () => {
+		expect(
+			parseRepoInput("https://bitbucket.org/workspace/repo/src/main/"),
+		).toBe("bitbucket:workspace/repo");
+	});
+
+	it("should return null for unrecognised input", () => {
+		expect(parseRepoInput("not a repo")).toBeNull();
+		expect(parseRepoInput("https://example.com/a/b/c")).toBeNull();
+	});
+});
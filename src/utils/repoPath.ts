@@ -0,0 +1,90 @@
+import type { GitHost } from "../types/provider";
+
+/**
+ * Repository path split into its host and owner/repo parts
+ */
+export interface ParsedRepoPath {
+	host: GitHost;
+	owner: string; // GitLab owners may include subgroups ("group/subgroup")
+	repo: string;
+	baseUrl?: string; // Self-hosted GitLab instance ("https://gitlab.example.com")
+}
+
+/**
+ * Parse a repository path
+ *
+ * - "owner/repo" - GitHub
+ * - "gitlab:group/subgroup/project" - GitLab (any depth of subgroups)
+ * - "gitlab@gitlab.example.com:group/project" - self-hosted GitLab
+ * - "bitbucket:workspace/repo" - Bitbucket Cloud
+ *
+ * Returns null for anything else (e.g. local directory paths)
+ */
+export function parseRepoPath(repoPath: string): ParsedRepoPath | null {
+	const selfHosted = repoPath.match(/^gitlab@([^/:@\s]+):(.+)$/);
+	if (selfHosted) {
+		const parsed = parseRepoPath(`gitlab:${selfHosted[2]}`);
+		return parsed && { ...parsed, baseUrl: `https://${selfHosted[1]}` };
+	}
+
+	const match = repoPath.match(/^(?:(gitlab|bitbucket):)?(.+)\/([^/]+)$/);
+	if (!match) {
+		return null;
+	}
+
+	const host = (match[1] as GitHost | undefined) || "github";
+	const [, , owner, repo] = match;
+
+	// Only GitLab supports nested namespaces
+	if (host !== "gitlab" && owner.includes("/")) {
+		return null;
+	}
+
+	return { host, owner, repo };
+}
+
+/**
+ * Parse user input (a repo path or a GitHub/GitLab/Bitbucket URL) into a repo path
+ * Returns null if the input isn't recognised
+ */
+export function parseRepoInput(input: string): string | null {
+	const value = input
+		.trim()
+		.replace(/\/$/, "")
+		.replace(/\.git$/, "");
+
+	// Already a repo path ("owner/repo", "gitlab:group/project", ...)
+	if (parseRepoPath(value)) {
+		return value;
+	}
+
+	// https://github.com/owner/repo/pull/123 -> owner/repo
+	const githubMatch = value.match(/github\.com\/([^/]+\/[^/]+)/i);
+	if (githubMatch) {
+		return githubMatch[1];
+	}
+
+	// https://bitbucket.org/workspace/repo/src/main -> bitbucket:workspace/repo
+	const bitbucketMatch = value.match(/bitbucket\.org\/([^/]+\/[^/]+)/i);
+	if (bitbucketMatch) {
+		return `bitbucket:${bitbucketMatch[1]}`;
+	}
+
+	// https://gitlab.com/group/subgroup/project/-/tree/main -> gitlab:group/subgroup/project
+	// Self-hosted instances are recognised by "gitlab" in the hostname and keep it
+	// (https://gitlab.example.com/team/api -> gitlab@gitlab.example.com:team/api)
+	const gitlabMatch = value.match(
+		/^(?:https?:\/\/)?([^/]*gitlab[^/]*\.[^/]+)\/(.+?)(?:\/-\/.*)?$/i,
+	);
+	if (gitlabMatch) {
+		const hostname = gitlabMatch[1].toLowerCase();
+		const path = gitlabMatch[2].replace(/\.git$/, "");
+		const repoPath =
+			hostname === "gitlab.com" || hostname === "www.gitlab.com"
+				? `gitlab:${path}`
+				: `gitlab@${hostname}:${path}`;
+		return parseRepoPath(repoPath) ? repoPath : null;
+	}
+
+	return null;
+}
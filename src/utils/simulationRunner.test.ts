@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { FileEdge, FileNode } from "../types";
+import { POSITION_STRIDE } from "./forceSimulation";
+import {
+	type SimulationRequest,
+	type SimulationResponse,
+	SimulationRunner,
+} from "./simulationRunner";
+
+// Stand-in for the inline worker: records requests and lets tests post replies
+const { FakeWorker } = vi.hoisted(() => {
+	class FakeWorker {
+		static instance: FakeWorker | null = null;
+		requests: SimulationRequest[] = [];
+		onmessage: ((event: MessageEvent<SimulationResponse>) => void) | null =
+			null;
+		onerror: ((event: ErrorEvent) => void) | null = null;
+		terminate = vi.fn();
+
+		constructor() {
+			FakeWorker.instance = this;
+		}
+
+		postMessage(request: SimulationRequest) {
+			this.requests.push(request);
+		}
+
+		reply(response: SimulationResponse) {
+			this.onmessage?.({ data: response } as MessageEvent<SimulationResponse>);
+		}
+	}
+	return { FakeWorker };
+});
+
+vi.mock("./forceSimulation.worker?worker&inline", () => ({
+	default: FakeWorker,
+}));
+
+const nodes: FileNode[] = [
+	{
+		id: "/",
+		path: "/",
+		name: "root",
+		size: 0,
+		type: "directory",
+		x: 0,
+		y: 0,
+		z: 0,
+		vx: 0,
+		vy: 0,
+		vz: 0,
+	},
+	{
+		id: "a.ts",
+		path: "a.ts",
+		name: "a.ts",
+		size: 100,
+		type: "file",
+		x: 80,
+		y: 0,
+		z: 0,
+		vx: 0,
+		vy: 0,
+		vz: 0,
+	},
+];
+const edges: FileEdge[] = [{ source: "/", target: "a.ts", type: "parent" }];
+
+let frames: FrameRequestCallback[];
+
+// Run queued animation frames until none are left
+const flushFrames = () => {
+	while (frames.length > 0) {
+		frames.shift()?.(0);
+	}
+};
+
+beforeEach(() => {
+	frames = [];
+	vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+		frames.push(callback);
+		return frames.length;
+	});
+	vi.stubGlobal("cancelAnimationFrame", () => {
+		frames = [];
+	});
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe("SimulationRunner (main thread fallback)", () => {
+	it("should stream positions until the iterations are done", () => {
+		const runner = new SimulationRunner(false);
+		const updates: Array<{ positions: Float32Array; done: boolean }> = [];
+
+		runner.start(nodes, edges, 5, (positions, done) => {
+			updates.push({ positions, done });
+		});
+		flushFrames();
+
+		expect(runner.usesWorker).toBe(false);
+		expect(updates).toHaveLength(5);
+		expect(updates.map((update) => update.done)).toEqual([
+			false,
+			false,
+			false,
+			false,
+			true,
+		]);
+
+		const last = updates[4].positions;
+		expect(last).toHaveLength(nodes.length * POSITION_STRIDE);
+		// Root stays pinned, the file is pulled in by its parent edge
+		expect(last[0]).toBe(0);
+		expect(last[POSITION_STRIDE]).toBeLessThan(80);
+	});
+
+	it("should not mutate the given nodes", () => {
+		const runner = new SimulationRunner(false);
+		runner.start(nodes, edges, 3, () => undefined);
+		flushFrames();
+
+		expect(nodes[1].x).toBe(80);
+		expect(nodes[1].vx).toBe(0);
+	});
+
+	it("should drop a run once a new one starts", () => {
+		const runner = new SimulationRunner(false);
+		const first = vi.fn();
+		const second = vi.fn();
+
+		runner.start(nodes, edges, 10, first);
+		runner.start(nodes, edges, 2, second);
+		flushFrames();
+
+		expect(first).toHaveBeenCalledTimes(1); // The synchronous first tick
+		expect(second).toHaveBeenCalledTimes(2);
+		expect(second).toHaveBeenLastCalledWith(expect.any(Float32Array), true);
+	});
+
+	it("should stop delivering positions after stop", () => {
+		const runner = new SimulationRunner(false);
+		const listener = vi.fn();
+
+		runner.start(nodes, edges, 10, listener);
+		runner.stop();
+		flushFrames();
+
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("SimulationRunner (worker)", () => {
+	const positions = (x: number) =>
+		new Float32Array(nodes.length * POSITION_STRIDE).fill(x);
+
+	it("should deliver only the latest worker positions each frame", () => {
+		const runner = new SimulationRunner(true);
+		const worker = FakeWorker.instance!;
+		const listener = vi.fn();
+
+		runner.start(nodes, edges, 10, listener);
+		const { runId } = worker.requests.find(
+			(request) => request.type === "start",
+		) as { runId: number };
+		worker.reply({
+			type: "positions",
+			runId,
+			positions: positions(1),
+			done: false,
+		});
+		worker.reply({
+			type: "positions",
+			runId,
+			positions: positions(2),
+			done: false,
+		});
+		worker.reply({
+			type: "positions",
+			runId,
+			positions: positions(3),
+			done: true,
+		});
+
+		expect(runner.usesWorker).toBe(true);
+		expect(listener).not.toHaveBeenCalled();
+
+		flushFrames();
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith(positions(3), true);
+	});
+
+	it("should drop queued positions when the run is stopped", () => {
+		const runner = new SimulationRunner(true);
+		const worker = FakeWorker.instance!;
+		const listener = vi.fn();
+
+		runner.start(nodes, edges, 10, listener);
+		const { runId } = worker.requests.find(
+			(request) => request.type === "start",
+		) as { runId: number };
+		worker.reply({
+			type: "positions",
+			runId,
+			positions: positions(1),
+			done: false,
+		});
+		runner.stop();
+		flushFrames();
+
+		expect(listener).not.toHaveBeenCalled();
+		expect(worker.requests[worker.requests.length - 1]).toEqual({
+			type: "stop",
+		});
+	});
+});
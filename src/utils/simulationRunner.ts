@@ -0,0 +1,212 @@
+/// <reference types="vite/client" />
+
+import type { FileEdge, FileNode } from "../types";
+import {
+	ForceSimulation,
+	type ForceSimulationConfig,
+	getFrameStride,
+	packPositions,
+} from "./forceSimulation";
+import SimulationWorker from "./forceSimulation.worker?worker&inline";
+
+export type SimulationRequest =
+	| {
+			type: "start";
+			runId: number;
+			nodes: FileNode[];
+			edges: FileEdge[];
+			iterations: number;
+			config: Partial<ForceSimulationConfig>;
+			seed?: string;
+	  }
+	| { type: "stop" };
+
+export interface SimulationResponse {
+	type: "positions";
+	runId: number;
+	positions: Float32Array; // POSITION_STRIDE floats per node, in the order nodes were given
+	done: boolean;
+}
+
+export type PositionsListener = (
+	positions: Float32Array,
+	done: boolean,
+) => void;
+
+/**
+ * Runs the force simulation in a Web Worker, streaming positions back per tick
+ * Worker messages are coalesced so listeners hear at most once per animation
+ * frame, with the latest positions (and always the final ones)
+ *
+ * Falls back to ticking on the main thread with requestAnimationFrame when
+ * workers aren't available or the worker fails to load.
+ */
+export class SimulationRunner {
+	private worker: Worker | null = null;
+	private runId = 0;
+	private listener: PositionsListener | null = null;
+	private animationFrame: number | undefined;
+	private pendingPositions: { positions: Float32Array; done: boolean } | null =
+		null;
+	private deliveryFrame: number | undefined;
+	private lastRun: {
+		nodes: FileNode[];
+		edges: FileEdge[];
+		iterations: number;
+		config: Partial<ForceSimulationConfig>;
+		seed?: string;
+	} | null = null;
+
+	constructor(useWorker = typeof Worker !== "undefined") {
+		if (!useWorker) return;
+
+		try {
+			const worker = new SimulationWorker();
+			worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+				const { runId, positions, done } = event.data;
+				if (runId !== this.runId) return; // Superseded by a newer run
+				this.queuePositions(positions, done);
+			};
+			worker.onerror = (event) => {
+				console.warn(
+					"Simulation worker failed, running on the main thread:",
+					event.message,
+				);
+				worker.terminate();
+				this.worker = null;
+				if (this.lastRun && this.listener) {
+					const { nodes, edges, iterations, config, seed } = this.lastRun;
+					this.runOnMainThread(nodes, edges, iterations, config, seed);
+				}
+			};
+			this.worker = worker;
+		} catch (error) {
+			console.warn("Simulation worker unavailable:", error);
+		}
+	}
+
+	get usesWorker(): boolean {
+		return this.worker !== null;
+	}
+
+	/**
+	 * Simulate the nodes for a number of ticks, replacing any run in progress
+	 * The given nodes aren't mutated - positions arrive through onPositions
+	 */
+	start(
+		nodes: FileNode[],
+		edges: FileEdge[],
+		iterations: number,
+		onPositions: PositionsListener,
+		config: Partial<ForceSimulationConfig> = {},
+		seed?: string,
+	) {
+		this.stop();
+		this.runId++;
+		this.listener = onPositions;
+		this.lastRun = { nodes, edges, iterations, config, seed };
+
+		if (this.worker) {
+			const request: SimulationRequest = {
+				type: "start",
+				runId: this.runId,
+				nodes,
+				edges,
+				iterations,
+				config,
+				seed,
+			};
+			this.worker.postMessage(request);
+		} else {
+			this.runOnMainThread(nodes, edges, iterations, config, seed);
+		}
+	}
+
+	/**
+	 * Stop the current run - positions still in flight are dropped
+	 */
+	stop() {
+		this.runId++;
+		this.listener = null;
+		this.lastRun = null;
+
+		if (this.animationFrame !== undefined) {
+			cancelAnimationFrame(this.animationFrame);
+			this.animationFrame = undefined;
+		}
+		if (this.deliveryFrame !== undefined) {
+			cancelAnimationFrame(this.deliveryFrame);
+			this.deliveryFrame = undefined;
+		}
+		this.pendingPositions = null;
+		if (this.worker) {
+			const request: SimulationRequest = { type: "stop" };
+			this.worker.postMessage(request);
+		}
+	}
+
+	dispose() {
+		this.stop();
+		this.worker?.terminate();
+		this.worker = null;
+	}
+
+	/**
+	 * Hold the latest worker positions until the next animation frame
+	 * Positions replace each other wholesale, so skipped ones are never needed
+	 */
+	private queuePositions(positions: Float32Array, done: boolean) {
+		this.pendingPositions = { positions, done };
+		if (this.deliveryFrame !== undefined) return;
+
+		this.deliveryFrame = requestAnimationFrame(() => {
+			this.deliveryFrame = undefined;
+			const pending = this.pendingPositions;
+			this.pendingPositions = null;
+			if (pending) {
+				this.listener?.(pending.positions, pending.done);
+			}
+		});
+	}
+
+	private runOnMainThread(
+		nodes: FileNode[],
+		edges: FileEdge[],
+		iterations: number,
+		config: Partial<ForceSimulationConfig>,
+		seed?: string,
+	) {
+		const simulation = new ForceSimulation(
+			nodes.map((node) => ({ ...node })),
+			edges,
+			config,
+			seed,
+		);
+		const runId = this.runId;
+		let iteration = 0;
+		let framesToSkip = 0;
+
+		const step = () => {
+			if (runId !== this.runId) return;
+
+			if (framesToSkip > 0) {
+				framesToSkip--;
+			} else {
+				simulation.tick();
+				iteration++;
+
+				const done = iteration >= iterations;
+				this.listener?.(packPositions(simulation.getNodes()), done);
+				if (done) {
+					this.animationFrame = undefined;
+					return;
+				}
+				framesToSkip = getFrameStride(iteration) - 1;
+			}
+
+			this.animationFrame = requestAnimationFrame(step);
+		};
+
+		step();
+	}
+}
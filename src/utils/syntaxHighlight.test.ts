@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { getLanguage, highlightLine } from "./syntaxHighlight";
+
+describe("getLanguage", () => {
+	it("picks rules by extension", () => {
+		expect(getLanguage("src/App.tsx")).toBe(getLanguage("lib/index.js"));
+		expect(getLanguage("main.go")).not.toBeNull();
+		expect(getLanguage("scripts/build.SH")).not.toBeNull();
+	});
+
+	it("returns null for unknown extensions", () => {
+		expect(getLanguage("README.md")).toBeNull();
+		expect(getLanguage("Makefile")).toBeNull();
+		expect(getLanguage("odd.constructor")).toBeNull();
+	});
+});
+
+describe("highlightLine", () => {
+	const ts = getLanguage("a.ts");
+	const py = getLanguage("a.py");
+
+	it("splits keywords, strings, numbers and comments", () => {
+		expect(highlightLine('const x = "hi" + 42; // note', ts)).toEqual([
+			{ text: "const", kind: "keyword" },
+			{ text: " x = ", kind: "plain" },
+			{ text: '"hi"', kind: "string" },
+			{ text: " + ", kind: "plain" },
+			{ text: "42", kind: "number" },
+			{ text: "; ", kind: "plain" },
+			{ text: "// note", kind: "comment" },
+		]);
+	});
+
+	it("keeps comment markers inside strings as strings", () => {
+		expect(highlightLine("url = 'http://x' # link", py)).toEqual([
+			{ text: "url = ", kind: "plain" },
+			{ text: "'http://x'", kind: "string" },
+			{ text: " ", kind: "plain" },
+			{ text: "# link", kind: "comment" },
+		]);
+	});
+
+	it("highlights an unterminated string to the end of the line", () => {
+		expect(highlightLine("return `multi", ts)).toEqual([
+			{ text: "return", kind: "keyword" },
+			{ text: " ", kind: "plain" },
+			{ text: "`multi", kind: "string" },
+		]);
+	});
+
+	it("does not treat identifiers containing keywords as keywords", () => {
+		expect(highlightLine("constant_value2", ts)).toEqual([
+			{ text: "constant_value2", kind: "plain" },
+		]);
+	});
+
+	it("returns the line as plain text without a language", () => {
+		expect(highlightLine("const x = 1", null)).toEqual([
+			{ text: "const x = 1", kind: "plain" },
+		]);
+	});
+});
@@ -0,0 +1,144 @@
+import { getFileExtension } from "./fileTypes";
+
+export type TokenKind = "plain" | "keyword" | "string" | "comment" | "number";
+
+export interface Token {
+	text: string;
+	kind: TokenKind;
+}
+
+export interface Language {
+	keywords: Set<string>;
+	pattern: RegExp; // Groups: comment, string, number, word
+}
+
+const STRING =
+	"\"(?:[^\"\\\\]|\\\\.)*\"?|'(?:[^'\\\\]|\\\\.)*'?|`(?:[^`\\\\]|\\\\.)*`?";
+const NUMBER = "\\b\\d[\\w.]*";
+const WORD = "[A-Za-z_$][\\w$]*";
+
+function language(keywords: string, lineComment: "//" | "#"): Language {
+	const comment =
+		lineComment === "#" ? "#.*$" : "\\/\\/.*$|\\/\\*.*?(?:\\*\\/|$)";
+	return {
+		keywords: new Set(keywords.split(" ")),
+		pattern: new RegExp(`(${comment})|(${STRING})|(${NUMBER})|(${WORD})`, "g"),
+	};
+}
+
+const JS = language(
+	"as async await break case catch class const continue default " +
+		"delete do else enum export extends false finally for from function " +
+		"if implements import in instanceof interface let new null of " +
+		"private protected public readonly return static super switch this " +
+		"throw true try type typeof undefined var void while yield",
+	"//",
+);
+
+const PYTHON = language(
+	"and as assert async await break class continue def del elif else " +
+		"except False finally for from global if import in is lambda None " +
+		"nonlocal not or pass raise return self True try while with yield",
+	"#",
+);
+
+const GO = language(
+	"break case chan const continue default defer else fallthrough " +
+		"false for func go goto if import interface map nil package range " +
+		"return select struct switch true type var",
+	"//",
+);
+
+// Java, C, C++, C#, Kotlin, Swift and Rust share enough to use one list
+const C_LIKE = language(
+	"abstract bool break case catch char class const continue default " +
+		"do double else enum extends false final float fn for fun func if " +
+		"impl import include int interface let long match mut namespace new " +
+		"null nullptr override package private protected pub public return " +
+		"self static struct super switch this throw throws true try use " +
+		"using val var virtual void while",
+	"//",
+);
+
+const SHELL = language(
+	"case do done elif else esac export fi for function if in local " +
+		"return then while",
+	"#",
+);
+
+const LANGUAGES = new Map<string, Language>([
+	["ts", JS],
+	["tsx", JS],
+	["js", JS],
+	["jsx", JS],
+	["mjs", JS],
+	["cjs", JS],
+	["py", PYTHON],
+	["go", GO],
+	["java", C_LIKE],
+	["kt", C_LIKE],
+	["swift", C_LIKE],
+	["rs", C_LIKE],
+	["c", C_LIKE],
+	["h", C_LIKE],
+	["cpp", C_LIKE],
+	["hpp", C_LIKE],
+	["cs", C_LIKE],
+	["sh", SHELL],
+	["yml", SHELL],
+	["yaml", SHELL],
+	["toml", SHELL],
+]);
+
+/**
+ * Highlighting rules for a file, or null for files shown as plain text
+ */
+export function getLanguage(path: string): Language | null {
+	return LANGUAGES.get(getFileExtension(path)) ?? null;
+}
+
+/**
+ * Split one line of source into highlighted tokens
+ *
+ * Lines are highlighted on their own, since diff hunks rarely hold a whole
+ * block comment or template string - good enough for reading a patch.
+ */
+export function highlightLine(
+	line: string,
+	language: Language | null,
+): Token[] {
+	if (!language || line === "") return [{ text: line, kind: "plain" }];
+
+	const tokens: Token[] = [];
+	let last = 0;
+	const push = (text: string, kind: TokenKind) => {
+		const previous = tokens[tokens.length - 1];
+		if (previous?.kind === kind) {
+			previous.text += text;
+		} else {
+			tokens.push({ text, kind });
+		}
+	};
+
+	for (const match of line.matchAll(language.pattern)) {
+		const [text, comment, string, number, word] = match;
+		const index = match.index ?? 0;
+		if (index > last) push(line.slice(last, index), "plain");
+
+		if (comment !== undefined) {
+			push(text, "comment");
+		} else if (string !== undefined) {
+			push(text, "string");
+		} else if (number !== undefined) {
+			push(text, "number");
+		} else if (word !== undefined && language.keywords.has(word)) {
+			push(text, "keyword");
+		} else {
+			push(text, "plain");
+		}
+		last = index + text.length;
+	}
+	if (last < line.length) push(line.slice(last), "plain");
+
+	return tokens;
+}
@@ -1,4 +1,4 @@
-import type { CommitData } from "../types";
+import type { CommitSummary } from "../types";
 
 /**
  * Find the index of the commit at or before the given time
@@ -6,7 +6,10 @@ import type { CommitData } from "../types";
  * @param time Timestamp in milliseconds
  * @returns Index of the current commit (0 if no commits or time is before first commit)
  */
-export function getCurrentIndex(commits: CommitData[], time: number): number {
+export function getCurrentIndex(
+	commits: CommitSummary[],
+	time: number,
+): number {
 	if (commits.length === 0) return 0;
 	// Find the latest commit that is <= current time
 	for (let i = commits.length - 1; i >= 0; i--) {
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import type { FileEdge, FileNode } from "../types";
+import { buildEdges, buildFileTree } from "./fileTreeBuilder";
+import {
+	buildingHeight,
+	coneLayout,
+	type LayoutPosition,
+	radialLayout,
+	squarify,
+	TREE_LAYOUTS,
+	treemapLayout,
+} from "./treeLayouts";
+
+const files = [
+	{ path: "README.md", size: 500 },
+	{ path: "src/index.ts", size: 2000 },
+	{ path: "src/utils/a.ts", size: 100 },
+	{ path: "src/utils/b.ts", size: 40000 },
+	{ path: "docs/guide.md", size: 800 },
+];
+
+function makeTree(): { nodes: FileNode[]; edges: FileEdge[] } {
+	return { nodes: buildFileTree(files), edges: buildEdges(files) };
+}
+
+function parentOf(edges: FileEdge[], id: string): string | undefined {
+	return edges.find((edge) => edge.type === "parent" && edge.target === id)
+		?.source;
+}
+
+describe("tree layouts", () => {
+	for (const [name, layout] of Object.entries(TREE_LAYOUTS)) {
+		describe(name, () => {
+			it("should position every node", () => {
+				const { nodes, edges } = makeTree();
+				const positions = layout(nodes, edges);
+
+				for (const node of nodes) {
+					const position = positions.get(node.id);
+					expect(position).toBeDefined();
+					expect(Number.isFinite(position?.x)).toBe(true);
+					expect(Number.isFinite(position?.y)).toBe(true);
+					expect(Number.isFinite(position?.z)).toBe(true);
+				}
+			});
+
+			it("should produce identical positions regardless of input order", () => {
+				const { nodes, edges } = makeTree();
+				const first = layout(nodes, edges);
+				const second = layout([...nodes].reverse(), [...edges].reverse());
+
+				expect(second).toEqual(first);
+			});
+
+			it("should give distinct nodes distinct positions", () => {
+				const { nodes, edges } = makeTree();
+				const positions = layout(nodes, edges);
+				const keys = new Set(
+					nodes.map((node) => {
+						const { x, y, z } = positions.get(node.id)!;
+						return `${x.toFixed(3)},${y.toFixed(3)},${z.toFixed(3)}`;
+					}),
+				);
+
+				expect(keys.size).toBe(nodes.length);
+			});
+
+			it("should return nothing for an empty tree", () => {
+				expect(layout([], []).size).toBe(0);
+			});
+		});
+	}
+
+	describe("radialLayout", () => {
+		it("should put the root at the origin and deeper nodes on wider rings", () => {
+			const { nodes, edges } = makeTree();
+			const positions = radialLayout(nodes, edges);
+			const radius = (id: string) => {
+				const { x, y } = positions.get(id)!;
+				return Math.hypot(x, y);
+			};
+
+			expect(radius("/")).toBe(0);
+			expect(radius("src")).toBeCloseTo(radius("docs"));
+			expect(radius("src")).toBeCloseTo(radius("README.md"));
+			expect(radius("src/utils")).toBeGreaterThan(radius("src"));
+			expect(radius("src/utils/a.ts")).toBeGreaterThan(radius("src/utils"));
+		});
+	});
+
+	describe("coneLayout", () => {
+		it("should hang every child below its parent", () => {
+			const { nodes, edges } = makeTree();
+			const positions = coneLayout(nodes, edges);
+
+			for (const node of nodes) {
+				const parent = parentOf(edges, node.id);
+				if (!parent) continue;
+				expect(positions.get(node.id)!.y).toBeLessThan(
+					positions.get(parent)!.y,
+				);
+			}
+			expect(positions.get("/")).toMatchObject({ x: 0, z: 0 });
+		});
+	});
+
+	describe("treemapLayout", () => {
+		const bounds = (position: LayoutPosition) => ({
+			minX: position.x - position.building!.width / 2,
+			maxX: position.x + position.building!.width / 2,
+			minY: position.y - position.building!.depth / 2,
+			maxY: position.y + position.building!.depth / 2,
+		});
+
+		it("should make larger files taller", () => {
+			const { nodes, edges } = makeTree();
+			const positions = treemapLayout(nodes, edges);
+
+			expect(positions.get("src/utils/b.ts")!.building!.height).toBe(
+				buildingHeight(40000),
+			);
+			expect(positions.get("src/utils/b.ts")!.building!.height).toBeGreaterThan(
+				positions.get("src/utils/a.ts")!.building!.height,
+			);
+		});
+
+		it("should keep every node inside its directory", () => {
+			const { nodes, edges } = makeTree();
+			const positions = treemapLayout(nodes, edges);
+
+			for (const node of nodes) {
+				const parent = parentOf(edges, node.id);
+				if (!parent) continue;
+				const inner = bounds(positions.get(node.id)!);
+				const outer = bounds(positions.get(parent)!);
+				expect(inner.minX).toBeGreaterThanOrEqual(outer.minX);
+				expect(inner.maxX).toBeLessThanOrEqual(outer.maxX);
+				expect(inner.minY).toBeGreaterThanOrEqual(outer.minY);
+				expect(inner.maxY).toBeLessThanOrEqual(outer.maxY);
+				// Stacked on top of the parent's slab
+				expect(positions.get(node.id)!.z).toBeGreaterThan(
+					positions.get(parent)!.z,
+				);
+			}
+		});
+	});
+
+	describe("squarify", () => {
+		it("should split the rectangle into areas proportional to the values", () => {
+			const pieces = squarify(
+				[
+					{ value: 6, item: "a" },
+					{ value: 3, item: "b" },
+					{ value: 1, item: "c" },
+				],
+				{ x: 0, y: 0, width: 10, height: 10 },
+			);
+
+			const area = (item: string) => {
+				const { rect } = pieces.find((piece) => piece.item === item)!;
+				return rect.width * rect.height;
+			};
+			expect(area("a")).toBeCloseTo(60);
+			expect(area("b")).toBeCloseTo(30);
+			expect(area("c")).toBeCloseTo(10);
+		});
+
+		it("should not overlap pieces", () => {
+			const pieces = squarify(
+				[5, 4, 3, 2, 2, 1].map((value, i) => ({ value, item: i })),
+				{ x: 0, y: 0, width: 8, height: 5 },
+			);
+
+			for (let i = 0; i < pieces.length; i++) {
+				for (let j = i + 1; j < pieces.length; j++) {
+					const a = pieces[i].rect;
+					const b = pieces[j].rect;
+					const overlapX =
+						Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+					const overlapY =
+						Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+					expect(overlapX <= 1e-9 || overlapY <= 1e-9).toBe(true);
+				}
+			}
+		});
+	});
+});
@@ -0,0 +1,399 @@
+import type { FileEdge, FileNode } from "../types";
+
+/**
+ * How the graph is laid out: the force simulation, or one of the
+ * deterministic layouts computed from the directory hierarchy
+ */
+export type LayoutMode = "force" | "radial" | "cone" | "treemap";
+
+/**
+ * Box drawn for a node in the treemap: width along x, depth along y, height along z
+ */
+export interface Building {
+	width: number;
+	depth: number;
+	height: number;
+}
+
+export interface LayoutPosition {
+	x: number;
+	y: number;
+	z: number;
+	building?: Building; // Treemap only
+}
+
+export type TreeLayout = (
+	nodes: FileNode[],
+	edges: FileEdge[],
+) => Map<string, LayoutPosition>;
+
+// Radial: minimum spacing between rings and between nodes on a ring
+const RING_SPACING = 30;
+const MIN_ARC_SPACING = 8;
+
+// Cone: vertical distance between levels and space reserved around a leaf
+const CONE_LEVEL_HEIGHT = 40;
+const CONE_LEAF_RADIUS = 5;
+
+// Treemap: footprint per file, padding inside districts, slab thickness per level
+const TREEMAP_CELL_SIZE = 12;
+const TREEMAP_PADDING = 1.5;
+const TREEMAP_GAP = 1;
+const TREEMAP_SLAB_HEIGHT = 1;
+
+interface HierarchyNode {
+	node: FileNode;
+	children: HierarchyNode[];
+	depth: number;
+	leaves: number; // Leaf count of the subtree (1 for a leaf)
+}
+
+/**
+ * Build the directory hierarchy from parent edges, rooted at "/"
+ * Children are sorted by path so the result doesn't depend on input order;
+ * nodes that aren't reachable from the root are attached to it
+ */
+function buildHierarchy(
+	nodes: FileNode[],
+	edges: FileEdge[],
+): HierarchyNode | null {
+	if (nodes.length === 0) return null;
+
+	const byId = new Map(nodes.map((node) => [node.id, node]));
+	const rootNode = byId.get("/") ?? {
+		id: "/",
+		path: "/",
+		name: "root",
+		size: 0,
+		type: "directory" as const,
+	};
+
+	const childIds = new Map<string, string[]>();
+	for (const edge of edges) {
+		if (edge.type !== "parent" || !byId.has(edge.target)) continue;
+		const ids = childIds.get(edge.source) ?? [];
+		ids.push(edge.target);
+		childIds.set(edge.source, ids);
+	}
+
+	const visited = new Set<string>([rootNode.id]);
+	const build = (node: FileNode, depth: number): HierarchyNode => {
+		const children: HierarchyNode[] = [];
+		const ids = [...(childIds.get(node.id) ?? [])].sort();
+		for (const id of ids) {
+			if (visited.has(id)) continue;
+			visited.add(id);
+			children.push(build(byId.get(id)!, depth + 1));
+		}
+		return {
+			node,
+			children,
+			depth,
+			leaves:
+				children.length > 0
+					? children.reduce((sum, child) => sum + child.leaves, 0)
+					: 1,
+		};
+	};
+	const root = build(rootNode, 0);
+
+	// Attach anything the edges didn't reach
+	const orphans = nodes
+		.filter((node) => !visited.has(node.id))
+		.sort((a, b) => a.id.localeCompare(b.id));
+	for (const node of orphans) {
+		if (visited.has(node.id)) continue; // Reached through an earlier orphan
+		visited.add(node.id);
+		root.children.push(build(node, 1));
+	}
+	if (orphans.length > 0) {
+		root.leaves = root.children.reduce((sum, child) => sum + child.leaves, 0);
+	}
+
+	return root;
+}
+
+function walk(root: HierarchyNode, visit: (node: HierarchyNode) => void) {
+	const stack = [root];
+	while (stack.length > 0) {
+		const current = stack.pop()!;
+		visit(current);
+		stack.push(...current.children);
+	}
+}
+
+/**
+ * Radial tree in the XY plane: the root at the origin, each depth on a ring,
+ * and every subtree given an angle proportional to its leaf count
+ */
+export const radialLayout: TreeLayout = (nodes, edges) => {
+	const positions = new Map<string, LayoutPosition>();
+	const root = buildHierarchy(nodes, edges);
+	if (!root) return positions;
+
+	// Rings get wider when a depth holds more nodes than fit at the spacing
+	const countByDepth: number[] = [];
+	walk(root, ({ depth }) => {
+		countByDepth[depth] = (countByDepth[depth] ?? 0) + 1;
+	});
+	const ringRadius = [0];
+	for (let depth = 1; depth < countByDepth.length; depth++) {
+		ringRadius[depth] = Math.max(
+			ringRadius[depth - 1] + RING_SPACING,
+			(countByDepth[depth] * MIN_ARC_SPACING) / (2 * Math.PI),
+		);
+	}
+
+	const place = (current: HierarchyNode, start: number, end: number) => {
+		const angle = (start + end) / 2;
+		const radius = ringRadius[current.depth];
+		positions.set(current.node.id, {
+			x: radius * Math.cos(angle),
+			y: radius * Math.sin(angle),
+			z: 0,
+		});
+
+		let childStart = start;
+		for (const child of current.children) {
+			const span = ((end - start) * child.leaves) / current.leaves;
+			place(child, childStart, childStart + span);
+			childStart += span;
+		}
+	};
+	place(root, 0, 2 * Math.PI);
+
+	return positions;
+};
+
+/**
+ * Cone tree: each directory's children sit on a circle one level below it,
+ * with circles sized so sibling subtrees don't overlap
+ * The tree hangs down from the root and is centered vertically on the origin
+ */
+export const coneLayout: TreeLayout = (nodes, edges) => {
+	const positions = new Map<string, LayoutPosition>();
+	const root = buildHierarchy(nodes, edges);
+	if (!root) return positions;
+
+	// Bottom-up: radius of the circle each node's children sit on, and the
+	// radius the whole subtree needs
+	const circleRadius = new Map<HierarchyNode, number>();
+	const subtreeRadius = new Map<HierarchyNode, number>();
+	let maxDepth = 0;
+	const measure = (current: HierarchyNode): number => {
+		maxDepth = Math.max(maxDepth, current.depth);
+		if (current.children.length === 0) {
+			subtreeRadius.set(current, CONE_LEAF_RADIUS);
+			return CONE_LEAF_RADIUS;
+		}
+
+		const childRadii = current.children.map(measure);
+		const largest = Math.max(...childRadii);
+		const circumference = childRadii.reduce((sum, r) => sum + 2 * r, 0);
+		const radius =
+			current.children.length === 1 ? 0 : circumference / (2 * Math.PI);
+		circleRadius.set(current, radius);
+		subtreeRadius.set(current, Math.max(radius + largest, CONE_LEAF_RADIUS));
+		return subtreeRadius.get(current)!;
+	};
+	measure(root);
+
+	const top = (maxDepth * CONE_LEVEL_HEIGHT) / 2;
+	const place = (current: HierarchyNode, x: number, z: number) => {
+		positions.set(current.node.id, {
+			x,
+			y: top - current.depth * CONE_LEVEL_HEIGHT,
+			z,
+		});
+		if (current.children.length === 0) return;
+
+		// Spread children around the circle in proportion to their size
+		const radius = circleRadius.get(current) ?? 0;
+		const total = current.children.reduce(
+			(sum, child) => sum + subtreeRadius.get(child)!,
+			0,
+		);
+		let angle = 0;
+		for (const child of current.children) {
+			const share = (2 * Math.PI * subtreeRadius.get(child)!) / total;
+			const childAngle = angle + share / 2;
+			place(
+				child,
+				x + radius * Math.cos(childAngle),
+				z + radius * Math.sin(childAngle),
+			);
+			angle += share;
+		}
+	};
+	place(root, 0, 0);
+
+	return positions;
+};
+
+interface Rect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Squarified treemap - split a rectangle into areas proportional to the values,
+ * keeping the pieces as close to square as possible
+ */
+export function squarify<T>(
+	items: Array<{ value: number; item: T }>,
+	rect: Rect,
+): Array<{ item: T; rect: Rect }> {
+	const total = items.reduce((sum, { value }) => sum + value, 0);
+	if (total <= 0 || rect.width <= 0 || rect.height <= 0) return [];
+
+	const scale = (rect.width * rect.height) / total;
+	const queue = items
+		.filter(({ value }) => value > 0)
+		.map(({ value, item }) => ({ area: value * scale, item }))
+		.sort((a, b) => b.area - a.area);
+
+	const result: Array<{ item: T; rect: Rect }> = [];
+	let remaining = { ...rect };
+
+	// Worst aspect ratio of a row laid along a side of the given length
+	const worst = (row: typeof queue, side: number) => {
+		const sum = row.reduce((s, { area }) => s + area, 0);
+		const max = Math.max(...row.map(({ area }) => area));
+		const min = Math.min(...row.map(({ area }) => area));
+		return Math.max(
+			(side * side * max) / (sum * sum),
+			(sum * sum) / (side * side * min),
+		);
+	};
+
+	// Lay a row along the shorter side and return the space left over
+	const layoutRow = (row: typeof queue, space: Rect): Rect => {
+		const sum = row.reduce((s, { area }) => s + area, 0);
+		if (space.width >= space.height) {
+			const columnWidth = sum / space.height;
+			let y = space.y;
+			for (const { area, item } of row) {
+				const height = area / columnWidth;
+				result.push({
+					item,
+					rect: { x: space.x, y, width: columnWidth, height },
+				});
+				y += height;
+			}
+			return {
+				x: space.x + columnWidth,
+				y: space.y,
+				width: space.width - columnWidth,
+				height: space.height,
+			};
+		}
+
+		const rowHeight = sum / space.width;
+		let x = space.x;
+		for (const { area, item } of row) {
+			const width = area / rowHeight;
+			result.push({ item, rect: { x, y: space.y, width, height: rowHeight } });
+			x += width;
+		}
+		return {
+			x: space.x,
+			y: space.y + rowHeight,
+			width: space.width,
+			height: space.height - rowHeight,
+		};
+	};
+
+	let row: typeof queue = [];
+	for (const entry of queue) {
+		const side = Math.min(remaining.width, remaining.height);
+		if (row.length === 0 || worst([...row, entry], side) <= worst(row, side)) {
+			row.push(entry);
+		} else {
+			remaining = layoutRow(row, remaining);
+			row = [entry];
+		}
+	}
+	if (row.length > 0) {
+		layoutRow(row, remaining);
+	}
+
+	return result;
+}
+
+/**
+ * Building height for a file - grows with the log of its size
+ */
+export function buildingHeight(size: number): number {
+	return Math.max(1, Math.log10(size + 1) * 6);
+}
+
+/**
+ * 3D treemap ("code city") in the XY plane, extruded towards the camera (+z)
+ * Directories are stacked slabs (districts) and files are buildings on top of
+ * them; every file gets the same share of floor space and its height shows its size
+ */
+export const treemapLayout: TreeLayout = (nodes, edges) => {
+	const positions = new Map<string, LayoutPosition>();
+	const root = buildHierarchy(nodes, edges);
+	if (!root) return positions;
+
+	const side = Math.sqrt(root.leaves) * TREEMAP_CELL_SIZE;
+
+	const place = (current: HierarchyNode, rect: Rect) => {
+		const centerX = rect.x + rect.width / 2;
+		const centerY = rect.y + rect.height / 2;
+		const base = current.depth * TREEMAP_SLAB_HEIGHT;
+
+		if (current.node.type === "file") {
+			const building: Building = {
+				width: Math.max(rect.width - TREEMAP_GAP, TREEMAP_GAP),
+				depth: Math.max(rect.height - TREEMAP_GAP, TREEMAP_GAP),
+				height: buildingHeight(current.node.size),
+			};
+			positions.set(current.node.id, {
+				x: centerX,
+				y: centerY,
+				z: base + building.height / 2,
+				building,
+			});
+			return;
+		}
+
+		positions.set(current.node.id, {
+			x: centerX,
+			y: centerY,
+			z: base + TREEMAP_SLAB_HEIGHT / 2,
+			building: {
+				width: rect.width,
+				depth: rect.height,
+				height: TREEMAP_SLAB_HEIGHT,
+			},
+		});
+
+		const padding = Math.min(TREEMAP_PADDING, rect.width / 4, rect.height / 4);
+		const inner: Rect = {
+			x: rect.x + padding,
+			y: rect.y + padding,
+			width: rect.width - 2 * padding,
+			height: rect.height - 2 * padding,
+		};
+		const pieces = squarify(
+			current.children.map((child) => ({ value: child.leaves, item: child })),
+			inner,
+		);
+		for (const { item, rect: childRect } of pieces) {
+			place(item, childRect);
+		}
+	};
+	place(root, { x: -side / 2, y: -side / 2, width: side, height: side });
+
+	return positions;
+};
+
+export const TREE_LAYOUTS: Record<Exclude<LayoutMode, "force">, TreeLayout> = {
+	radial: radialLayout,
+	cone: coneLayout,
+	treemap: treemapLayout,
+};
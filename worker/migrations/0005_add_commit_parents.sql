@@ -0,0 +1,4 @@
+-- Add parent SHAs to commits so the client can draw branch/merge topology
+-- Stored as a JSON array of full SHAs (first parent first); NULL for rows cached before this migration
+
+ALTER TABLE commits ADD COLUMN parent_shas TEXT;
@@ -0,0 +1,4 @@
+-- Store import specifiers per changed file so the client can draw dependency edges
+-- JSON array of specifiers as written in the source; NULL when the file wasn't read
+
+ALTER TABLE commit_files ADD COLUMN imports TEXT;
@@ -0,0 +1,15 @@
+-- Real file sizes for the state just before the oldest cached commit
+-- The client seeds its file tree from these blob sizes instead of starting empty
+
+ALTER TABLE repos ADD COLUMN base_commit_sha TEXT; -- Commit whose tree is stored ('' when the range starts at the root commit)
+
+CREATE TABLE IF NOT EXISTS repo_base_files (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_id INTEGER NOT NULL,
+  path TEXT NOT NULL,
+  size INTEGER NOT NULL, -- Blob size in bytes
+  FOREIGN KEY (repo_id) REFERENCES repos(id) ON DELETE CASCADE,
+  UNIQUE(repo_id, path)
+);
+
+CREATE INDEX idx_repo_base_files_repo_id ON repo_base_files(repo_id);
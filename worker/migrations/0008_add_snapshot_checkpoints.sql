@@ -0,0 +1,15 @@
+-- Periodic file-state checkpoints for the snapshot endpoint
+-- A snapshot replays commit files from the nearest checkpoint instead of from the base tree
+
+CREATE TABLE IF NOT EXISTS snapshot_checkpoints (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_id INTEGER NOT NULL,
+  commit_id INTEGER NOT NULL, -- File state after this commit
+  files TEXT NOT NULL, -- JSON array of { path, size, imports? }
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (repo_id) REFERENCES repos(id) ON DELETE CASCADE,
+  FOREIGN KEY (commit_id) REFERENCES commits(id) ON DELETE CASCADE,
+  UNIQUE(repo_id, commit_id)
+);
+
+CREATE INDEX idx_snapshot_checkpoints_repo_id ON snapshot_checkpoints(repo_id);
@@ -0,0 +1,5 @@
+-- Store each changed file's unified diff for the patch endpoint
+-- Patches over the size cap are cut at a line boundary and flagged as truncated
+
+ALTER TABLE commit_files ADD COLUMN patch TEXT;
+ALTER TABLE commit_files ADD COLUMN patch_truncated INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,326 @@
+/**
+ * Bitbucket Cloud API interaction functions
+ * Fetches commit history from the Bitbucket 2.0 REST API and normalises it
+ * to the GitHub-shaped Commit/CommitFile types
+ */
+
+import type { Commit, CommitFile, TreeFile } from "../types";
+
+const BITBUCKET_API_URL = "https://api.bitbucket.org/2.0";
+
+interface BitbucketCommit {
+	hash: string;
+	message: string;
+	date: string;
+	author: {
+		raw: string;
+		user?: { display_name: string };
+	};
+	parents?: Array<{ hash: string }>;
+}
+
+interface BitbucketDiffStat {
+	status: string;
+	lines_added: number;
+	lines_removed: number;
+	old: { path: string } | null;
+	new: { path: string } | null;
+}
+
+interface BitbucketPage<T> {
+	values: T[];
+	next?: string;
+}
+
+/**
+ * Tokens of the form "username:app_password" use Basic auth,
+ * anything else is sent as a Bearer access token
+ */
+async function fetchBitbucket(url: string, token: string): Promise<Response> {
+	const headers: Record<string, string> = {
+		Accept: "application/json",
+		"User-Agent": "Repo-Timeline-Worker",
+	};
+	if (token) {
+		headers.Authorization = token.includes(":")
+			? `Basic ${btoa(token)}`
+			: `Bearer ${token}`;
+	}
+
+	return fetch(url, { headers });
+}
+
+function repoUrl(workspace: string, repo: string, path = ""): string {
+	return `${BITBUCKET_API_URL}/repositories/${workspace}/${repo}${path}`;
+}
+
+function toCommit(commit: BitbucketCommit): Commit {
+	return {
+		sha: commit.hash,
+		commit: {
+			message: commit.message,
+			author: {
+				// Raw author is "Name <email>" - prefer the linked account name
+				name:
+					commit.author.user?.display_name ||
+					commit.author.raw.replace(/\s*<[^>]*>\s*$/, ""),
+				date: commit.date,
+			},
+		},
+		parents: commit.parents?.map((parent) => ({ sha: parent.hash })),
+	};
+}
+
+/**
+ * Convert a Bitbucket diffstat entry to a CommitFile
+ */
+export function diffStatToCommitFile(stat: BitbucketDiffStat): CommitFile {
+	const additions = stat.lines_added || 0;
+	const deletions = stat.lines_removed || 0;
+
+	if (stat.status === "added" || !stat.old) {
+		return {
+			filename: stat.new?.path || "",
+			status: "added",
+			additions,
+			deletions,
+		};
+	}
+	if (stat.status === "removed" || !stat.new) {
+		return { filename: stat.old.path, status: "removed", additions, deletions };
+	}
+	if (stat.status === "renamed") {
+		return {
+			filename: stat.new.path,
+			status: "renamed",
+			additions,
+			deletions,
+			previous_filename: stat.old.path,
+		};
+	}
+	return { filename: stat.new.path, status: "modified", additions, deletions };
+}
+
+async function checkResponse(
+	response: Response,
+	workspace: string,
+	repo: string,
+): Promise<void> {
+	if (response.ok) {
+		return;
+	}
+	if (response.status === 404) {
+		throw new Error(`Repository ${workspace}/${repo} not found`);
+	}
+	if (response.status === 429) {
+		throw new Error("Bitbucket API rate limit exceeded");
+	}
+	throw new Error(`Bitbucket API error: ${response.status}`);
+}
+
+/**
+ * Fetch repository metadata including default (main) branch
+ */
+export async function fetchRepoInfo(
+	token: string,
+	workspace: string,
+	repo: string,
+): Promise<{ default_branch: string }> {
+	const response = await fetchBitbucket(repoUrl(workspace, repo), token);
+	await checkResponse(response, workspace, repo);
+
+	const data: { mainbranch?: { name: string } } = await response.json();
+	return { default_branch: data.mainbranch?.name || "main" };
+}
+
+/**
+ * Estimate the commit count for a branch
+ * Bitbucket doesn't report totals, so this is exact for histories that fit in
+ * one page and a lower bound (one page + 1) otherwise
+ */
+export async function fetchCommitCount(
+	token: string,
+	workspace: string,
+	repo: string,
+	branch: string,
+): Promise<number> {
+	const url = repoUrl(
+		workspace,
+		repo,
+		`/commits/${encodeURIComponent(branch)}?pagelen=100&fields=values.hash,next`,
+	);
+
+	const response = await fetchBitbucket(url, token);
+	await checkResponse(response, workspace, repo);
+
+	const page: BitbucketPage<{ hash: string }> = await response.json();
+	return page.next ? page.values.length + 1 : page.values.length;
+}
+
+/**
+ * Fetch commits from a branch (newest first, without files)
+ */
+export async function fetchCommits(
+	token: string,
+	workspace: string,
+	repo: string,
+	branch: string,
+	sinceCommit?: string,
+	maxPages: number = 10,
+): Promise<Commit[]> {
+	const allCommits: Commit[] = [];
+	let url: string | undefined = repoUrl(
+		workspace,
+		repo,
+		`/commits/${encodeURIComponent(branch)}?pagelen=100`,
+	);
+	let page = 1;
+
+	console.log(`Fetching Bitbucket commits from ${workspace}/${repo}@${branch}`);
+
+	while (url && page <= maxPages) {
+		const response = await fetchBitbucket(url, token);
+		await checkResponse(response, workspace, repo);
+
+		const data: BitbucketPage<BitbucketCommit> = await response.json();
+		const commits = data.values.map(toCommit);
+
+		// If we have a sinceCommit, stop when we reach it
+		if (sinceCommit) {
+			const sinceIndex = commits.findIndex((c) => c.sha === sinceCommit);
+			if (sinceIndex >= 0) {
+				allCommits.push(...commits.slice(0, sinceIndex));
+				break;
+			}
+		}
+
+		allCommits.push(...commits);
+
+		// Bitbucket links the next page directly
+		url = data.next;
+		page++;
+	}
+
+	console.log(
+		`Fetched ${allCommits.length} Bitbucket commits from ${workspace}/${repo}@${branch}`,
+	);
+	return allCommits;
+}
+
+/**
+ * Fetch the files changed by a commit via its diffstat
+ * The commit list already carries message/author, so only the diffstat is requested
+ */
+export async function fetchCommitFiles(
+	token: string,
+	workspace: string,
+	repo: string,
+	commit: Commit,
+): Promise<Commit> {
+	const url = repoUrl(workspace, repo, `/diffstat/${commit.sha}?pagelen=500`);
+
+	const response = await fetchBitbucket(url, token);
+	await checkResponse(response, workspace, repo);
+
+	const data: BitbucketPage<BitbucketDiffStat> = await response.json();
+
+	return { ...commit, files: data.values.map(diffStatToCommitFile) };
+}
+
+/**
+ * Fetch the sizes of the files in a commit's tree
+ * Bitbucket lists trees page by page, so very large trees are cut off at maxPages
+ */
+export async function fetchTreeSizes(
+	token: string,
+	workspace: string,
+	repo: string,
+	sha: string,
+	maxPages = 10,
+): Promise<TreeFile[]> {
+	const files: TreeFile[] = [];
+	let url: string | undefined = repoUrl(
+		workspace,
+		repo,
+		`/src/${sha}/?max_depth=50&pagelen=100&fields=values.type,values.path,values.size,next`,
+	);
+	let page = 1;
+
+	while (url && page <= maxPages) {
+		const response = await fetchBitbucket(url, token);
+		await checkResponse(response, workspace, repo);
+
+		const data: BitbucketPage<{ type: string; path: string; size?: number }> =
+			await response.json();
+		for (const entry of data.values) {
+			if (entry.type === "commit_file") {
+				files.push({ path: entry.path, size: entry.size || 0 });
+			}
+		}
+
+		url = data.next;
+		page++;
+	}
+
+	return files;
+}
+
+/**
+ * Fetch the raw contents of a file at a commit
+ * Returns null when the file can't be read
+ */
+export async function fetchFileContent(
+	token: string,
+	workspace: string,
+	repo: string,
+	sha: string,
+	path: string,
+): Promise<string | null> {
+	const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+	const response = await fetchBitbucket(
+		repoUrl(workspace, repo, `/src/${sha}/${encodedPath}`),
+		token,
+	);
+	if (!response.ok) {
+		return null;
+	}
+
+	return response.text();
+}
+
+/**
+ * Fetch merged pull request stats for the repo summary endpoint
+ * Shaped like the GitHub PR summary so the client can display it unchanged
+ */
+export async function fetchPullRequestSummary(
+	token: string,
+	workspace: string,
+	repo: string,
+): Promise<{
+	estimatedTotalPRs: number;
+	hasMoreThan100PRs: boolean;
+	firstMergedPR: { number: number; merged_at: string } | null;
+}> {
+	const url = repoUrl(
+		workspace,
+		repo,
+		"/pullrequests?state=MERGED&sort=created_on&pagelen=50",
+	);
+
+	const response = await fetchBitbucket(url, token);
+	await checkResponse(response, workspace, repo);
+
+	// Bitbucket has no merged_at - updated_on is when the PR was last touched (merged)
+	const data: BitbucketPage<{ id: number; updated_on: string }> & {
+		size?: number;
+	} = await response.json();
+	const total = data.size ?? data.values.length;
+
+	return {
+		estimatedTotalPRs: total,
+		hasMoreThan100PRs: total > 100,
+		firstMergedPR: data.values[0]
+			? { number: data.values[0].id, merged_at: data.values[0].updated_on }
+			: null,
+	};
+}
@@ -3,7 +3,7 @@
  * Handles fetching PR data, files, and metadata from GitHub REST API
  */
 
-import type { PRFile, PullRequest } from "../types";
+import type { PRFile, PullRequest, TreeFile } from "../types";
 
 /**
  * Fetch repository metadata including default branch
@@ -44,7 +44,7 @@ export async function fetchCommitCount(
 	branch: string,
 ): Promise<number> {
 	// Request just 1 commit to get Link header with pagination info
-	const url = `https://api.github.com/repos/${owner}/${repo}/commits?sha=${branch}&per_page=1&page=1`;
+	const url = `https://api.github.com/repos/${owner}/${repo}/commits?sha=${encodeURIComponent(branch)}&per_page=1&page=1`;
 
 	const response = await fetch(url, {
 		headers: {
@@ -106,7 +106,7 @@ export async function fetchCommits(
 	console.log(`Fetching commits from ${owner}/${repo}@${branch}`);
 
 	while (page <= maxPages) {
-		const url = `https://api.github.com/repos/${owner}/${repo}/commits?sha=${branch}&per_page=${perPage}&page=${page}`;
+		const url = `https://api.github.com/repos/${owner}/${repo}/commits?sha=${encodeURIComponent(branch)}&per_page=${perPage}&page=${page}`;
 
 		const response = await fetch(url, {
 			headers: {
@@ -181,6 +181,73 @@ export async function fetchCommitFiles(
 	return await response.json();
 }
 
+/**
+ * Fetch the blob sizes of every file in a commit's tree
+ * Very large repositories get a truncated tree; the entries returned are still accurate
+ */
+export async function fetchTreeSizes(
+	token: string,
+	owner: string,
+	repo: string,
+	sha: string,
+): Promise<TreeFile[]> {
+	const url = `https://api.github.com/repos/${owner}/${repo}/git/trees/${sha}?recursive=1`;
+
+	const response = await fetch(url, {
+		headers: {
+			Authorization: `Bearer ${token}`,
+			Accept: "application/vnd.github.v3+json",
+			"User-Agent": "Repo-Timeline-Worker",
+		},
+	});
+
+	if (!response.ok) {
+		throw new Error(`GitHub API error: ${response.status}`);
+	}
+
+	const data: {
+		tree: Array<{ path: string; type: string; size?: number }>;
+		truncated: boolean;
+	} = await response.json();
+
+	if (data.truncated) {
+		console.warn(`Tree for ${owner}/${repo}@${sha} was truncated`);
+	}
+
+	return data.tree
+		.filter((entry) => entry.type === "blob")
+		.map((entry) => ({ path: entry.path, size: entry.size || 0 }));
+}
+
+/**
+ * Fetch the raw contents of a file at a commit
+ * Returns null when the file can't be read (deleted, binary, too large)
+ */
+export async function fetchFileContent(
+	token: string,
+	owner: string,
+	repo: string,
+	sha: string,
+	path: string,
+): Promise<string | null> {
+	const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+	const url = `https://api.github.com/repos/${owner}/${repo}/contents/${encodedPath}?ref=${sha}`;
+
+	const response = await fetch(url, {
+		headers: {
+			Authorization: `Bearer ${token}`,
+			Accept: "application/vnd.github.raw",
+			"User-Agent": "Repo-Timeline-Worker",
+		},
+	});
+
+	if (!response.ok) {
+		return null;
+	}
+
+	return await response.text();
+}
+
 /**
  * Fetch a single PR from GitHub
  */
@@ -0,0 +1,364 @@
+/**
+ * GitLab API interaction functions
+ * Fetches commit history from the GitLab REST API (gitlab.com or self-hosted)
+ * and normalises it to the GitHub-shaped Commit/CommitFile types
+ */
+
+import type { Commit, CommitFile } from "../types";
+
+const DEFAULT_GITLAB_URL = "https://gitlab.com";
+
+interface GitLabCommit {
+	id: string;
+	message: string;
+	author_name: string;
+	authored_date: string;
+	parent_ids?: string[];
+}
+
+interface GitLabDiff {
+	old_path: string;
+	new_path: string;
+	new_file: boolean;
+	renamed_file: boolean;
+	deleted_file: boolean;
+	diff: string;
+}
+
+/**
+ * Build a GitLab API URL for a project
+ * Projects are addressed by their URL-encoded path, e.g. "group%2Fsubgroup%2Fproject"
+ */
+function projectUrl(
+	baseUrl: string | undefined,
+	owner: string,
+	repo: string,
+	path = "",
+): string {
+	const base = (baseUrl || DEFAULT_GITLAB_URL).replace(/\/$/, "");
+	return `${base}/api/v4/projects/${encodeURIComponent(`${owner}/${repo}`)}${path}`;
+}
+
+async function fetchGitLab(url: string, token: string): Promise<Response> {
+	const headers: Record<string, string> = {
+		Accept: "application/json",
+		"User-Agent": "Repo-Timeline-Worker",
+	};
+	if (token) {
+		headers.Authorization = `Bearer ${token}`;
+	}
+
+	return fetch(url, { headers });
+}
+
+function toCommit(commit: GitLabCommit): Commit {
+	return {
+		sha: commit.id,
+		commit: {
+			message: commit.message,
+			author: {
+				name: commit.author_name,
+				date: commit.authored_date,
+			},
+		},
+		parents: commit.parent_ids?.map((sha) => ({ sha })),
+	};
+}
+
+/**
+ * Count added and removed lines in a unified diff
+ */
+export function countDiffLines(diff: string): {
+	additions: number;
+	deletions: number;
+} {
+	let additions = 0;
+	let deletions = 0;
+
+	for (const line of diff.split("\n")) {
+		if (line.startsWith("+") && !line.startsWith("+++")) {
+			additions++;
+		} else if (line.startsWith("-") && !line.startsWith("---")) {
+			deletions++;
+		}
+	}
+
+	return { additions, deletions };
+}
+
+/**
+ * Convert a GitLab diff entry to a CommitFile
+ */
+export function diffToCommitFile(diff: GitLabDiff): CommitFile {
+	const { additions, deletions } = countDiffLines(diff.diff || "");
+	const patch = diff.diff || undefined;
+
+	if (diff.new_file) {
+		return { filename: diff.new_path, status: "added", additions, deletions, patch };
+	}
+	if (diff.deleted_file) {
+		return { filename: diff.old_path, status: "removed", additions, deletions, patch };
+	}
+	if (diff.renamed_file) {
+		return {
+			filename: diff.new_path,
+			status: "renamed",
+			additions,
+			deletions,
+			previous_filename: diff.old_path,
+			patch,
+		};
+	}
+	return { filename: diff.new_path, status: "modified", additions, deletions, patch };
+}
+
+/**
+ * Fetch project metadata including default branch
+ */
+export async function fetchRepoInfo(
+	token: string,
+	owner: string,
+	repo: string,
+	baseUrl?: string,
+): Promise<{ default_branch: string }> {
+	const response = await fetchGitLab(projectUrl(baseUrl, owner, repo), token);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw new Error(`Project ${owner}/${repo} not found`);
+		}
+		throw new Error(`GitLab API error: ${response.status}`);
+	}
+
+	return await response.json();
+}
+
+/**
+ * Get total commit count for a branch from the X-Total header
+ * GitLab omits X-Total for very large result sets, in which case
+ * the count is estimated from X-Total-Pages (1 commit per page)
+ */
+export async function fetchCommitCount(
+	token: string,
+	owner: string,
+	repo: string,
+	branch: string,
+	baseUrl?: string,
+): Promise<number> {
+	const url = projectUrl(
+		baseUrl,
+		owner,
+		repo,
+		`/repository/commits?ref_name=${encodeURIComponent(branch)}&per_page=1&page=1`,
+	);
+
+	const response = await fetchGitLab(url, token);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw new Error(`Project ${owner}/${repo} or branch ${branch} not found`);
+		}
+		if (response.status === 429) {
+			throw new Error("GitLab API rate limit exceeded");
+		}
+		throw new Error(`GitLab API error: ${response.status}`);
+	}
+
+	const total =
+		response.headers.get("X-Total") || response.headers.get("X-Total-Pages");
+	if (total) {
+		return parseInt(total, 10);
+	}
+
+	const commits: GitLabCommit[] = await response.json();
+	return commits.length;
+}
+
+/**
+ * Fetch commits from a branch (newest first, without files)
+ */
+export async function fetchCommits(
+	token: string,
+	owner: string,
+	repo: string,
+	branch: string,
+	sinceCommit?: string,
+	maxPages: number = 10,
+	baseUrl?: string,
+): Promise<Commit[]> {
+	const allCommits: Commit[] = [];
+	let page = 1;
+	const perPage = 100;
+
+	console.log(`Fetching GitLab commits from ${owner}/${repo}@${branch}`);
+
+	while (page <= maxPages) {
+		const url = projectUrl(
+			baseUrl,
+			owner,
+			repo,
+			`/repository/commits?ref_name=${encodeURIComponent(branch)}&per_page=${perPage}&page=${page}`,
+		);
+
+		const response = await fetchGitLab(url, token);
+
+		if (!response.ok) {
+			if (response.status === 404) {
+				throw new Error(`Project ${owner}/${repo} or branch ${branch} not found`);
+			}
+			if (response.status === 429) {
+				throw new Error("GitLab API rate limit exceeded");
+			}
+			throw new Error(`GitLab API error: ${response.status}`);
+		}
+
+		const commits = ((await response.json()) as GitLabCommit[]).map(toCommit);
+
+		if (commits.length === 0) {
+			break;
+		}
+
+		// If we have a sinceCommit, stop when we reach it
+		if (sinceCommit) {
+			const sinceIndex = commits.findIndex((c) => c.sha === sinceCommit);
+			if (sinceIndex >= 0) {
+				allCommits.push(...commits.slice(0, sinceIndex));
+				break;
+			}
+		}
+
+		allCommits.push(...commits);
+
+		// If we got fewer commits than requested, we're done
+		if (commits.length < perPage) {
+			break;
+		}
+
+		page++;
+	}
+
+	console.log(
+		`Fetched ${allCommits.length} GitLab commits from ${owner}/${repo}@${branch}`,
+	);
+	return allCommits;
+}
+
+/**
+ * Fetch the files changed by a commit
+ * The commit list already carries message/author, so only the diff is requested
+ */
+export async function fetchCommitFiles(
+	token: string,
+	owner: string,
+	repo: string,
+	commit: Commit,
+	baseUrl?: string,
+): Promise<Commit> {
+	const diffs: GitLabDiff[] = [];
+	let page = 1;
+
+	// Commits touching more than a page of files continue on X-Next-Page
+	while (true) {
+		const url = projectUrl(
+			baseUrl,
+			owner,
+			repo,
+			`/repository/commits/${commit.sha}/diff?per_page=100&page=${page}`,
+		);
+
+		const response = await fetchGitLab(url, token);
+
+		if (!response.ok) {
+			throw new Error(`GitLab API error: ${response.status}`);
+		}
+
+		diffs.push(...((await response.json()) as GitLabDiff[]));
+
+		const nextPage = Number.parseInt(
+			response.headers.get("X-Next-Page") || "",
+			10,
+		);
+		if (!nextPage) {
+			break;
+		}
+		page = nextPage;
+	}
+
+	return { ...commit, files: diffs.map(diffToCommitFile) };
+}
+
+/**
+ * Fetch the raw contents of a file at a commit
+ * Returns null when the file can't be read
+ */
+export async function fetchFileContent(
+	token: string,
+	owner: string,
+	repo: string,
+	sha: string,
+	path: string,
+	baseUrl?: string,
+): Promise<string | null> {
+	const url = projectUrl(
+		baseUrl,
+		owner,
+		repo,
+		`/repository/files/${encodeURIComponent(path)}/raw?ref=${sha}`,
+	);
+
+	const response = await fetchGitLab(url, token);
+	if (!response.ok) {
+		return null;
+	}
+
+	return response.text();
+}
+
+/**
+ * Fetch merged merge request stats for the repo summary endpoint
+ * Shaped like the GitHub PR summary so the client can display it unchanged
+ */
+export async function fetchMergeRequestSummary(
+	token: string,
+	owner: string,
+	repo: string,
+	baseUrl?: string,
+): Promise<{
+	estimatedTotalPRs: number;
+	hasMoreThan100PRs: boolean;
+	firstMergedPR: { number: number; merged_at: string } | null;
+}> {
+	const url = projectUrl(
+		baseUrl,
+		owner,
+		repo,
+		"/merge_requests?state=merged&order_by=created_at&sort=asc&per_page=100",
+	);
+
+	const response = await fetchGitLab(url, token);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw new Error(`Project ${owner}/${repo} not found`);
+		}
+		throw new Error(`GitLab API error: ${response.status}`);
+	}
+
+	const mergeRequests: Array<{ iid: number; merged_at: string }> =
+		await response.json();
+	const total = parseInt(
+		response.headers.get("X-Total") || `${mergeRequests.length}`,
+		10,
+	);
+
+	return {
+		estimatedTotalPRs: total,
+		hasMoreThan100PRs: total > 100,
+		firstMergedPR: mergeRequests[0]
+			? {
+					number: mergeRequests[0].iid,
+					merged_at: mergeRequests[0].merged_at,
+				}
+			: null,
+	};
+}
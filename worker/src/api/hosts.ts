@@ -0,0 +1,159 @@
+/**
+ * Git hosting provider registry
+ * Gives the cache layer one interface over the GitHub, GitLab and Bitbucket fetchers
+ */
+
+import type { Commit, Env, GitHost, TreeFile } from "../types";
+import { TokenRotator } from "../utils/tokenRotator";
+import * as bitbucket from "./bitbucket";
+import * as github from "./github";
+import * as gitlab from "./gitlab";
+
+export interface GitHostApi {
+	host: GitHost;
+	fetchRepoInfo(
+		token: string,
+		owner: string,
+		repo: string,
+	): Promise<{ default_branch: string }>;
+	fetchCommitCount(
+		token: string,
+		owner: string,
+		repo: string,
+		branch: string,
+	): Promise<number>;
+	fetchCommits(
+		token: string,
+		owner: string,
+		repo: string,
+		branch: string,
+		sinceCommit?: string,
+		maxPages?: number,
+	): Promise<Commit[]>;
+	/** Fetch the changed files for a commit from the list */
+	fetchCommitFiles(
+		token: string,
+		owner: string,
+		repo: string,
+		commit: Commit,
+	): Promise<Commit>;
+	/** Fetch a file's raw contents at a commit (null if unreadable) */
+	fetchFileContent(
+		token: string,
+		owner: string,
+		repo: string,
+		sha: string,
+		path: string,
+	): Promise<string | null>;
+	/** Fetch blob sizes for a commit's tree (hosts without sizes in their tree API leave this out) */
+	fetchTreeSizes?(
+		token: string,
+		owner: string,
+		repo: string,
+		sha: string,
+	): Promise<TreeFile[]>;
+}
+
+export const githubApi: GitHostApi = {
+	host: "github",
+	fetchRepoInfo: github.fetchRepoInfo,
+	fetchCommitCount: github.fetchCommitCount,
+	fetchCommits: github.fetchCommits,
+	fetchCommitFiles: (token, owner, repo, commit) =>
+		github.fetchCommitFiles(token, owner, repo, commit.sha),
+	fetchFileContent: github.fetchFileContent,
+	fetchTreeSizes: github.fetchTreeSizes,
+};
+
+/**
+ * Parse the ?host= query parameter, defaulting to GitHub
+ * Returns null for unknown hosts
+ */
+export function parseGitHost(value: string | null): GitHost | null {
+	if (!value || value === "github") {
+		return "github";
+	}
+	if (value === "gitlab" || value === "bitbucket") {
+		return value;
+	}
+	return null;
+}
+
+/**
+ * Get the API implementation for a host
+ */
+export function getGitHostApi(host: GitHost, env: Env): GitHostApi {
+	switch (host) {
+		case "gitlab":
+			return {
+				host,
+				fetchRepoInfo: (token, owner, repo) =>
+					gitlab.fetchRepoInfo(token, owner, repo, env.GITLAB_URL),
+				fetchCommitCount: (token, owner, repo, branch) =>
+					gitlab.fetchCommitCount(token, owner, repo, branch, env.GITLAB_URL),
+				fetchCommits: (token, owner, repo, branch, sinceCommit, maxPages) =>
+					gitlab.fetchCommits(
+						token,
+						owner,
+						repo,
+						branch,
+						sinceCommit,
+						maxPages,
+						env.GITLAB_URL,
+					),
+				fetchCommitFiles: (token, owner, repo, commit) =>
+					gitlab.fetchCommitFiles(token, owner, repo, commit, env.GITLAB_URL),
+				fetchFileContent: (token, owner, repo, sha, path) =>
+					gitlab.fetchFileContent(token, owner, repo, sha, path, env.GITLAB_URL),
+			};
+		case "bitbucket":
+			return {
+				host,
+				fetchRepoInfo: bitbucket.fetchRepoInfo,
+				fetchCommitCount: bitbucket.fetchCommitCount,
+				fetchCommits: bitbucket.fetchCommits,
+				fetchCommitFiles: bitbucket.fetchCommitFiles,
+				fetchFileContent: bitbucket.fetchFileContent,
+				fetchTreeSizes: (token, workspace, repo, sha) =>
+					bitbucket.fetchTreeSizes(token, workspace, repo, sha),
+			};
+		default:
+			return githubApi;
+	}
+}
+
+/**
+ * Get the next API token for a host
+ * GitHub always needs a token; GitLab and Bitbucket tokens are optional
+ * (public projects can be read anonymously, with lower rate limits)
+ */
+export function getHostToken(env: Env, host: GitHost): string {
+	switch (host) {
+		case "gitlab":
+			return env.GITLAB_TOKENS
+				? new TokenRotator(env.GITLAB_TOKENS, "GitLab").getNextToken()
+				: "";
+		case "bitbucket":
+			return env.BITBUCKET_TOKENS
+				? new TokenRotator(env.BITBUCKET_TOKENS, "Bitbucket").getNextToken()
+				: "";
+		default:
+			return new TokenRotator(env.GITHUB_TOKENS).getNextToken();
+	}
+}
+
+/**
+ * Key used for the repos.full_name column
+ * GitHub's default branch keeps the plain "owner/repo" so existing caches stay valid;
+ * other hosts are prefixed and explicit refs are suffixed ("owner/repo@release/2.x")
+ */
+export function getRepoCacheKey(
+	host: GitHost,
+	owner: string,
+	repo: string,
+	ref?: string,
+): string {
+	const repoKey =
+		host === "github" ? `${owner}/${repo}` : `${host}:${owner}/${repo}`;
+	return ref ? `${repoKey}@${ref}` : repoKey;
+}
@@ -3,8 +3,16 @@
  * Handles storing and retrieving repository data from Cloudflare D1
  */
 
-import type { Commit } from "../types";
-import { fetchRepoInfo, fetchCommits, fetchCommitFiles } from "../api/github";
+import type {
+	Commit,
+	CommitFile,
+	FilePatch,
+	SnapshotFile,
+	TreeFile,
+} from "../types";
+import { getRepoCacheKey, githubApi, type GitHostApi } from "../api/hosts";
+import { extractImports, isImportSource } from "../utils/imports";
+import { capPatch } from "../utils/patch";
 
 /**
  * Clear cached data for a repository
@@ -367,7 +375,7 @@ export async function getCachedCommits(
 	// Get all commits
 	const commits = await db
 		.prepare(`
-		SELECT commit_sha, message, author, committed_at, id
+		SELECT commit_sha, message, author, committed_at, parent_shas, id
 		FROM commits
 		WHERE repo_id = ?
 		ORDER BY committed_at ASC
@@ -385,14 +393,17 @@ export async function getCachedCommits(
 			// Get files for this commit
 			const filesResult = await db
 				.prepare(`
-			SELECT filename, status, additions, deletions, previous_filename
+			SELECT filename, status, additions, deletions, previous_filename, imports
 			FROM commit_files
 			WHERE commit_id = ?
 		`)
 				.bind(commit.id)
 				.all();
 
-			const files = filesResult.results || [];
+			const files = (filesResult.results || []).map((file: any) => {
+				const { imports, ...rest } = file;
+				return imports ? { ...rest, imports: JSON.parse(imports) } : rest;
+			});
 
 			return {
 				sha: commit.commit_sha,
@@ -403,6 +414,9 @@ export async function getCachedCommits(
 						date: new Date(commit.committed_at * 1000).toISOString(),
 					},
 				},
+				parents: commit.parent_shas
+					? (JSON.parse(commit.parent_shas) as string[]).map((sha) => ({ sha }))
+					: undefined,
 				files: files,
 			};
 		}),
@@ -428,8 +442,8 @@ export async function storeCommitData(
 	commits: Commit[],
 	totalCommitsAvailable?: number,
 	isUpdate = false,
+	fullName = `${owner}/${name}`,
 ): Promise<void> {
-	const fullName = `${owner}/${name}`;
 	const now = Math.floor(Date.now() / 1000);
 	const lastCommitSha = commits.length > 0 ? commits[0].sha : null;
 
@@ -490,8 +504,8 @@ export async function storeCommitData(
 		// Insert commit first
 		await db
 			.prepare(`
-			INSERT INTO commits (repo_id, commit_sha, message, author, committed_at, created_at)
-			VALUES (?, ?, ?, ?, ?, ?)
+			INSERT INTO commits (repo_id, commit_sha, message, author, committed_at, parent_shas, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?)
 			ON CONFLICT(repo_id, commit_sha) DO NOTHING
 		`)
 			.bind(
@@ -500,6 +514,9 @@ export async function storeCommitData(
 				commit.commit.message,
 				commit.commit.author.name,
 				Math.floor(new Date(commit.commit.author.date).getTime() / 1000),
+				commit.parents
+					? JSON.stringify(commit.parents.map((parent) => parent.sha))
+					: null,
 				now,
 			)
 			.run();
@@ -514,11 +531,12 @@ export async function storeCommitData(
 
 		if (commitRow && commit.files && commit.files.length > 0) {
 			// Batch insert files for this commit
-			const fileBatch = commit.files.map((file: any) =>
-				db
+			const fileBatch = commit.files.map((file: any) => {
+				const capped = file.patch ? capPatch(file.patch) : null;
+				return db
 					.prepare(`
-					INSERT INTO commit_files (commit_id, filename, status, additions, deletions, previous_filename)
-					VALUES (?, ?, ?, ?, ?, ?)
+					INSERT INTO commit_files (commit_id, filename, status, additions, deletions, previous_filename, imports, patch, patch_truncated)
+					VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
 					ON CONFLICT DO NOTHING
 				`)
 					.bind(
@@ -528,8 +546,11 @@ export async function storeCommitData(
 						file.additions || 0,
 						file.deletions || 0,
 						file.previous_filename || null,
-					),
-			);
+						file.imports ? JSON.stringify(file.imports) : null,
+						capped ? capped.patch : null,
+						capped?.truncated ? 1 : 0,
+					);
+			});
 
 			await db.batch(fileBatch);
 		}
@@ -539,30 +560,380 @@ export async function storeCommitData(
 }
 
 /**
- * Fetch repo commits from GitHub and cache them
+ * Get the oldest cached commit and its parents
+ * parents is null for rows cached before parent SHAs were stored
+ */
+export async function getOldestCachedCommit(
+	db: D1Database,
+	fullName: string,
+): Promise<{ sha: string; parents: string[] | null } | null> {
+	const commit = await db
+		.prepare(`
+		SELECT c.commit_sha, c.parent_shas
+		FROM commits c
+		JOIN repos r ON r.id = c.repo_id
+		WHERE r.full_name = ?
+		ORDER BY c.committed_at ASC
+		LIMIT 1
+	`)
+		.bind(fullName)
+		.first();
+
+	if (!commit) {
+		return null;
+	}
+
+	return {
+		sha: commit.commit_sha as string,
+		parents: commit.parent_shas
+			? (JSON.parse(commit.parent_shas as string) as string[])
+			: null,
+	};
+}
+
+/**
+ * Get the stored base tree (file sizes before the oldest cached commit)
+ * Returns null when no tree has been stored for the repo
+ */
+export async function getBaseTree(
+	db: D1Database,
+	fullName: string,
+): Promise<{ sha: string; files: TreeFile[] } | null> {
+	const repo = await db
+		.prepare("SELECT id, base_commit_sha FROM repos WHERE full_name = ?")
+		.bind(fullName)
+		.first();
+
+	if (!repo || repo.base_commit_sha === null) {
+		return null;
+	}
+
+	const files = await db
+		.prepare("SELECT path, size FROM repo_base_files WHERE repo_id = ?")
+		.bind(repo.id)
+		.all();
+
+	return {
+		sha: repo.base_commit_sha as string,
+		files: (files.results || []).map((file: any) => ({
+			path: file.path,
+			size: file.size,
+		})),
+	};
+}
+
+/**
+ * Store the base tree for a repo, replacing any previous one
+ * An empty sha marks a range that starts at the root commit
+ */
+export async function storeBaseTree(
+	db: D1Database,
+	fullName: string,
+	sha: string,
+	files: TreeFile[],
+): Promise<void> {
+	const repo = await db
+		.prepare("SELECT id FROM repos WHERE full_name = ?")
+		.bind(fullName)
+		.first();
+
+	if (!repo) {
+		throw new Error("Failed to get repo ID");
+	}
+
+	await db
+		.prepare("DELETE FROM repo_base_files WHERE repo_id = ?")
+		.bind(repo.id)
+		.run();
+
+	// D1 batches are limited in size, so insert in chunks
+	const chunkSize = 100;
+	for (let i = 0; i < files.length; i += chunkSize) {
+		await db.batch(
+			files.slice(i, i + chunkSize).map((file) =>
+				db
+					.prepare(
+						"INSERT INTO repo_base_files (repo_id, path, size) VALUES (?, ?, ?)",
+					)
+					.bind(repo.id, file.path, file.size),
+			),
+		);
+	}
+
+	await db
+		.prepare("UPDATE repos SET base_commit_sha = ? WHERE id = ?")
+		.bind(sha, repo.id)
+		.run();
+
+	// Checkpoints were replayed from the old base
+	await db
+		.prepare("DELETE FROM snapshot_checkpoints WHERE repo_id = ?")
+		.bind(repo.id)
+		.run();
+
+	console.log(`Stored base tree (${files.length} files) for ${fullName}`);
+}
+
+/**
+ * Get the cached commits of a repo in timeline order, without files
+ * Commits from one fetch share insertion order newest-first, so ties on
+ * committed_at put the higher id first
+ */
+export async function getCommitTimeline(
+	db: D1Database,
+	fullName: string,
+): Promise<{
+	repoId: number;
+	commits: Array<{
+		id: number;
+		sha: string;
+		message: string;
+		author: string;
+		committedAt: number;
+	}>;
+} | null> {
+	const repo = await db
+		.prepare("SELECT id FROM repos WHERE full_name = ?")
+		.bind(fullName)
+		.first();
+
+	if (!repo) {
+		return null;
+	}
+
+	const commits = await db
+		.prepare(`
+		SELECT id, commit_sha, message, author, committed_at
+		FROM commits
+		WHERE repo_id = ?
+		ORDER BY committed_at ASC, id DESC
+	`)
+		.bind(repo.id)
+		.all();
+
+	return {
+		repoId: repo.id as number,
+		commits: (commits.results || []).map((commit: any) => ({
+			id: commit.id,
+			sha: commit.commit_sha,
+			message: commit.message,
+			author: commit.author,
+			committedAt: commit.committed_at,
+		})),
+	};
+}
+
+/**
+ * Get the file changes of the commits committed within a time range
+ * Returns files grouped by commit id, in the order they were stored
+ */
+export async function getCommitFilesBetween(
+	db: D1Database,
+	repoId: number,
+	from: number,
+	to: number,
+): Promise<Map<number, CommitFile[]>> {
+	const result = await db
+		.prepare(`
+		SELECT cf.commit_id, cf.filename, cf.status, cf.additions, cf.deletions, cf.previous_filename, cf.imports
+		FROM commit_files cf
+		JOIN commits c ON c.id = cf.commit_id
+		WHERE c.repo_id = ? AND c.committed_at BETWEEN ? AND ?
+		ORDER BY cf.id ASC
+	`)
+		.bind(repoId, from, to)
+		.all();
+
+	const filesByCommit = new Map<number, CommitFile[]>();
+	for (const row of (result.results || []) as any[]) {
+		const files = filesByCommit.get(row.commit_id) || [];
+		files.push({
+			filename: row.filename,
+			status: row.status,
+			additions: row.additions,
+			deletions: row.deletions,
+			previous_filename: row.previous_filename || undefined,
+			imports: row.imports ? JSON.parse(row.imports) : undefined,
+		});
+		filesByCommit.set(row.commit_id, files);
+	}
+
+	return filesByCommit;
+}
+
+/**
+ * Get one file's stored patch in a cached commit
+ * `sha` may be a prefix (the client shows 7-character SHAs); null when no
+ * cached commit matches or the commit didn't touch the file
+ */
+export async function getCommitFilePatch(
+	db: D1Database,
+	fullName: string,
+	sha: string,
+	path: string,
+): Promise<FilePatch | null> {
+	const row = await db
+		.prepare(`
+		SELECT c.commit_sha, cf.filename, cf.status, cf.additions, cf.deletions, cf.previous_filename, cf.patch, cf.patch_truncated
+		FROM commit_files cf
+		JOIN commits c ON c.id = cf.commit_id
+		JOIN repos r ON r.id = c.repo_id
+		WHERE r.full_name = ? AND c.commit_sha LIKE ? AND cf.filename = ?
+		LIMIT 1
+	`)
+		.bind(fullName, `${sha}%`, path)
+		.first();
+
+	if (!row) {
+		return null;
+	}
+
+	return {
+		sha: row.commit_sha as string,
+		path: row.filename as string,
+		status: row.status as string,
+		additions: row.additions as number,
+		deletions: row.deletions as number,
+		previousPath: (row.previous_filename as string | null) || undefined,
+		patch: (row.patch as string | null) ?? null,
+		truncated: row.patch_truncated === 1,
+	};
+}
+
+/**
+ * Get the ids of the commits that have a stored snapshot checkpoint
+ */
+export async function getCheckpointCommitIds(
+	db: D1Database,
+	repoId: number,
+): Promise<Set<number>> {
+	const result = await db
+		.prepare("SELECT commit_id FROM snapshot_checkpoints WHERE repo_id = ?")
+		.bind(repoId)
+		.all();
+
+	return new Set(
+		(result.results || []).map((row: any) => row.commit_id as number),
+	);
+}
+
+/**
+ * Get the file state stored for a checkpoint commit
+ */
+export async function getCheckpointFiles(
+	db: D1Database,
+	repoId: number,
+	commitId: number,
+): Promise<SnapshotFile[] | null> {
+	const checkpoint = await db
+		.prepare(
+			"SELECT files FROM snapshot_checkpoints WHERE repo_id = ? AND commit_id = ?",
+		)
+		.bind(repoId, commitId)
+		.first();
+
+	return checkpoint ? JSON.parse(checkpoint.files as string) : null;
+}
+
+/**
+ * Store snapshot checkpoints (file state after a commit)
+ */
+export async function storeSnapshotCheckpoints(
+	db: D1Database,
+	repoId: number,
+	checkpoints: Array<{ commitId: number; files: string }>,
+): Promise<void> {
+	if (checkpoints.length === 0) {
+		return;
+	}
+
+	const now = Math.floor(Date.now() / 1000);
+	await db.batch(
+		checkpoints.map((checkpoint) =>
+			db
+				.prepare(`
+				INSERT INTO snapshot_checkpoints (repo_id, commit_id, files, created_at)
+				VALUES (?, ?, ?, ?)
+				ON CONFLICT(repo_id, commit_id) DO NOTHING
+			`)
+				.bind(repoId, checkpoint.commitId, checkpoint.files, now),
+		),
+	);
+
+	console.log(`Stored ${checkpoints.length} snapshot checkpoints`);
+}
+
+/**
+ * Extract import specifiers for the changed source files of each commit
+ * Reads at most `limit` files (one subrequest each), newest commits first
+ */
+async function attachImports(
+	api: GitHostApi,
+	token: string,
+	owner: string,
+	repo: string,
+	commits: Commit[],
+	limit: number,
+): Promise<void> {
+	let remaining = limit;
+
+	for (const commit of commits) {
+		for (const file of commit.files || []) {
+			if (remaining <= 0) {
+				return;
+			}
+			if (file.status === "removed" || !isImportSource(file.filename)) {
+				continue;
+			}
+
+			remaining--;
+			const content = await api.fetchFileContent(
+				token,
+				owner,
+				repo,
+				commit.sha,
+				file.filename,
+			);
+			if (content !== null) {
+				file.imports = extractImports(file.filename, content) ?? undefined;
+			}
+		}
+	}
+}
+
+/**
+ * Fetch repo commits from the git host (GitHub by default) and cache them
+ * Without a ref the default branch is used; an explicit ref gets its own cache entry
  */
 export async function fetchAndCacheCommits(
 	db: D1Database,
 	token: string,
 	owner: string,
 	repo: string,
+	api: GitHostApi = githubApi,
+	ref?: string,
+	importFetchLimit = 0,
 ): Promise<{ commits: Commit[]; totalCommitsAvailable: number }> {
-	const fullName = `${owner}/${repo}`;
+	const fullName = getRepoCacheKey(api.host, owner, repo, ref);
 
-	// First, get the default branch
-	const repoInfo = await fetchRepoInfo(token, owner, repo);
-	const defaultBranch = repoInfo.default_branch;
+	// First, get the default branch (skipped when a ref is given)
+	const defaultBranch =
+		ref || (await api.fetchRepoInfo(token, owner, repo)).default_branch;
 
 	console.log(`Fetching commits from ${fullName} (${defaultBranch} branch)`);
 
 	// Get accurate total commit count efficiently (only 1 API call)
-	const { fetchCommitCount } = await import("../api/github");
-	const totalCommitCount = await fetchCommitCount(token, owner, repo, defaultBranch);
+	const totalCommitCount = await api.fetchCommitCount(
+		token,
+		owner,
+		repo,
+		defaultBranch,
+	);
 	console.log(`Total commits in repo: ${totalCommitCount}`);
 
 	// Fetch commits from default branch
 	// Limit pages to avoid fetching too many commits
-	const commitList = await fetchCommits(
+	const commitList = await api.fetchCommits(
 		token,
 		owner,
 		repo,
@@ -588,18 +959,29 @@ export async function fetchAndCacheCommits(
 
 	// Fetch files for each commit
 	for (const commitMeta of commitsToProcess) {
-		const commitDetails = await fetchCommitFiles(
+		const commitDetails = await api.fetchCommitFiles(
 			token,
 			owner,
 			repo,
-			commitMeta.sha,
+			commitMeta,
 		);
 
 		commits.push(commitDetails);
 	}
 
+	await attachImports(api, token, owner, repo, commits, importFetchLimit);
+
 	// Store in database with accurate total available commits
-	await storeCommitData(db, owner, repo, defaultBranch, commits, totalCommitCount);
+	await storeCommitData(
+		db,
+		owner,
+		repo,
+		defaultBranch,
+		commits,
+		totalCommitCount,
+		false,
+		fullName,
+	);
 
 	return { commits, totalCommitsAvailable: totalCommitCount };
 }
@@ -614,14 +996,19 @@ export async function updateCommitData(
 	repo: string,
 	lastCommitSha: string | null,
 	defaultBranch: string,
+	api: GitHostApi = githubApi,
+	ref?: string,
+	importFetchLimit = 0,
 ): Promise<void> {
+	const fullName = getRepoCacheKey(api.host, owner, repo, ref);
+
 	try {
 		console.log(
-			`Background update for ${owner}/${repo} from commit ${lastCommitSha}`,
+			`Background update for ${fullName} from commit ${lastCommitSha}`,
 		);
 
 		// Fetch new commits since last update
-		const commitList = await fetchCommits(
+		const commitList = await api.fetchCommits(
 			token,
 			owner,
 			repo,
@@ -635,14 +1022,18 @@ export async function updateCommitData(
 			// Update timestamp and total commits available
 			// Even if there are no new commits, we should check total available
 			// Use efficient commit count API
-			const { fetchCommitCount } = await import("../api/github");
-			const totalCommitCount = await fetchCommitCount(token, owner, repo, defaultBranch);
+			const totalCommitCount = await api.fetchCommitCount(
+				token,
+				owner,
+				repo,
+				defaultBranch,
+			);
 			console.log(`Total commits in repo: ${totalCommitCount}`);
 			await db
 				.prepare(
-					"UPDATE repos SET last_updated = ?, total_commits_available = ? WHERE owner = ? AND name = ?",
+					"UPDATE repos SET last_updated = ?, total_commits_available = ? WHERE full_name = ?",
 				)
-				.bind(Math.floor(Date.now() / 1000), totalCommitCount, owner, repo)
+				.bind(Math.floor(Date.now() / 1000), totalCommitCount, fullName)
 				.run();
 			return;
 		}
@@ -652,22 +1043,37 @@ export async function updateCommitData(
 		const commits: Commit[] = [];
 
 		for (const commitMeta of commitsToProcess) {
-			const commitDetails = await fetchCommitFiles(
+			const commitDetails = await api.fetchCommitFiles(
 				token,
 				owner,
 				repo,
-				commitMeta.sha,
+				commitMeta,
 			);
 			commits.push(commitDetails);
 		}
 
+		await attachImports(api, token, owner, repo, commits, importFetchLimit);
+
 		if (commits.length > 0) {
 			console.log(`Found ${commits.length} new commits, updating cache`);
 			// Update the total commits available with accurate count
-			const { fetchCommitCount } = await import("../api/github");
-			const totalCommitCount = await fetchCommitCount(token, owner, repo, defaultBranch);
+			const totalCommitCount = await api.fetchCommitCount(
+				token,
+				owner,
+				repo,
+				defaultBranch,
+			);
 			console.log(`Total commits in repo: ${totalCommitCount}`);
-			await storeCommitData(db, owner, repo, defaultBranch, commits, totalCommitCount, true);
+			await storeCommitData(
+				db,
+				owner,
+				repo,
+				defaultBranch,
+				commits,
+				totalCommitCount,
+				true,
+				fullName,
+			);
 		}
 	} catch (error) {
 		console.error("Error in background commit update:", error);
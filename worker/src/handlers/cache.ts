@@ -3,9 +3,10 @@
  * Handles cache status checking and triggering background updates
  */
 
-import type { Env } from "../types";
-import { TokenRotator } from "../utils/tokenRotator";
+import type { Env, GitHost } from "../types";
 import { getCachedCommits, fetchAndCacheCommits } from "../db/operations";
+import { getGitHostApi, getHostToken, getRepoCacheKey } from "../api/hosts";
+import { getImportFetchLimit } from "../utils/imports";
 
 /**
  * Handle cache status request - INSTANT response, just D1 query
@@ -17,8 +18,10 @@ export async function handleCacheStatusRequest(
 	owner: string,
 	repo: string,
 	corsHeaders: Record<string, string>,
+	host: GitHost = "github",
+	ref?: string,
 ): Promise<Response> {
-	const fullName = `${owner}/${repo}`;
+	const fullName = getRepoCacheKey(host, owner, repo, ref);
 
 	try {
 		// Get cache status (instant D1 query)
@@ -31,7 +34,6 @@ export async function handleCacheStatusRequest(
 		const lastCommit = cached?.commits[cachedCommitCount - 1];
 
 		// Trigger background cache population if cache is empty or old
-		const tokenRotator = new TokenRotator(env.GITHUB_TOKENS);
 		if (!cached || (cacheAge && cacheAge > 3600)) {
 			console.log(
 				`Cache ${!cached ? "missing" : "old"} for ${fullName}, triggering background fetch`,
@@ -39,9 +41,12 @@ export async function handleCacheStatusRequest(
 			ctx.waitUntil(
 				fetchAndCacheCommits(
 					env.DB,
-					tokenRotator.getNextToken(),
+					getHostToken(env, host),
 					owner,
 					repo,
+					getGitHostApi(host, env),
+					ref,
+					getImportFetchLimit(env),
 				),
 			);
 		}
@@ -3,9 +3,8 @@
  * Handles fetching commit metadata without file details
  */
 
-import type { Env } from "../types";
-import { TokenRotator } from "../utils/tokenRotator";
-import { fetchRepoInfo, fetchCommits } from "../api/github";
+import type { Env, GitHost } from "../types";
+import { getGitHostApi, getHostToken } from "../api/hosts";
 
 /**
  * Handle metadata request - fetches all commits without file details (fast!)
@@ -15,24 +14,24 @@ export async function handleMetadataRequest(
 	owner: string,
 	repo: string,
 	corsHeaders: Record<string, string>,
+	host: GitHost = "github",
+	ref?: string,
 ): Promise<Response> {
-	const fullName = `${owner}/${repo}`;
-	const tokenRotator = new TokenRotator(env.GITHUB_TOKENS);
+	const api = getGitHostApi(host, env);
 
 	try {
-		// Get repository default branch
-		const repoInfo = await fetchRepoInfo(
-			tokenRotator.getNextToken(),
-			owner,
-			repo,
-		);
+		// Use the requested ref, or the repository's default branch
+		const branch =
+			ref ||
+			(await api.fetchRepoInfo(getHostToken(env, host), owner, repo))
+				.default_branch;
 
 		// Fetch commits without file details (fast!)
-		const commits = await fetchCommits(
-			tokenRotator.getNextToken(),
+		const commits = await api.fetchCommits(
+			getHostToken(env, host),
 			owner,
 			repo,
-			repoInfo.default_branch,
+			branch,
 			undefined,
 			5, // Fetch up to 5 pages (500 commits)
 		);
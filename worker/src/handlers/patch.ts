@@ -0,0 +1,60 @@
+/**
+ * File patch endpoint handler
+ * Serves one file's stored unified diff in one cached commit
+ */
+
+import type { Env, GitHost } from "../types";
+import { getRepoCacheKey } from "../api/hosts";
+import { getCommitFilePatch } from "../db/operations";
+
+/**
+ * Handle file patch request - `sha` is a full SHA or a prefix of at least 7 characters
+ * Responds with the file's change and its patch (null for binary or oversized diffs)
+ */
+export async function handleFilePatchRequest(
+	env: Env,
+	owner: string,
+	repo: string,
+	sha: string,
+	path: string | null,
+	corsHeaders: Record<string, string>,
+	host: GitHost = "github",
+	ref?: string,
+): Promise<Response> {
+	const fullName = getRepoCacheKey(host, owner, repo, ref);
+
+	const jsonResponse = (body: unknown, status = 200) =>
+		new Response(JSON.stringify(body), {
+			status,
+			headers: { ...corsHeaders, "Content-Type": "application/json" },
+		});
+
+	if (!path) {
+		return jsonResponse({ error: "Missing path parameter" }, 400);
+	}
+
+	try {
+		const patch = await getCommitFilePatch(
+			env.DB,
+			fullName,
+			sha.toLowerCase(),
+			path,
+		);
+		if (!patch) {
+			return jsonResponse(
+				{ error: `No cached change to ${path} in commit ${sha}` },
+				404,
+			);
+		}
+
+		return jsonResponse(patch);
+	} catch (error) {
+		console.error("Error fetching file patch:", error);
+		return jsonResponse(
+			{
+				error: error instanceof Error ? error.message : "Internal server error",
+			},
+			500,
+		);
+	}
+}
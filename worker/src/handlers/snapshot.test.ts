@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getBaseTree,
+	getCheckpointCommitIds,
+	getCheckpointFiles,
+	getCommitFilesBetween,
+	getCommitTimeline,
+	storeSnapshotCheckpoints,
+} from "../db/operations";
+import type { CommitFile, Env, SnapshotEdge, SnapshotNode } from "../types";
+import { CHECKPOINT_INTERVAL } from "../utils/snapshot";
+import { handleSnapshotRequest } from "./snapshot";
+
+vi.mock("../db/operations", () => ({
+	getBaseTree: vi.fn(),
+	getCheckpointCommitIds: vi.fn(),
+	getCheckpointFiles: vi.fn(),
+	getCommitFilesBetween: vi.fn(),
+	getCommitTimeline: vi.fn(),
+	storeSnapshotCheckpoints: vi.fn(),
+}));
+
+const env = { DB: {} } as Env;
+const DAY = 86400;
+const START = 1704067200; // 2024-01-01
+
+// One commit a day, each adding a line to its own file
+const commits = Array.from({ length: 150 }, (_, i) => ({
+	id: i + 1,
+	sha: `${(i + 1).toString(16).padStart(7, "0")}${"f".repeat(33)}`,
+	message: `Commit ${i + 1}`,
+	author: "Alice",
+	committedAt: START + i * DAY,
+}));
+
+const filesFor = (id: number): CommitFile[] => [
+	{ filename: `file${id}.ts`, status: "added", additions: 1, deletions: 0 },
+];
+
+interface SnapshotBody {
+	commit: { sha: string; message: string } | null;
+	sizes: "bytes" | "lines";
+	nodes: SnapshotNode[];
+	edges: SnapshotEdge[];
+}
+
+async function snapshot(at: string | null) {
+	const response = await handleSnapshotRequest(env, "owner", "repo", at, {});
+	return {
+		status: response.status,
+		replayed: response.headers.get("X-Replayed-Commits"),
+		body: (await response.json()) as SnapshotBody,
+	};
+}
+
+describe("handleSnapshotRequest", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(getCommitTimeline).mockResolvedValue({ repoId: 1, commits });
+		vi.mocked(getBaseTree).mockResolvedValue({
+			sha: "base",
+			files: [{ path: "README.md", size: 100 }],
+		});
+		vi.mocked(getCheckpointCommitIds).mockResolvedValue(new Set());
+		vi.mocked(getCheckpointFiles).mockResolvedValue(null);
+		vi.mocked(getCommitFilesBetween).mockImplementation(
+			async (_db, _repoId, from, to) =>
+				new Map(
+					commits
+						.filter(
+							(commit) => commit.committedAt >= from && commit.committedAt <= to,
+						)
+						.map((commit) => [commit.id, filesFor(commit.id)]),
+				),
+		);
+	});
+
+	it("should replay commit files on top of the base tree", async () => {
+		const { status, replayed, body } = await snapshot("0000003");
+
+		expect(status).toBe(200);
+		expect(replayed).toBe("3");
+		expect(body.commit?.message).toBe("Commit 3");
+		expect(body.sizes).toBe("bytes");
+		expect(
+			body.nodes
+				.filter((node) => node.type === "file")
+				.map((node) => [node.path, node.size]),
+		).toEqual([
+			["README.md", 100],
+			["file1.ts", 40],
+			["file2.ts", 40],
+			["file3.ts", 40],
+		]);
+	});
+
+	it("should store a checkpoint every interval while replaying", async () => {
+		await snapshot(null);
+
+		const stored = vi.mocked(storeSnapshotCheckpoints).mock.calls[0][2];
+		expect(stored.map((checkpoint) => checkpoint.commitId)).toEqual([
+			CHECKPOINT_INTERVAL,
+		]);
+		expect(JSON.parse(stored[0].files)).toHaveLength(CHECKPOINT_INTERVAL + 1);
+	});
+
+	it("should replay from the nearest checkpoint at or before the target", async () => {
+		vi.mocked(getCheckpointCommitIds).mockResolvedValue(new Set([100]));
+		vi.mocked(getCheckpointFiles).mockResolvedValue([
+			{ path: "checkpointed.ts", size: 5 },
+		]);
+
+		const { replayed, body } = await snapshot(null);
+
+		expect(replayed).toBe("50");
+		expect(getCheckpointFiles).toHaveBeenCalledWith(env.DB, 1, 100);
+		expect(vi.mocked(getCommitFilesBetween).mock.calls[0].slice(2)).toEqual([
+			commits[100].committedAt,
+			commits[149].committedAt,
+		]);
+		const paths = body.nodes.map((node) => node.path);
+		expect(paths).toContain("checkpointed.ts");
+		expect(paths).toContain("file150.ts");
+		expect(paths).not.toContain("README.md");
+	});
+
+	it("should take the last commit at or before a date", async () => {
+		const { body } = await snapshot("20240103");
+
+		expect(body.commit?.message).toBe("Commit 3");
+	});
+
+	it("should return the base tree for a date before the oldest cached commit", async () => {
+		const { status, replayed, body } = await snapshot("2023-06-01");
+
+		expect(status).toBe(200);
+		expect(replayed).toBe("0");
+		expect(body.commit).toBeNull();
+		expect(body.nodes.map((node) => node.path)).toEqual([
+			"README.md",
+			"/",
+		]);
+	});
+
+	it("should reject unparseable targets and unknown SHAs", async () => {
+		expect((await snapshot("yesterday")).status).toBe(400);
+		expect((await snapshot("abcdef0")).status).toBe(404);
+	});
+
+	it("should report repositories that aren't cached", async () => {
+		vi.mocked(getCommitTimeline).mockResolvedValue(null);
+
+		expect((await snapshot(null)).status).toBe(404);
+	});
+});
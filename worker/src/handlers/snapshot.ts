@@ -0,0 +1,161 @@
+/**
+ * Snapshot endpoint handler
+ * Computes the file tree at a date or commit from D1, replaying commit files
+ * from the nearest checkpoint so clients don't have to replay the history
+ */
+
+import type { Env, GitHost } from "../types";
+import { getRepoCacheKey } from "../api/hosts";
+import {
+	getBaseTree,
+	getCheckpointCommitIds,
+	getCheckpointFiles,
+	getCommitFilesBetween,
+	getCommitTimeline,
+	storeSnapshotCheckpoints,
+} from "../db/operations";
+import {
+	applyCommitFiles,
+	buildSnapshotGraph,
+	CHECKPOINT_INTERVAL,
+	ESTIMATED_BYTES_PER_LINE,
+	MAX_CHECKPOINT_BYTES,
+	parseSnapshotTarget,
+} from "../utils/snapshot";
+
+/**
+ * Handle snapshot request - `at` is an ISO date or a commit SHA (latest commit when omitted)
+ * Responds with the commit the snapshot is taken at, plus file/directory nodes and parent edges
+ * A date before the oldest cached commit gets the base tree, with a null commit
+ */
+export async function handleSnapshotRequest(
+	env: Env,
+	owner: string,
+	repo: string,
+	at: string | null,
+	corsHeaders: Record<string, string>,
+	host: GitHost = "github",
+	ref?: string,
+): Promise<Response> {
+	const fullName = getRepoCacheKey(host, owner, repo, ref);
+
+	const jsonResponse = (
+		body: unknown,
+		status = 200,
+		headers: Record<string, string> = {},
+	) =>
+		new Response(JSON.stringify(body), {
+			status,
+			headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+		});
+
+	try {
+		const timeline = await getCommitTimeline(env.DB, fullName);
+		if (!timeline || timeline.commits.length === 0) {
+			return jsonResponse({ error: "Repository is not cached yet" }, 404);
+		}
+		const { repoId, commits } = timeline;
+
+		// Find the commit the snapshot is taken at
+		let targetIndex = commits.length - 1;
+		if (at) {
+			const target = parseSnapshotTarget(at);
+			if (!target) {
+				return jsonResponse(
+					{ error: `Invalid "at" value: ${at} (use an ISO date or a commit SHA)` },
+					400,
+				);
+			}
+
+			if ("sha" in target) {
+				targetIndex = commits.findIndex((commit) =>
+					commit.sha.toLowerCase().startsWith(target.sha),
+				);
+				if (targetIndex === -1) {
+					return jsonResponse({ error: `No cached commit matches ${at}` }, 404);
+				}
+			} else {
+				// -1 when the date is before the oldest cached commit: the base tree
+				targetIndex = -1;
+				for (let i = commits.length - 1; i >= 0; i--) {
+					if (commits[i].committedAt <= target.timestamp) {
+						targetIndex = i;
+						break;
+					}
+				}
+			}
+		}
+
+		// Sizes are real bytes when a base tree is stored, line counts otherwise
+		const baseTree = await getBaseTree(env.DB, fullName);
+		const bytesPerLine = baseTree ? ESTIMATED_BYTES_PER_LINE : 1;
+
+		// Start from the nearest checkpoint at or before the target, or the base tree
+		const checkpointIds = await getCheckpointCommitIds(env.DB, repoId);
+		let startIndex = -1;
+		let startFiles = baseTree?.files ?? [];
+		for (let i = targetIndex; i >= 0; i--) {
+			if (checkpointIds.has(commits[i].id)) {
+				const files = await getCheckpointFiles(env.DB, repoId, commits[i].id);
+				if (files) {
+					startIndex = i;
+					startFiles = files;
+				}
+				break;
+			}
+		}
+
+		const state = new Map(startFiles.map((file) => [file.path, file]));
+
+		if (startIndex < targetIndex) {
+			const filesByCommit = await getCommitFilesBetween(
+				env.DB,
+				repoId,
+				commits[startIndex + 1].committedAt,
+				commits[targetIndex].committedAt,
+			);
+
+			const newCheckpoints: Array<{ commitId: number; files: string }> = [];
+			for (let i = startIndex + 1; i <= targetIndex; i++) {
+				const commit = commits[i];
+				applyCommitFiles(state, filesByCommit.get(commit.id) || [], bytesPerLine);
+
+				if ((i + 1) % CHECKPOINT_INTERVAL === 0 && !checkpointIds.has(commit.id)) {
+					const files = JSON.stringify(Array.from(state.values()));
+					if (files.length <= MAX_CHECKPOINT_BYTES) {
+						newCheckpoints.push({ commitId: commit.id, files });
+					}
+				}
+			}
+
+			await storeSnapshotCheckpoints(env.DB, repoId, newCheckpoints);
+		}
+
+		const target = targetIndex >= 0 ? commits[targetIndex] : null;
+		const { nodes, edges } = buildSnapshotGraph(Array.from(state.values()));
+
+		return jsonResponse(
+			{
+				commit: target && {
+					sha: target.sha,
+					message: target.message,
+					author: target.author,
+					date: new Date(target.committedAt * 1000).toISOString(),
+				},
+				sizes: baseTree ? "bytes" : "lines",
+				nodes,
+				edges,
+			},
+			200,
+			{ "X-Replayed-Commits": (targetIndex - startIndex).toString() },
+		);
+	} catch (error) {
+		console.error("Error building snapshot:", error);
+		return jsonResponse(
+			{
+				error: error instanceof Error ? error.message : "Internal server error",
+			},
+			500,
+		);
+	}
+}
@@ -1,9 +1,12 @@
 /**
  * Summary endpoint handler
- * Returns quick repository statistics from GitHub API
+ * Returns quick repository statistics from the git host's API
  */
 
-import type { Env, PullRequest } from "../types";
+import type { Env, GitHost, PullRequest } from "../types";
+import { fetchPullRequestSummary } from "../api/bitbucket";
+import { fetchMergeRequestSummary } from "../api/gitlab";
+import { getHostToken } from "../api/hosts";
 
 /**
  * Handle repo summary request - Fast GitHub API check (just first page)
@@ -16,8 +19,30 @@ export async function handleRepoSummaryRequest(
 	owner: string,
 	repo: string,
 	corsHeaders: Record<string, string>,
+	host: GitHost = "github",
 ): Promise<Response> {
 	try {
+		// GitLab and Bitbucket report merged MR/PR stats in the same shape
+		if (host !== "github") {
+			const hostToken = getHostToken(env, host);
+			const github =
+				host === "gitlab"
+					? await fetchMergeRequestSummary(
+							hostToken,
+							owner,
+							repo,
+							env.GITLAB_URL,
+						)
+					: await fetchPullRequestSummary(hostToken, owner, repo);
+
+			return new Response(JSON.stringify({ owner, repo, github }), {
+				headers: {
+					...corsHeaders,
+					"Content-Type": "application/json",
+				},
+			});
+		}
+
 		// Fetch just first page to get basic stats
 		const url = `https://api.github.com/repos/${owner}/${repo}/pulls?state=closed&per_page=100&page=1&sort=created&direction=asc`;
 
@@ -0,0 +1,85 @@
+/**
+ * Base tree endpoint handler
+ * Returns real file sizes for the state just before the oldest cached commit,
+ * so the client can seed its file tree instead of estimating from line deltas
+ */
+
+import type { Env, GitHost } from "../types";
+import { getGitHostApi, getHostToken, getRepoCacheKey } from "../api/hosts";
+import {
+	getBaseTree,
+	getOldestCachedCommit,
+	storeBaseTree,
+} from "../db/operations";
+
+/**
+ * Handle base tree request - served from D1 once fetched
+ * Responds with { sha, files }; sha is null when the range starts at the root commit
+ */
+export async function handleBaseTreeRequest(
+	env: Env,
+	owner: string,
+	repo: string,
+	corsHeaders: Record<string, string>,
+	host: GitHost = "github",
+	ref?: string,
+): Promise<Response> {
+	const fullName = getRepoCacheKey(host, owner, repo, ref);
+	const api = getGitHostApi(host, env);
+
+	const jsonResponse = (body: unknown, status = 200) =>
+		new Response(JSON.stringify(body), {
+			status,
+			headers: { ...corsHeaders, "Content-Type": "application/json" },
+		});
+
+	try {
+		const oldest = await getOldestCachedCommit(env.DB, fullName);
+		if (!oldest) {
+			return jsonResponse({ error: "Repository is not cached yet" }, 404);
+		}
+		if (!oldest.parents) {
+			return jsonResponse(
+				{ error: "Cached commits have no parent information; refresh the cache" },
+				404,
+			);
+		}
+
+		const baseSha = oldest.parents[0] || "";
+		const stored = await getBaseTree(env.DB, fullName);
+		if (stored && stored.sha === baseSha) {
+			return jsonResponse({ sha: baseSha || null, files: stored.files });
+		}
+
+		if (!baseSha) {
+			// Range starts at the root commit - nothing existed before it
+			await storeBaseTree(env.DB, fullName, "", []);
+			return jsonResponse({ sha: null, files: [] });
+		}
+
+		if (!api.fetchTreeSizes) {
+			return jsonResponse(
+				{ error: `File sizes are not available for ${host} repositories` },
+				501,
+			);
+		}
+
+		const files = await api.fetchTreeSizes(
+			getHostToken(env, host),
+			owner,
+			repo,
+			baseSha,
+		);
+		await storeBaseTree(env.DB, fullName, baseSha, files);
+
+		return jsonResponse({ sha: baseSha, files });
+	} catch (error) {
+		console.error("Error fetching base tree:", error);
+		return jsonResponse(
+			{
+				error: error instanceof Error ? error.message : "Internal server error",
+			},
+			500,
+		);
+	}
+}
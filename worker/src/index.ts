@@ -20,6 +20,11 @@ import { handleCacheStatusRequest } from "./handlers/cache";
 import { handleRepoSummaryRequest } from "./handlers/summary";
 import { handleMetadataRequest } from "./handlers/metadata";
 import { handleSinglePRRequest } from "./handlers/pr";
+import { handleBaseTreeRequest } from "./handlers/tree";
+import { handleSnapshotRequest } from "./handlers/snapshot";
+import { handleFilePatchRequest } from "./handlers/patch";
+import { getGitHostApi, getHostToken, getRepoCacheKey, parseGitHost } from "./api/hosts";
+import { getImportFetchLimit } from "./utils/imports";
 
 export default {
 	async fetch(
@@ -44,6 +49,21 @@ export default {
 		// Initialize token rotator
 		const tokenRotator = new TokenRotator(env.GITHUB_TOKENS);
 
+		// Branch, tag or SHA to follow: ?ref=release/2.x, default branch when omitted
+		const ref = url.searchParams.get("ref") || undefined;
+
+		// Git host: ?host=gitlab|bitbucket, GitHub by default
+		const host = parseGitHost(url.searchParams.get("host"));
+		if (!host) {
+			return new Response(
+				JSON.stringify({ error: `Unsupported host: ${url.searchParams.get("host")}` }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, "Content-Type": "application/json" },
+				},
+			);
+		}
+
 		// Health check endpoint
 		if (url.pathname === "/health") {
 			return new Response(
@@ -62,8 +82,16 @@ export default {
 			/^\/api\/repo\/([^/]+)\/([^/]+)\/cache$/,
 		);
 		if (cacheMatch) {
-			const [, owner, repo] = cacheMatch;
-			return handleCacheStatusRequest(env, ctx, owner, repo, corsHeaders);
+			const [owner, repo] = cacheMatch.slice(1).map(decodeURIComponent);
+			return handleCacheStatusRequest(
+				env,
+				ctx,
+				owner,
+				repo,
+				corsHeaders,
+				host,
+				ref,
+			);
 		}
 
 		// API endpoint: /api/repo/:owner/:repo/summary (GitHub repo summary - fast)
@@ -71,7 +99,7 @@ export default {
 			/^\/api\/repo\/([^/]+)\/([^/]+)\/summary$/,
 		);
 		if (summaryMatch) {
-			const [, owner, repo] = summaryMatch;
+			const [owner, repo] = summaryMatch.slice(1).map(decodeURIComponent);
 			return handleRepoSummaryRequest(
 				env,
 				ctx,
@@ -79,6 +107,7 @@ export default {
 				owner,
 				repo,
 				corsHeaders,
+				host,
 			);
 		}
 
@@ -87,8 +116,59 @@ export default {
 			/^\/api\/repo\/([^/]+)\/([^/]+)\/metadata$/,
 		);
 		if (metadataMatch) {
-			const [, owner, repo] = metadataMatch;
-			return handleMetadataRequest(env, owner, repo, corsHeaders);
+			const [owner, repo] = metadataMatch.slice(1).map(decodeURIComponent);
+			return handleMetadataRequest(
+				env,
+				owner,
+				repo,
+				corsHeaders,
+				host,
+				ref,
+			);
+		}
+
+		// API endpoint: /api/repo/:owner/:repo/tree (file sizes before the oldest cached commit)
+		const treeMatch = url.pathname.match(
+			/^\/api\/repo\/([^/]+)\/([^/]+)\/tree$/,
+		);
+		if (treeMatch) {
+			const [owner, repo] = treeMatch.slice(1).map(decodeURIComponent);
+			return handleBaseTreeRequest(env, owner, repo, corsHeaders, host, ref);
+		}
+
+		// API endpoint: /api/repo/:owner/:repo/snapshot?at=<iso date|sha> (file tree at a point in time)
+		const snapshotMatch = url.pathname.match(
+			/^\/api\/repo\/([^/]+)\/([^/]+)\/snapshot$/,
+		);
+		if (snapshotMatch) {
+			const [owner, repo] = snapshotMatch.slice(1).map(decodeURIComponent);
+			return handleSnapshotRequest(
+				env,
+				owner,
+				repo,
+				url.searchParams.get("at"),
+				corsHeaders,
+				host,
+				ref,
+			);
+		}
+
+		// API endpoint: /api/repo/:owner/:repo/commit/:sha/file?path=<path> (one file's patch)
+		const patchMatch = url.pathname.match(
+			/^\/api\/repo\/([^/]+)\/([^/]+)\/commit\/([0-9a-f]{7,40})\/file$/i,
+		);
+		if (patchMatch) {
+			const [owner, repo] = patchMatch.slice(1, 3).map(decodeURIComponent);
+			return handleFilePatchRequest(
+				env,
+				owner,
+				repo,
+				patchMatch[3],
+				url.searchParams.get("path"),
+				corsHeaders,
+				host,
+				ref,
+			);
 		}
 
 		// API endpoint: /api/repo/:owner/:repo/pr/:number (single PR with files)
@@ -115,8 +195,10 @@ export default {
 			});
 		}
 
-		const [, owner, repo] = match;
-		const fullName = `${owner}/${repo}`;
+		// GitLab subgroups arrive URL-encoded in the owner segment ("group%2Fsubgroup")
+		const [owner, repo] = match.slice(1).map(decodeURIComponent);
+		const fullName = getRepoCacheKey(host, owner, repo, ref);
+		const hostApi = getGitHostApi(host, env);
 
 		// Check for force refresh parameter
 		const forceRefresh = url.searchParams.get("refresh") === "true";
@@ -160,11 +242,14 @@ export default {
 					ctx.waitUntil(
 						updateCommitData(
 							env.DB,
-							tokenRotator.getNextToken(),
+							getHostToken(env, host),
 							owner,
 							repo,
 							cached.lastCommitSha,
 							cached.defaultBranch,
+							hostApi,
+							ref,
+							getImportFetchLimit(env),
 						),
 					);
 				}
@@ -184,12 +269,15 @@ export default {
 			}
 
 			// No cache - fetch synchronously for first request
-			console.log(`No cache for ${fullName}, fetching commits from GitHub`);
+			console.log(`No cache for ${fullName}, fetching commits from ${host}`);
 			const result = await fetchAndCacheCommits(
 				env.DB,
-				tokenRotator.getNextToken(),
+				getHostToken(env, host),
 				owner,
 				repo,
+				hostApi,
+				ref,
+				getImportFetchLimit(env),
 			);
 
 			// Apply pagination
@@ -151,7 +151,7 @@ export const GitHubCommitSchema = z.object({
 	comments_url: z.string().optional(),
 	author: z.any().optional(),
 	committer: z.any().optional(),
-	parents: z.array(z.any()).optional(),
+	parents: z.array(z.object({ sha: z.string() }).passthrough()).optional(),
 });
 
 export type GitHubCommit = z.infer<typeof GitHubCommitSchema>;
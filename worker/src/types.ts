@@ -5,8 +5,14 @@
 export interface Env {
 	DB: D1Database;
 	GITHUB_TOKENS: string; // Comma-separated list of tokens
+	GITLAB_TOKENS?: string; // Comma-separated list of GitLab access tokens
+	GITLAB_URL?: string; // Self-hosted GitLab base URL (defaults to https://gitlab.com)
+	BITBUCKET_TOKENS?: string; // Comma-separated access tokens or "user:app_password" pairs
+	IMPORT_FETCH_LIMIT?: string; // Max file contents fetched per request for dependency edges (default 0 = off)
 }
 
+export type GitHost = "github" | "gitlab" | "bitbucket";
+
 export interface PRFile {
 	filename: string;
 	status: string;
@@ -36,6 +42,8 @@ export interface CommitFile {
 	additions: number;
 	deletions: number;
 	previous_filename?: string;
+	imports?: string[]; // Import specifiers as written in the source (TS/JS, Python, Go)
+	patch?: string; // Unified diff hunks; missing for binary files and very large diffs
 }
 
 export interface Commit {
@@ -47,12 +55,52 @@ export interface Commit {
 			date: string;
 		};
 	};
+	parents?: Array<{ sha: string }>; // First parent first; more than one for merges
 	files?: CommitFile[];
 }
 
+export interface TreeFile {
+	path: string;
+	size: number; // Blob size in bytes
+}
+
+// Snapshot types - file state at a point in time, shaped like the client's FileNode/FileEdge
+export interface SnapshotFile {
+	path: string;
+	size: number;
+	imports?: string[];
+}
+
+export interface SnapshotNode {
+	id: string;
+	path: string;
+	name: string;
+	size: number;
+	type: "file" | "directory";
+	imports?: string[];
+}
+
+export interface SnapshotEdge {
+	source: string;
+	target: string;
+	type: "parent";
+}
+
 export interface CachedCommits {
 	commits: Commit[];
 	lastUpdated: number;
 	lastCommitSha: string | null;
 	defaultBranch: string;
 }
+
+// Patch endpoint response - one file's diff in one commit
+export interface FilePatch {
+	sha: string;
+	path: string;
+	status: string;
+	additions: number;
+	deletions: number;
+	previousPath?: string;
+	patch: string | null; // null when the host sent no diff (binary or too large)
+	truncated: boolean; // Cut to the stored size cap
+}
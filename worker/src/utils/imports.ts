@@ -0,0 +1,126 @@
+/**
+ * Import statement extraction for dependency edges
+ * Specifiers are stored as written in the source; the client resolves them
+ * against the files present at each commit
+ */
+
+import type { Env } from "../types";
+
+const JS_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs|mts|cts)$/;
+
+/**
+ * Read the IMPORT_FETCH_LIMIT setting
+ * Every file read is a subrequest, so this is off unless the plan allows more
+ * than the 50 subrequests the commit fetch already comes close to
+ */
+export function getImportFetchLimit(env: Env): number {
+	const limit = Number.parseInt(env.IMPORT_FETCH_LIMIT || "0", 10);
+	return Number.isNaN(limit) ? 0 : Math.max(limit, 0);
+}
+
+/**
+ * Whether a file is in a language we extract imports from (TS/JS, Python, Go)
+ */
+export function isImportSource(filename: string): boolean {
+	return (
+		JS_EXTENSIONS.test(filename) ||
+		filename.endsWith(".py") ||
+		filename.endsWith(".go")
+	);
+}
+
+/**
+ * Extract the import specifiers from a source file
+ * Returns null for languages we don't parse
+ */
+export function extractImports(
+	filename: string,
+	content: string,
+): string[] | null {
+	let imports: string[];
+	if (JS_EXTENSIONS.test(filename)) {
+		imports = extractJsImports(content);
+	} else if (filename.endsWith(".py")) {
+		imports = extractPythonImports(content);
+	} else if (filename.endsWith(".go")) {
+		imports = extractGoImports(content);
+	} else {
+		return null;
+	}
+
+	return Array.from(new Set(imports));
+}
+
+function extractJsImports(content: string): string[] {
+	const imports: string[] = [];
+	const patterns = [
+		// import x from "y" / import "y" / export { x } from "y"
+		/(?:^|[;\s])(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,$]+\s+from\s+)?["']([^"']+)["']/g,
+		// require("y") / import("y")
+		/(?:require|import)\s*\(\s*["']([^"']+)["']\s*\)/g,
+	];
+
+	for (const pattern of patterns) {
+		for (const match of content.matchAll(pattern)) {
+			imports.push(match[1]);
+		}
+	}
+
+	return imports;
+}
+
+function extractPythonImports(content: string): string[] {
+	const imports: string[] = [];
+
+	for (const rawLine of content.split("\n")) {
+		const line = rawLine.trim();
+
+		// from .pkg import a, b  -> ".pkg"; from . import a, b -> ".a", ".b"
+		const fromMatch = line.match(/^from\s+(\.*[\w.]*)\s+import\s+(.+)$/);
+		if (fromMatch) {
+			const [, module, names] = fromMatch;
+			if (/^\.+$/.test(module)) {
+				for (const name of names.replace(/[()]/g, "").split(",")) {
+					const imported = name.trim().split(/\s+/)[0];
+					if (imported && imported !== "*") {
+						imports.push(`${module}${imported}`);
+					}
+				}
+			} else {
+				imports.push(module);
+			}
+			continue;
+		}
+
+		// import a.b, c as d
+		const importMatch = line.match(/^import\s+(.+)$/);
+		if (importMatch) {
+			for (const name of importMatch[1].split(",")) {
+				const module = name.trim().split(/\s+/)[0];
+				if (module) {
+					imports.push(module);
+				}
+			}
+		}
+	}
+
+	return imports;
+}
+
+function extractGoImports(content: string): string[] {
+	const imports: string[] = [];
+
+	// import "fmt" / import alias "github.com/x/y"
+	for (const match of content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+		imports.push(match[1]);
+	}
+
+	// import ( ... ) blocks
+	for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+		for (const match of block[1].matchAll(/"([^"]+)"/g)) {
+			imports.push(match[1]);
+		}
+	}
+
+	return imports;
+}
@@ -0,0 +1,22 @@
+/**
+ * Size cap for patches stored in D1
+ */
+
+// Longest patch stored per file; D1 rows are limited in size and most
+// readable diffs are far smaller
+export const MAX_PATCH_LENGTH = 64_000;
+
+/**
+ * Cut a patch to the size cap at a line boundary
+ */
+export function capPatch(patch: string): { patch: string; truncated: boolean } {
+	if (patch.length <= MAX_PATCH_LENGTH) {
+		return { patch, truncated: false };
+	}
+
+	const lastNewline = patch.lastIndexOf("\n", MAX_PATCH_LENGTH);
+	return {
+		patch: patch.slice(0, lastNewline > 0 ? lastNewline : MAX_PATCH_LENGTH),
+		truncated: true,
+	};
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { SnapshotFile } from "../types";
+import {
+	applyCommitFiles,
+	buildSnapshotGraph,
+	parseSnapshotTarget,
+} from "./snapshot";
+
+describe("parseSnapshotTarget", () => {
+	it("should parse ISO dates as Unix timestamps", () => {
+		expect(parseSnapshotTarget("2024-01-01T00:00:00Z")).toEqual({
+			timestamp: 1704067200,
+		});
+		expect(parseSnapshotTarget("2024-01-01")).toEqual({ timestamp: 1704067200 });
+	});
+
+	it("should read compact all-digit dates as dates, not SHA prefixes", () => {
+		expect(parseSnapshotTarget("20240101")).toEqual({ timestamp: 1704067200 });
+	});
+
+	it("should parse hex strings as lowercase SHA prefixes", () => {
+		expect(parseSnapshotTarget("ABC1234")).toEqual({ sha: "abc1234" });
+		expect(parseSnapshotTarget("202401010")).toEqual({ sha: "202401010" });
+		expect(parseSnapshotTarget("a".repeat(40))).toEqual({ sha: "a".repeat(40) });
+	});
+
+	it("should reject values that are neither", () => {
+		expect(parseSnapshotTarget("abc")).toBeNull();
+		expect(parseSnapshotTarget("not a date")).toBeNull();
+		expect(parseSnapshotTarget("2024-13-45")).toBeNull();
+	});
+});
+
+describe("applyCommitFiles", () => {
+	it("should apply line deltas, renames and removals", () => {
+		const state = new Map<string, SnapshotFile>([
+			["a.ts", { path: "a.ts", size: 100, imports: ["./b"] }],
+			["old.ts", { path: "old.ts", size: 50 }],
+			["gone.ts", { path: "gone.ts", size: 10 }],
+		]);
+
+		applyCommitFiles(
+			state,
+			[
+				{ filename: "a.ts", status: "modified", additions: 3, deletions: 1 },
+				{
+					filename: "new.ts",
+					status: "renamed",
+					additions: 1,
+					deletions: 0,
+					previous_filename: "old.ts",
+				},
+				{ filename: "gone.ts", status: "removed", additions: 0, deletions: 1 },
+				{ filename: "c.ts", status: "added", additions: 2, deletions: 0 },
+			],
+			10,
+		);
+
+		expect(Array.from(state.values())).toEqual([
+			{ path: "a.ts", size: 120, imports: ["./b"] },
+			{ path: "new.ts", size: 60 },
+			{ path: "c.ts", size: 20 },
+		]);
+	});
+
+	it("should keep files whose estimated size drops to zero or below", () => {
+		const state = new Map<string, SnapshotFile>([
+			["lock.yaml", { path: "lock.yaml", size: 600 }],
+		]);
+
+		applyCommitFiles(
+			state,
+			[{ filename: "lock.yaml", status: "modified", additions: 5, deletions: 40 }],
+			40,
+		);
+
+		expect(state.get("lock.yaml")).toEqual({ path: "lock.yaml", size: 1 });
+	});
+});
+
+describe("buildSnapshotGraph", () => {
+	it("should build directories and parent edges under a virtual root", () => {
+		const { nodes, edges } = buildSnapshotGraph([
+			{ path: "src/index.ts", size: 20 },
+			{ path: "README.md", size: 0 },
+		]);
+
+		expect(nodes.map((node) => [node.id, node.type])).toEqual([
+			["src/index.ts", "file"],
+			["src", "directory"],
+			["README.md", "file"],
+			["/", "directory"],
+		]);
+		expect(edges).toEqual([
+			{ source: "src", target: "src/index.ts", type: "parent" },
+			{ source: "/", target: "src", type: "parent" },
+			{ source: "/", target: "README.md", type: "parent" },
+		]);
+	});
+
+	it("should return an empty graph for an empty tree", () => {
+		expect(buildSnapshotGraph([])).toEqual({ nodes: [], edges: [] });
+	});
+});
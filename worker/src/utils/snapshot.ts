@@ -0,0 +1,148 @@
+/**
+ * File state replay for the snapshot endpoint
+ * Mirrors the client's FileStateTracker and file tree builder so a snapshot
+ * matches what the timeline shows at the same commit
+ */
+
+import type {
+	CommitFile,
+	SnapshotEdge,
+	SnapshotFile,
+	SnapshotNode,
+} from "../types";
+
+// Same estimate the client uses to turn line deltas into bytes on top of a real tree
+export const ESTIMATED_BYTES_PER_LINE = 40;
+
+// Smallest size kept for a file whose estimated size falls to zero or below,
+// as in the client - only a "removed" status means the file is gone
+export const MIN_FILE_SIZE = 1;
+
+// Store a checkpoint of the file state every N commits
+export const CHECKPOINT_INTERVAL = 100;
+
+// Checkpoints larger than this aren't stored (D1 rows are limited in size)
+export const MAX_CHECKPOINT_BYTES = 1_000_000;
+
+/**
+ * Parse the `at` parameter: an ISO date or a commit SHA (or prefix)
+ * Dates are checked first, so a compact date like "20240101" isn't taken for
+ * a SHA prefix (an all-digit prefix needs more than 8 characters).
+ * Dates are returned as Unix timestamps to match commits.committed_at
+ */
+export function parseSnapshotTarget(
+	at: string,
+): { sha: string } | { timestamp: number } | null {
+	const compact = at.match(/^(\d{4})(\d{2})(\d{2})$/);
+	const date = compact
+		? `${compact[1]}-${compact[2]}-${compact[3]}T00:00:00Z`
+		: /^\d{4}-\d{2}-\d{2}/.test(at)
+			? at
+			: null;
+	if (date !== null) {
+		const time = Date.parse(date);
+		return Number.isNaN(time) ? null : { timestamp: Math.floor(time / 1000) };
+	}
+
+	if (/^[0-9a-f]{7,40}$/i.test(at)) {
+		return { sha: at.toLowerCase() };
+	}
+
+	const time = Date.parse(at);
+	if (Number.isNaN(time)) {
+		return null;
+	}
+	return { timestamp: Math.floor(time / 1000) };
+}
+
+/**
+ * Apply one commit's file changes to the file state
+ */
+export function applyCommitFiles(
+	state: Map<string, SnapshotFile>,
+	files: CommitFile[],
+	bytesPerLine: number,
+): void {
+	for (const file of files) {
+		if (file.status === "removed") {
+			state.delete(file.filename);
+			continue;
+		}
+
+		const delta = (file.additions - file.deletions) * bytesPerLine;
+		let current = state.get(file.filename);
+		if (file.status === "renamed" && file.previous_filename) {
+			current = state.get(file.previous_filename);
+			state.delete(file.previous_filename);
+		}
+
+		const next: SnapshotFile = {
+			path: file.filename,
+			size: Math.max(MIN_FILE_SIZE, (current?.size || 0) + delta),
+		};
+		const imports = file.imports ?? current?.imports;
+		if (imports) {
+			next.imports = imports;
+		}
+		state.set(file.filename, next);
+	}
+}
+
+/**
+ * Build file/directory nodes and parent edges anchored on a virtual root
+ * Every file in the state is included, empty ones too, as in the client
+ */
+export function buildSnapshotGraph(files: SnapshotFile[]): {
+	nodes: SnapshotNode[];
+	edges: SnapshotEdge[];
+} {
+	const nodes: SnapshotNode[] = [];
+	const edges: SnapshotEdge[] = [];
+	const directories = new Set<string>();
+
+	for (const file of files) {
+		const node: SnapshotNode = {
+			id: file.path,
+			path: file.path,
+			name: file.path.split("/").pop() || file.path,
+			size: file.size,
+			type: "file",
+		};
+		if (file.imports) {
+			node.imports = file.imports;
+		}
+		nodes.push(node);
+
+		const parts = file.path.split("/");
+		edges.push({
+			source: parts.length > 1 ? parts.slice(0, -1).join("/") : "/",
+			target: file.path,
+			type: "parent",
+		});
+
+		for (let i = 1; i < parts.length; i++) {
+			const dirPath = parts.slice(0, i).join("/");
+			if (directories.has(dirPath)) continue;
+			directories.add(dirPath);
+
+			nodes.push({
+				id: dirPath,
+				path: dirPath,
+				name: parts[i - 1],
+				size: 0,
+				type: "directory",
+			});
+			edges.push({
+				source: i > 1 ? parts.slice(0, i - 1).join("/") : "/",
+				target: dirPath,
+				type: "parent",
+			});
+		}
+	}
+
+	if (nodes.length > 0) {
+		nodes.push({ id: "/", path: "/", name: "root", size: 0, type: "directory" });
+	}
+
+	return { nodes, edges };
+}
@@ -6,15 +6,15 @@ export class TokenRotator {
 	private tokens: string[];
 	private currentIndex = 0;
 
-	constructor(tokensString: string) {
+	constructor(tokensString: string, label = "GitHub") {
 		this.tokens = tokensString
 			.split(",")
 			.map((t) => t.trim())
 			.filter((t) => t.length > 0);
 		if (this.tokens.length === 0) {
-			throw new Error("No GitHub tokens configured");
+			throw new Error(`No ${label} tokens configured`);
 		}
-		console.log(`Initialized with ${this.tokens.length} GitHub token(s)`);
+		console.log(`Initialized with ${this.tokens.length} ${label} token(s)`);
 	}
 
 	getNextToken(): string {